@@ -0,0 +1,260 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import User from '../models/User';
+import Medication from '../models/Medication';
+import ScheduledDose from '../models/ScheduledDose';
+import EmergencyContact from '../models/EmergencyContact';
+import Activity from '../models/Activity';
+import { fhirExportService } from '../services/fhirExportService';
+import { validateFhirBundle } from '../utils/fhirValidationUtils';
+import { FhirBundle } from '../types/fhir.types';
+
+interface ElementDefinition {
+  min: number;
+  max: '1' | '*';
+  type: string[];
+  binding?: string[];            // Required value set
+  targetProfile?: string[];      // Allowed reference targets
+  elements?: Record<string, ElementDefinition>; // Backbone elements defined inline
+}
+
+type ElementDefinitions = Record<string, ElementDefinition>;
+
+interface StructureDefinitions {
+  primitives: Record<string, { json: 'string' | 'number' | 'boolean'; regex?: string }>;
+  complexTypes: Record<string, ElementDefinitions>;
+  profiles: Record<string, string>; // Profiled datatype -> the type it constrains
+  baseDefinitions: Record<string, ElementDefinitions>;
+  resources: Record<string, { baseDefinition: string; elements: ElementDefinitions }>;
+}
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'fhir');
+
+const readFixture = (name: string): any => JSON.parse(fs.readFileSync(path.join(FIXTURES, name), 'utf8'));
+
+// Extract of the R4 (4.0.1) StructureDefinitions, kept locally so the tests run offline
+const definitions: StructureDefinitions = readFixture('r4-structure-definitions.json');
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// JSON property names of a set of elements; choice elements (value[x]) get one per type,
+// named after the base type for profiled ones (doseQuantity for a SimpleQuantity)
+const expandElements = (elements: ElementDefinitions) => {
+  const properties = new Map<string, { name: string; definition: ElementDefinition; type: string }>();
+  for (const [name, definition] of Object.entries(elements)) {
+    if (name.endsWith('[x]')) {
+      definition.type.forEach(type => {
+        const baseType = definitions.profiles[type] || type;
+        properties.set(`${name.slice(0, -3)}${baseType[0].toUpperCase()}${baseType.slice(1)}`, { name, definition, type });
+      });
+    } else {
+      properties.set(name, { name, definition, type: definition.type[0] });
+    }
+  }
+  return properties;
+};
+
+const checkValue = (value: unknown, type: string, definition: ElementDefinition, at: string, errors: string[]): void => {
+  if (type === 'Resource') {
+    checkResource(value, at, errors);
+    return;
+  }
+
+  const primitive = definitions.primitives[type];
+  if (primitive) {
+    if (typeof value !== primitive.json) {
+      errors.push(`${at}: expected a JSON ${primitive.json} for ${type}`);
+    } else if (primitive.regex && !new RegExp(`^(?:${primitive.regex})$`).test(String(value))) {
+      errors.push(`${at}: "${value}" is not a valid ${type}`);
+    } else if (definition.binding && !definition.binding.includes(value as string)) {
+      errors.push(`${at}: "${value}" is not in the required value set`);
+    }
+    return;
+  }
+
+  const elements = definition.elements || definitions.complexTypes[type];
+  if (!elements) {
+    errors.push(`${at}: no definition for type ${type}`);
+    return;
+  }
+  if (!isObject(value)) {
+    errors.push(`${at}: expected a ${type}`);
+    return;
+  }
+  if (Object.keys(value).length === 0) {
+    errors.push(`${at}: ele-1 (elements must have a value or children)`);
+    return;
+  }
+
+  checkElements(value, elements, at, errors);
+
+  if (type === 'Reference' && definition.targetProfile && typeof value.reference === 'string') {
+    const target = value.reference.split('/')[0];
+    if (!definition.targetProfile.includes(target)) {
+      errors.push(`${at}.reference: ${target} is not an allowed target (${definition.targetProfile.join(' | ')})`);
+    }
+  }
+};
+
+const checkElements = (value: Record<string, unknown>, elements: ElementDefinitions, at: string, errors: string[]): void => {
+  const properties = expandElements(elements);
+  const used = new Map<string, string[]>();
+
+  for (const [key, child] of Object.entries(value)) {
+    const property = properties.get(key);
+    if (!property) {
+      errors.push(`${at}.${key}: not defined in R4`);
+      continue;
+    }
+    used.set(property.name, [...(used.get(property.name) || []), key]);
+
+    const childAt = `${at}.${key}`;
+    if (property.definition.max === '*') {
+      if (!Array.isArray(child) || child.length === 0) {
+        errors.push(`${childAt}: expected a non-empty array`);
+        continue;
+      }
+      child.forEach((item, index) => checkValue(item, property.type, property.definition, `${childAt}[${index}]`, errors));
+    } else if (Array.isArray(child)) {
+      errors.push(`${childAt}: max cardinality is 1`);
+    } else {
+      checkValue(child, property.type, property.definition, childAt, errors);
+    }
+  }
+
+  for (const [name, definition] of Object.entries(elements)) {
+    const keys = used.get(name) || [];
+    if (keys.length > 1) errors.push(`${at}: only one of ${keys.join(', ')} is allowed`);
+    if (definition.min > 0 && keys.length === 0) errors.push(`${at}.${name}: min cardinality is ${definition.min}`);
+  }
+};
+
+function checkResource(resource: unknown, at: string, errors: string[]): void {
+  if (!isObject(resource) || typeof resource.resourceType !== 'string') {
+    errors.push(`${at}: expected a resource`);
+    return;
+  }
+
+  const structure = definitions.resources[resource.resourceType];
+  if (!structure) {
+    errors.push(`${at}: no definition for ${resource.resourceType}`);
+    return;
+  }
+
+  const { resourceType, ...elements } = resource;
+  checkElements(elements, { ...definitions.baseDefinitions[structure.baseDefinition], ...structure.elements }, at, errors);
+}
+
+const checkAgainstStructureDefinitions = (resource: unknown): string[] => {
+  const errors: string[] = [];
+  checkResource(resource, 'Bundle', errors);
+  return errors;
+};
+
+const buildFixtureBundle = (options: { includeEmergencyContacts?: boolean } = {}): FhirBundle => {
+  const records = readFixture('patient-records.json');
+  const caregiver = new User(records.caregiver);
+
+  return fhirExportService.assembleBundle(
+    new User(records.user),
+    {
+      // Medications are exported with their caregiver populated
+      medications: records.medications.map((medication: any) => new Medication({ ...medication, caregiver })),
+      doses: records.doses.map((dose: any) => new ScheduledDose(dose)),
+      prnDoses: records.prnDoses.map((activity: any) => new Activity(activity)),
+      emergencyContacts: records.emergencyContacts.map((contact: any) => new EmergencyContact(contact))
+    },
+    { baseUrl: records.baseUrl, now: new Date(records.now), ...options }
+  );
+};
+
+const resourcesOfType = (bundle: FhirBundle, resourceType: string): any[] => {
+  return bundle.entry!.map(entry => entry.resource as any).filter(resource => resource.resourceType === resourceType);
+};
+
+describe('FHIR export', () => {
+  const bundle = buildFixtureBundle();
+
+  it('conforms to the R4 structure definitions', () => {
+    assert.deepEqual(checkAgainstStructureDefinitions(bundle), []);
+  });
+
+  it('passes the export validator', () => {
+    assert.deepEqual(validateFhirBundle(bundle), []);
+  });
+
+  it('includes the patient, emergency contacts and every medication', () => {
+    assert.equal(bundle.type, 'collection');
+    assert.equal(resourcesOfType(bundle, 'Patient').length, 1);
+    assert.equal(resourcesOfType(bundle, 'RelatedPerson').length, 2);
+    assert.equal(resourcesOfType(bundle, 'MedicationRequest').length, 5);
+    assert.equal(resourcesOfType(bundle, 'MedicationStatement').length, 5);
+
+    bundle.entry!.forEach(entry => {
+      const resource = entry.resource as any;
+      assert.equal(entry.fullUrl, `https://api.meditracker.test/api/${resource.resourceType}/${resource.id}`);
+    });
+  });
+
+  it('leaves out emergency contacts the reader may not see', () => {
+    const withoutContacts = buildFixtureBundle({ includeEmergencyContacts: false });
+
+    assert.equal(resourcesOfType(withoutContacts, 'RelatedPerson').length, 0);
+    assert.equal(resourcesOfType(withoutContacts, 'Patient').length, 1);
+    assert.equal(resourcesOfType(withoutContacts, 'MedicationRequest').length, 5);
+    assert.ok(!JSON.stringify(withoutContacts).includes('+15557654321'));
+  });
+
+  it('maps recorded doses to administrations and leaves out doses still due', () => {
+    const administrations = resourcesOfType(bundle, 'MedicationAdministration');
+    const byId = new Map(administrations.map(administration => [administration.id, administration]));
+
+    assert.equal(byId.get('65f000000000000000000301').status, 'completed');
+    assert.equal(byId.get('65f000000000000000000302').status, 'completed');
+    assert.equal(byId.get('65f000000000000000000303').status, 'not-done'); // Window closed before export
+    assert.ok(!byId.has('65f000000000000000000304'));
+    assert.deepEqual(byId.get('65f000000000000000000305').statusReason, [{ text: 'Feeling nauseous' }]);
+    assert.deepEqual(byId.get('65f000000000000000000401').reasonCode, [{ text: 'Knee pain' }]);
+  });
+
+  it('maps medication status, dose plans and as-needed limits', () => {
+    const requests = new Map(resourcesOfType(bundle, 'MedicationRequest').map(request => [request.id, request]));
+    const statements = new Map(resourcesOfType(bundle, 'MedicationStatement').map(statement => [statement.id, statement]));
+
+    assert.deepEqual(requests.get('65f000000000000000000201').requester, { display: 'Daniel Lopez' });
+    assert.equal(requests.get('65f000000000000000000204').status, 'on-hold');
+    assert.equal(requests.get('65f000000000000000000205').status, 'stopped');
+    assert.deepEqual(statements.get('65f000000000000000000205').statusReason, [{ text: 'Rash after day five' }]);
+
+    const taper = requests.get('65f000000000000000000202').dosageInstruction;
+    assert.deepEqual(taper.map((dosage: any) => dosage.sequence), [1, 2, 3]);
+    assert.equal(taper[2].timing.repeat.boundsPeriod.end, undefined);
+
+    const prn = requests.get('65f000000000000000000204').dosageInstruction[0];
+    assert.equal(prn.asNeededBoolean, true);
+    assert.equal(prn.maxDosePerPeriod.numerator.value, 3);
+
+    const weekly = requests.get('65f000000000000000000203').dosageInstruction[0];
+    assert.deepEqual(weekly.timing.repeat.dayOfWeek, ['mon', 'thu']);
+  });
+
+  it('reports resources that break the structure definitions', () => {
+    const broken: any = JSON.parse(JSON.stringify(bundle));
+    const [patient] = resourcesOfType(broken, 'Patient');
+    const [request] = resourcesOfType(broken, 'MedicationRequest');
+    const [administration] = resourcesOfType(broken, 'MedicationAdministration');
+    patient.gender = 'prefer_not_to_say';
+    delete request.status;
+    administration.dosage.dosageUnit = 'mg';
+
+    for (const errors of [checkAgainstStructureDefinitions(broken), validateFhirBundle(broken)]) {
+      assert.ok(errors.some(error => error.includes('.gender')), 'invalid gender code');
+      assert.ok(errors.some(error => error.includes('.status')), 'missing status');
+      assert.ok(errors.some(error => error.includes('.dosageUnit')), 'unknown element');
+    }
+  });
+});
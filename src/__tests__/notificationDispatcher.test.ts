@@ -0,0 +1,159 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import NotificationOutbox, { INotificationOutbox } from '../models/NotificationOutbox';
+import { notificationDispatcher } from '../services/notificationDispatcher';
+import { FakeTransport } from '../services/transports/fakeTransport';
+import {
+  OUTBOX_RETRY_BASE_SECONDS,
+  OUTBOX_RETRY_MAX_MINUTES,
+  OUTBOX_RETENTION_DAYS
+} from '../config/notifications';
+
+const NOW = new Date('2025-03-01T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createEntry = (overrides: Partial<INotificationOutbox> = {}): INotificationOutbox => {
+  const entry = new NotificationOutbox({
+    channel: 'email',
+    to: 'patient@example.com',
+    subject: 'Reminder',
+    text: 'Time for your medication',
+    priority: 'medium',
+    maxAttempts: 3,
+    nextAttemptAt: NOW,
+    ...overrides
+  });
+  mock.method(entry, 'save', async () => entry);
+  return entry;
+};
+
+// Stand-in for the database: claims the entry the way the atomic update would
+const useOutbox = (entry: INotificationOutbox): void => {
+  mock.method(NotificationOutbox, 'findOneAndUpdate', async (filter: any, update: any) => {
+    if (entry.status !== 'pending' || entry.nextAttemptAt > filter.nextAttemptAt.$lte) return null;
+    entry.status = 'sending';
+    entry.lockedAt = update.lockedAt;
+    entry.attempts += 1;
+    return entry;
+  });
+};
+
+describe('Notification dispatcher', () => {
+  let transport: FakeTransport;
+
+  beforeEach(() => {
+    transport = new FakeTransport('email');
+    notificationDispatcher.registerTransport(transport);
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'error', () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('sends a due entry and schedules it for purging', async () => {
+    const entry = createEntry();
+    useOutbox(entry);
+
+    await notificationDispatcher.deliver(entry._id, NOW);
+
+    assert.equal(entry.status, 'sent');
+    assert.equal(entry.attempts, 1);
+    assert.equal(entry.providerMessageId, 'fake-email-1');
+    assert.equal(entry.lockedAt, undefined);
+    assert.equal(entry.purgeAt?.getTime(), NOW.getTime() + OUTBOX_RETENTION_DAYS * DAY_MS);
+    assert.equal(transport.sent.length, 1);
+    assert.equal(transport.sent[0].to, 'patient@example.com');
+  });
+
+  it('does not send an entry that is not due yet', async () => {
+    const entry = createEntry({ nextAttemptAt: new Date(NOW.getTime() + 60000) });
+    useOutbox(entry);
+
+    assert.equal(await notificationDispatcher.deliver(entry._id, NOW), null);
+    assert.equal(transport.sent.length, 0);
+  });
+
+  it('retries a retryable failure after a backoff delay', async () => {
+    const entry = createEntry();
+    useOutbox(entry);
+    transport.failNext(1);
+
+    await notificationDispatcher.deliver(entry._id, NOW);
+
+    assert.equal(entry.status, 'pending');
+    assert.equal(entry.lastError, 'Simulated email failure');
+    assert.equal(entry.purgeAt, undefined);
+    const delay = entry.nextAttemptAt.getTime() - NOW.getTime();
+    assert.ok(delay >= OUTBOX_RETRY_BASE_SECONDS * 1000 && delay <= OUTBOX_RETRY_BASE_SECONDS * 1200, `delay ${delay}`);
+
+    await notificationDispatcher.deliver(entry._id, entry.nextAttemptAt);
+
+    assert.equal(entry.status, 'sent');
+    assert.equal(entry.attempts, 2);
+    assert.equal(entry.lastError, undefined);
+    assert.equal(transport.sent.length, 1);
+  });
+
+  it('fails a non-retryable error straight away', async () => {
+    const entry = createEntry();
+    useOutbox(entry);
+    transport.failNext(1, false);
+
+    await notificationDispatcher.deliver(entry._id, NOW);
+
+    assert.equal(entry.status, 'failed');
+    assert.equal(entry.attempts, 1);
+    assert.ok(entry.purgeAt);
+  });
+
+  it('gives up once the attempts run out', async () => {
+    const entry = createEntry();
+    useOutbox(entry);
+    transport.failNext(3);
+
+    let at = NOW;
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      await notificationDispatcher.deliver(entry._id, at);
+      at = entry.nextAttemptAt;
+    }
+
+    assert.equal(entry.status, 'failed');
+    assert.equal(entry.attempts, 3);
+    assert.equal(transport.sent.length, 0);
+    assert.ok(entry.purgeAt);
+  });
+
+  it('drops a message that expired before it could be sent', async () => {
+    const entry = createEntry({ expiresAt: new Date(NOW.getTime() - 1000) });
+    useOutbox(entry);
+
+    await notificationDispatcher.deliver(entry._id, NOW);
+
+    assert.equal(entry.status, 'failed');
+    assert.equal(entry.lastError, 'Expired before it could be delivered');
+    assert.equal(transport.sent.length, 0);
+  });
+
+  it('does not retry a message that would expire before the next attempt', async () => {
+    const entry = createEntry({ expiresAt: new Date(NOW.getTime() + 10000) });
+    useOutbox(entry);
+    transport.failNext(1);
+
+    await notificationDispatcher.deliver(entry._id, NOW);
+
+    assert.equal(entry.status, 'failed');
+    assert.equal(entry.attempts, 1);
+  });
+
+  it('doubles the retry delay up to the cap', () => {
+    mock.method(Math, 'random', () => 0);
+
+    const base = OUTBOX_RETRY_BASE_SECONDS * 1000;
+    assert.equal(notificationDispatcher.getRetryDelayMs(1), base);
+    assert.equal(notificationDispatcher.getRetryDelayMs(2), base * 2);
+    assert.equal(notificationDispatcher.getRetryDelayMs(3), base * 4);
+    assert.equal(notificationDispatcher.getRetryDelayMs(30), OUTBOX_RETRY_MAX_MINUTES * 60 * 1000);
+  });
+});
@@ -7,6 +7,10 @@ import { globalErrorHandler } from './middleware/errorHandler';
 import caregiverRoutes from './routes/caregiverRoutes';
 import barcodeRoutes from './routes/barcodeRoutes';
 import patientRoutes from './routes/patientRoutes'
+import jobRoutes from './routes/jobRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import eventRoutes from './routes/eventRoutes';
+import publicRoutes from './routes/publicRoutes';
 import './models/MedicationLog';
 
 const app = express();
@@ -57,6 +61,10 @@ app.use('/api/auth', authRoutes);
 app.use('/api/caregiver', caregiverRoutes);
 app.use('/api/patient', patientRoutes);
 app.use('/api/barcode', barcodeRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/events', eventRoutes);
+app.use('/api/public', publicRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -0,0 +1,10 @@
+import { readPositiveNumber } from './env';
+
+// How long a caregiver has to answer a patient's connection request
+export const CONNECTION_REQUEST_TTL_DAYS = readPositiveNumber('CONNECTION_REQUEST_TTL_DAYS', 7);
+
+// Most connection requests a patient may send in a day
+export const CONNECTION_REQUEST_DAILY_LIMIT = readPositiveNumber('CONNECTION_REQUEST_DAILY_LIMIT', 5);
+
+// How long a patient has to confirm a handover to a new caregiver
+export const CARE_HANDOVER_TTL_DAYS = readPositiveNumber('CARE_HANDOVER_TTL_DAYS', 7);
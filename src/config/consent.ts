@@ -0,0 +1,10 @@
+const readNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// How long a caregiver's access lasts when the patient does not choose a time limit (0 for no limit)
+export const CARE_CONSENT_DEFAULT_DAYS = readNumber('CARE_CONSENT_DEFAULT_DAYS', 365);
+
+// Longest time limit a patient may set on a caregiver's access
+export const CARE_CONSENT_MAX_DAYS = readNumber('CARE_CONSENT_MAX_DAYS', 3650);
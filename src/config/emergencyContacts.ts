@@ -0,0 +1,16 @@
+import { readPositiveNumber } from './env';
+
+// How long a verification code sent to an emergency contact stays valid
+export const EMERGENCY_CONTACT_CODE_TTL_MINUTES = readPositiveNumber('EMERGENCY_CONTACT_CODE_TTL_MINUTES', 10);
+
+// Minimum wait before another code can be sent to the same contact
+export const EMERGENCY_CONTACT_CODE_RESEND_SECONDS = readPositiveNumber('EMERGENCY_CONTACT_CODE_RESEND_SECONDS', 60);
+
+// Wrong codes allowed before a new one has to be requested
+export const EMERGENCY_CONTACT_CODE_MAX_ATTEMPTS = readPositiveNumber('EMERGENCY_CONTACT_CODE_MAX_ATTEMPTS', 5);
+
+// Consecutive missed doses that trigger an alert to emergency contacts
+export const MISSED_DOSE_CONTACT_ALERT_THRESHOLD = readPositiveNumber('MISSED_DOSE_CONTACT_ALERT_THRESHOLD', 3);
+
+// At most one missed-dose alert per contact in this period
+export const MISSED_DOSE_CONTACT_ALERT_COOLDOWN_HOURS = readPositiveNumber('MISSED_DOSE_CONTACT_ALERT_COOLDOWN_HOURS', 24);
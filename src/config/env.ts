@@ -0,0 +1,9 @@
+/**
+ * Numeric setting from the environment. Anything missing, malformed, zero or
+ * negative falls back to the default, so a typo can never turn an interval
+ * or a time limit off.
+ */
+export const readPositiveNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
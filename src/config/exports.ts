@@ -0,0 +1,12 @@
+import path from 'path';
+import { JWT_SECRET } from './jwt';
+import { readPositiveNumber } from './env';
+
+// Where generated health-data exports are written
+export const EXPORT_STORAGE_DIR = process.env.EXPORT_STORAGE_DIR || path.join(process.cwd(), 'exports');
+
+// How long a download link (and the file behind it) stays valid
+export const EXPORT_LINK_TTL_MINUTES = readPositiveNumber('EXPORT_LINK_TTL_MINUTES', 60);
+
+// Secret used to sign download links
+export const EXPORT_SIGNING_SECRET = process.env.EXPORT_SIGNING_SECRET || JWT_SECRET;
@@ -0,0 +1,42 @@
+import { readPositiveNumber } from './env';
+
+// How often the missed-dose detector runs
+export const MISSED_DOSE_CHECK_INTERVAL_MINUTES = readPositiveNumber('MISSED_DOSE_CHECK_INTERVAL_MINUTES', 5);
+
+// How often medications are checked for courses that have ended
+export const COURSE_COMPLETION_CHECK_INTERVAL_MINUTES = readPositiveNumber('COURSE_COMPLETION_CHECK_INTERVAL_MINUTES', 60);
+
+// How often paused medications are checked for a scheduled resume
+export const MEDICATION_RESUME_CHECK_INTERVAL_MINUTES = readPositiveNumber('MEDICATION_RESUME_CHECK_INTERVAL_MINUTES', 5);
+
+// How often due dose reminders are sent
+export const DOSE_REMINDER_CHECK_INTERVAL_MINUTES = readPositiveNumber('DOSE_REMINDER_CHECK_INTERVAL_MINUTES', 1);
+
+// How often unacknowledged SOS alerts are checked for escalation
+export const SOS_ESCALATION_CHECK_INTERVAL_MINUTES = readPositiveNumber('SOS_ESCALATION_CHECK_INTERVAL_MINUTES', 1);
+
+// How often the notification outbox is checked for messages to send or retry
+export const NOTIFICATION_OUTBOX_INTERVAL_MINUTES = readPositiveNumber('NOTIFICATION_OUTBOX_INTERVAL_MINUTES', 1);
+
+// How often expired health-data exports are deleted
+export const EXPORT_CLEANUP_INTERVAL_MINUTES = readPositiveNumber('EXPORT_CLEANUP_INTERVAL_MINUTES', 15);
+
+// How often unanswered caregiver connection requests are expired
+export const CONNECTION_REQUEST_EXPIRY_INTERVAL_MINUTES = readPositiveNumber('CONNECTION_REQUEST_EXPIRY_INTERVAL_MINUTES', 60);
+
+// How often caregiver access past its time limit is expired
+export const CARE_CONSENT_EXPIRY_INTERVAL_MINUTES = readPositiveNumber('CARE_CONSENT_EXPIRY_INTERVAL_MINUTES', 60);
+
+// Default grace period after a dose window closes before it is reported as missed
+export const MISSED_DOSE_GRACE_MINUTES = readPositiveNumber('MISSED_DOSE_GRACE_MINUTES', 30);
+
+// Doses whose window closed longer ago than this are marked missed without notifying anyone
+export const MISSED_DOSE_LOOKBACK_HOURS = readPositiveNumber('MISSED_DOSE_LOOKBACK_HOURS', 24);
+
+/**
+ * Grace period for a timing relation, e.g. MISSED_DOSE_GRACE_MINUTES_EMPTY_STOMACH=15
+ */
+export const getMissedDoseGraceMinutes = (timingRelation?: string): number => {
+  if (!timingRelation) return MISSED_DOSE_GRACE_MINUTES;
+  return readPositiveNumber(`MISSED_DOSE_GRACE_MINUTES_${timingRelation.toUpperCase()}`, MISSED_DOSE_GRACE_MINUTES);
+};
@@ -0,0 +1,46 @@
+import { readPositiveNumber } from './env';
+
+// 'fake' swaps every channel for an in-memory transport (local development and tests)
+export const NOTIFICATION_TRANSPORT = process.env.NOTIFICATION_TRANSPORT === 'fake' ? 'fake' : 'live';
+
+// Delivery attempts per outbox entry before it is marked failed
+export const OUTBOX_MAX_ATTEMPTS = readPositiveNumber('OUTBOX_MAX_ATTEMPTS', 6);
+
+// First retry delay; each further retry doubles it, up to OUTBOX_RETRY_MAX_MINUTES
+export const OUTBOX_RETRY_BASE_SECONDS = readPositiveNumber('OUTBOX_RETRY_BASE_SECONDS', 30);
+export const OUTBOX_RETRY_MAX_MINUTES = readPositiveNumber('OUTBOX_RETRY_MAX_MINUTES', 60);
+
+// Delivery attempts for one-time codes, which are useless once they arrive late
+export const OUTBOX_CODE_MAX_ATTEMPTS = readPositiveNumber('OUTBOX_CODE_MAX_ATTEMPTS', 3);
+
+// Sent and failed entries, message bodies included, are deleted after this many days
+export const OUTBOX_RETENTION_DAYS = readPositiveNumber('OUTBOX_RETENTION_DAYS', 7);
+
+// Entries stuck in 'sending' longer than this (e.g. after a crash) are retried
+export const OUTBOX_SENDING_TIMEOUT_MINUTES = readPositiveNumber('OUTBOX_SENDING_TIMEOUT_MINUTES', 5);
+
+// Timeout for a single call to an SMS, push or webhook provider
+export const TRANSPORT_TIMEOUT_MS = readPositiveNumber('NOTIFICATION_TRANSPORT_TIMEOUT_MS', 10000);
+
+// SMS provider (Twilio-compatible Messages API)
+export const SMS_API_BASE_URL = process.env.SMS_API_BASE_URL || 'https://api.twilio.com';
+export const SMS_ACCOUNT_SID = process.env.SMS_ACCOUNT_SID || '';
+export const SMS_AUTH_TOKEN = process.env.SMS_AUTH_TOKEN || '';
+export const SMS_FROM_NUMBER = process.env.SMS_FROM_NUMBER || '';
+
+// Web push (VAPID keys are base64url, as generated by `web-push generate-vapid-keys`)
+export const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY || '';
+export const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY || '';
+export const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:support@meditracker.app';
+
+// Push services browsers subscribe through; subscriptions pointing anywhere else are refused
+// (a host also allows its subdomains)
+export const PUSH_SERVICE_HOSTS = (process.env.PUSH_SERVICE_HOSTS
+  || 'fcm.googleapis.com,android.googleapis.com,push.services.mozilla.com,notify.windows.com,push.apple.com')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Optional webhook that receives a copy of every user notification
+export const NOTIFICATION_WEBHOOK_URL = process.env.NOTIFICATION_WEBHOOK_URL || '';
+export const NOTIFICATION_WEBHOOK_SECRET = process.env.NOTIFICATION_WEBHOOK_SECRET || '';
@@ -0,0 +1,21 @@
+import { readPositiveNumber } from './env';
+
+const readMinuteList = (name: string, fallback: number[]): number[] => {
+  const values = (process.env[name] || '')
+    .split(',')
+    .filter(value => value.trim() !== '')
+    .map(Number);
+  return values.length > 0 && values.every(value => Number.isInteger(value) && value >= 0) ? values : fallback;
+};
+
+// Minutes before a dose is due that reminders go out (0 = at the due time), e.g. DOSE_REMINDER_LEAD_MINUTES=30,10,0
+export const DOSE_REMINDER_LEAD_MINUTES = readMinuteList('DOSE_REMINDER_LEAD_MINUTES', [15, 0]);
+
+// Longest lead time a user may choose
+export const MAX_REMINDER_LEAD_MINUTES = 240;
+
+// Snooze length used when the patient does not pick one
+export const DOSE_SNOOZE_DEFAULT_MINUTES = readPositiveNumber('DOSE_SNOOZE_DEFAULT_MINUTES', 10);
+
+// How many times a single dose may be snoozed
+export const DOSE_SNOOZE_MAX_COUNT = readPositiveNumber('DOSE_SNOOZE_MAX_COUNT', 3);
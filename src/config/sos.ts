@@ -0,0 +1,17 @@
+import { JWT_SECRET } from './jwt';
+import { readPositiveNumber } from './env';
+
+// How long an SOS alert may go unacknowledged before the next person in the chain is alerted
+export const SOS_ESCALATION_MINUTES = readPositiveNumber('SOS_ESCALATION_MINUTES', 5);
+
+// Caregiver account of an on-call organisation that takes alerts from patients with no caregiver (optional)
+export const SOS_ON_CALL_EMAIL = (process.env.SOS_ON_CALL_EMAIL || '').trim().toLowerCase();
+
+// How long the status page link texted to an emergency contact stays valid
+export const SOS_STATUS_LINK_TTL_HOURS = readPositiveNumber('SOS_STATUS_LINK_TTL_HOURS', 24);
+
+// Secret used to sign status page links
+export const SOS_STATUS_LINK_SECRET = process.env.SOS_STATUS_LINK_SECRET || JWT_SECRET;
+
+// Public address of this API, used to build links sent outside the app
+export const PUBLIC_BASE_URL = (process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/+$/, '');
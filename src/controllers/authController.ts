@@ -103,6 +103,7 @@ export const signupUser = async (req: Request, res: Response) => {
       age: signupData.age,
       gender: signupData.gender,
       phoneNumber: signupData.phoneNumber,
+      timezone: signupData.timezone,
       otp,
       otpExpires,
       isEmailVerified: false
@@ -384,7 +385,7 @@ export const logoutUser = async (req: AuthRequest, res: Response) => {
 // Update user profile
 export const updateProfile = async (req: AuthRequest, res: Response) => {
   try {
-    const allowedUpdates = ['name', 'age', 'gender', 'phoneNumber'];
+    const allowedUpdates = ['name', 'age', 'gender', 'phoneNumber', 'timezone'];
     const updates = Object.keys(req.body);
     const isValidOperation = updates.every(update => allowedUpdates.includes(update));
 
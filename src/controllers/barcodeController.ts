@@ -3,8 +3,12 @@ import Medication from '../models/Medication';
 import MealTime from '../models/MealTime';
 import Activity from '../models/Activity'
 import { parseMedicationBarcodeData, canTakeMedicationNow } from '../utils/barcodeUtils';
-import { validateMedicationTiming } from '../utils/medicationTimingUtils';
-import { getCurrentIST, convertUTCToIST } from '../utils/timezoneUtils';
+import { validateMedicationTiming, evaluatePRNDose, isPRNMedication, PRNDoseCheck, DEFAULT_MEAL_TIMES } from '../utils/medicationTimingUtils';
+import User from '../models/User';
+import { resolveTimezone, getLocalDateKey } from '../utils/timezoneUtils';
+import { getDoseForDay } from '../utils/dosePlanUtils';
+import { doseScheduleService } from '../services/doseScheduleService';
+import { medicationChangeService } from '../services/medicationChangeService';
 
 interface AuthRequest extends Request {
   user?: any;
@@ -21,10 +25,22 @@ export const checkMedicationTimingWindow = async (
   timeUntilNextWindow: string | null;
 }> => {
   try {
+    // As-needed medications are not tied to meals or clock times
+    if (isPRNMedication(medication)) {
+      return {
+        canTake: true,
+        reason: 'As-needed medication - take when required',
+        currentWindows: [],
+        nextWindow: null,
+        timeUntilNextWindow: null
+      };
+    }
+
     // Get patient's meal times
     const mealTimes = await MealTime.find({ patient: patientUserId }).sort({ mealId: 1 });
     
-    if (mealTimes.length === 0) {
+    // Clock-time and weekly schedules do not depend on meal times
+    if (mealTimes.length === 0 && !medication.schedule?.type) {
       // No meal times set - use default validation
       return {
         canTake: true,
@@ -36,17 +52,16 @@ export const checkMedicationTimingWindow = async (
     }
 
     // Convert to meal times object
-    const mealTimesObj: any = {};
+    const mealTimesObj: any = { ...DEFAULT_MEAL_TIMES };
     mealTimes.forEach(meal => {
       mealTimesObj[meal.mealId] = meal.time;
     });
 
-    // Use the timing validation function (you'll need to import this)
-    const validation = validateMedicationTiming(
-      medication.frequency,
-      medication.timingRelation,
-      mealTimesObj
-    );
+    // Validate against the patient's local time
+    const patientUser = await User.findById(patientUserId).select('timezone');
+    const validation = validateMedicationTiming(medication, mealTimesObj, {
+      timezone: resolveTimezone(patientUser?.timezone)
+    });
 
     return validation;
 
@@ -63,6 +78,22 @@ export const checkMedicationTimingWindow = async (
   }
 };
 
+// Check an as-needed dose against the doses logged in the last 24 hours
+export const checkPRNDoseLimits = async (
+  medication: any,
+  patientUserId: string,
+  now: Date = new Date()
+): Promise<PRNDoseCheck> => {
+  const recentDoses = await Activity.find({
+    patient: patientUserId,
+    medication: medication._id,
+    type: 'dose_taken',
+    createdAt: { $gt: new Date(now.getTime() - 24 * 60 * 60 * 1000) }
+  }).select('createdAt');
+
+  return evaluatePRNDose(medication.prn, recentDoses.map(dose => dose.createdAt), now);
+};
+
 export const scanBarcode = async (req: AuthRequest, res: Response) => {
   try {
     const { barcodeData } = req.params;
@@ -71,7 +102,7 @@ export const scanBarcode = async (req: AuthRequest, res: Response) => {
     const parsedData = parseMedicationBarcodeData(barcodeData);
     
     const medication = await Medication.findOne({ barcodeData: parsedData.barcodeData })
-      .populate('patient', 'name email') 
+      .populate('patient', 'name email timezone') 
       .populate('caregiver', 'name email'); 
 
     if (!medication) {
@@ -89,22 +120,35 @@ export const scanBarcode = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Dose plans change the dose from day to day
+    const timezone = resolveTimezone(patientUser.timezone);
+    const todaysDose = getDoseForDay(medication, getLocalDateKey(new Date(), timezone), timezone);
+
     const lastDoseActivity = await Activity.findOne({
       patient: patientUser._id, 
       medication: medication._id,
       type: 'dose_taken'
     }).sort({ createdAt: -1 });
 
-    const actualLastTaken = lastDoseActivity ? convertUTCToIST(lastDoseActivity.createdAt) : null;
+    const actualLastTaken = lastDoseActivity ? lastDoseActivity.createdAt : null;
     
     // Check basic dose timing (prevent double dosing)
-    const basicDoseCheck = canTakeMedicationNow(actualLastTaken, medication.frequency);
+    const prnCheck = isPRNMedication(medication)
+      ? await checkPRNDoseLimits(medication, patientUser._id)
+      : null;
+    const basicDoseCheck = prnCheck || canTakeMedicationNow(
+      actualLastTaken,
+      medication,
+      await doseScheduleService.getMealTimes(patientUser._id),
+      new Date(),
+      timezone
+    );
     
     // Check meal timing windows
     const timingWindowCheck = await checkMedicationTimingWindow(medication, patientUser._id);
     
     const daysLeft = Math.floor(medication.remainingQuantity / medication.frequency);
-    const isExpired = new Date(medication.expiryDate) <= getCurrentIST();
+    const isExpired = new Date(medication.expiryDate) <= new Date();
 
     // Final decision: Must pass both checks
     const finalCanTake = basicDoseCheck.canTake && 
@@ -116,7 +160,7 @@ export const scanBarcode = async (req: AuthRequest, res: Response) => {
     // Determine reason for blocking
     let blockReason = '';
     if (!basicDoseCheck.canTake) {
-      blockReason = 'Too soon for next dose';
+      blockReason = prnCheck ? prnCheck.reason : 'Too soon for next dose';
     } else if (!timingWindowCheck.canTake) {
       blockReason = timingWindowCheck.reason;
     } else if (isExpired) {
@@ -133,10 +177,14 @@ export const scanBarcode = async (req: AuthRequest, res: Response) => {
       medication: {
         id: medication._id,
         name: medication.name,
-        dosage: medication.dosage,
-        dosageUnit: medication.dosageUnit,
+        dosage: todaysDose.dosage,
+        dosageUnit: todaysDose.dosageUnit,
+        dosePhase: todaysDose.phase,
         frequency: medication.frequency,
         timingRelation: medication.timingRelation,
+        schedule: medication.schedule,
+        isPRN: medication.isPRN,
+        prn: medication.prn,
         instructions: medication.instructions || 'Take as directed',
         lastTaken: actualLastTaken,
         daysLeft: Math.max(0, daysLeft),
@@ -170,7 +218,15 @@ export const scanBarcode = async (req: AuthRequest, res: Response) => {
         nextWindow: timingWindowCheck.nextWindow,
         timeUntilNextWindow: timingWindowCheck.timeUntilNextWindow,
         
-        recommendedTiming: getTimingRecommendation(medication.timingRelation)
+        recommendedTiming: getTimingRecommendation(medication.timingRelation),
+
+        // As-needed limits
+        prnUsage: prnCheck ? {
+          dosesLast24h: prnCheck.dosesLast24h,
+          maxDosesPer24h: prnCheck.maxDosesPer24h,
+          remainingDoses: prnCheck.remainingDoses,
+          reasonRequired: medication.prn?.requireReason || false
+        } : null
       }
     };
 
@@ -191,11 +247,11 @@ export const scanBarcode = async (req: AuthRequest, res: Response) => {
 export const recordMedicationViaBarcode = async (req: AuthRequest, res: Response) => {
   try {
     const { medicationId } = req.params;
-    const { notes, takenAt } = req.body;
+    const { notes, takenAt, reason } = req.body;
     const userEmail = req.user.email;
 
     const medication = await Medication.findById(medicationId)
-      .populate('patient', 'name email'); // This now points to User model
+      .populate('patient', 'name email timezone'); // This now points to User model
 
     if (!medication) {
       return res.status(404).json({
@@ -212,18 +268,63 @@ export const recordMedicationViaBarcode = async (req: AuthRequest, res: Response
       });
     }
 
-    const takenTime = takenAt ? convertUTCToIST(new Date(takenAt)) : getCurrentIST();
+    const takenTime = takenAt ? new Date(takenAt) : new Date();
+    const isPRN = isPRNMedication(medication);
+    const timezone = resolveTimezone(patientUser.timezone);
+
+    // Paused, finished and removed medications cannot be logged
+    if (medication.status !== 'active') {
+      return res.status(409).json({
+        success: false,
+        message: medication.status === 'archived'
+          ? 'This medication has been removed by your caregiver'
+          : medicationChangeService.describePause(medication, timezone) || 'This medication is no longer active',
+        data: { status: medication.status }
+      });
+    }
+    const doseTaken = getDoseForDay(medication, getLocalDateKey(takenTime, timezone), timezone);
+
+    if (isPRN) {
+      if (medication.prn?.requireReason && !reason?.trim()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Please provide a reason for taking this as-needed medication'
+        });
+      }
+
+      const prnCheck = await checkPRNDoseLimits(medication, patientUser._id, takenTime);
+      if (!prnCheck.canTake) {
+        return res.status(400).json({
+          success: false,
+          message: prnCheck.reason,
+          data: {
+            nextDoseTime: prnCheck.nextDoseTime,
+            hoursRemaining: prnCheck.hoursRemaining,
+            dosesLast24h: prnCheck.dosesLast24h,
+            maxDosesPer24h: prnCheck.maxDosesPer24h
+          }
+        });
+      }
+    }
     
     medication.lastTaken = takenTime;
     medication.remainingQuantity = Math.max(0, medication.remainingQuantity - 1);
     
     if (medication.remainingQuantity === 0) {
       medication.status = 'completed';
+      medication.completedAt = takenTime;
+      medication.completionReason = 'quantity_exhausted';
     }
 
     await medication.save();
 
-    await Activity.create({
+    // Attach the dose to its scheduled slot (as-needed doses have none)
+    const scheduledDose = isPRN ? null : await doseScheduleService.attachDose(medication, takenTime, {
+      method: 'barcode_scan',
+      notes
+    });
+
+    const doseActivity = await Activity.create({
       type: 'dose_taken',
       patient: patientUser._id, // This is now User._id
       caregiver: medication.caregiver,
@@ -231,10 +332,23 @@ export const recordMedicationViaBarcode = async (req: AuthRequest, res: Response
       message: `${patientUser.name} took ${medication.name}`,
       priority: 'low',
       metadata: {
-        doseTaken: takenTime
+        doseTaken: takenTime,
+        method: 'barcode_scan',
+        notes,
+        dosage: `${doseTaken.dosage} ${doseTaken.dosageUnit}`,
+        dosePhase: doseTaken.phase?.phaseIndex,
+        scheduledDose: scheduledDose?._id,
+        doseStatus: scheduledDose?.status,
+        isPRN,
+        prnReason: isPRN ? reason?.trim() : undefined
       }
     });
 
+    if (scheduledDose) {
+      scheduledDose.activity = doseActivity._id;
+      await scheduledDose.save();
+    }
+
     const remainingDays = medication.remainingQuantity > 0 
       ? Math.floor(medication.remainingQuantity / medication.frequency)
       : 0;
@@ -245,10 +359,17 @@ export const recordMedicationViaBarcode = async (req: AuthRequest, res: Response
       data: {
         medicationId: medication._id,
         medicationName: medication.name,
-        dosage: `${medication.dosage}${medication.dosageUnit}`,
+        dosage: `${doseTaken.dosage}${doseTaken.dosageUnit}`,
+        dosePhase: doseTaken.phase,
         takenAt: takenTime,
         remainingQuantity: medication.remainingQuantity,
-        remainingDays
+        remainingDays,
+        isPRN,
+        scheduledDose: scheduledDose ? {
+          id: scheduledDose._id,
+          scheduledFor: scheduledDose.scheduledFor,
+          status: scheduledDose.status
+        } : null
       }
     });
 
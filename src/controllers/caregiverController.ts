@@ -7,9 +7,30 @@ import mongoose from 'mongoose';
 import { generateOTP, generateOTPExpiry, isOTPExpired } from '../utils/otpUtils';
 import { emailService } from '../services/emailService';
 import { generateShortBarcodeData } from '../utils/barcodeUtils';
+import { describeSchedule, isPRNMedication } from '../utils/medicationTimingUtils';
+import { resolveDosePhase, getUpcomingPhaseTransitions } from '../utils/dosePlanUtils';
 import EmergencyContact from '../models/EmergencyContact';
-import { getTodayStartIST, getTodayEndIST } from '../utils/timezoneUtils';
+import { getTodayBounds, getLocalDateKey, getLocalDayBounds, addDaysToDateKey, formatLocalTime, resolveTimezone } from '../utils/timezoneUtils';
+import { doseScheduleService } from '../services/doseScheduleService';
+import { medicationChangeService, EDITABLE_MEDICATION_FIELDS } from '../services/medicationChangeService';
 import MedicationLog from '../models/MedicationLog';
+import { fhirExportService } from '../services/fhirExportService';
+import { medicationImportService, MAX_IMPORT_ROWS } from '../services/medicationImportService';
+import { notificationPreferenceService } from '../services/notificationPreferenceService';
+import { sosIncidentService } from '../services/sosIncidentService';
+import SosIncident, { OPEN_SOS_STATUSES } from '../models/SosIncident';
+import { connectionRequestService } from '../services/connectionRequestService';
+import ConnectionRequest from '../models/ConnectionRequest';
+import { careTeamService, CarePermission } from '../services/careTeamService';
+import { careConsentService, ConsentAccess } from '../services/careConsentService';
+import CareConsent, { ConsentScope } from '../models/CareConsent';
+import { IPatient, CareRole, PATIENT_ACCOUNT_FIELDS } from '../models/Patient';
+import { careHandoverService } from '../services/careHandoverService';
+import { patientProfileService } from '../services/patientProfileService';
+import CareHandover from '../models/CareHandover';
+import { checkPRNDoseLimits } from './barcodeController';
+import { canTakeMedicationNow } from '../utils/barcodeUtils';
+import { getDoseForDay } from '../utils/dosePlanUtils';
 
 interface AuthRequest extends Request {
   user?: any;
@@ -19,6 +40,8 @@ interface AuthRequest extends Request {
 export const getDashboardStats = async (req: AuthRequest, res: Response) => {
   try {
     const caregiverId = req.user._id;
+    const hidden = await careConsentService.getHiddenActivityConditions(caregiverId);
+    const consented = hidden.length > 0 ? { $nor: hidden } : {};
 
     // Get all stats in parallel
     const [
@@ -27,14 +50,15 @@ export const getDashboardStats = async (req: AuthRequest, res: Response) => {
       criticalAlerts,
       recentActivities
     ] = await Promise.all([
-      Patient.countDocuments({ caregiver: caregiverId }),
+      Patient.countDocuments({ caregiver: caregiverId, patient: { $exists: true } }),
       Medication.countDocuments({ caregiver: caregiverId, status: 'active' }),
       Activity.countDocuments({ 
         caregiver: caregiverId, 
         priority: 'critical', 
-        isRead: false 
+        isRead: false,
+        ...consented
       }),
-      Activity.find({ caregiver: caregiverId })
+      Activity.find({ caregiver: caregiverId, type: { $ne: 'dose_reminder' }, ...consented })
         .populate('patient', 'name')
         .populate('medication', 'name')
         .sort({ createdAt: -1 })
@@ -42,8 +66,7 @@ export const getDashboardStats = async (req: AuthRequest, res: Response) => {
     ]);
 
     // Get today's reminders (medications that need to be taken today)
-    const today = getTodayStartIST();
-    const tomorrow = getTodayEndIST();
+    const { start: today, end: tomorrow } = getTodayBounds(resolveTimezone(req.user.timezone));
 
     const todayReminders = await Medication.countDocuments({
       caregiver: caregiverId,
@@ -85,53 +108,54 @@ export const getPatients = async (req: AuthRequest, res: Response) => {
     const caregiverId = req.user._id;
     const { search, status, sortBy = 'name', sortOrder = 'asc' } = req.query;
 
-    // Build filter query
-    const filter: any = { caregiver: caregiverId };
-    
-    if (search) {
-      filter.$text = { $search: search as string };
-    }
+    // Build filter query; records the link migration could not match to an account are left out
+    const filter: any = { caregiver: caregiverId, patient: { $exists: true } };
     
     if (status && status !== 'all') {
       filter.status = status;
     }
 
-    // Build sort object
+    // Profile fields live on the patient's account, so they are sorted on there
+    const accountFields = ['name', 'email', 'age', 'gender'];
     const sort: any = {};
-    sort[sortBy as string] = sortOrder === 'desc' ? -1 : 1;
+    sort[accountFields.includes(sortBy as string) ? `patientUser.${sortBy}` : sortBy as string] = sortOrder === 'desc' ? -1 : 1;
 
-    // Get patients with medication count - FIX THE LOOKUP
+    // Get patients with medication count
     const patients = await Patient.aggregate([
       { $match: filter },
       {
-        // First lookup to get the User document for each patient
+        // The patient's account holds their profile
         $lookup: {
           from: 'users',
-          let: { patientEmail: '$email' },
+          let: { patientUserId: '$patient' },
           pipeline: [
-            {
-              $match: {
-                $expr: {
-                  $and: [
-                    { $eq: ['$email', '$$patientEmail'] },
-                    { $eq: ['$role', 'patient'] }
-                  ]
-                }
-              }
-            }
+            { $match: { $expr: { $eq: ['$_id', '$$patientUserId'] } } },
+            { $project: { name: 1, email: 1, age: 1, gender: 1, phoneNumber: 1 } }
           ],
           as: 'patientUser'
         }
       },
+      { $unwind: '$patientUser' },
+      ...(search
+        ? [{
+            $match: {
+              $or: [
+                { 'patientUser.name': { $regex: search as string, $options: 'i' } },
+                { 'patientUser.email': { $regex: search as string, $options: 'i' } }
+              ]
+            }
+          }]
+        : []),
       {
         // Then lookup medications using the User ID
         $lookup: {
           from: 'medications',
-          let: { patientUserId: { $arrayElemAt: ['$patientUser._id', 0] } },
+          let: { patientUserId: '$patientUser._id' },
           pipeline: [
             {
               $match: {
-                $expr: { $eq: ['$patient', '$$patientUserId'] }
+                $expr: { $eq: ['$patient', '$$patientUserId'] },
+                status: { $ne: 'archived' } // Removed medications don't count towards the list figures
               }
             }
           ],
@@ -142,7 +166,7 @@ export const getPatients = async (req: AuthRequest, res: Response) => {
         // Lookup activities using the User ID
         $lookup: {
           from: 'activities',
-          let: { patientUserId: { $arrayElemAt: ['$patientUser._id', 0] } },
+          let: { patientUserId: '$patientUser._id' },
           pipeline: [
             {
               $match: {
@@ -182,28 +206,37 @@ export const getPatients = async (req: AuthRequest, res: Response) => {
       },
       {
         $project: {
-          medications: 0,
-          patientUser: 0 // Remove the user lookup data from final result
+          medications: 0
         }
       },
       { $sort: sort }
     ]);
 
+    // Patients who revoked access stay listed so the caregiver can see why they are locked out
+    const consents = await CareConsent.find({ patientRecord: { $in: patients.map(patient => patient._id) } });
+    const consentByRecord = new Map(consents.map(consent => [consent.patientRecord.toString(), consent]));
+
     res.status(200).json({
       success: true,
-      data: patients.map(patient => ({
-        id: patient._id,
-        name: patient.name,
-        email: patient.email,
-        age: patient.age,
-        gender: patient.gender,
-        phoneNumber: patient.phoneNumber,
-        medicationsCount: patient.medicationsCount,
-        adherenceRate: Math.round(patient.adherenceRate),
-        lastActivity: patient.lastActivity,
-        status: patient.status,
-        alerts: patient.alerts
-      }))
+      data: patients.map(patient => {
+        const consent = careConsentService.getAccess(consentByRecord.get(patient._id.toString()) || null);
+        return {
+          id: patient._id,
+          name: patient.patientUser.name,
+          email: patient.patientUser.email,
+          age: patient.patientUser.age,
+          gender: patient.patientUser.gender,
+          phoneNumber: patient.patientUser.phoneNumber,
+          medicationsCount: careConsentService.allows(consent, 'medications') ? patient.medicationsCount : null,
+          adherenceRate: careConsentService.allows(consent, 'dose_history') ? Math.round(patient.adherenceRate) : null,
+          lastActivity: patient.lastActivity,
+          status: patient.status,
+          alerts: careConsentService.allows(consent) ? patient.alerts : 0,
+          careRole: patient.careRole || 'primary',
+          permissions: careTeamService.getPermissions(patient.careRole),
+          consent
+        };
+      })
     });
 
   } catch (error) {
@@ -215,6 +248,16 @@ export const getPatients = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Caregivers used to create patient records themselves. Patients now have their own
+// accounts, which a caregiver joins with the patient's approval (an emailed code or the
+// patient's connection request), so the old endpoint tells clients where to go instead.
+export const addPatient = async (req: AuthRequest, res: Response) => {
+  res.status(410).json({
+    success: false,
+    message: 'Adding patient records directly is no longer supported. Find the patient with GET /api/caregiver/patients/search, then send them a code with POST /api/caregiver/patients/send-otp and confirm it with POST /api/caregiver/patients/verify-otp.'
+  });
+};
+
 // getPatientDetails function:
 export const getPatientDetails = async (req: AuthRequest, res: Response) => {
   try {
@@ -242,11 +285,7 @@ export const getPatientDetails = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Find the actual User document for this patient
-    const patientUser = await User.findOne({
-      email: patientRecord.email,
-      role: 'patient'
-    });
+    const patientUser = await User.findById(patientRecord.patient);
 
     if (!patientUser) {
       return res.status(404).json({
@@ -255,41 +294,85 @@ export const getPatientDetails = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Get patient medications using the correct User ID
-    const medications = await Medication.find({
-      patient: patientUser._id, // Use User ID, not Patient record ID
-      caregiver: caregiverId
-    }).sort({ createdAt: -1 });
+    const access = await careConsentService.getAccessForRelationship(patientRecord);
+    if (!checkConsent(res, access, patientUser.name)) return;
+
+    // The whole care team works from the patient's one regimen, when the patient shares it
+    const allMedications = careConsentService.allows(access, 'medications')
+      ? await Medication.find({
+          patient: patientUser._id // Use User ID, not Patient record ID
+        }).sort({ createdAt: -1 })
+      : [];
+
+    // Viewers only follow adherence: no medical profile, regimen details or change history
+    const canViewRecords = careTeamService.hasPermission(patientRecord.careRole, 'viewRecords');
+    const canViewAdherence = careConsentService.allows(access, 'dose_history');
+    const profile = canViewRecords ? await patientProfileService.get(patientUser._id) : null;
+
+    // Archived medications are listed separately so they can be restored
+    const medications = allMedications.filter(med => med.status !== 'archived');
+    const archivedMedications = allMedications.filter(med => med.status === 'archived');
 
     // Calculate overall adherence rate
     const adherenceRate = medications.length > 0 
       ? Math.round(medications.reduce((sum, med) => sum + med.adherenceRate, 0) / medications.length)
       : 0;
 
+    // Dose plan phases are resolved on the patient's calendar
+    const timezone = resolveTimezone(patientUser.timezone);
+    const todayKey = getLocalDateKey(new Date(), timezone);
+
+    const recentChanges = canViewRecords
+      ? await medicationChangeService.getRecentChanges(allMedications.map(med => med._id))
+      : [];
+
     res.status(200).json({
       success: true,
       data: {
         patient: {
           id: patientRecord._id, // Return the Patient record ID for frontend consistency
-          name: patientRecord.name,
-          email: patientRecord.email,
-          phoneNumber: patientRecord.phoneNumber,
-          age: patientRecord.age,
-          gender: patientRecord.gender,
+          name: patientUser.name,
+          email: patientUser.email,
+          phoneNumber: patientUser.phoneNumber,
+          age: patientUser.age,
+          gender: patientUser.gender,
           lastActivity: patientRecord.lastActivity,
           status: patientRecord.status,
-          adherenceRate,
-          emergencyContact: patientRecord.emergencyContact,
-          medicalHistory: patientRecord.medicalHistory,
-          allergies: patientRecord.allergies
+          adherenceRate: canViewAdherence ? adherenceRate : null,
+          medicalHistory: profile?.medicalHistory,
+          allergies: profile?.allergies
         },
-        medications: medications.map(med => ({
+        careRole: patientRecord.careRole,
+        permissions: careTeamService.getPermissions(patientRecord.careRole),
+        consent: access,
+        medications: !canViewRecords ? medications.map(med => ({
+          id: med._id,
+          name: med.name,
+          status: med.status,
+          adherenceRate: canViewAdherence ? med.adherenceRate : null,
+          lastTaken: canViewAdherence ? med.lastTaken : null
+        })) : medications.map(med => ({
           id: med._id,
           name: med.name,
           dosage: med.dosage,
           dosageUnit: med.dosageUnit,
           frequency: med.frequency,
           timingRelation: med.timingRelation,
+          schedule: med.schedule,
+          isPRN: med.isPRN,
+          prn: med.prn,
+          dosePlan: med.dosePlan,
+          currentPhase: resolveDosePhase(med.dosePlan, todayKey, timezone),
+          upcomingPhaseTransitions: getUpcomingPhaseTransitions(med.dosePlan, todayKey, timezone),
+          startDate: med.startDate,
+          endDate: med.endDate,
+          durationDays: med.durationDays,
+          completedAt: med.completedAt,
+          completionReason: med.completionReason,
+          pause: med.pause,
+          pauseHistory: med.pauseHistory,
+          version: med.version,
+          updatedAt: med.updatedAt,
           remainingQuantity: med.remainingQuantity,
           totalQuantity: med.totalQuantity,
           status: med.status,
@@ -297,6 +380,26 @@ export const getPatientDetails = async (req: AuthRequest, res: Response) => {
           lastTaken: med.lastTaken,
           daysLeft: Math.floor(med.remainingQuantity / med.frequency),
           expiryDate: med.expiryDate
+        })),
+        archivedMedications: !canViewRecords ? [] : archivedMedications.map(med => ({
+          id: med._id,
+          name: med.name,
+          dosage: med.dosage,
+          dosageUnit: med.dosageUnit,
+          archivedAt: med.archive?.archivedAt,
+          archiveReason: med.archive?.reason,
+          version: med.version
+        })),
+        recentChanges: recentChanges.map(change => ({
+          id: change._id,
+          medicationId: change.medication,
+          medicationName: allMedications.find(med => med._id.toString() === change.medication.toString())?.name,
+          version: change.version,
+          action: change.action,
+          summary: medicationChangeService.describeChanges(change.changes),
+          reason: change.reason,
+          changedBy: change.changedBy,
+          changedAt: change.createdAt
         }))
       }
     });
@@ -330,12 +433,7 @@ export const addMedication = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Now find the actual User document for this patient
-    // The patient record contains the email, so we find the user by email and role
-    const patientUser = await User.findOne({
-      email: patientRecord.email,
-      role: 'patient'
-    });
+    const patientUser = await User.findById(patientRecord.patient);
 
     if (!patientUser) {
       return res.status(404).json({
@@ -344,6 +442,11 @@ export const addMedication = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    if (!checkCarePermission(res, patientRecord.careRole, 'editMedications')) return;
+
+    const access = await careConsentService.getAccessForRelationship(patientRecord);
+    if (!checkConsent(res, access, patientUser.name, 'medications')) return;
+
     // Create the medication using the actual User's _id
     const medication = new Medication({
       name: medicationData.name,
@@ -351,6 +454,13 @@ export const addMedication = async (req: AuthRequest, res: Response) => {
       dosageUnit: medicationData.dosageUnit,
       frequency: medicationData.frequency,
       timingRelation: medicationData.timingRelation,
+      schedule: medicationData.schedule,
+      isPRN: medicationData.isPRN || false,
+      prn: medicationData.isPRN ? medicationData.prn : undefined,
+      dosePlan: medicationData.dosePlan,
+      startDate: medicationData.startDate,
+      endDate: medicationData.endDate,
+      durationDays: medicationData.durationDays,
       totalQuantity: medicationData.quantity, 
       remainingQuantity: medicationData.quantity, 
       expiryDate: medicationData.expiryDate,
@@ -397,7 +507,7 @@ export const addMedication = async (req: AuthRequest, res: Response) => {
       patient: patientUser._id, // Correct User _id
       caregiver: caregiverId,
       medication: medication._id,
-      message: `New medication ${medication.name} added for ${patientRecord.name}`,
+      message: `New medication ${medication.name} added for ${patientUser.name}`,
       priority: 'low'
     });
 
@@ -407,7 +517,7 @@ export const addMedication = async (req: AuthRequest, res: Response) => {
       data: {
         medicationId: medication._id,
         patientUserId: patientUser._id,
-        patientName: patientRecord.name,
+        patientName: patientUser.name,
         barcodeData: medication.barcodeData
       }
     });
@@ -422,53 +532,110 @@ export const addMedication = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// Add new patient
-export const addPatient = async (req: AuthRequest, res: Response) => {
+// Import a medication list (CSV or FHIR Bundle) for a patient, as a dry run or for real
+export const importMedications = async (req: AuthRequest, res: Response) => {
   try {
+    const { patientId } = req.params;
     const caregiverId = req.user._id;
-    const patientData = req.body;
+    const { format, data, mode = 'dry_run', defaults } = req.body;
 
-    // Check if patient already exists with this email
-    const existingPatient = await Patient.findOne({ email: patientData.email });
-    if (existingPatient) {
+    const patientRecord = await Patient.findOne({
+      _id: patientId,
+      caregiver: caregiverId
+    });
+
+    if (!patientRecord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found or unauthorized access'
+      });
+    }
+
+    const patientUser = await User.findById(patientRecord.patient);
+
+    if (!patientUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient user account not found'
+      });
+    }
+
+    if (!checkCarePermission(res, patientRecord.careRole, 'editMedications')) return;
+
+    const access = await careConsentService.getAccessForRelationship(patientRecord);
+    if (!checkConsent(res, access, patientUser.name, 'medications')) return;
+
+    const parsed = format === 'csv'
+      ? medicationImportService.parseCsvRows(data)
+      : medicationImportService.parseFhirBundle(data);
+
+    if (parsed.error || parsed.rows.length === 0) {
       return res.status(400).json({
         success: false,
-        message: 'Patient already exists with this email'
+        message: parsed.error || 'No medications found to import'
       });
     }
 
-    // Create new patient
-    const patient = new Patient({
-      ...patientData,
-      caregiver: caregiverId
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({
+        success: false,
+        message: `A single import can contain at most ${MAX_IMPORT_ROWS} medications`
+      });
+    }
+
+    const results = await medicationImportService.validateRows(parsed.rows, patientUser._id, caregiverId, defaults);
+    const summarize = () => ({
+      total: results.length,
+      valid: results.filter(result => result.status === 'valid').length,
+      invalid: results.filter(result => result.status === 'invalid').length,
+      skipped: results.filter(result => result.status === 'skipped').length,
+      created: results.filter(result => result.status === 'created').length
     });
 
-    await patient.save();
+    if (mode !== 'commit') {
+      return res.status(200).json({
+        success: true,
+        message: 'Dry run complete. Nothing was saved.',
+        data: { mode, format, summary: summarize(), rows: results }
+      });
+    }
 
-    // Create activity log
-    await Activity.create({
-      type: 'medication_added',
-      patient: patient._id,
-      caregiver: caregiverId,
-      message: `New patient ${patient.name} added to your care`,
-      priority: 'low'
-    });
+    // Nothing is created unless every row is valid
+    if (results.some(result => result.status === 'invalid')) {
+      return res.status(422).json({
+        success: false,
+        message: 'Some rows are invalid. Fix them and try again; no medications were created.',
+        data: { mode, format, summary: summarize(), rows: results }
+      });
+    }
+
+    await medicationImportService.commitRows(parsed.rows, results, {
+      userId: patientUser._id,
+      name: patientUser.name
+    }, caregiverId);
 
     res.status(201).json({
       success: true,
-      message: 'Patient added successfully',
-      data: patient
+      message: 'Medications imported successfully',
+      data: { mode, format, summary: summarize(), rows: results }
     });
 
   } catch (error) {
-    console.error('Add patient error:', error);
+    console.error('Import medications error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to add patient'
+      message: 'Failed to import medications',
+      error: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
     });
   }
 };
 
+// CSV template for medication imports
+export const getMedicationImportTemplate = async (req: AuthRequest, res: Response) => {
+  res.setHeader('Content-Disposition', 'attachment; filename="medication-import-template.csv"');
+  res.status(200).type('text/csv').send(medicationImportService.getCsvTemplate());
+};
+
 //get patient's emergency contact(primary contact only)
 export const getPatientEmergencyContacts = async (req: AuthRequest, res: Response) => {
   try {
@@ -488,11 +655,7 @@ export const getPatientEmergencyContacts = async (req: AuthRequest, res: Respons
       });
     }
 
-    // Find the actual User document for this patient
-    const patientUser = await User.findOne({
-      email: patientRecord.email,
-      role: 'patient'
-    });
+    const patientUser = await User.findById(patientRecord.patient);
 
     if (!patientUser) {
       return res.status(404).json({
@@ -501,6 +664,11 @@ export const getPatientEmergencyContacts = async (req: AuthRequest, res: Respons
       });
     }
 
+    if (!checkCarePermission(res, patientRecord.careRole, 'viewRecords')) return;
+
+    const access = await careConsentService.getAccessForRelationship(patientRecord);
+    if (!checkConsent(res, access, patientUser.name, 'emergency_contacts')) return;
+
     // Get emergency contacts for this patient using the User ID
     const emergencyContacts = await EmergencyContact.find({ patient: patientUser._id })
       .sort({ isPrimary: -1, createdAt: -1 });
@@ -553,11 +721,7 @@ export const getPatientMedicationHistory = async (req: AuthRequest, res: Respons
       });
     }
 
-    // Find the actual User document for this patient
-    const patientUser = await User.findOne({
-      email: patientRecord.email,
-      role: 'patient'
-    });
+    const patientUser = await User.findById(patientRecord.patient);
 
     if (!patientUser) {
       return res.status(404).json({
@@ -566,76 +730,128 @@ export const getPatientMedicationHistory = async (req: AuthRequest, res: Respons
       });
     }
 
-    // Get patient medications
+    if (!checkCarePermission(res, patientRecord.careRole, 'viewAdherence')) return;
+
+    const access = await careConsentService.getAccessForRelationship(patientRecord);
+    if (!checkConsent(res, access, patientUser.name, 'dose_history')) return;
+
+    // Get patient medications, whoever on the care team added them
     const medications = await Medication.find({
-      patient: patientUser._id,
-      caregiver: caregiverId
+      patient: patientUser._id
     });
 
-    // Get last 7 days date range
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - 6); // Last 7 days including today
-    startDate.setHours(0, 0, 0, 0);
-    endDate.setHours(23, 59, 59, 999);
+    // Get last 7 days (patient-local) date range
+    const now = new Date();
+    const timezone = resolveTimezone(patientUser.timezone);
+    const endDateKey = getLocalDateKey(now, timezone);
+    const startDateKey = addDaysToDateKey(endDateKey, -6);
 
-    // CHANGED: Get medication logs from Activity model instead of MedicationLog
-    const logs = await Activity.find({
-      patient: patientUser._id,
-      type: 'dose_taken',
-      medication: { $in: medications.map(m => m._id) },
-      createdAt: { $gte: startDate, $lte: endDate }
-    })
-    .populate('medication', 'name')
-    .sort({ createdAt: 1 });
+    // Dose slots carry their own taken/missed state
+    const doses = await doseScheduleService.getPatientDoses(
+      patientUser._id,
+      startDateKey,
+      endDateKey,
+      medications.map(m => m._id)
+    );
+
+    // As-needed doses have no slots; they are reported from the dose log instead
+    const prnDoseActivities = medications.some(isPRNMedication)
+      ? await Activity.find({
+          patient: patientUser._id,
+          type: 'dose_taken',
+          'metadata.isPRN': true,
+          createdAt: { $gte: getLocalDayBounds(startDateKey, timezone).start }
+        }).sort({ createdAt: 1 })
+      : [];
 
     // Generate 7 days array
     const days: { date: string; displayDate: string }[] = [];
     for (let i = 0; i < 7; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - (6 - i));
+      const date = addDaysToDateKey(startDateKey, i);
       days.push({
-        date: date.toISOString().split('T')[0],
-        displayDate: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        date,
+        displayDate: new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          timeZone: 'UTC'
+        })
       });
     }
 
     // Build medication history
     const medicationHistory = medications.map(medication => {
-      const medicationLogs = logs.filter(log => 
-        log.medication && log.medication._id.toString() === medication._id.toString()
+      // When the course began and ended, on the patient's calendar
+      const course = {
+        status: medication.status,
+        startDate: getLocalDateKey(medication.startDate || medication.createdAt, timezone),
+        endDate: medication.endDate ? getLocalDateKey(medication.endDate, timezone) : null,
+        completedAt: medication.completedAt || null,
+        completionReason: medication.completionReason || null,
+        archivedAt: medication.archive?.archivedAt || null
+      };
+
+      if (isPRNMedication(medication)) {
+        const medicationActivities = prnDoseActivities.filter(activity =>
+          activity.medication?.toString() === medication._id.toString()
+        );
+
+        return {
+          id: medication._id,
+          name: medication.name,
+          dosage: `${medication.dosage} ${medication.dosageUnit}`,
+          frequency: medication.frequency,
+          timingRelation: medication.timingRelation,
+          isPRN: true,
+          prn: medication.prn,
+          course,
+          dailyStatus: days.map(day => {
+            const dayActivities = medicationActivities.filter(activity =>
+              getLocalDateKey(activity.createdAt, timezone) === day.date
+            );
+            return {
+              date: day.date,
+              displayDate: day.displayDate,
+              prnDoses: dayActivities.map(activity => ({
+                id: activity._id,
+                time: formatLocalTime(activity.createdAt, timezone),
+                method: activity.metadata?.method || 'manual',
+                reason: activity.metadata?.prnReason || null,
+                notes: activity.metadata?.notes || null
+              }))
+            };
+          })
+        };
+      }
+
+      const medicationDoses = doses.filter(dose =>
+        dose.medication.toString() === medication._id.toString()
       );
-      
+
       const dailyStatus = days.map(day => {
-        const dayLogs = medicationLogs.filter(log => {
-          const logDate = new Date(log.createdAt).toISOString().split('T')[0];
-          return logDate === day.date;
+        const dayDoses = medicationDoses
+          .filter(dose => dose.dateKey === day.date)
+          .sort((a, b) => a.slotIndex - b.slotIndex);
+
+        const doseStatuses = dayDoses.map(dose => {
+          const status = doseScheduleService.getEffectiveStatus(dose, now);
+          return {
+            id: dose._id,
+            status,
+            taken: status === 'taken' || status === 'late',
+            scheduledTime: formatLocalTime(dose.scheduledFor, timezone),
+            dosage: dose.dosage || null,
+            time: dose.takenAt ? formatLocalTime(dose.takenAt, timezone) : null,
+            method: dose.takenAt ? (dose.method || 'manual') : null,
+            wasOverridden: dose.wasOverridden || false,
+            notes: dose.notes || null
+          };
         });
 
-        // Create status array based on frequency
-        const doses = [];
-        for (let i = 0; i < medication.frequency; i++) {
-          doses.push({
-            taken: i < dayLogs.length,
-            time: dayLogs[i] ? new Date(dayLogs[i].createdAt).toLocaleTimeString('en-US', { 
-              hour: '2-digit', 
-              minute: '2-digit' 
-            }) : null,
-            method: dayLogs[i] ? (dayLogs[i].metadata?.method || 'manual') : null,
-            // Additional data from Activity
-            wasOverridden: dayLogs[i] ? (dayLogs[i].metadata?.wasOverridden || false) : false,
-            notes: dayLogs[i] ? dayLogs[i].metadata?.notes : null
-          });
-        }
-
-        // Calculate actual taken count for the day
-        const actualTakenCount = dayLogs.length;
-
         return {
           date: day.date,
           displayDate: day.displayDate,
-          doses,
-          adherenceRate: Math.round((actualTakenCount / medication.frequency) * 100)
+          doses: doseStatuses,
+          adherenceRate: doseScheduleService.summarizeDoses(dayDoses, now).adherenceRate
         };
       });
 
@@ -645,27 +861,34 @@ export const getPatientMedicationHistory = async (req: AuthRequest, res: Respons
         dosage: `${medication.dosage} ${medication.dosageUnit}`,
         frequency: medication.frequency,
         timingRelation: medication.timingRelation,
+        scheduleDescription: describeSchedule(medication),
+        isPRN: false,
+        course,
+        upcomingPhaseTransitions: getUpcomingPhaseTransitions(medication.dosePlan, endDateKey, timezone),
         dailyStatus
       };
     });
 
     // Calculate overall stats for the 7-day period
-    const totalExpectedDoses = medications.reduce((total, med) => total + (med.frequency * 7), 0);
-    const totalTakenDoses = logs.length;
-    const overallAdherenceRate = totalExpectedDoses > 0 
-      ? Math.round((totalTakenDoses / totalExpectedDoses) * 100) 
-      : 0;
+    const summary = doseScheduleService.summarizeDoses(doses, now);
+    const totalExpectedDoses = summary.expected;
+    const totalTakenDoses = summary.taken + summary.late;
+    const overallAdherenceRate = summary.adherenceRate;
 
     res.status(200).json({
       success: true,
       data: {
         days,
+        timezone,
         medications: medicationHistory,
         summary: {
           totalExpectedDoses,
           totalTakenDoses,
           overallAdherenceRate,
-          missedDoses: totalExpectedDoses - totalTakenDoses
+          missedDoses: summary.missed,
+          lateDoses: summary.late,
+          skippedDoses: summary.skipped,
+          prnDoses: prnDoseActivities.length
         }
       }
     });
@@ -679,635 +902,1729 @@ export const getPatientMedicationHistory = async (req: AuthRequest, res: Respons
   }
 };
 
-// Delete medication
-export const deleteMedication = async (req: AuthRequest, res: Response) => {
+// Send a 403 when a caregiver's role on a patient's team does not allow an action
+const checkCarePermission = (res: Response, role: CareRole | undefined, permission: CarePermission): boolean => {
+  if (careTeamService.hasPermission(role, permission)) return true;
+
+  res.status(403).json({
+    success: false,
+    message: careTeamService.describeDenial(role, permission),
+    data: { careRole: role || 'primary', requiredPermission: permission }
+  });
+  return false;
+};
+
+// Send a 403 when the patient has not shared what the caregiver is asking for, or has withdrawn their access
+const checkConsent = (res: Response, access: ConsentAccess, patientName: string, scope?: ConsentScope): boolean => {
+  if (careConsentService.allows(access, scope)) return true;
+
+  res.status(403).json({
+    success: false,
+    message: careConsentService.describeDenial(access, patientName, scope),
+    data: { consentStatus: access.status, requiredScope: scope }
+  });
+  return false;
+};
+
+// Check consent for a relationship whose patient account has not been loaded; the name is only looked up for the denial
+const checkRelationshipConsent = async (res: Response, relationship: IPatient, scope?: ConsentScope): Promise<ConsentAccess | null> => {
+  const access = await careConsentService.getAccessForRelationship(relationship);
+  if (careConsentService.allows(access, scope)) return access;
+
+  const patientUser = await User.findById(relationship.patient).select('name');
+  checkConsent(res, access, patientUser?.name || 'The patient', scope);
+  return null;
+};
+
+// Load a medication of one of the caregiver's patients, or send the error response
+const findCaregiverMedication = async (
+  req: AuthRequest,
+  res: Response,
+  permission: CarePermission,
+  scope: ConsentScope = 'medications'
+) => {
+  const { medicationId } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(medicationId)) {
+    res.status(400).json({
+      success: false,
+      message: 'Invalid medication ID'
+    });
+    return null;
+  }
+
+  const medication = await Medication.findById(medicationId);
+  const relationship = medication && await careTeamService.findRelationship(medication.patient, req.user._id);
+
+  if (!medication || !relationship) {
+    res.status(404).json({
+      success: false,
+      message: 'Medication not found'
+    });
+    return null;
+  }
+
+  if (!checkCarePermission(res, relationship.careRole, permission)) return null;
+
+  if (!await checkRelationshipConsent(res, relationship, scope)) return null;
+
+  // Clients send the version they edited to avoid overwriting someone else's change
+  const { version } = req.body;
+  if (version !== undefined && Number(version) !== medication.version) {
+    res.status(409).json({
+      success: false,
+      message: 'Medication was changed since you loaded it. Please reload and try again.',
+      data: { currentVersion: medication.version }
+    });
+    return null;
+  }
+
+  return medication;
+};
+
+// Update medication (dosage, schedule, instructions, quantity, course)
+export const updateMedication = async (req: AuthRequest, res: Response) => {
   try {
-    const { medicationId } = req.params;
-    const caregiverId = req.user._id;
+    const medication = await findCaregiverMedication(req, res, 'editMedications');
+    if (!medication) return;
 
-    // Validate medication ID
-    if (!mongoose.Types.ObjectId.isValid(medicationId)) {
+    if (medication.status === 'archived') {
       return res.status(400).json({
         success: false,
-        message: 'Invalid medication ID'
+        message: 'Restore the medication before editing it'
       });
     }
 
-    // Find and delete medication (ensure it belongs to this caregiver)
-    const medication = await Medication.findOneAndDelete({
-      _id: medicationId,
-      caregiver: caregiverId
+    // Status changes go through pause / resume so they are recorded as such
+    const updates: Record<string, any> = {};
+    EDITABLE_MEDICATION_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) {
+        updates[field] = req.body[field];
+      }
     });
 
-    if (!medication) {
-      return res.status(404).json({
+    if (Object.keys(updates).length === 0) {
+      return res.status(400).json({
         success: false,
-        message: 'Medication not found'
+        message: 'No changes provided'
       });
     }
 
-    // Create activity log
-    const patient = await Patient.findById(medication.patient);
-    if (patient) {
-      await Activity.create({
-        type: 'medication_added', // You might want to add 'medication_deleted' type
-        patient: medication.patient,
-        caregiver: caregiverId,
-        message: `Medication ${medication.name} removed for ${patient.name}`,
-        priority: 'low'
-      });
-    }
+    const change = await medicationChangeService.applyChanges(medication, updates, req.user, {
+      reason: req.body.reason
+    });
 
     res.status(200).json({
       success: true,
-      message: 'Medication deleted successfully'
+      message: change ? 'Medication updated successfully' : 'No changes to save',
+      data: {
+        medication: medication.toJSON(),
+        change
+      }
     });
 
-  } catch (error) {
-    console.error('Delete medication error:', error);
+  } catch (error: any) {
+    console.error('Update medication error:', error);
+
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map((val: any) => val.message).join('. ')
+      });
+    }
+
     res.status(500).json({
       success: false,
-      message: 'Failed to delete medication'
+      message: 'Failed to update medication',
+      error: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.message : String(error)) : undefined
     });
   }
 };
 
-// Get barcodes
-export const getBarcodes = async (req: AuthRequest, res: Response) => {
+// Pause or resume a medication
+export const updateMedicationStatus = async (req: AuthRequest, res: Response) => {
   try {
-    const caregiverId = req.user._id;
-
-    const medications = await Medication.find({
-      caregiver: caregiverId
-    }).sort({ createdAt: -1 });
-
-    console.log(`Found ${medications.length} medications for caregiver ${caregiverId}`);
-
-    const barcodes = [];
+    const { status, reason, resumeAt } = req.body;
 
-    for (const med of medications) {
-      let patientUser = null;
-      let patientName = 'Unknown Patient';
-
-      try {
-        await med.populate('patient', 'name email');
-        
-        if (med.patient && (med.patient as any).name) {
-          patientUser = med.patient as any;
-          patientName = patientUser.name;
-          console.log(`✅ Found User directly for medication ${med._id}: ${patientName}`);
-        } else {
-          console.log(`⚠️ Patient User not found directly for medication ${med._id}, trying Patient relationship...`);
-          
-          const patientRelationships = await Patient.find({ caregiver: caregiverId });
-          
-          for (const relationship of patientRelationships) {
-            const userWithEmail = await User.findOne({ 
-              email: relationship.email, 
-              role: 'patient' 
-            });
-            
-            if (userWithEmail) {
-              console.log(`🔄 Updating medication ${med._id} to point to User ${userWithEmail._id}`);
-              await Medication.findByIdAndUpdate(med._id, { 
-                patient: userWithEmail._id 
-              });
-              
-              patientUser = userWithEmail;
-              patientName = userWithEmail.name;
-              break;
-            }
-          }
-        }
+    const medication = await findCaregiverMedication(req, res, 'editMedications');
+    if (!medication) return;
 
-        if (patientUser) {
-          barcodes.push({
-            id: med._id,
-            patientId: patientUser._id,
-            patientName: patientName,
-            medicationName: med.name,
-            dosage: `${med.dosage} ${med.dosageUnit}`,
-            frequency: `${med.frequency}x daily`,
-            timingRelation: med.timingRelation.replace('_', ' '),
-            barcodeData: med.barcodeData,
-            createdAt: med.createdAt,
-            downloadCount: 0
-          });
-          console.log(`✅ Added barcode for ${patientName}: ${med.name}`);
-        } else {
-          console.warn(`❌ Could not find patient for medication ${med._id}: ${med.name}`);
-        }
+    if (status === 'paused' && medication.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only active medications can be paused'
+      });
+    }
 
-      } catch (error) {
-        console.error(`Error processing medication ${med._id}:`, error);
-      }
+    if (status === 'active' && medication.status !== 'paused') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only paused medications can be resumed'
+      });
     }
 
-    console.log(`Returning ${barcodes.length} barcodes`);
+    const change = status === 'paused'
+      ? await medicationChangeService.pauseMedication(medication, req.user, {
+          reason,
+          resumeAt: resumeAt ? new Date(resumeAt) : undefined
+        })
+      : await medicationChangeService.resumeMedication(medication, req.user, { reason });
 
     res.status(200).json({
       success: true,
-      data: barcodes
+      message: status === 'paused' ? 'Medication paused' : 'Medication resumed',
+      data: {
+        medication: medication.toJSON(),
+        change
+      }
     });
 
   } catch (error) {
-    console.error('Get barcodes error:', error);
+    console.error('Update medication status error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to get barcodes'
+      message: 'Failed to update medication status'
     });
   }
 };
 
-// Get notifications for caregiver
-export const getNotifications = async (req: AuthRequest, res: Response) => {
+// Archive (remove) a medication. Its dose history is kept.
+export const archiveMedication = async (req: AuthRequest, res: Response) => {
   try {
-    const caregiverId = req.user._id;
-    const { type, read } = req.query;
+    const medication = await findCaregiverMedication(req, res, 'editMedications');
+    if (!medication) return;
 
-    // Build query for activities that are caregiver notifications
-    let query: any = { caregiver: caregiverId };
-    
-    if (type) {
-      query.type = type;
-    }
-    
-    if (read !== undefined) {
-      query.isRead = read === 'true';
+    if (medication.status === 'archived') {
+      return res.status(400).json({
+        success: false,
+        message: 'Medication is already archived'
+      });
     }
 
-    // Get activities as notifications
-    const activities = await Activity.find(query)
-      .populate('patient', 'name email')
-      .populate('medication', 'name')
-      .sort({ createdAt: -1 })
-      .limit(50);
-
-    const notifications = activities.map(activity => ({
-      id: activity._id,
-      type: activity.type,
-      title: getCaregiverNotificationTitle(activity.type),
-      message: activity.message,
-      isRead: activity.isRead,
-      priority: activity.priority,
-      createdAt: activity.createdAt,
-      data: activity.metadata,
-      patient: activity.patient ? {
-        id: (activity.patient as any)._id,
-        name: (activity.patient as any).name,
-        email: (activity.patient as any).email
-      } : undefined
-    }));
-
-    const unreadCount = activities.filter(activity => !activity.isRead).length;
+    const change = await medicationChangeService.archiveMedication(medication, req.user, {
+      reason: req.body?.reason
+    });
 
     res.status(200).json({
       success: true,
+      message: 'Medication archived successfully',
       data: {
-        notifications,
-        unreadCount,
-        pagination: {
-          currentPage: 1,
-          totalPages: 1,
-          totalCount: notifications.length
-        }
+        medication: medication.toJSON(),
+        change
       }
     });
 
   } catch (error) {
-    console.error('Get caregiver notifications error:', error);
+    console.error('Archive medication error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to get notifications'
+      message: 'Failed to archive medication'
     });
   }
 };
 
-// Mark notification as read for caregiver
-export const markNotificationAsRead = async (req: AuthRequest, res: Response) => {
+// Restore an archived medication
+export const restoreMedication = async (req: AuthRequest, res: Response) => {
   try {
-    const { notificationId } = req.params;
-    const caregiverId = req.user._id;
+    const medication = await findCaregiverMedication(req, res, 'editMedications');
+    if (!medication) return;
 
-    // Update activity as read, but only if it belongs to this caregiver
-    const activity = await Activity.findOneAndUpdate(
-      { _id: notificationId, caregiver: caregiverId },
-      { isRead: true },
-      { new: true }
-    );
-
-    if (!activity) {
+    if (medication.status !== 'archived') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only archived medications can be restored'
+      });
+    }
+
+    const change = await medicationChangeService.restoreMedication(medication, req.user, {
+      reason: req.body?.reason
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Medication restored successfully',
+      data: {
+        medication: medication.toJSON(),
+        change
+      }
+    });
+
+  } catch (error) {
+    console.error('Restore medication error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to restore medication'
+    });
+  }
+};
+
+// Get the change history of a medication
+export const getMedicationChangeHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const medication = await findCaregiverMedication(req, res, 'viewRecords');
+    if (!medication) return;
+
+    const history = await medicationChangeService.getHistory(medication._id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        medicationId: medication._id,
+        currentVersion: medication.version,
+        history: history.map(change => ({
+          id: change._id,
+          version: change.version,
+          action: change.action,
+          changes: change.changes,
+          summary: medicationChangeService.describeChanges(change.changes),
+          reason: change.reason,
+          changedBy: change.changedBy,
+          changedAt: change.createdAt
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('Get medication change history error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get medication history'
+    });
+  }
+};
+
+// Log a dose the patient took with a caregiver's help (primary and secondary caregivers)
+export const logPatientDose = async (req: AuthRequest, res: Response) => {
+  try {
+    const medication = await findCaregiverMedication(req, res, 'logDoses', 'dose_history');
+    if (!medication) return;
+
+    const { notes, override, reason } = req.body;
+    const caregiverId = req.user._id;
+
+    // A removed medication cannot be logged, even with an override
+    if (medication.status === 'archived') {
+      return res.status(409).json({
+        success: false,
+        message: 'This medication has been removed. Restore it before logging a dose.',
+        data: { status: medication.status }
+      });
+    }
+
+    const patientUser = await User.findById(medication.patient);
+    if (!patientUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient user account not found'
+      });
+    }
+
+    const isPRN = isPRNMedication(medication);
+    if (isPRN && medication.prn?.requireReason && !reason?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide a reason for giving this as-needed medication'
+      });
+    }
+
+    const timezone = resolveTimezone(patientUser.timezone);
+    const now = new Date();
+
+    const lastDoseActivity = await Activity.findOne({
+      patient: patientUser._id,
+      medication: medication._id,
+      type: 'dose_taken'
+    }).sort({ createdAt: -1 });
+
+    // Same safety checks as when the patient logs the dose
+    const prnCheck = isPRN ? await checkPRNDoseLimits(medication, patientUser._id) : null;
+    const basicDoseCheck = prnCheck || canTakeMedicationNow(
+      lastDoseActivity ? lastDoseActivity.createdAt : null,
+      medication,
+      await doseScheduleService.getMealTimes(patientUser._id),
+      now,
+      timezone
+    );
+
+    const warnings: string[] = [];
+    if (!basicDoseCheck.canTake) {
+      warnings.push(prnCheck ? prnCheck.reason : `Next dose available in ${basicDoseCheck.hoursRemaining} hours`);
+    }
+    if (new Date(medication.expiryDate) <= now) {
+      warnings.push(`Medication expired on ${medication.expiryDate.toDateString()}`);
+    }
+    if (medication.status !== 'active') {
+      warnings.push(medicationChangeService.describePause(medication, timezone) || 'This medication is currently paused or inactive');
+    }
+    if (medication.remainingQuantity <= 0) {
+      warnings.push('No doses remaining');
+    }
+
+    if (warnings.length > 0 && !override) {
+      return res.status(400).json({
+        success: false,
+        message: warnings[0],
+        data: { canTake: false, warnings, nextDoseTime: basicDoseCheck.nextDoseTime }
+      });
+    }
+
+    const doseTaken = getDoseForDay(medication, getLocalDateKey(now, timezone), timezone);
+
+    medication.lastTaken = now;
+    medication.remainingQuantity = Math.max(0, medication.remainingQuantity - 1);
+    // An overridden dose of a paused medication leaves it paused
+    if (medication.remainingQuantity === 0 && medication.status === 'active') {
+      medication.status = 'completed';
+      medication.completedAt = now;
+      medication.completionReason = 'quantity_exhausted';
+    }
+    const savedMedication = await medication.save();
+
+    const scheduledDose = isPRN ? null : await doseScheduleService.attachDose(savedMedication, now, {
+      method: 'manual',
+      wasOverridden: override || false,
+      notes
+    });
+
+    const doseActivity = await Activity.create({
+      type: 'dose_taken',
+      patient: patientUser._id,
+      caregiver: caregiverId,
+      medication: medication._id,
+      message: `${req.user.name} logged ${medication.name} for ${patientUser.name}${override ? ' (OVERRIDE)' : ''}`,
+      priority: override ? 'medium' : 'low',
+      metadata: {
+        doseTaken: now,
+        remainingQuantity: savedMedication.remainingQuantity,
+        method: 'caregiver',
+        wasOverridden: override || false,
+        notes,
+        dosage: `${doseTaken.dosage} ${doseTaken.dosageUnit}`,
+        dosePhase: doseTaken.phase?.phaseIndex,
+        warnings,
+        scheduledDose: scheduledDose?._id,
+        doseStatus: scheduledDose?.status,
+        isPRN,
+        prnReason: isPRN ? reason?.trim() : undefined
+      }
+    });
+
+    if (scheduledDose) {
+      scheduledDose.activity = doseActivity._id;
+      await scheduledDose.save();
+    }
+
+    res.status(200).json({
+      success: true,
+      message: override ? 'Dose logged with safety override' : 'Dose logged successfully',
+      data: {
+        medicationId: savedMedication._id,
+        medicationName: savedMedication.name,
+        dosage: `${doseTaken.dosage} ${doseTaken.dosageUnit}`,
+        takenAt: now,
+        remainingQuantity: savedMedication.remainingQuantity,
+        status: savedMedication.status,
+        wasOverridden: override || false,
+        warnings,
+        scheduledDose: scheduledDose ? {
+          id: scheduledDose._id,
+          scheduledFor: scheduledDose.scheduledFor,
+          status: scheduledDose.status
+        } : null
+      }
+    });
+
+  } catch (error) {
+    console.error('Log patient dose error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to log dose'
+    });
+  }
+};
+
+// FHIR R4 Bundle of a patient's records, including the medications the whole care team manages
+export const getPatientFhirBundle = async (req: AuthRequest, res: Response) => {
+  try {
+    const { patientId } = req.params;
+    const caregiverId = req.user._id;
+
+    if (!mongoose.Types.ObjectId.isValid(patientId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid patient ID'
+      });
+    }
+
+    const patientRecord = await Patient.findOne({
+      _id: patientId,
+      caregiver: caregiverId
+    });
+
+    if (!patientRecord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found'
+      });
+    }
+
+    const patientUser = await User.findById(patientRecord.patient);
+
+    if (!patientUser) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient user account not found'
+      });
+    }
+
+    if (!checkCarePermission(res, patientRecord.careRole, 'viewRecords')) return;
+
+    // The bundle holds both the medication list and the dose record
+    const access = await careConsentService.getAccessForRelationship(patientRecord);
+    if (!checkConsent(res, access, patientUser.name, 'medications')) return;
+    if (!checkConsent(res, access, patientUser.name, 'dose_history')) return;
+
+    // Emergency contacts are only included when the patient shares them
+    const bundle = await fhirExportService.buildPatientBundle(patientUser, {
+      baseUrl: `${req.protocol}://${req.get('host')}/api/fhir`,
+      includeEmergencyContacts: careConsentService.allows(access, 'emergency_contacts')
+    });
+
+    res.status(200).type('application/fhir+json').json(bundle);
+
+  } catch (error) {
+    console.error('Get patient FHIR bundle error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate FHIR export'
+    });
+  }
+};
+
+// Get barcodes
+export const getBarcodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const caregiverId = req.user._id;
+
+    const medications = await Medication.find({
+      caregiver: caregiverId,
+      patient: { $nin: await careConsentService.getBlockedPatientIds(caregiverId, 'medications') },
+      status: { $ne: 'archived' }
+    }).populate('patient', 'name').sort({ createdAt: -1 });
+
+    console.log(`Found ${medications.length} medications for caregiver ${caregiverId}`);
+
+    const barcodes = [];
+
+    for (const med of medications) {
+      // Medications always point at the patient's account
+      const patientUser = med.patient as any;
+
+      if (!patientUser || !patientUser.name) {
+        console.warn(`❌ Could not find patient for medication ${med._id}: ${med.name}`);
+        continue;
+      }
+
+      barcodes.push({
+        id: med._id,
+        patientId: patientUser._id,
+        patientName: patientUser.name,
+        medicationName: med.name,
+        dosage: `${med.dosage} ${med.dosageUnit}`,
+        frequency: describeSchedule(med),
+        timingRelation: med.timingRelation.replace('_', ' '),
+        barcodeData: med.barcodeData,
+        createdAt: med.createdAt,
+        downloadCount: 0
+      });
+    }
+
+    console.log(`Returning ${barcodes.length} barcodes`);
+
+    res.status(200).json({
+      success: true,
+      data: barcodes
+    });
+
+  } catch (error) {
+    console.error('Get barcodes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get barcodes'
+    });
+  }
+};
+
+// Get notifications for caregiver
+export const getNotifications = async (req: AuthRequest, res: Response) => {
+  try {
+    const caregiverId = req.user._id;
+    const { type, read } = req.query;
+
+    // Build query for activities that are caregiver notifications, leaving out muted categories
+    let query: any = { caregiver: caregiverId, mutedFor: { $ne: caregiverId } };
+
+    // Older activities stay hidden once a patient revokes access or stops sharing what they cover
+    const hidden = await careConsentService.getHiddenActivityConditions(caregiverId);
+    if (hidden.length > 0) {
+      query.$nor = hidden;
+    }
+    
+    if (type) {
+      query.type = type;
+    }
+    
+    if (read !== undefined) {
+      query.isRead = read === 'true';
+    }
+
+    // Get activities as notifications
+    const activities = await Activity.find(query)
+      .populate('patient', 'name email')
+      .populate('medication', 'name')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    const notifications = activities.map(activity => ({
+      id: activity._id,
+      type: activity.type,
+      title: getCaregiverNotificationTitle(activity.type),
+      message: activity.message,
+      isRead: activity.isRead,
+      priority: activity.priority,
+      createdAt: activity.createdAt,
+      data: activity.metadata,
+      patient: activity.patient ? {
+        id: (activity.patient as any)._id,
+        name: (activity.patient as any).name,
+        email: (activity.patient as any).email
+      } : undefined
+    }));
+
+    const unreadCount = activities.filter(activity => !activity.isRead).length;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        notifications,
+        unreadCount,
+        pagination: {
+          currentPage: 1,
+          totalPages: 1,
+          totalCount: notifications.length
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Get caregiver notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get notifications'
+    });
+  }
+};
+
+// Mark notification as read for caregiver
+export const markNotificationAsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const { notificationId } = req.params;
+    const caregiverId = req.user._id;
+
+    // Update activity as read, but only if it belongs to this caregiver
+    const activity = await Activity.findOneAndUpdate(
+      { _id: notificationId, caregiver: caregiverId },
+      { isRead: true },
+      { new: true }
+    );
+
+    if (!activity) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true
+    });
+
+  } catch (error) {
+    console.error('Mark caregiver notification as read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark notification as read'
+    });
+  }
+};
+
+// Mark all notifications as read for caregiver
+export const markAllNotificationsAsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const caregiverId = req.user._id;
+
+    await Activity.updateMany(
+      { caregiver: caregiverId },
+      { isRead: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'All notifications marked as read'
+    });
+
+  } catch (error) {
+    console.error('Mark all caregiver notifications as read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to mark all notifications as read'
+    });
+  }
+};
+
+// Get notification count for caregiver dashboard/navbar
+export const getNotificationCount = async (req: AuthRequest, res: Response) => {
+  try {
+    const caregiverId = req.user._id;
+
+    const hidden = await careConsentService.getHiddenActivityConditions(caregiverId);
+    const unreadCount = await Activity.countDocuments({
+      caregiver: caregiverId,
+      mutedFor: { $ne: caregiverId },
+      isRead: false,
+      ...(hidden.length > 0 && { $nor: hidden })
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        unreadCount
+      }
+    });
+
+  } catch (error) {
+    console.error('Get caregiver notification count error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get notification count'
+    });
+  }
+};
+
+// Get notification settings for caregiver
+export const getNotificationSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const settings = await notificationPreferenceService.getSettings(req.user._id);
+
+    res.status(200).json({
+      success: true,
+      data: settings
+    });
+
+  } catch (error) {
+    console.error('Get caregiver notification settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get notification settings'
+    });
+  }
+};
+
+// Update notification settings for caregiver
+export const updateNotificationSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const { categories, channels, quietHours, digestFrequency, reminderLeadMinutes } = req.body;
+
+    const settings = await notificationPreferenceService.updateSettings(req.user._id, {
+      categories,
+      channels,
+      quietHours,
+      digestFrequency,
+      reminderLeadMinutes
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification settings updated successfully',
+      data: settings
+    });
+
+  } catch (error) {
+    console.error('Update caregiver notification settings error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update notification settings'
+    });
+  }
+};
+
+// Delete single notification for caregiver
+export const deleteNotification = async (req: AuthRequest, res: Response) => {
+  try {
+    const { notificationId } = req.params;
+    const caregiverId = req.user._id;
+
+    // Remove the notification (activity) from this caregiver's feed
+    const dismissed = await notificationPreferenceService.dismissActivities(caregiverId, {
+      _id: notificationId,
+      caregiver: caregiverId
+    });
+
+    if (dismissed === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Notification not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete caregiver notification error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete notification'
+    });
+  }
+};
+
+// Delete multiple notifications for caregiver
+export const deleteMultipleNotifications = async (req: AuthRequest, res: Response) => {
+  try {
+    const { notificationIds } = req.body;
+    const caregiverId = req.user._id;
+
+    if (!Array.isArray(notificationIds) || notificationIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Notification IDs array is required'
+      });
+    }
+
+    // Remove multiple notifications from this caregiver's feed
+    const deletedCount = await notificationPreferenceService.dismissActivities(caregiverId, {
+      _id: { $in: notificationIds },
+      caregiver: caregiverId
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `${deletedCount} notifications deleted successfully`,
+      data: {
+        deletedCount,
+        requestedCount: notificationIds.length
+      }
+    });
+
+  } catch (error) {
+    console.error('Delete multiple caregiver notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete notifications'
+    });
+  }
+};
+
+// Delete all notifications for caregiver
+export const deleteAllNotifications = async (req: AuthRequest, res: Response) => {
+  try {
+    const caregiverId = req.user._id;
+
+    const deletedCount = await notificationPreferenceService.dismissActivities(caregiverId, {
+      caregiver: caregiverId
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `All ${deletedCount} notifications deleted successfully`,
+      data: {
+        deletedCount
+      }
+    });
+
+  } catch (error) {
+    console.error('Delete all caregiver notifications error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete all notifications'
+    });
+  }
+};
+
+// Helper function for caregiver notification titles
+const getCaregiverNotificationTitle = (type: string): string => {
+  switch (type) {
+    case 'dose_taken': return 'Patient Took Medication';
+    case 'dose_missed': return 'Patient Missed Dose';
+    case 'low_stock': return 'Low Medication Stock';
+    case 'sos_alert': return 'Emergency Alert from Patient';
+    case 'medication_added': return 'New Medication Added';
+    case 'medication_completed': return 'Medication Course Completed';
+    case 'medication_updated': return 'Medication Updated';
+    case 'medication_paused': return 'Medication Paused';
+    case 'medication_resumed': return 'Medication Resumed';
+    case 'medication_archived': return 'Medication Removed';
+    case 'medication_restored': return 'Medication Restored';
+    case 'dose_reminder': return 'Dose Reminder';
+    case 'sos_escalated': return 'Emergency Alert Escalated';
+    case 'sos_acknowledged': return 'Emergency Alert Acknowledged';
+    case 'sos_resolved': return 'Emergency Alert Resolved';
+    case 'sos_cancelled': return 'Emergency Alert Cancelled';
+    case 'connection_requested': return 'New Patient Connection Request';
+    case 'care_role_changed': return 'Care Team Role Changed';
+    case 'consent_changed': return 'Patient Sharing Changed';
+    case 'handover_requested': return 'Patient Handover Requested';
+    case 'handover_completed': return 'Patient Handover Completed';
+    case 'handover_declined': return 'Patient Handover Declined';
+    default: return 'Notification';
+  }
+};
+
+// Search existing patients by email or phone
+export const searchExistingPatients = async (req: AuthRequest, res: Response) => {
+  try {
+    const { search } = req.query;
+    const caregiverId = req.user._id;
+
+    if (!search) {
+      return res.status(400).json({
+        success: false,
+        message: 'Search query is required'
+      });
+    }
+
+    const existingPatientIds = await Patient.distinct('patient', { caregiver: caregiverId });
+
+    const patients = await User.find({
+      role: 'patient',
+      _id: { $nin: existingPatientIds },
+      $or: [
+        { email: { $regex: search as string, $options: 'i' } },
+        { phoneNumber: { $regex: search as string, $options: 'i' } }
+      ]
+    }).select('name email phoneNumber age gender updatedAt').limit(5);
+
+    res.status(200).json({
+      success: true,
+      data: patients.map(patient => ({
+        id: patient._id,
+        name: patient.name,
+        email: patient.email,
+        phoneNumber: patient.phoneNumber,
+        age: patient.age,
+        gender: patient.gender,
+        lastSeen: patient.updatedAt
+      }))
+    });
+
+  } catch (error) {
+    console.error('Search existing patients error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to search patients'
+    });
+  }
+};
+
+// Send OTP to patient for caregiver addition
+export const sendPatientOTP = async (req: AuthRequest, res: Response) => {
+  try {
+    const { patientId } = req.body;
+    const caregiverId = req.user._id;
+
+    // Find the patient user
+    const patientUser = await User.findById(patientId);
+    if (!patientUser || patientUser.role !== 'patient') {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found'
+      });
+    }
+
+    // Check if patient is already under this caregiver
+    const existingPatient = await Patient.findOne({
+      patient: patientUser._id,
+      caregiver: caregiverId
+    });
+
+    if (existingPatient) {
+      return res.status(400).json({
+        success: false,
+        message: 'Patient is already under your care'
+      });
+    }
+
+    // Generate OTP and save to user
+    const otp = generateOTP();
+    const otpExpires = generateOTPExpiry();
+
+    patientUser.otp = otp;
+    patientUser.otpExpires = otpExpires;
+    await patientUser.save();
+
+    // Send OTP email
+    await emailService.sendPatientAdditionOTP(
+      patientUser.email, 
+      otp, 
+      req.user.name, 
+      patientUser.name
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'OTP sent to patient email',
+      patientEmail: patientUser.email
+    });
+
+  } catch (error) {
+    console.error('Send patient OTP error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send OTP'
+    });
+  }
+};
+
+// Verify OTP and add patient to caregiver
+export const verifyPatientOTP = async (req: AuthRequest, res: Response) => {
+  try {
+    const { patientId, otp } = req.body;
+    const caregiverId = req.user._id;
+
+    // Find patient user with OTP
+    const patientUser = await User.findById(patientId).select('+otp +otpExpires');
+    if (!patientUser) {
       return res.status(404).json({
         success: false,
-        message: 'Notification not found'
+        message: 'Patient not found'
+      });
+    }
+
+    // Verify OTP logic...
+    if (!patientUser.otp || !patientUser.otpExpires) {
+      return res.status(400).json({
+        success: false,
+        message: 'No OTP found. Please request a new one.'
+      });
+    }
+
+    if (isOTPExpired(patientUser.otpExpires)) {
+      return res.status(400).json({
+        success: false,
+        message: 'OTP has expired. Please request a new one.'
+      });
+    }
+
+    if (patientUser.otp !== otp) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid OTP'
+      });
+    }
+
+    const patient = new Patient({
+      patient: patientUser._id,
+      caregiver: caregiverId
+    });
+
+    await patient.save();
+
+    // Reading out the code is the patient's consent to share their records
+    await careConsentService.grant(patient, {}, { _id: caregiverId, role: 'caregiver' });
+
+    // Clear OTP
+    patientUser.otp = undefined;
+    patientUser.otpExpires = undefined;
+    await patientUser.save();
+
+    // FIXED: Create activity log with User ID, not Patient record ID
+    await Activity.create({
+      type: 'patient_added',
+      patient: patientUser._id,
+      caregiver: caregiverId,
+      message: `Patient ${patientUser.name} added to your care`,
+      priority: 'low'
+    });
+
+    await patient.populate('patient', PATIENT_ACCOUNT_FIELDS);
+
+    res.status(201).json({
+      success: true,
+      message: 'Patient added successfully',
+      data: patient
+    });
+
+  } catch (error) {
+    console.error('Verify patient OTP error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify OTP and add patient'
+    });
+  }
+};
+
+// Remove patient from caregiver list
+export const removePatient = async (req: AuthRequest, res: Response) => {
+  try {
+    const { patientId } = req.params;
+    const caregiverId = req.user._id;
+
+    // Find the patient relationship record
+    const patientRecord = await Patient.findOne({
+      _id: patientId,
+      caregiver: caregiverId
+    });
+
+    if (!patientRecord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found'
+      });
+    }
+
+    const patientUserId = patientRecord.patient;
+
+    // Remove the patient relationship record
+    await Patient.findByIdAndDelete(patientId);
+
+    // Clear this relationship's notifications; taken doses stay as the dose record
+    await notificationPreferenceService.dismissActivities(caregiverId, {
+      patient: patientUserId,
+      caregiver: caregiverId
+    });
+
+    // Someone else on the care team carries on: a secondary steps up if the primary left
+    await careTeamService.fillPrimaryVacancy(patientUserId);
+    const successor = await careTeamService.findSuccessor(patientUserId);
+
+    if (successor) {
+      // The regimen stays with the team; the successor takes over this caregiver's medications
+      await Medication.updateMany(
+        { patient: patientUserId, caregiver: caregiverId },
+        { caregiver: successor.caregiver }
+      );
+    } else {
+      // Nobody takes over: archive this caregiver's medications so the patient keeps their dose history
+      const medications = await Medication.find({
+        patient: patientUserId,
+        caregiver: caregiverId,
+        status: { $ne: 'archived' }
       });
+      for (const medication of medications) {
+        await medicationChangeService.archiveMedication(medication, req.user, {
+          reason: `${req.user.name} stopped caring for this patient`
+        });
+      }
     }
 
     res.status(200).json({
-      success: true
+      success: true,
+      message: 'Patient removed successfully from your care list.'
     });
 
   } catch (error) {
-    console.error('Mark caregiver notification as read error:', error);
+    console.error('Remove patient error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to mark notification as read'
+      message: 'Failed to remove patient'
+    });
+  }
+};
+
+// Record a patient's medical history and allergies, shared with their whole care team (primary caregiver only)
+export const updatePatientProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    const { patientId } = req.params;
+    const { medicalHistory, allergies } = req.body;
+    const caregiverId = req.user._id;
+
+    const patientRecord = await Patient.findOne({
+      _id: patientId,
+      caregiver: caregiverId
+    });
+
+    if (!patientRecord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found'
+      });
+    }
+
+    if (!checkCarePermission(res, patientRecord.careRole, 'editRecords')) return;
+    if (!await checkRelationshipConsent(res, patientRecord)) return;
+
+    const profile = await patientProfileService.update(patientRecord.patient, { medicalHistory, allergies }, caregiverId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Medical profile updated',
+      data: profile
+    });
+
+  } catch (error) {
+    console.error('Update patient profile error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update medical profile'
+    });
+  }
+};
+
+// Everyone caring for a patient and what their role lets them do
+export const getCareTeam = async (req: AuthRequest, res: Response) => {
+  try {
+    const { patientId } = req.params;
+    const caregiverId = req.user._id;
+
+    const patientRecord = await Patient.findOne({
+      _id: patientId,
+      caregiver: caregiverId
+    });
+
+    if (!patientRecord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found'
+      });
+    }
+
+    if (!await checkRelationshipConsent(res, patientRecord)) return;
+
+    const team = await careTeamService.getTeam(patientRecord.patient);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        careRole: patientRecord.careRole,
+        permissions: careTeamService.getPermissions(patientRecord.careRole),
+        members: team
+          .filter(member => member.caregiver && (member.caregiver as any)._id)
+          .map(member => {
+            const caregiver = member.caregiver as any;
+            return {
+              caregiverId: caregiver._id,
+              name: caregiver.name,
+              email: caregiver.email,
+              careRole: member.careRole,
+              permissions: careTeamService.getPermissions(member.careRole),
+              isYou: caregiver._id.toString() === caregiverId.toString(),
+              connectedAt: member.createdAt
+            };
+          })
+      }
+    });
+
+  } catch (error) {
+    console.error('Get care team error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get care team'
+    });
+  }
+};
+
+// Change a team member's role (primary caregiver only)
+export const updateCareTeamRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const { patientId, caregiverId: memberId } = req.params;
+    const { role } = req.body;
+    const caregiverId = req.user._id;
+
+    const patientRecord = await Patient.findOne({
+      _id: patientId,
+      caregiver: caregiverId
+    });
+
+    if (!patientRecord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Patient not found'
+      });
+    }
+
+    if (!checkCarePermission(res, patientRecord.careRole, 'manageTeam')) return;
+
+    if (!await checkRelationshipConsent(res, patientRecord)) return;
+
+    const memberRecord = await Patient.findOne({
+      patient: patientRecord.patient,
+      caregiver: memberId
+    });
+
+    if (!memberRecord) {
+      return res.status(404).json({
+        success: false,
+        message: 'Caregiver is not on this patient\'s care team'
+      });
+    }
+
+    const updated = await careTeamService.changeRole(memberRecord, role, {
+      _id: caregiverId,
+      name: req.user.name,
+      role: 'caregiver'
+    });
+
+    if (!updated) {
+      return res.status(400).json({
+        success: false,
+        message: 'A care team needs a primary caregiver. Make another caregiver primary instead.'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Role changed to ${careTeamService.describeRole(updated.careRole)}`,
+      data: {
+        caregiverId: memberId,
+        careRole: updated.careRole,
+        permissions: careTeamService.getPermissions(updated.careRole)
+      }
+    });
+
+  } catch (error) {
+    console.error('Update care team role error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update care team role'
     });
   }
 };
 
-// Mark all notifications as read for caregiver
-export const markAllNotificationsAsRead = async (req: AuthRequest, res: Response) => {
+// Get SOS incidents of the caregiver's patients, newest first
+export const getSOSIncidents = async (req: AuthRequest, res: Response) => {
   try {
     const caregiverId = req.user._id;
+    const { status } = req.query;
+
+    const query: any = {
+      'escalationChain.caregiver': caregiverId,
+      patient: { $nin: await careConsentService.getBlockedPatientIds(caregiverId, 'sos_location') }
+    };
+    if (status === 'open') {
+      query.status = { $in: OPEN_SOS_STATUSES };
+    }
 
-    await Activity.updateMany(
-      { caregiver: caregiverId },
-      { isRead: true }
-    );
+    const incidents = await SosIncident.find(query)
+      .populate('patient acknowledgedBy resolvedBy', 'name')
+      .sort({ createdAt: -1 })
+      .limit(50);
 
     res.status(200).json({
       success: true,
-      message: 'All notifications marked as read'
+      data: incidents
     });
 
   } catch (error) {
-    console.error('Mark all caregiver notifications as read error:', error);
+    console.error('Get SOS incidents error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to mark all notifications as read'
+      message: 'Failed to fetch SOS alerts'
     });
   }
 };
 
-// Get notification count for caregiver dashboard/navbar
-export const getNotificationCount = async (req: AuthRequest, res: Response) => {
+// Get one SOS incident with its full timeline
+export const getSOSIncident = async (req: AuthRequest, res: Response) => {
   try {
+    const { incidentId } = req.params;
     const caregiverId = req.user._id;
 
-    const unreadCount = await Activity.countDocuments({
-      caregiver: caregiverId,
-      isRead: false
-    });
+    const incident = await SosIncident.findOne({ _id: incidentId, 'escalationChain.caregiver': caregiverId })
+      .populate('patient acknowledgedBy resolvedBy', 'name');
+
+    if (!incident) {
+      return res.status(404).json({
+        success: false,
+        message: 'SOS alert not found'
+      });
+    }
+
+    const patient = incident.patient as any;
+    const access = await careConsentService.getAccessForCaregiver(patient._id, caregiverId);
+    if (!checkConsent(res, access, patient.name || 'The patient', 'sos_location')) return;
 
     res.status(200).json({
       success: true,
-      data: {
-        unreadCount
-      }
+      data: incident
     });
 
   } catch (error) {
-    console.error('Get caregiver notification count error:', error);
+    console.error('Get SOS incident error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to get notification count'
+      message: 'Failed to fetch SOS alert'
     });
   }
 };
 
-// Delete single notification for caregiver
-export const deleteNotification = async (req: AuthRequest, res: Response) => {
+// Confirm an SOS alert has been seen, which stops escalation
+export const acknowledgeSOSIncident = async (req: AuthRequest, res: Response) => {
   try {
-    const { notificationId } = req.params;
+    const { incidentId } = req.params;
     const caregiverId = req.user._id;
 
-    // Find and delete the notification (activity) for this caregiver
-    const deletedActivity = await Activity.findOneAndDelete({
-      _id: notificationId,
-      caregiver: caregiverId
-    });
+    const incident = await SosIncident.findOne({ _id: incidentId, 'escalationChain.caregiver': caregiverId });
 
-    if (!deletedActivity) {
+    if (!incident) {
       return res.status(404).json({
         success: false,
-        message: 'Notification not found'
+        message: 'SOS alert not found'
+      });
+    }
+
+    const access = await careConsentService.getAccessForCaregiver(incident.patient, caregiverId);
+    if (!checkConsent(res, access, 'The patient', 'sos_location')) return;
+
+    const acknowledged = await sosIncidentService.acknowledge(incident, req.user);
+
+    if (!acknowledged) {
+      return res.status(400).json({
+        success: false,
+        message: 'This SOS alert has already been acknowledged or closed'
       });
     }
 
     res.status(200).json({
       success: true,
-      message: 'Notification deleted successfully'
+      message: 'SOS alert acknowledged',
+      data: acknowledged
     });
 
   } catch (error) {
-    console.error('Delete caregiver notification error:', error);
+    console.error('Acknowledge SOS incident error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to delete notification'
+      message: 'Failed to acknowledge SOS alert'
     });
   }
 };
 
-// Delete multiple notifications for caregiver
-export const deleteMultipleNotifications = async (req: AuthRequest, res: Response) => {
+// Close an SOS alert once the patient is safe
+export const resolveSOSIncident = async (req: AuthRequest, res: Response) => {
   try {
-    const { notificationIds } = req.body;
+    const { incidentId } = req.params;
+    const { note } = req.body;
     const caregiverId = req.user._id;
 
-    if (!Array.isArray(notificationIds) || notificationIds.length === 0) {
-      return res.status(400).json({
+    const incident = await SosIncident.findOne({ _id: incidentId, 'escalationChain.caregiver': caregiverId });
+
+    if (!incident) {
+      return res.status(404).json({
         success: false,
-        message: 'Notification IDs array is required'
+        message: 'SOS alert not found'
       });
     }
 
-    // Delete multiple notifications for this caregiver
-    const deleteResult = await Activity.deleteMany({
-      _id: { $in: notificationIds },
-      caregiver: caregiverId
-    });
+    const access = await careConsentService.getAccessForCaregiver(incident.patient, caregiverId);
+    if (!checkConsent(res, access, 'The patient', 'sos_location')) return;
+
+    const resolved = await sosIncidentService.resolve(incident, req.user, note);
+
+    if (!resolved) {
+      return res.status(400).json({
+        success: false,
+        message: 'This SOS alert has already been closed'
+      });
+    }
 
     res.status(200).json({
       success: true,
-      message: `${deleteResult.deletedCount} notifications deleted successfully`,
-      data: {
-        deletedCount: deleteResult.deletedCount,
-        requestedCount: notificationIds.length
-      }
+      message: 'SOS alert resolved',
+      data: resolved
     });
 
   } catch (error) {
-    console.error('Delete multiple caregiver notifications error:', error);
+    console.error('Resolve SOS incident error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to delete notifications'
+      message: 'Failed to resolve SOS alert'
     });
   }
 };
 
-// Delete all notifications for caregiver
-export const deleteAllNotifications = async (req: AuthRequest, res: Response) => {
+// Get connection requests sent to the caregiver by patients
+export const getConnectionRequests = async (req: AuthRequest, res: Response) => {
   try {
     const caregiverId = req.user._id;
+    const { status = 'pending' } = req.query;
 
-    const deleteResult = await Activity.deleteMany({
-      caregiver: caregiverId
-    });
+    await connectionRequestService.expireStale({ caregiver: caregiverId });
+
+    const query: any = { caregiver: caregiverId };
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    const requests = await ConnectionRequest.find(query)
+      .populate('patient', 'name email age gender')
+      .sort({ createdAt: -1 })
+      .limit(50);
 
     res.status(200).json({
       success: true,
-      message: `All ${deleteResult.deletedCount} notifications deleted successfully`,
-      data: {
-        deletedCount: deleteResult.deletedCount
-      }
+      data: requests
     });
 
   } catch (error) {
-    console.error('Delete all caregiver notifications error:', error);
+    console.error('Get connection requests error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to delete all notifications'
+      message: 'Failed to fetch connection requests'
     });
   }
 };
 
-// Helper function for caregiver notification titles
-const getCaregiverNotificationTitle = (type: string): string => {
-  switch (type) {
-    case 'dose_taken': return 'Patient Took Medication';
-    case 'dose_missed': return 'Patient Missed Dose';
-    case 'low_stock': return 'Low Medication Stock';
-    case 'sos_alert': return 'Emergency Alert from Patient';
-    case 'medication_added': return 'New Medication Added';
-    default: return 'Notification';
-  }
-};
-
-// Search existing patients by email or phone
-export const searchExistingPatients = async (req: AuthRequest, res: Response) => {
+// Accept a patient's connection request and add them to the caregiver's patients
+export const acceptConnectionRequest = async (req: AuthRequest, res: Response) => {
   try {
-    const { search } = req.query;
+    const { requestId } = req.params;
     const caregiverId = req.user._id;
 
-    if (!search) {
-      return res.status(400).json({
+    const request = await ConnectionRequest.findOne({ _id: requestId, caregiver: caregiverId });
+
+    if (!request) {
+      return res.status(404).json({
         success: false,
-        message: 'Search query is required'
+        message: 'Connection request not found'
       });
     }
 
-    const existingPatientEmails = await Patient.distinct('email', { caregiver: caregiverId });
+    const accepted = await connectionRequestService.accept(request, req.user);
 
-    const patients = await User.find({
-      role: 'patient',
-      email: { $nin: existingPatientEmails },
-      $or: [
-        { email: { $regex: search as string, $options: 'i' } },
-        { phoneNumber: { $regex: search as string, $options: 'i' } }
-      ]
-    }).select('name email phoneNumber age gender updatedAt').limit(5);
+    if (!accepted) {
+      return res.status(400).json({
+        success: false,
+        message: 'This request has already been answered or has expired'
+      });
+    }
 
     res.status(200).json({
       success: true,
-      data: patients.map(patient => ({
-        id: patient._id,
-        name: patient.name,
-        email: patient.email,
-        phoneNumber: patient.phoneNumber,
-        age: patient.age,
-        gender: patient.gender,
-        lastSeen: patient.updatedAt
-      }))
+      message: 'Connection request accepted. The patient has been added to your care list.',
+      data: accepted
     });
 
   } catch (error) {
-    console.error('Search existing patients error:', error);
+    console.error('Accept connection request error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to search patients'
+      message: 'Failed to accept connection request'
     });
   }
 };
 
-// Send OTP to patient for caregiver addition
-export const sendPatientOTP = async (req: AuthRequest, res: Response) => {
+// Decline a patient's connection request
+export const declineConnectionRequest = async (req: AuthRequest, res: Response) => {
   try {
-    const { patientId } = req.body;
+    const { requestId } = req.params;
+    const { reason } = req.body;
     const caregiverId = req.user._id;
 
-    // Find the patient user
-    const patientUser = await User.findById(patientId);
-    if (!patientUser || patientUser.role !== 'patient') {
+    const request = await ConnectionRequest.findOne({ _id: requestId, caregiver: caregiverId });
+
+    if (!request) {
       return res.status(404).json({
         success: false,
-        message: 'Patient not found'
+        message: 'Connection request not found'
       });
     }
 
-    // Check if patient is already under this caregiver
-    const existingPatient = await Patient.findOne({
-      email: patientUser.email,
-      caregiver: caregiverId
-    });
+    const declined = await connectionRequestService.decline(request, req.user, reason);
 
-    if (existingPatient) {
+    if (!declined) {
       return res.status(400).json({
         success: false,
-        message: 'Patient is already under your care'
+        message: 'This request has already been answered or has expired'
       });
     }
 
-    // Generate OTP and save to user
-    const otp = generateOTP();
-    const otpExpires = generateOTPExpiry();
-
-    patientUser.otp = otp;
-    patientUser.otpExpires = otpExpires;
-    await patientUser.save();
-
-    // Send OTP email
-    await emailService.sendPatientAdditionOTP(
-      patientUser.email, 
-      otp, 
-      req.user.name, 
-      patientUser.name
-    );
-
     res.status(200).json({
       success: true,
-      message: 'OTP sent to patient email',
-      patientEmail: patientUser.email
+      message: 'Connection request declined',
+      data: declined
     });
 
   } catch (error) {
-    console.error('Send patient OTP error:', error);
+    console.error('Decline connection request error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to send OTP'
+      message: 'Failed to decline connection request'
     });
   }
 };
 
-// Verify OTP and add patient to caregiver
-export const verifyPatientOTP = async (req: AuthRequest, res: Response) => {
+// Nominate another caregiver to take over a patient; the patient has to confirm
+export const requestHandover = async (req: AuthRequest, res: Response) => {
   try {
-    const { patientId, otp } = req.body;
+    const { patientId } = req.params;
+    const { caregiverEmail, note } = req.body;
     const caregiverId = req.user._id;
+    const now = new Date();
 
-    // Find patient user with OTP
-    const patientUser = await User.findById(patientId).select('+otp +otpExpires');
-    if (!patientUser) {
+    const patientRecord = await Patient.findOne({
+      _id: patientId,
+      caregiver: caregiverId
+    });
+
+    if (!patientRecord) {
       return res.status(404).json({
         success: false,
         message: 'Patient not found'
       });
     }
 
-    // Verify OTP logic...
-    if (!patientUser.otp || !patientUser.otpExpires) {
-      return res.status(400).json({
+    const patientUser = await User.findById(patientRecord.patient);
+    if (!patientUser) {
+      return res.status(404).json({
         success: false,
-        message: 'No OTP found. Please request a new one.'
+        message: 'Patient user account not found'
       });
     }
 
-    if (isOTPExpired(patientUser.otpExpires)) {
+    const access = await careConsentService.getAccessForRelationship(patientRecord, now);
+    if (!checkConsent(res, access, patientUser.name)) return;
+
+    const successor = await User.findOne({ email: caregiverEmail, role: 'caregiver' });
+    if (!successor) {
+      return res.status(404).json({
+        success: false,
+        message: 'No caregiver account found with that email'
+      });
+    }
+
+    if (successor._id.toString() === caregiverId.toString()) {
       return res.status(400).json({
         success: false,
-        message: 'OTP has expired. Please request a new one.'
+        message: 'You cannot hand a patient over to yourself'
       });
     }
 
-    if (patientUser.otp !== otp) {
+    const existingLink = await Patient.findOne({ patient: patientUser._id, caregiver: successor._id });
+    if (existingLink) {
       return res.status(400).json({
         success: false,
-        message: 'Invalid OTP'
+        message: `${successor.name} is already on ${patientUser.name}'s care team`
       });
     }
 
-    const patient = new Patient({
-      name: patientUser.name,
-      email: patientUser.email,
-      age: patientUser.age,
-      gender: patientUser.gender,
-      phoneNumber: patientUser.phoneNumber,
-      caregiver: caregiverId
-    });
+    await careHandoverService.expireStale({ patientRecord: patientRecord._id }, now);
 
-    await patient.save();
+    let handover;
+    try {
+      handover = await careHandoverService.nominate(patientRecord, patientUser, req.user, successor, note, now);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return res.status(400).json({
+          success: false,
+          message: `There is already a pending handover for ${patientUser.name}`
+        });
+      }
+      throw error;
+    }
 
-    // Clear OTP
-    patientUser.otp = undefined;
-    patientUser.otpExpires = undefined;
-    await patientUser.save();
+    res.status(201).json({
+      success: true,
+      message: `Handover requested. ${patientUser.name} needs to confirm it.`,
+      data: {
+        id: handover._id,
+        patient: {
+          id: patientRecord._id,
+          name: patientUser.name
+        },
+        toCaregiver: {
+          id: successor._id,
+          name: successor.name,
+          email: successor.email
+        },
+        note: handover.note,
+        status: handover.status,
+        expiresAt: handover.expiresAt,
+        createdAt: handover.createdAt
+      }
+    });
 
-    // FIXED: Create activity log with User ID, not Patient record ID
-    await Activity.create({
-      type: 'patient_added',
-      patient: patientUser._id,
-      caregiver: caregiverId,
-      message: `Patient ${patient.name} added to your care`,
-      priority: 'low'
+  } catch (error) {
+    console.error('Request handover error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to request handover'
     });
+  }
+};
 
-    res.status(201).json({
+// Get handovers the caregiver has proposed or been nominated for
+export const getHandovers = async (req: AuthRequest, res: Response) => {
+  try {
+    const caregiverId = req.user._id;
+    const { status = 'pending' } = req.query;
+    const involved = { $or: [{ fromCaregiver: caregiverId }, { toCaregiver: caregiverId }] };
+
+    await careHandoverService.expireStale(involved);
+
+    const query: any = { ...involved };
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    const handovers = await CareHandover.find(query)
+      .populate('patient', 'name email')
+      .populate('fromCaregiver', 'name email')
+      .populate('toCaregiver', 'name email')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.status(200).json({
       success: true,
-      message: 'Patient added successfully',
-      data: patient
+      data: handovers
     });
 
   } catch (error) {
-    console.error('Verify patient OTP error:', error);
+    console.error('Get handovers error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to verify OTP and add patient'
+      message: 'Failed to fetch handovers'
     });
   }
 };
 
-// Remove patient from caregiver list
-export const removePatient = async (req: AuthRequest, res: Response) => {
+// Withdraw a handover the caregiver proposed
+export const cancelHandover = async (req: AuthRequest, res: Response) => {
   try {
-    const { patientId } = req.params;
+    const { handoverId } = req.params;
     const caregiverId = req.user._id;
 
-    // Find the patient relationship record
-    const patientRecord = await Patient.findOne({
-      _id: patientId,
-      caregiver: caregiverId
-    });
+    const handover = await CareHandover.findOne({ _id: handoverId, fromCaregiver: caregiverId });
 
-    if (!patientRecord) {
+    if (!handover) {
       return res.status(404).json({
         success: false,
-        message: 'Patient not found'
+        message: 'Handover not found'
       });
     }
 
-    // FIXED: Find the actual User account to get the correct User ID
-    const patientUser = await User.findOne({
-      email: patientRecord.email,
-      role: 'patient'
-    });
-
-    if (patientUser) {
-      // Remove medications for this patient-caregiver relationship
-      await Medication.deleteMany({ 
-        patient: patientUser._id,  // Use User ID, not Patient record ID
-        caregiver: caregiverId 
-      });
+    const cancelled = await careHandoverService.cancel(handover);
 
-      // Remove activities for this patient-caregiver relationship
-      await Activity.deleteMany({ 
-        patient: patientUser._id,  // Use User ID, not Patient record ID
-        caregiver: caregiverId 
+    if (!cancelled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only pending handovers can be cancelled'
       });
     }
 
-    // Remove the patient relationship record
-    await Patient.findByIdAndDelete(patientId);
-
     res.status(200).json({
       success: true,
-      message: 'Patient removed successfully from your care list.'
+      message: 'Handover cancelled',
+      data: cancelled
     });
 
   } catch (error) {
-    console.error('Remove patient error:', error);
+    console.error('Cancel handover error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to remove patient'
+      message: 'Failed to cancel handover'
     });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { activityStreamService } from '../services/activityStreamService';
+
+interface AuthRequest extends Request {
+  user?: any;
+}
+
+// Open a server-sent event stream of new activities for the signed-in user
+export const streamEvents = async (req: AuthRequest, res: Response) => {
+  try {
+    // Browsers resend the last id in a header; polyfills often use a query parameter
+    const lastEventId = req.get('last-event-id') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+    await activityStreamService.connect(req.user, res, lastEventId);
+
+  } catch (error) {
+    console.error('Stream events error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        message: 'Failed to open event stream'
+      });
+    } else {
+      res.end();
+    }
+  }
+};
@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import { jobScheduler } from '../jobs';
+
+/**
+ * Run a background job on demand
+ * Only available in development mode
+ */
+export const runJob = async (req: Request, res: Response) => {
+  try {
+    if (process.env.NODE_ENV !== 'development') {
+      return res.status(403).json({
+        success: false,
+        message: 'Test endpoints only available in development mode'
+      });
+    }
+
+    const { jobName } = req.params;
+    const result = await jobScheduler.runNow(jobName);
+
+    res.status(200).json({
+      success: true,
+      message: `Job ${jobName} completed`,
+      data: {
+        result,
+        timestamp: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Run job error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to run job',
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+/**
+ * List registered background jobs and their last run
+ * Only available in development mode
+ */
+export const getJobStatus = async (req: Request, res: Response) => {
+  try {
+    if (process.env.NODE_ENV !== 'development') {
+      return res.status(403).json({
+        success: false,
+        message: 'Test endpoints only available in development mode'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: jobScheduler.getStatus()
+    });
+
+  } catch (error) {
+    console.error('Get job status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get job status'
+    });
+  }
+};
@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import PushSubscription from '../models/PushSubscription';
+import { VAPID_PUBLIC_KEY } from '../config/notifications';
+
+interface AuthRequest extends Request {
+  user?: any;
+}
+
+// Public VAPID key the browser needs to create a push subscription
+export const getPushPublicKey = async (req: AuthRequest, res: Response) => {
+  try {
+    if (!VAPID_PUBLIC_KEY) {
+      return res.status(503).json({
+        success: false,
+        message: 'Push notifications are not available'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        publicKey: VAPID_PUBLIC_KEY
+      }
+    });
+
+  } catch (error) {
+    console.error('Get push public key error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get push public key'
+    });
+  }
+};
+
+// Register (or move to this user) a browser push subscription
+export const subscribeToPush = async (req: AuthRequest, res: Response) => {
+  try {
+    const { endpoint, keys } = req.body;
+
+    // An endpoint identifies one browser subscription; never take over another account's
+    const existing = await PushSubscription.findOne({ endpoint }).select('user');
+    if (existing && existing.user.toString() !== req.user._id.toString()) {
+      return res.status(409).json({
+        success: false,
+        message: 'This push subscription belongs to another account'
+      });
+    }
+
+    const subscription = await PushSubscription.findOneAndUpdate(
+      { endpoint, user: req.user._id },
+      {
+        user: req.user._id,
+        endpoint,
+        keys: { p256dh: keys.p256dh, auth: keys.auth },
+        userAgent: req.get('user-agent')?.slice(0, 300)
+      },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Push notifications enabled on this device',
+      data: subscription
+    });
+
+  } catch (error) {
+    console.error('Subscribe to push error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to enable push notifications'
+    });
+  }
+};
+
+// Remove a browser push subscription
+export const unsubscribeFromPush = async (req: AuthRequest, res: Response) => {
+  try {
+    const { endpoint } = req.body;
+
+    const result = await PushSubscription.deleteOne({ endpoint, user: req.user._id });
+
+    if (result.deletedCount === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Push subscription not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Push notifications disabled on this device'
+    });
+
+  } catch (error) {
+    console.error('Unsubscribe from push error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to disable push notifications'
+    });
+  }
+};
@@ -6,9 +6,34 @@ import User from '../models/User';
 import EmergencyContact from '../models/EmergencyContact';
 import MealTime from '../models/MealTime';
 import mongoose from 'mongoose';
-import { checkMedicationTimingWindow } from './barcodeController';
+import { checkMedicationTimingWindow, checkPRNDoseLimits } from './barcodeController';
 import { canTakeMedicationNow } from '../utils/barcodeUtils';
-import { getCurrentIST, convertUTCToIST, getTodayStartIST, getTodayEndIST, getDaysAgoIST } from '../utils/timezoneUtils';
+import { describeSchedule, isPRNMedication, isWithinCourse } from '../utils/medicationTimingUtils';
+import { getDoseForDay, resolveDosePhase, getUpcomingPhaseTransitions } from '../utils/dosePlanUtils';
+import { getLocalDateKey, addDaysToDateKey, formatLocalTime, resolveTimezone, isValidTimezone } from '../utils/timezoneUtils';
+import { doseScheduleService } from '../services/doseScheduleService';
+import { medicationChangeService } from '../services/medicationChangeService';
+import ScheduledDose from '../models/ScheduledDose';
+import DataExport from '../models/DataExport';
+import { healthExportService, EXPORT_FORMATS } from '../services/healthExportService';
+import { fhirExportService } from '../services/fhirExportService';
+import { verifySignedPath } from '../utils/signedUrlUtils';
+import { EXPORT_SIGNING_SECRET } from '../config/exports';
+import { notificationPreferenceService } from '../services/notificationPreferenceService';
+import { doseReminderService } from '../services/doseReminderService';
+import { DOSE_SNOOZE_DEFAULT_MINUTES, DOSE_SNOOZE_MAX_COUNT } from '../config/reminders';
+import { sosIncidentService } from '../services/sosIncidentService';
+import { emergencyContactService } from '../services/emergencyContactService';
+import { connectionRequestService } from '../services/connectionRequestService';
+import ConnectionRequest from '../models/ConnectionRequest';
+import { CONNECTION_REQUEST_DAILY_LIMIT } from '../config/connections';
+import { careTeamService } from '../services/careTeamService';
+import { careConsentService } from '../services/careConsentService';
+import CareConsent from '../models/CareConsent';
+import { careHandoverService } from '../services/careHandoverService';
+import { patientProfileService } from '../services/patientProfileService';
+import CareHandover from '../models/CareHandover';
+import SosIncident, { ISosIncident, OPEN_SOS_STATUSES } from '../models/SosIncident';
 
 interface AuthRequest extends Request {
   user?: any;
@@ -19,127 +44,117 @@ export const getDashboardData = async (req: AuthRequest, res: Response) => {
   try {
     const patientUserId = req.user._id;
 
-    const medications = await Medication.find({ patient: patientUserId });
+    const medications = await Medication.find({ patient: patientUserId, status: { $ne: 'archived' } });
 
     // Calculate stats
     const totalMedications = medications.length;
     const activeMedications = medications.filter(med => med.status === 'active').length;
 
-    // FIXED: Calculate proper adherence rate based on actual dose activities
-    let totalExpectedDoses = 0;
-    let totalTakenDoses = 0;
-    let totalMissedDoses = 0; 
+    // Adherence for the last 7 days is computed from materialized dose slots
+    const now = new Date();
+    const timezone = resolveTimezone(req.user.timezone);
+    const todayKey = getLocalDateKey(now, timezone);
+    const weekStartKey = addDaysToDateKey(todayKey, -6);
 
-    // Calculate adherence for last 7 days
-    const sevenDaysAgo = getDaysAgoIST(7);
+    const weekDoses = await doseScheduleService.getPatientDoses(patientUserId, weekStartKey, todayKey);
+    const weeklySummary = doseScheduleService.summarizeDoses(weekDoses, now);
 
-    for (const medication of medications) {
-      if (medication.status === 'active') {
-        // Calculate expected doses for this medication in last 7 days
-        const expectedDosesPerDay = medication.frequency;
-        const expectedDoses = expectedDosesPerDay * 7;
-        totalExpectedDoses += expectedDoses;
-
-        // Get actual taken doses from activities
-        const takenDoses = await Activity.countDocuments({
-          patient: patientUserId,
-          medication: medication._id,
-          type: 'dose_taken',
-          createdAt: { $gte: sevenDaysAgo }
-        });
-
-        // Get missed doses from activities
-        const missedDoses = await Activity.countDocuments({
-          patient: patientUserId,
-          medication: medication._id,
-          type: 'dose_missed',
-          createdAt: { $gte: sevenDaysAgo }
-        });
-
-        totalTakenDoses += takenDoses;
-        totalMissedDoses += missedDoses;
-      }
-    }
-
-    // Calculate adherence rate percentage
-    const adherenceRate = totalExpectedDoses > 0 
-      ? Math.round((totalTakenDoses / totalExpectedDoses) * 100)
-      : 0;
+    const totalExpectedDoses = weeklySummary.expected;
+    const totalTakenDoses = weeklySummary.taken + weeklySummary.late;
+    const totalMissedDoses = weeklySummary.missed;
+    const adherenceRate = weeklySummary.adherenceRate;
 
     // Update individual medication adherence rates
     for (const medication of medications) {
-      if (medication.status === 'active') {
-        const expectedDoses = medication.frequency * 7;
-        const takenDoses = await Activity.countDocuments({
-          patient: patientUserId,
-          medication: medication._id,
-          type: 'dose_taken',
-          createdAt: { $gte: sevenDaysAgo }
-        });
-        
-        const medAdherenceRate = expectedDoses > 0 
-          ? Math.round((takenDoses / expectedDoses) * 100)
-          : 0;
-        
+      if (medication.status === 'active' && !isPRNMedication(medication)) {
+        const medDoses = weekDoses.filter(dose => dose.medication.toString() === medication._id.toString());
+        const medSummary = doseScheduleService.summarizeDoses(medDoses, now);
+
         // Update medication adherence rate in database
         await Medication.findByIdAndUpdate(medication._id, {
-          adherenceRate: medAdherenceRate
+          adherenceRate: medSummary.adherenceRate
         });
       }
     }
 
-    // FIXED: Calculate today's missed doses
-    const todayStart = getTodayStartIST();
-    const todayEnd = getTodayEndIST();
+    const todayDoses = weekDoses.filter(dose => dose.dateKey === todayKey);
+    const todayMissedDoses = doseScheduleService.summarizeDoses(todayDoses, now).missed;
 
-    const todayMissedDoses = await Activity.countDocuments({
-      patient: patientUserId,
-      type: 'dose_missed',
-      createdAt: { $gte: todayStart, $lte: todayEnd }
-    });
+    // Next due times and reminders come from the reminder engine
+    const upcomingDoses = await doseReminderService.getUpcomingDoses(patientUserId, timezone, now);
+    const nextDoses = doseReminderService.getNextDoses(upcomingDoses);
+    const upcomingTodayDoses = upcomingDoses.filter(({ dose }) => dose.dateKey === todayKey);
 
-    // Get today's medications with actual dose tracking
-    const todaysMedications = await Promise.all(
-      medications
-        .filter(med => med.status === 'active')
-        .map(async (med) => {
-          // Get today's taken doses for this medication
-          const todayTakenDoses = await Activity.countDocuments({
-            patient: patientUserId,
-            medication: med._id,
-            type: 'dose_taken',
-            createdAt: { $gte: todayStart, $lte: todayEnd }
-          });
-
-          // Create taken array based on frequency and actual doses taken
-          const takenArray = Array(med.frequency).fill(false);
-          for (let i = 0; i < Math.min(todayTakenDoses, med.frequency); i++) {
-            takenArray[i] = true;
-          }
+    // Get today's medications with their dose slots
+    const todaysMedications = medications
+      .filter(med => med.status === 'active' && !isPRNMedication(med) && isWithinCourse(med, todayKey, timezone))
+      .map(med => {
+        const medDoses = todayDoses.filter(dose => dose.medication.toString() === med._id.toString());
+        const nextDose = nextDoses.get(med._id.toString())?.dose;
+        const todaysDose = getDoseForDay(med, todayKey, timezone);
 
-          return {
-            id: med._id,
-            name: med.name,
-            dosage: `${med.dosage} ${med.dosageUnit}`,
-            times: Array(med.frequency).fill(0).map((_, i) => `${8 + i * 4}:00`),
-            taken: takenArray,
-            nextDoseTime: `${8}:00`,
-            instructions: med.instructions || '',
-            color: '#2563EB'
-          };
-        })
-    );
+        return {
+          id: med._id,
+          name: med.name,
+          dosage: `${todaysDose.dosage} ${todaysDose.dosageUnit}`,
+          dosePhase: todaysDose.phase,
+          times: medDoses.map(dose => formatLocalTime(dose.scheduledFor, timezone)),
+          taken: medDoses.map(dose => dose.status === 'taken' || dose.status === 'late'),
+          doses: medDoses.map(dose => ({
+            id: dose._id,
+            time: formatLocalTime(dose.scheduledFor, timezone),
+            status: doseScheduleService.getEffectiveStatus(dose, now)
+          })),
+          nextDoseTime: nextDose ? formatLocalTime(nextDose.scheduledFor, timezone) : null,
+          nextDose: nextDose ? doseReminderService.describeDueTime(nextDose, timezone, now) : null,
+          instructions: med.instructions || '',
+          color: '#2563EB'
+        };
+      });
 
-    // Get upcoming reminders
-    const upcomingReminders = medications
-      .filter(med => med.status === 'active')
-      .map(med => ({
+    // As-needed medications are reported separately from adherence
+    const prnMedications = medications.filter(med => med.status === 'active' && isPRNMedication(med));
+    const prnDoseActivities = prnMedications.length > 0
+      ? await Activity.find({
+          patient: patientUserId,
+          type: 'dose_taken',
+          'metadata.isPRN': true,
+          createdAt: { $gt: new Date(now.getTime() - 24 * 60 * 60 * 1000) }
+        }).sort({ createdAt: -1 })
+      : [];
+
+    const asNeededMedications = prnMedications.map(med => {
+      const medDoses = prnDoseActivities.filter(activity => activity.medication?.toString() === med._id.toString());
+      return {
         id: med._id,
-        medicationName: med.name,
-        time: '08:00',
+        name: med.name,
         dosage: `${med.dosage} ${med.dosageUnit}`,
-        isUrgent: false
-      }));
+        dosesLast24h: medDoses.length,
+        maxDosesPer24h: med.prn!.maxDosesPer24h,
+        minIntervalHours: med.prn!.minIntervalHours,
+        reasonRequired: med.prn!.requireReason,
+        lastTaken: medDoses[0] ? medDoses[0].createdAt : null,
+        instructions: med.instructions || ''
+      };
+    });
+
+    // Get upcoming reminders from today's open slots
+    const upcomingReminders = upcomingTodayDoses
+      .map(({ dose, nextReminderAt }) => {
+        const med = medications.find(m => m._id.toString() === dose.medication.toString());
+        return med ? {
+          id: med._id,
+          doseId: dose._id,
+          medicationName: med.name,
+          time: formatLocalTime(dose.scheduledFor, timezone),
+          dosage: dose.dosage || `${med.dosage} ${med.dosageUnit}`,
+          isUrgent: dose.windowStart <= now,
+          remindAt: nextReminderAt,
+          snoozedUntil: dose.snoozedUntil && dose.snoozedUntil > now ? dose.snoozedUntil : null,
+          canSnooze: (dose.snoozeCount || 0) < DOSE_SNOOZE_MAX_COUNT
+        } : null;
+      })
+      .filter(reminder => reminder !== null);
 
     res.status(200).json({
       success: true,
@@ -147,18 +162,20 @@ export const getDashboardData = async (req: AuthRequest, res: Response) => {
         stats: {
           totalMedications,
           activeMedications,
-          todayReminders: activeMedications,
+          todayReminders: todayDoses.length,
           adherenceRate,
           missedDoses: todayMissedDoses, // Today's missed doses
-          upcomingDoses: activeMedications,
+          upcomingDoses: upcomingTodayDoses.length,
           weeklyStats: {
             totalExpectedDoses,
             totalTakenDoses,
             totalMissedDoses,
             adherenceRate
-          }
+          },
+          prnDosesLast24h: prnDoseActivities.length
         },
         todaysMedications,
+        asNeededMedications,
         upcomingReminders,
         recentLogs: []
       }
@@ -187,24 +204,47 @@ export const getMedications = async (req: AuthRequest, res: Response) => {
     
     if (status && status !== 'all') {
       query.status = status;
+    } else {
+      // Medications removed by the caregiver only show up when asked for
+      query.status = { $ne: 'archived' };
     }
 
     const medications = await Medication.find(query).sort({ createdAt: -1 });
+    const timezone = resolveTimezone(req.user.timezone);
+    const now = new Date();
+    const nextDoses = doseReminderService.getNextDoses(
+      await doseReminderService.getUpcomingDoses(patientUserId, timezone, now)
+    );
 
-    const formattedMedications = medications.map(med => ({
-      id: med._id,
-      name: med.name,
-      dosage: med.dosage,
-      dosageUnit: med.dosageUnit,
-      frequency: med.frequency,
-      remainingQuantity: med.remainingQuantity,
-      totalQuantity: med.totalQuantity,
-      status: med.status,
-      adherenceRate: med.adherenceRate,
-      nextDose: 'Today 08:00',
-      expiryDate: med.expiryDate,
-      instructions: med.instructions
-    }));
+    const formattedMedications = medications.map(med => {
+      const nextDose = nextDoses.get(med._id.toString())?.dose;
+
+      return {
+        id: med._id,
+        name: med.name,
+        dosage: med.dosage,
+        dosageUnit: med.dosageUnit,
+        frequency: med.frequency,
+        schedule: med.schedule,
+        isPRN: med.isPRN,
+        prn: med.prn,
+        dosePlan: med.dosePlan,
+        startDate: med.startDate,
+        endDate: med.endDate,
+        completedAt: med.completedAt,
+        pause: med.pause,
+        pauseMessage: medicationChangeService.describePause(med, timezone),
+        scheduleDescription: describeSchedule(med),
+        remainingQuantity: med.remainingQuantity,
+        totalQuantity: med.totalQuantity,
+        status: med.status,
+        adherenceRate: med.adherenceRate,
+        nextDose: nextDose ? doseReminderService.describeDueTime(nextDose, timezone, now) : null,
+        nextDoseAt: nextDose ? nextDose.scheduledFor : null,
+        expiryDate: med.expiryDate,
+        instructions: med.instructions
+      };
+    });
 
     res.status(200).json({
       success: true,
@@ -238,6 +278,9 @@ export const getMedicationDetails = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const timezone = resolveTimezone(req.user.timezone);
+    const todayKey = getLocalDateKey(new Date(), timezone);
+
     res.status(200).json({
       success: true,
       data: {
@@ -246,6 +289,20 @@ export const getMedicationDetails = async (req: AuthRequest, res: Response) => {
         dosage: medication.dosage,
         dosageUnit: medication.dosageUnit,
         frequency: medication.frequency,
+        schedule: medication.schedule,
+        isPRN: medication.isPRN,
+        prn: medication.prn,
+        dosePlan: medication.dosePlan,
+        currentPhase: resolveDosePhase(medication.dosePlan, todayKey, timezone),
+        upcomingPhaseTransitions: getUpcomingPhaseTransitions(medication.dosePlan, todayKey, timezone),
+        startDate: medication.startDate,
+        endDate: medication.endDate,
+        durationDays: medication.durationDays,
+        completedAt: medication.completedAt,
+        completionReason: medication.completionReason,
+        pause: medication.pause,
+        pauseMessage: medicationChangeService.describePause(medication, timezone),
+        scheduleDescription: describeSchedule(medication),
         remainingQuantity: medication.remainingQuantity,
         totalQuantity: medication.totalQuantity,
         status: medication.status,
@@ -368,8 +425,8 @@ export const getNotifications = async (req: AuthRequest, res: Response) => {
     const patientUserId = req.user._id;
     const { type, read } = req.query;
 
-    // Get recent activities as notifications
-    let query: any = { patient: patientUserId };
+    // Get recent activities as notifications, leaving out categories the patient muted
+    let query: any = { patient: patientUserId, mutedFor: { $ne: patientUserId } };
     
     const activities = await Activity.find(query)
       .populate('medication', 'name')
@@ -419,6 +476,23 @@ const getNotificationTitle = (type: string): string => {
     case 'low_stock': return 'Low Stock Alert';
     case 'sos_alert': return 'Emergency Alert';
     case 'medication_added': return 'New Medication';
+    case 'medication_completed': return 'Course Completed';
+    case 'medication_updated': return 'Medication Updated';
+    case 'medication_paused': return 'Medication Paused';
+    case 'medication_resumed': return 'Medication Resumed';
+    case 'medication_archived': return 'Medication Removed';
+    case 'medication_restored': return 'Medication Restored';
+    case 'dose_reminder': return 'Dose Reminder';
+    case 'sos_escalated': return 'Emergency Alert Escalated';
+    case 'sos_acknowledged': return 'Help Is On The Way';
+    case 'sos_resolved': return 'Emergency Alert Resolved';
+    case 'sos_cancelled': return 'Emergency Alert Cancelled';
+    case 'connection_accepted': return 'Caregiver Request Accepted';
+    case 'connection_declined': return 'Caregiver Request Declined';
+    case 'care_role_changed': return 'Care Team Updated';
+    case 'consent_changed': return 'Caregiver Access Changed';
+    case 'handover_requested': return 'Confirm Caregiver Handover';
+    case 'handover_completed': return 'Caregiver Handover Completed';
     default: return 'Notification';
   }
 };
@@ -489,13 +563,13 @@ export const deleteNotification = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Find and delete the notification (activity) for this patient
-    const deletedActivity = await Activity.findOneAndDelete({
+    // Remove the notification (activity) from this patient's feed
+    const dismissed = await notificationPreferenceService.dismissActivities(patientUserId, {
       _id: notificationId,
       patient: patientUserId
     });
 
-    if (!deletedActivity) {
+    if (dismissed === 0) {
       console.log('❌ Notification not found:', notificationId);
       return res.status(404).json({
         success: false,
@@ -548,22 +622,22 @@ export const deleteMultipleNotifications = async (req: AuthRequest, res: Respons
       });
     }
 
-    // Delete multiple notifications for this patient
-    const deleteResult = await Activity.deleteMany({
+    // Remove multiple notifications from this patient's feed
+    const deletedCount = await notificationPreferenceService.dismissActivities(patientUserId, {
       _id: { $in: notificationIds },
       patient: patientUserId
     });
 
     console.log('✅ Delete result:', {
-      deletedCount: deleteResult.deletedCount,
+      deletedCount,
       requestedCount: notificationIds.length
     });
 
     res.status(200).json({
       success: true,
-      message: `${deleteResult.deletedCount} notifications deleted successfully`,
+      message: `${deletedCount} notifications deleted successfully`,
       data: {
-        deletedCount: deleteResult.deletedCount,
+        deletedCount,
         requestedCount: notificationIds.length
       }
     });
@@ -582,15 +656,15 @@ export const deleteAllNotifications = async (req: AuthRequest, res: Response) =>
   try {
     const patientUserId = req.user._id;
 
-    const deleteResult = await Activity.deleteMany({
+    const deletedCount = await notificationPreferenceService.dismissActivities(patientUserId, {
       patient: patientUserId
     });
 
     res.status(200).json({
       success: true,
-      message: `All ${deleteResult.deletedCount} notifications deleted successfully`,
+      message: `All ${deletedCount} notifications deleted successfully`,
       data: {
-        deletedCount: deleteResult.deletedCount
+        deletedCount
       }
     });
 
@@ -607,87 +681,37 @@ export const deleteAllNotifications = async (req: AuthRequest, res: Response) =>
 export const sendSOSAlert = async (req: AuthRequest, res: Response) => {
   try {
     const { message, location, severity } = req.body;
-    const patientUserId = req.user._id;
-
-    // Find the patient relationship record using the user's email
-    const patientRecord = await Patient.findOne({ email: req.user.email }).populate('caregiver');
-    
-    let caregiverId = null;
-    let caregiverInfo = null;
-
-    if (patientRecord && patientRecord.caregiver && patientRecord.caregiver._id) {
-      caregiverId = patientRecord.caregiver._id;
-      caregiverInfo = {
-        id: patientRecord.caregiver._id,
-        name: (patientRecord.caregiver as any).name || 'Caregiver',
-        email: (patientRecord.caregiver as any).email || ''
-      };
-      console.log('Found caregiver for SOS alert:', caregiverId);
-    } else {
-      console.log('No caregiver found, will create SOS alert for emergency services');
-      
-      // Try to find any caregiver user to assign this to (emergency fallback)
-      const emergencyCaregiver = await User.findOne({ role: 'caregiver' }).sort({ createdAt: 1 });
-      if (emergencyCaregiver) {
-        caregiverId = emergencyCaregiver._id;
-        caregiverInfo = {
-          id: emergencyCaregiver._id,
-          name: 'Emergency Services',
-          email: emergencyCaregiver.email
-        };
-        console.log('Using emergency caregiver:', caregiverId);
-      }
-    }
-
-    if (!caregiverId) {
-      // If still no caregiver found, we'll create a system alert without caregiver requirement
-      return res.status(202).json({
-        success: true,
-        message: 'Emergency alert logged. No caregiver available - please contact emergency services directly.',
-        data: {
-          type: 'sos_alert',
-          message: message || 'Emergency assistance needed',
-          location,
-          status: 'pending_caregiver',
-          emergencyNumber: '911',
-          createdAt: new Date()
-        }
-      });
-    }
 
-    console.log('Creating SOS alert:', {
-      patientUserId,
-      caregiverId,
-      message,
-      location
-    });
-
-    // Create SOS activity with validated caregiver
-    const sosActivity = await Activity.create({
-      type: 'sos_alert',
-      patient: patientUserId,
-      caregiver: caregiverId,
+    // Goes to the patient's caregivers, or the fallback policy when they have none
+    const incident = await sosIncidentService.raise(req.user, {
       message: message || 'Emergency assistance needed',
-      priority: 'critical',
-      metadata: {
-        alertType: 'sos',
-        location,
-        severity: severity || 'critical'
-      }
+      location,
+      severity
     });
 
-    console.log('SOS alert created successfully:', sosActivity._id);
+    console.log(`SOS incident ${incident._id} raised (${incident.routing})`);
+
+    const notified = incident.escalationChain
+      .filter(step => step.notifiedAt)
+      .map(step => ({ name: step.name, kind: step.kind, channels: step.channels }));
+    const firstResponder = incident.escalationChain.find(step => step.caregiver);
 
     res.status(201).json({
       success: true,
+      message: describeSOSRouting(incident),
       data: {
-        id: sosActivity._id,
+        id: incident._id,
+        activityId: incident.activity,
         type: 'sos_alert',
-        message: sosActivity.message,
+        message: incident.message,
         location,
-        status: 'active',
-        createdAt: sosActivity.createdAt,
-        caregiver: caregiverInfo
+        status: incident.status,
+        routing: incident.routing,
+        createdAt: incident.createdAt,
+        caregiver: firstResponder ? { id: firstResponder.caregiver, name: firstResponder.name } : null,
+        notified,
+        nextEscalationAt: incident.nextEscalationAt || null,
+        timeline: incident.timeline
       }
     });
 
@@ -700,13 +724,126 @@ export const sendSOSAlert = async (req: AuthRequest, res: Response) => {
   }
 };
 
-export const getCaregivers = async (req: AuthRequest, res: Response) => {
+// Helper function telling the patient who their SOS alert went to
+const describeSOSRouting = (incident: ISosIncident): string => {
+  const first = incident.escalationChain[0];
+
+  switch (incident.routing) {
+    case 'caregiver':
+      return `Emergency alert sent. Your caregiver ${first.name} has been notified.`;
+    case 'on_call':
+      return `Emergency alert sent. You have no caregiver linked, so the ${first.name} on-call team has been notified.`;
+    case 'emergency_contacts':
+      return `Emergency alert sent. You have no caregiver linked, so your emergency contact ${first.name} has been notified by text message.`;
+    default:
+      return 'Emergency alert recorded, but nobody could be notified: you have no caregiver or emergency contact. If you need help now, call your local emergency number.';
+  }
+};
+
+// Get the patient's SOS incidents, newest first
+export const getSOSIncidents = async (req: AuthRequest, res: Response) => {
   try {
-    const patientEmail = req.user.email;
+    const patientUserId = req.user._id;
+    const { status } = req.query;
+
+    const query: any = { patient: patientUserId };
+    if (status === 'open') {
+      query.status = { $in: OPEN_SOS_STATUSES };
+    }
+
+    const incidents = await SosIncident.find(query)
+      .populate('acknowledgedBy resolvedBy', 'name')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.status(200).json({
+      success: true,
+      data: incidents
+    });
+
+  } catch (error) {
+    console.error('Get SOS incidents error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch SOS alerts'
+    });
+  }
+};
+
+// Get one SOS incident with its full timeline
+export const getSOSIncident = async (req: AuthRequest, res: Response) => {
+  try {
+    const { incidentId } = req.params;
+    const patientUserId = req.user._id;
+
+    const incident = await SosIncident.findOne({ _id: incidentId, patient: patientUserId })
+      .populate('acknowledgedBy resolvedBy', 'name');
+
+    if (!incident) {
+      return res.status(404).json({
+        success: false,
+        message: 'SOS alert not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: incident
+    });
+
+  } catch (error) {
+    console.error('Get SOS incident error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch SOS alert'
+    });
+  }
+};
+
+// Cancel an SOS alert raised by mistake
+export const cancelSOSIncident = async (req: AuthRequest, res: Response) => {
+  try {
+    const { incidentId } = req.params;
+    const { reason } = req.body;
+    const patientUserId = req.user._id;
+
+    const incident = await SosIncident.findOne({ _id: incidentId, patient: patientUserId });
+
+    if (!incident) {
+      return res.status(404).json({
+        success: false,
+        message: 'SOS alert not found'
+      });
+    }
+
+    const cancelled = await sosIncidentService.cancel(incident, req.user, reason || 'False alarm');
+
+    if (!cancelled) {
+      return res.status(400).json({
+        success: false,
+        message: 'This SOS alert has already been closed'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'SOS alert cancelled',
+      data: cancelled
+    });
+
+  } catch (error) {
+    console.error('Cancel SOS incident error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to cancel SOS alert'
+    });
+  }
+};
 
-    // Find patient relationships using email to get caregivers
-    const patientRelationships = await Patient.find({ email: patientEmail })
-      .populate('caregiver', 'name email phoneNumber');
+export const getCaregivers = async (req: AuthRequest, res: Response) => {
+  try {
+    // The patient's caregivers, in the order they connected
+    const patientRelationships = await careTeamService.getTeam(req.user._id);
 
     if (patientRelationships.length === 0) {
       return res.status(200).json({
@@ -715,12 +852,16 @@ export const getCaregivers = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const consents = await CareConsent.find({ patientRecord: { $in: patientRelationships.map(relationship => relationship._id) } });
+    const consentByRecord = new Map(consents.map(consent => [consent.patientRecord.toString(), consent]));
+
     const caregivers = patientRelationships
       .filter(relationship => {
         return relationship.caregiver && (relationship.caregiver as any)?._id;
       })
       .map(relationship => {
         const caregiver = relationship.caregiver as any;
+        const consent = careConsentService.getAccess(consentByRecord.get(relationship._id.toString()) || null);
         return {
           id: caregiver._id,
           name: caregiver.name || 'Unknown Caregiver',
@@ -730,7 +871,15 @@ export const getCaregivers = async (req: AuthRequest, res: Response) => {
           connectedDate: relationship.createdAt ? 
             new Date(relationship.createdAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' }) : 
             'January 2024',
-          status: 'active' as const
+          status: consent.status,
+          careRole: relationship.careRole,
+          roleLabel: careTeamService.describeRole(relationship.careRole),
+          permissions: careTeamService.getPermissions(relationship.careRole),
+          sharing: {
+            scopes: consent.scopes,
+            grantedAt: consent.grantedAt,
+            expiresAt: consent.expiresAt
+          }
         };
       });
 
@@ -748,10 +897,188 @@ export const getCaregivers = async (req: AuthRequest, res: Response) => {
   }
 };
 
+// Change what one of the patient's caregivers may do
+export const updateCaregiverRole = async (req: AuthRequest, res: Response) => {
+  try {
+    const { caregiverId } = req.params;
+    const { role } = req.body;
+
+    const relationship = await Patient.findOne({
+      patient: req.user._id,
+      caregiver: caregiverId
+    });
+
+    if (!relationship) {
+      return res.status(404).json({
+        success: false,
+        message: 'Caregiver not found'
+      });
+    }
+
+    const updated = await careTeamService.changeRole(relationship, role, {
+      _id: req.user._id,
+      name: req.user.name,
+      role: 'patient'
+    });
+
+    if (!updated) {
+      return res.status(400).json({
+        success: false,
+        message: 'Your care team needs a primary caregiver. Make another caregiver primary instead.'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Role changed to ${careTeamService.describeRole(updated.careRole)}`,
+      data: {
+        caregiverId,
+        careRole: updated.careRole,
+        permissions: careTeamService.getPermissions(updated.careRole)
+      }
+    });
+
+  } catch (error) {
+    console.error('Update caregiver role error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update caregiver role'
+    });
+  }
+};
+
+// What the patient shares with one caregiver, with every change made to it
+export const getCaregiverConsent = async (req: AuthRequest, res: Response) => {
+  try {
+    const { caregiverId } = req.params;
+
+    const relationship = await Patient.findOne({
+      patient: req.user._id,
+      caregiver: caregiverId
+    });
+
+    if (!relationship) {
+      return res.status(404).json({
+        success: false,
+        message: 'Caregiver not found'
+      });
+    }
+
+    const consent = await careConsentService.getForRelationship(relationship);
+    const access = careConsentService.getAccess(consent);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        caregiverId,
+        ...access,
+        revokedAt: consent?.revokedAt || null,
+        revokeReason: consent?.revokeReason || null,
+        history: consent?.history || []
+      }
+    });
+
+  } catch (error) {
+    console.error('Get caregiver consent error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get caregiver access'
+    });
+  }
+};
+
+// Choose what a caregiver can see and for how long; also restores access that was revoked or expired
+export const updateCaregiverConsent = async (req: AuthRequest, res: Response) => {
+  try {
+    const { caregiverId } = req.params;
+    const { scopes, expiresAt } = req.body;
+
+    const relationship = await Patient.findOne({
+      patient: req.user._id,
+      caregiver: caregiverId
+    });
+
+    if (!relationship) {
+      return res.status(404).json({
+        success: false,
+        message: 'Caregiver not found'
+      });
+    }
+
+    const consent = await careConsentService.grant(relationship, {
+      scopes,
+      expiresAt: expiresAt === undefined ? undefined : expiresAt === null ? null : new Date(expiresAt)
+    }, { _id: req.user._id, role: 'patient' });
+
+    res.status(200).json({
+      success: true,
+      message: 'Caregiver access updated',
+      data: {
+        caregiverId,
+        ...careConsentService.getAccess(consent)
+      }
+    });
+
+  } catch (error) {
+    console.error('Update caregiver consent error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update caregiver access'
+    });
+  }
+};
+
+// Withdraw a caregiver's access; their routes for this patient stop working straight away
+export const revokeCaregiverConsent = async (req: AuthRequest, res: Response) => {
+  try {
+    const { caregiverId } = req.params;
+    const { reason } = req.body;
+
+    const relationship = await Patient.findOne({
+      patient: req.user._id,
+      caregiver: caregiverId
+    });
+
+    if (!relationship) {
+      return res.status(404).json({
+        success: false,
+        message: 'Caregiver not found'
+      });
+    }
+
+    const consent = await careConsentService.revoke(relationship, { _id: req.user._id, role: 'patient' }, reason);
+
+    if (!consent) {
+      return res.status(400).json({
+        success: false,
+        message: 'This caregiver no longer has access'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Caregiver access revoked',
+      data: {
+        caregiverId,
+        ...careConsentService.getAccess(consent),
+        revokedAt: consent.revokedAt
+      }
+    });
+
+  } catch (error) {
+    console.error('Revoke caregiver consent error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to revoke caregiver access'
+    });
+  }
+};
+
 export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
   try {
     const { medicationId } = req.params;
-    const { notes, override } = req.body; // Add override option for emergencies
+    const { notes, override, reason, fromReminder } = req.body; // Add override option for emergencies
+    const method = fromReminder ? 'reminder' : 'manual';
     const patientUserId = req.user._id;
 
     const medication = await Medication.findOne({
@@ -766,6 +1093,25 @@ export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // A removed medication cannot be logged, even with an override
+    if (medication.status === 'archived') {
+      return res.status(409).json({
+        success: false,
+        message: 'This medication has been removed by your caregiver',
+        data: { status: medication.status }
+      });
+    }
+
+    const isPRN = isPRNMedication(medication);
+
+    // As-needed doses may require the patient to say why they are taking them
+    if (isPRN && medication.prn?.requireReason && !reason?.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide a reason for taking this as-needed medication'
+      });
+    }
+
     // Get last dose from Activity (same as barcode scan)
     const lastDoseActivity = await Activity.findOne({
       patient: patientUserId, 
@@ -773,10 +1119,17 @@ export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
       type: 'dose_taken'
     }).sort({ createdAt: -1 });
 
-    const actualLastTaken = lastDoseActivity ? convertUTCToIST(lastDoseActivity.createdAt) : null;
+    const actualLastTaken = lastDoseActivity ? lastDoseActivity.createdAt : null;
         
-    // SAFETY CHECK 1: Basic dose timing (prevent double dosing)
-    const basicDoseCheck = canTakeMedicationNow(actualLastTaken, medication.frequency);
+    // SAFETY CHECK 1: Basic dose timing (prevent double dosing), or the PRN daily cap and spacing
+    const prnCheck = isPRN ? await checkPRNDoseLimits(medication, patientUserId) : null;
+    const basicDoseCheck = prnCheck || canTakeMedicationNow(
+      actualLastTaken,
+      medication,
+      await doseScheduleService.getMealTimes(patientUserId),
+      new Date(),
+      resolveTimezone(req.user.timezone)
+    );
     
     // SAFETY CHECK 2: Meal timing windows
     const timingWindowCheck = await checkMedicationTimingWindow(medication, patientUserId);
@@ -805,7 +1158,7 @@ export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
     let safetyWarnings = [];
 
     if (!basicDoseCheck.canTake) {
-      blockReason = 'Too soon for next dose';
+      blockReason = prnCheck ? prnCheck.reason : 'Too soon for next dose';
       safetyWarnings.push(`Next dose available in ${basicDoseCheck.hoursRemaining} hours`);
     } 
     if (!timingWindowCheck.canTake) {
@@ -818,7 +1171,10 @@ export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
     }
     if (!isActive) {
       if (!blockReason) blockReason = 'Medication not active';
-      safetyWarnings.push('This medication is currently paused or inactive');
+      safetyWarnings.push(
+        medicationChangeService.describePause(medication, resolveTimezone(req.user.timezone)) ||
+        'This medication is currently paused or inactive'
+      );
     }
     if (!hasQuantity) {
       if (!blockReason) blockReason = 'No medication remaining';
@@ -870,19 +1226,31 @@ export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
     }
 
     // If safe to take or overridden, proceed with logging
-    const takenTime = getCurrentIST();
+    const takenTime = new Date();
+    const timezone = resolveTimezone(req.user.timezone);
+    const doseTaken = getDoseForDay(medication, getLocalDateKey(takenTime, timezone), timezone);
     
     medication.lastTaken = takenTime;
     medication.remainingQuantity = Math.max(0, medication.remainingQuantity - 1);
     
-    if (medication.remainingQuantity === 0) {
+    // An overridden dose of a paused medication leaves it paused
+    if (medication.remainingQuantity === 0 && medication.status === 'active') {
       medication.status = 'completed';
+      medication.completedAt = takenTime;
+      medication.completionReason = 'quantity_exhausted';
     }
 
     const savedMedication = await medication.save();
 
+    // Attach the dose to its scheduled slot (as-needed doses have none)
+    const scheduledDose = isPRN ? null : await doseScheduleService.attachDose(savedMedication, takenTime, {
+      method,
+      wasOverridden: override || false,
+      notes
+    });
+
     // Create activity log with safety info
-    await Activity.create({
+    const doseActivity = await Activity.create({
       type: 'dose_taken',
       patient: patientUserId,
       caregiver: medication.caregiver,
@@ -894,12 +1262,25 @@ export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
       metadata: {
         doseTaken: takenTime,
         remainingQuantity: savedMedication.remainingQuantity,
+        method,
         wasOverridden: override || false,
+        notes,
+        dosage: `${doseTaken.dosage} ${doseTaken.dosageUnit}`,
+        dosePhase: doseTaken.phase?.phaseIndex,
         safetyReason: blockReason,
-        warnings: safetyWarnings
+        warnings: safetyWarnings,
+        scheduledDose: scheduledDose?._id,
+        doseStatus: scheduledDose?.status,
+        isPRN,
+        prnReason: isPRN ? reason?.trim() : undefined
       }
     });
 
+    if (scheduledDose) {
+      scheduledDose.activity = doseActivity._id;
+      await scheduledDose.save();
+    }
+
     // Send low stock warning if running low
     if (savedMedication.remainingQuantity <= 3 && savedMedication.remainingQuantity > 0) {
       await Activity.create({
@@ -923,13 +1304,24 @@ export const logMedicationTaken = async (req: AuthRequest, res: Response) => {
       data: {
         medicationId: savedMedication._id,
         medicationName: savedMedication.name,
-        dosage: `${savedMedication.dosage} ${savedMedication.dosageUnit}`,
+        dosage: `${doseTaken.dosage} ${doseTaken.dosageUnit}`,
+        dosePhase: doseTaken.phase,
         takenAt: takenTime,
         lastTaken: savedMedication.lastTaken,
         remainingQuantity: savedMedication.remainingQuantity,
         status: savedMedication.status,
         daysLeft: Math.max(0, Math.floor(savedMedication.remainingQuantity / medication.frequency)),
         wasOverridden: override || false,
+        isPRN,
+        prnUsage: prnCheck ? {
+          dosesLast24h: prnCheck.dosesLast24h + 1,
+          maxDosesPer24h: prnCheck.maxDosesPer24h
+        } : null,
+        scheduledDose: scheduledDose ? {
+          id: scheduledDose._id,
+          scheduledFor: scheduledDose.scheduledFor,
+          status: scheduledDose.status
+        } : null,
         safetyInfo: {
           reason: blockReason,
           warnings: safetyWarnings
@@ -971,10 +1363,17 @@ export const checkMedicationTiming = async (req: AuthRequest, res: Response) =>
       type: 'dose_taken'
     }).sort({ createdAt: -1 });
 
-    const actualLastTaken = lastDoseActivity ? convertUTCToIST(lastDoseActivity.createdAt) : null;
+    const actualLastTaken = lastDoseActivity ? lastDoseActivity.createdAt : null;
     
     // Perform all safety checks
-    const basicDoseCheck = canTakeMedicationNow(actualLastTaken, medication.frequency);
+    const prnCheck = isPRNMedication(medication) ? await checkPRNDoseLimits(medication, patientUserId) : null;
+    const basicDoseCheck = prnCheck || canTakeMedicationNow(
+      actualLastTaken,
+      medication,
+      await doseScheduleService.getMealTimes(patientUserId),
+      new Date(),
+      resolveTimezone(req.user.timezone)
+    );
     const timingWindowCheck = await checkMedicationTimingWindow(medication, patientUserId);
     const isExpired = new Date(medication.expiryDate) <= new Date();
     const hasQuantity = medication.remainingQuantity > 0;
@@ -991,7 +1390,7 @@ export const checkMedicationTiming = async (req: AuthRequest, res: Response) =>
     let reason = 'Safe to take';
 
     if (!basicDoseCheck.canTake) {
-      reason = 'Too soon for next dose';
+      reason = prnCheck ? prnCheck.reason : 'Too soon for next dose';
       warnings.push(`Next dose available in ${basicDoseCheck.hoursRemaining} hours`);
     }
     if (!timingWindowCheck.canTake) {
@@ -1004,7 +1403,10 @@ export const checkMedicationTiming = async (req: AuthRequest, res: Response) =>
     }
     if (!isActive) {
       if (reason === 'Safe to take') reason = 'Medication not active';
-      warnings.push('Medication is paused or inactive');
+      warnings.push(
+        medicationChangeService.describePause(medication, resolveTimezone(req.user.timezone)) ||
+        'Medication is paused or inactive'
+      );
     }
     if (!hasQuantity) {
       if (reason === 'Safe to take') reason = 'No medication remaining';
@@ -1029,7 +1431,13 @@ export const checkMedicationTiming = async (req: AuthRequest, res: Response) =>
         dosing: {
           lastTaken: actualLastTaken,
           nextDoseTime: basicDoseCheck.nextDoseTime,
-          hoursRemaining: basicDoseCheck.hoursRemaining
+          hoursRemaining: basicDoseCheck.hoursRemaining,
+          prnUsage: prnCheck ? {
+            dosesLast24h: prnCheck.dosesLast24h,
+            maxDosesPer24h: prnCheck.maxDosesPer24h,
+            remainingDoses: prnCheck.remainingDoses,
+            reasonRequired: medication.prn?.requireReason || false
+          } : null
         },
         timing: {
           timingRelation: medication.timingRelation,
@@ -1049,6 +1457,189 @@ export const checkMedicationTiming = async (req: AuthRequest, res: Response) =>
   }
 };
 
+// Get scheduled dose slots for a day
+export const getScheduledDoses = async (req: AuthRequest, res: Response) => {
+  try {
+    const patientUserId = req.user._id;
+    const { date } = req.query;
+    const timezone = resolveTimezone(req.user.timezone);
+
+    const dateKey = typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)
+      ? date
+      : getLocalDateKey(new Date(), timezone);
+
+    await doseScheduleService.syncPatientDoses(patientUserId, dateKey, dateKey);
+
+    const now = new Date();
+    const doses = await ScheduledDose.find({ patient: patientUserId, dateKey })
+      .populate('medication', 'name dosage dosageUnit timingRelation')
+      .sort({ scheduledFor: 1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        date: dateKey,
+        doses: doses.map(dose => ({
+          id: dose._id,
+          medicationId: (dose.medication as any)?._id,
+          medicationName: (dose.medication as any)?.name || 'Unknown',
+          dosage: dose.medication
+            ? `${(dose.medication as any).dosage} ${(dose.medication as any).dosageUnit}`
+            : '',
+          mealType: dose.mealType,
+          scheduledTime: formatLocalTime(dose.scheduledFor, timezone),
+          windowStart: dose.windowStart,
+          windowEnd: dose.windowEnd,
+          status: doseScheduleService.getEffectiveStatus(dose, now),
+          takenAt: dose.takenAt
+        })),
+        summary: doseScheduleService.summarizeDoses(doses, now)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get scheduled doses error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get scheduled doses'
+    });
+  }
+};
+
+// Skip a scheduled dose
+export const skipScheduledDose = async (req: AuthRequest, res: Response) => {
+  try {
+    const { doseId } = req.params;
+    const { reason } = req.body;
+    const patientUserId = req.user._id;
+
+    if (!mongoose.Types.ObjectId.isValid(doseId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid dose ID format'
+      });
+    }
+
+    const dose = await ScheduledDose.findOne({
+      _id: doseId,
+      patient: patientUserId
+    });
+
+    if (!dose) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scheduled dose not found'
+      });
+    }
+
+    if (dose.status === 'taken' || dose.status === 'late') {
+      return res.status(400).json({
+        success: false,
+        message: 'This dose has already been taken'
+      });
+    }
+
+    dose.status = 'skipped';
+    dose.skipReason = reason;
+    await dose.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Dose skipped',
+      data: {
+        id: dose._id,
+        status: dose.status,
+        skipReason: dose.skipReason
+      }
+    });
+
+  } catch (error) {
+    console.error('Skip scheduled dose error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to skip dose'
+    });
+  }
+};
+
+// Snooze the reminders for a scheduled dose
+export const snoozeScheduledDose = async (req: AuthRequest, res: Response) => {
+  try {
+    const { doseId } = req.params;
+    const { minutes = DOSE_SNOOZE_DEFAULT_MINUTES } = req.body;
+    const patientUserId = req.user._id;
+    const now = new Date();
+
+    if (!mongoose.Types.ObjectId.isValid(doseId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid dose ID format'
+      });
+    }
+
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > 120) {
+      return res.status(400).json({
+        success: false,
+        message: 'Snooze must be between 1 and 120 minutes'
+      });
+    }
+
+    const dose = await ScheduledDose.findOne({
+      _id: doseId,
+      patient: patientUserId
+    });
+
+    if (!dose) {
+      return res.status(404).json({
+        success: false,
+        message: 'Scheduled dose not found'
+      });
+    }
+
+    if (doseScheduleService.getEffectiveStatus(dose, now) !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only upcoming doses can be snoozed'
+      });
+    }
+
+    if ((dose.snoozeCount || 0) >= DOSE_SNOOZE_MAX_COUNT) {
+      return res.status(400).json({
+        success: false,
+        message: `This dose has already been snoozed ${DOSE_SNOOZE_MAX_COUNT} times`
+      });
+    }
+
+    if (now.getTime() + minutes * 60000 >= dose.windowEnd.getTime()) {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot snooze past the end of this dose's window (${formatLocalTime(dose.windowEnd, resolveTimezone(req.user.timezone))})`
+      });
+    }
+
+    await doseReminderService.snoozeDose(dose, minutes, now);
+
+    res.status(200).json({
+      success: true,
+      message: 'Reminder snoozed',
+      data: {
+        id: dose._id,
+        status: dose.status,
+        snoozedUntil: dose.snoozedUntil,
+        snoozeCount: dose.snoozeCount,
+        snoozesRemaining: DOSE_SNOOZE_MAX_COUNT - dose.snoozeCount
+      }
+    });
+
+  } catch (error) {
+    console.error('Snooze scheduled dose error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to snooze dose'
+    });
+  }
+};
+
 // Helper function to get timing recommendation (same as barcode controller)
 const getTimingRecommendation = (timingRelation: string): string => {
   const recommendations = {
@@ -1076,6 +1667,8 @@ export const getEmergencyContacts = async (req: AuthRequest, res: Response) => {
       relationship: contact.relationship,
       phone: contact.phoneNumber,
       isPrimary: contact.isPrimary,
+      isVerified: contact.isVerified,
+      alerts: contact.alerts,
     }));
 
     // Always include emergency services
@@ -1085,6 +1678,8 @@ export const getEmergencyContacts = async (req: AuthRequest, res: Response) => {
       relationship: 'Emergency',
       phone: '911',
       isPrimary: false,
+      isVerified: true,
+      alerts: { sos: false, missedDoses: false },
     });
 
     res.status(200).json({
@@ -1104,7 +1699,7 @@ export const getEmergencyContacts = async (req: AuthRequest, res: Response) => {
 // Update addEmergencyContact
 export const addEmergencyContact = async (req: AuthRequest, res: Response) => {
   try {
-    const { name, relationship, phoneNumber, isPrimary } = req.body;
+    const { name, relationship, phoneNumber, isPrimary, alerts } = req.body;
     const patientUserId = req.user._id;
 
     if (!name || !relationship || !phoneNumber) {
@@ -1127,18 +1722,25 @@ export const addEmergencyContact = async (req: AuthRequest, res: Response) => {
       name,
       relationship,
       phoneNumber,
-      isPrimary: isPrimary || false
+      isPrimary: isPrimary || false,
+      alerts
     });
 
+    // The contact only receives alerts once they confirm their number
+    const verification = await emergencyContactService.sendVerificationCode(newContact, req.user.name);
+
     res.status(201).json({
       success: true,
-      message: 'Emergency contact added successfully',
+      message: 'Emergency contact added successfully. A verification code has been sent to their phone.',
       data: {
         id: newContact._id,
         name: newContact.name,
         relationship: newContact.relationship,
         phone: newContact.phoneNumber,
-        isPrimary: newContact.isPrimary
+        isPrimary: newContact.isPrimary,
+        isVerified: newContact.isVerified,
+        alerts: newContact.alerts,
+        verificationSent: verification.sent
       }
     });
 
@@ -1192,19 +1794,200 @@ export const removeEmergencyContact = async (req: AuthRequest, res: Response) =>
   }
 };
 
+// Send a verification code to an emergency contact's phone
+export const sendEmergencyContactCode = async (req: AuthRequest, res: Response) => {
+  try {
+    const { contactId } = req.params;
+    const patientUserId = req.user._id;
+
+    const contact = await EmergencyContact.findOne({ _id: contactId, patient: patientUserId });
+
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Emergency contact not found'
+      });
+    }
+
+    if (contact.isVerified) {
+      return res.status(400).json({
+        success: false,
+        message: 'This contact is already verified'
+      });
+    }
+
+    const verification = await emergencyContactService.sendVerificationCode(contact, req.user.name);
+
+    if (!verification.sent) {
+      return res.status(429).json({
+        success: false,
+        message: `Please wait ${verification.retryAfterSeconds} seconds before requesting another code`
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Verification code sent to ${contact.name}`
+    });
+
+  } catch (error) {
+    console.error('Send emergency contact code error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send verification code'
+    });
+  }
+};
+
+// Confirm an emergency contact with the code they received
+export const verifyEmergencyContact = async (req: AuthRequest, res: Response) => {
+  try {
+    const { contactId } = req.params;
+    const { otp } = req.body;
+    const patientUserId = req.user._id;
+
+    const result = await emergencyContactService.verifyCode(contactId, patientUserId, otp);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'Emergency contact not found'
+      });
+    }
+
+    const errors: Record<string, string> = {
+      no_code: 'No verification code found. Please request a new one.',
+      expired: 'Verification code has expired. Please request a new one.',
+      too_many_attempts: 'Too many incorrect codes. Please request a new one.',
+      invalid: 'Invalid verification code'
+    };
+
+    if (result !== 'verified') {
+      return res.status(400).json({
+        success: false,
+        message: errors[result]
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Emergency contact verified'
+    });
+
+  } catch (error) {
+    console.error('Verify emergency contact error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to verify emergency contact'
+    });
+  }
+};
+
+// Choose which alerts an emergency contact receives
+export const updateEmergencyContactAlerts = async (req: AuthRequest, res: Response) => {
+  try {
+    const { contactId } = req.params;
+    const { sos, missedDoses } = req.body;
+    const patientUserId = req.user._id;
+
+    const update: Record<string, boolean> = {};
+    if (typeof sos === 'boolean') update['alerts.sos'] = sos;
+    if (typeof missedDoses === 'boolean') update['alerts.missedDoses'] = missedDoses;
+
+    const contact = await EmergencyContact.findOneAndUpdate(
+      { _id: contactId, patient: patientUserId },
+      { $set: update },
+      { new: true }
+    );
+
+    if (!contact) {
+      return res.status(404).json({
+        success: false,
+        message: 'Emergency contact not found'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: contact.isVerified
+        ? 'Alert settings updated'
+        : 'Alert settings updated. Alerts start once the contact is verified.',
+      data: {
+        id: contact._id,
+        isVerified: contact.isVerified,
+        alerts: contact.alerts
+      }
+    });
+
+  } catch (error) {
+    console.error('Update emergency contact alerts error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update alert settings'
+    });
+  }
+};
+
 // Request caregiver connection
 export const requestCaregiverConnection = async (req: AuthRequest, res: Response) => {
   try {
     const { caregiverEmail, message } = req.body;
+    const patientUserId = req.user._id;
+    const now = new Date();
 
-    // In a real implementation, you would:
-    // 1. Find the caregiver by email
-    // 2. Send them a connection request
-    // 3. Store the pending request
+    if (await connectionRequestService.countRecent(patientUserId, now) >= CONNECTION_REQUEST_DAILY_LIMIT) {
+      return res.status(429).json({
+        success: false,
+        message: `You can send up to ${CONNECTION_REQUEST_DAILY_LIMIT} caregiver requests a day. Please try again tomorrow.`
+      });
+    }
 
-    res.status(200).json({
+    const caregiver = await User.findOne({ email: caregiverEmail, role: 'caregiver' });
+    if (!caregiver) {
+      return res.status(404).json({
+        success: false,
+        message: 'No caregiver account found with that email'
+      });
+    }
+
+    const existingLink = await Patient.findOne({ patient: patientUserId, caregiver: caregiver._id });
+    if (existingLink) {
+      return res.status(400).json({
+        success: false,
+        message: `${caregiver.name} is already your caregiver`
+      });
+    }
+
+    await connectionRequestService.expireStale({ patient: patientUserId, caregiver: caregiver._id }, now);
+
+    let request;
+    try {
+      request = await connectionRequestService.create(req.user, caregiver, message, now);
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return res.status(400).json({
+          success: false,
+          message: 'You already have a pending request to this caregiver'
+        });
+      }
+      throw error;
+    }
+
+    res.status(201).json({
       success: true,
-      message: 'Connection request sent successfully'
+      message: 'Connection request sent successfully',
+      data: {
+        id: request._id,
+        caregiver: {
+          id: caregiver._id,
+          name: caregiver.name,
+          email: caregiver.email
+        },
+        message: request.message,
+        status: request.status,
+        expiresAt: request.expiresAt,
+        createdAt: request.createdAt
+      }
     });
 
   } catch (error) {
@@ -1216,19 +1999,211 @@ export const requestCaregiverConnection = async (req: AuthRequest, res: Response
   }
 };
 
+// Get the caregiver requests the patient has sent
+export const getCaregiverRequests = async (req: AuthRequest, res: Response) => {
+  try {
+    const patientUserId = req.user._id;
+
+    await connectionRequestService.expireStale({ patient: patientUserId });
+
+    const requests = await ConnectionRequest.find({ patient: patientUserId })
+      .populate('caregiver', 'name email')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.status(200).json({
+      success: true,
+      data: requests
+    });
+
+  } catch (error) {
+    console.error('Get caregiver requests error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch caregiver requests'
+    });
+  }
+};
+
+// Withdraw a pending caregiver request
+export const cancelCaregiverRequest = async (req: AuthRequest, res: Response) => {
+  try {
+    const { requestId } = req.params;
+    const patientUserId = req.user._id;
+
+    const request = await ConnectionRequest.findOne({ _id: requestId, patient: patientUserId });
+
+    if (!request) {
+      return res.status(404).json({
+        success: false,
+        message: 'Caregiver request not found'
+      });
+    }
+
+    const cancelled = await connectionRequestService.cancel(request);
+
+    if (!cancelled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only pending requests can be cancelled'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Caregiver request cancelled',
+      data: cancelled
+    });
+
+  } catch (error) {
+    console.error('Cancel caregiver request error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to cancel caregiver request'
+    });
+  }
+};
+
+// Get handovers proposed between the patient's caregivers
+export const getCaregiverHandovers = async (req: AuthRequest, res: Response) => {
+  try {
+    const patientUserId = req.user._id;
+    const { status = 'pending' } = req.query;
+
+    await careHandoverService.expireStale({ patient: patientUserId });
+
+    const query: any = { patient: patientUserId };
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    const handovers = await CareHandover.find(query)
+      .populate('fromCaregiver', 'name email')
+      .populate('toCaregiver', 'name email')
+      .sort({ createdAt: -1 })
+      .limit(50);
+
+    res.status(200).json({
+      success: true,
+      data: handovers
+    });
+
+  } catch (error) {
+    console.error('Get caregiver handovers error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch caregiver handovers'
+    });
+  }
+};
+
+// Confirm a handover; the new caregiver takes over everything the current one had
+export const confirmCaregiverHandover = async (req: AuthRequest, res: Response) => {
+  try {
+    const { handoverId } = req.params;
+    const patientUserId = req.user._id;
+
+    const handover = await CareHandover.findOne({ _id: handoverId, patient: patientUserId });
+
+    if (!handover) {
+      return res.status(404).json({
+        success: false,
+        message: 'Handover not found'
+      });
+    }
+
+    const existingLink = await Patient.exists({ patient: patientUserId, caregiver: handover.toCaregiver });
+    if (existingLink) {
+      return res.status(400).json({
+        success: false,
+        message: 'The nominated caregiver is already on your care team'
+      });
+    }
+
+    let completed;
+    try {
+      completed = await careHandoverService.confirm(handover, req.user);
+    } catch (error: any) {
+      // The nominated caregiver joined the team while this request was being handled
+      if (error.code === 11000) {
+        return res.status(400).json({
+          success: false,
+          message: 'The nominated caregiver is already on your care team'
+        });
+      }
+      throw error;
+    }
+
+    if (!completed) {
+      return res.status(400).json({
+        success: false,
+        message: 'This handover has already been answered or has expired'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Handover confirmed. Your new caregiver now has your medications and history.',
+      data: completed
+    });
+
+  } catch (error) {
+    console.error('Confirm caregiver handover error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to confirm handover'
+    });
+  }
+};
+
+// Decline a handover and keep the current caregiver
+export const declineCaregiverHandover = async (req: AuthRequest, res: Response) => {
+  try {
+    const { handoverId } = req.params;
+    const { reason } = req.body;
+    const patientUserId = req.user._id;
+
+    const handover = await CareHandover.findOne({ _id: handoverId, patient: patientUserId });
+
+    if (!handover) {
+      return res.status(404).json({
+        success: false,
+        message: 'Handover not found'
+      });
+    }
+
+    const declined = await careHandoverService.decline(handover, req.user, reason);
+
+    if (!declined) {
+      return res.status(400).json({
+        success: false,
+        message: 'This handover has already been answered or has expired'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Handover declined',
+      data: declined
+    });
+
+  } catch (error) {
+    console.error('Decline caregiver handover error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to decline handover'
+    });
+  }
+};
+
 // Get notification settings
 export const getNotificationSettings = async (req: AuthRequest, res: Response) => {
   try {
-    const defaultSettings = {
-      medicationReminders: true,
-      refillReminders: true,
-      adherenceAlerts: true,
-      sosAlerts: true
-    };
+    const settings = await notificationPreferenceService.getSettings(req.user._id);
 
     res.status(200).json({
       success: true,
-      data: defaultSettings
+      data: settings
     });
 
   } catch (error) {
@@ -1252,6 +2227,8 @@ export const getCurrentUser = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    const profile = await patientProfileService.get(user._id);
+
     res.status(200).json({
       success: true,
       data: {
@@ -1259,7 +2236,10 @@ export const getCurrentUser = async (req: AuthRequest, res: Response) => {
         email: user.email,
         phoneNumber: user.phoneNumber || '',
         age: user.age || 0,
-        gender: user.gender || ''
+        gender: user.gender || '',
+        timezone: resolveTimezone(user.timezone),
+        medicalHistory: profile.medicalHistory,
+        allergies: profile.allergies
       }
     });
 
@@ -1275,12 +2255,20 @@ export const getCurrentUser = async (req: AuthRequest, res: Response) => {
 // Update notification settings
 export const updateNotificationSettings = async (req: AuthRequest, res: Response) => {
   try {
-    const settings = req.body;
+    const { categories, channels, quietHours, digestFrequency, reminderLeadMinutes } = req.body;
+
+    const settings = await notificationPreferenceService.updateSettings(req.user._id, {
+      categories,
+      channels,
+      quietHours,
+      digestFrequency,
+      reminderLeadMinutes
+    });
 
-    // In a real implementation, save these settings to the database
     res.status(200).json({
       success: true,
-      message: 'Notification settings updated successfully'
+      message: 'Notification settings updated successfully',
+      data: settings
     });
 
   } catch (error) {
@@ -1295,17 +2283,28 @@ export const updateNotificationSettings = async (req: AuthRequest, res: Response
 // Export health data
 export const exportHealthData = async (req: AuthRequest, res: Response) => {
   try {
-    const { format } = req.body;
+    const { format = 'json' } = req.body;
 
-    // In a real implementation, generate the actual file
-    const fileName = `health-data-${Date.now()}.${format}`;
-    const downloadUrl = `https://your-app.com/downloads/${fileName}`;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
 
-    res.status(200).json({
+    const dataExport = await healthExportService.createExport(req.user, format);
+    const downloadPath = healthExportService.getSignedDownloadPath(dataExport);
+
+    res.status(201).json({
       success: true,
+      message: 'Health data export is ready',
       data: {
-        downloadUrl,
-        fileName
+        exportId: dataExport._id,
+        format: dataExport.format,
+        fileName: dataExport.fileName,
+        sizeBytes: dataExport.sizeBytes,
+        downloadUrl: `${req.protocol}://${req.get('host')}${downloadPath}`,
+        expiresAt: dataExport.expiresAt
       }
     });
 
@@ -1318,14 +2317,111 @@ export const exportHealthData = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const downloadHealthExport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { exportId } = req.params;
+    const { expires, signature } = req.query;
+
+    if (!mongoose.Types.ObjectId.isValid(exportId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid export ID'
+      });
+    }
+
+    const link = verifySignedPath(healthExportService.getDownloadPath(exportId), expires, signature, EXPORT_SIGNING_SECRET);
+    if (link.expired) {
+      return res.status(410).json({
+        success: false,
+        message: 'This download link has expired. Please export your data again.'
+      });
+    }
+    if (!link.valid) {
+      return res.status(403).json({
+        success: false,
+        message: 'Invalid download link'
+      });
+    }
+
+    // The link alone is not enough; it must be opened by the patient it belongs to
+    const dataExport = await DataExport.findOne({ _id: exportId, user: req.user._id });
+    if (!dataExport) {
+      return res.status(404).json({
+        success: false,
+        message: 'Export not found'
+      });
+    }
+
+    if (dataExport.status !== 'ready' || !dataExport.filePath || dataExport.expiresAt <= new Date()) {
+      return res.status(410).json({
+        success: false,
+        message: 'This export is no longer available. Please export your data again.'
+      });
+    }
+
+    dataExport.downloadCount += 1;
+    dataExport.lastDownloadedAt = new Date();
+    await dataExport.save();
+
+    res.setHeader('Content-Type', dataExport.mimeType);
+    res.setHeader('Cache-Control', 'no-store');
+    res.download(dataExport.filePath, dataExport.fileName, (error) => {
+      if (error && !res.headersSent) {
+        console.error('Download health export error:', error);
+        res.status(410).json({
+          success: false,
+          message: 'This export is no longer available. Please export your data again.'
+        });
+      }
+    });
+
+  } catch (error) {
+    console.error('Download health export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to download export'
+    });
+  }
+};
+
+// FHIR R4 Bundle of the patient's own records
+export const getFhirBundle = async (req: AuthRequest, res: Response) => {
+  try {
+    const bundle = await fhirExportService.buildPatientBundle(req.user, {
+      baseUrl: `${req.protocol}://${req.get('host')}/api/fhir`
+    });
+
+    res.status(200).type('application/fhir+json').json(bundle);
+
+  } catch (error) {
+    console.error('Get FHIR bundle error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to generate FHIR export'
+    });
+  }
+};
+
 export const updateProfile = async (req: AuthRequest, res: Response) => {
   try {
-    const { name, phoneNumber } = req.body;
+    const { name, phoneNumber, timezone, medicalHistory, allergies } = req.body;
     const patientEmail = req.user.email;
 
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide a valid IANA timezone (e.g. Asia/Kolkata)'
+      });
+    }
+
+    const updates: any = { name, phoneNumber };
+    if (timezone !== undefined) {
+      updates.timezone = timezone;
+    }
+
     const user = await User.findOneAndUpdate(
       { email: patientEmail },
-      { name, phoneNumber },
+      updates,
       { new: true, runValidators: true }
     );
 
@@ -1336,6 +2432,11 @@ export const updateProfile = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    // Caregivers read the name and phone number from the account, so they see the change straight away
+    if (medicalHistory !== undefined || allergies !== undefined) {
+      await patientProfileService.update(user._id, { medicalHistory, allergies }, user._id);
+    }
+
     res.status(200).json({
       success: true,
       message: 'Profile updated successfully'
@@ -1356,8 +2457,8 @@ export const getRecentActivities = async (req: AuthRequest, res: Response) => {
     const patientUserId = req.user._id;
 
 
-    // Get recent activities for this patient
-    const activities = await Activity.find({ patient: patientUserId})
+    // Get recent activities for this patient (reminders only appear as notifications)
+    const activities = await Activity.find({ patient: patientUserId, type: { $ne: 'dose_reminder' } })
       .populate('medication', 'name')
       .sort({ createdAt: -1 })
       .limit(20);
@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import SosIncident from '../models/SosIncident';
+import { emergencyContactService } from '../services/emergencyContactService';
+import { verifySignedPath } from '../utils/signedUrlUtils';
+import { renderSosStatusPage, renderStatusErrorPage, SosStatusView } from '../utils/statusPageUtils';
+import { resolveTimezone } from '../utils/timezoneUtils';
+import { SOS_STATUS_LINK_SECRET } from '../config/sos';
+
+// Browsers get a page, API clients get JSON
+const sendStatusError = (res: Response, status: number, message: string) => {
+  res.status(status).format({
+    'text/html': () => res.send(renderStatusErrorPage(message)),
+    default: () => res.json({ success: false, message })
+  });
+};
+
+// Status of an SOS incident for an emergency contact, opened from the link they were texted
+export const getSOSStatusPage = async (req: Request, res: Response) => {
+  try {
+    const { incidentId, contactId } = req.params;
+    const { expires, signature } = req.query;
+
+    if (!mongoose.Types.ObjectId.isValid(incidentId) || !mongoose.Types.ObjectId.isValid(contactId)) {
+      return sendStatusError(res, 400, 'Invalid status link');
+    }
+
+    const link = verifySignedPath(emergencyContactService.getStatusPath(incidentId, contactId), expires, signature, SOS_STATUS_LINK_SECRET);
+    if (link.expired) {
+      return sendStatusError(res, 410, 'This status link has expired.');
+    }
+    if (!link.valid) {
+      return sendStatusError(res, 403, 'Invalid status link');
+    }
+
+    const incident = await SosIncident.findOne({ _id: incidentId, 'escalationChain.emergencyContact': contactId })
+      .populate('patient', 'name timezone')
+      .populate('acknowledgedBy', 'name');
+
+    if (!incident) {
+      return sendStatusError(res, 404, 'Emergency alert not found');
+    }
+
+    const patient = incident.patient as any;
+    const acknowledgedBy = incident.acknowledgedBy as any;
+    const view: SosStatusView = {
+      patientName: patient?.name || 'Patient',
+      status: incident.status,
+      message: incident.message,
+      location: incident.location,
+      raisedAt: incident.createdAt,
+      acknowledgedBy: acknowledgedBy?.name || null,
+      acknowledgedAt: incident.acknowledgedAt,
+      resolvedAt: incident.resolvedAt,
+      cancelledAt: incident.cancelledAt,
+      timeline: incident.timeline.map(entry => ({
+        type: entry.type,
+        at: entry.at,
+        actorName: entry.actorName,
+        note: entry.note
+      }))
+    };
+
+    res.set('Cache-Control', 'no-store');
+    res.status(200).format({
+      'text/html': () => res.send(renderSosStatusPage(view, resolveTimezone(patient?.timezone))),
+      default: () => res.json({ success: true, data: view })
+    });
+
+  } catch (error) {
+    console.error('Get SOS status page error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load emergency alert status'
+    });
+  }
+};
@@ -0,0 +1,14 @@
+import { careConsentService } from '../services/careConsentService';
+
+export const CARE_CONSENT_EXPIRY_JOB = 'care-consent-expiry';
+
+export interface CareConsentExpiryRunResult {
+  consentsExpired: number;
+}
+
+/**
+ * Close caregiver access that has reached the time limit the patient set
+ */
+export const expireCareConsents = async (now: Date = new Date()): Promise<CareConsentExpiryRunResult> => {
+  return { consentsExpired: await careConsentService.expireStale(now) };
+};
@@ -0,0 +1,14 @@
+import { connectionRequestService } from '../services/connectionRequestService';
+
+export const CONNECTION_REQUEST_EXPIRY_JOB = 'connection-request-expiry';
+
+export interface ConnectionRequestExpiryRunResult {
+  requestsExpired: number;
+}
+
+/**
+ * Close caregiver connection requests that were not answered in time
+ */
+export const expireConnectionRequests = async (now: Date = new Date()): Promise<ConnectionRequestExpiryRunResult> => {
+  return { requestsExpired: await connectionRequestService.expireStale({}, now) };
+};
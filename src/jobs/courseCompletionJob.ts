@@ -0,0 +1,64 @@
+import Medication from '../models/Medication';
+import Activity from '../models/Activity';
+import User from '../models/User';
+import { getLocalDateKey, getLocalDayBounds, resolveTimezone } from '../utils/timezoneUtils';
+
+export const COURSE_COMPLETION_JOB = 'course-completion';
+
+export interface CourseCompletionRunResult {
+  medicationsChecked: number;
+  coursesCompleted: number;
+}
+
+/**
+ * Move medications whose course has ended (end of the last day in the
+ * patient's timezone) to completed and let the caregiver know.
+ */
+export const completeEndedCourses = async (now: Date = new Date()): Promise<CourseCompletionRunResult> => {
+  const result: CourseCompletionRunResult = {
+    medicationsChecked: 0,
+    coursesCompleted: 0
+  };
+
+  // The end date is a day in the patient's timezone, so narrow down in code
+  const candidates = await Medication.find({
+    status: { $in: ['active', 'paused'] },
+    endDate: { $lte: now }
+  });
+
+  if (candidates.length === 0) {
+    return result;
+  }
+
+  const patients = await User.find({ _id: { $in: candidates.map(med => med.patient) } }).select('name timezone');
+  const patientsById = new Map(patients.map(patient => [patient._id.toString(), patient]));
+
+  for (const medication of candidates) {
+    result.medicationsChecked++;
+
+    const patient = patientsById.get(medication.patient.toString());
+    const timezone = resolveTimezone(patient?.timezone);
+    const lastDayKey = getLocalDateKey(medication.endDate!, timezone);
+    if (getLocalDayBounds(lastDayKey, timezone).end >= now) continue;
+
+    // Only one run may complete a course
+    const completed = await Medication.updateOne(
+      { _id: medication._id, status: { $in: ['active', 'paused'] } },
+      { status: 'completed', completedAt: now, completionReason: 'course_ended' }
+    );
+    if (completed.modifiedCount === 0) continue;
+
+    await Activity.create({
+      type: 'medication_completed',
+      patient: medication.patient,
+      caregiver: medication.caregiver,
+      medication: medication._id,
+      message: `${patient?.name || 'Patient'} completed the ${medication.name} course (ended ${lastDayKey})`,
+      priority: 'low'
+    });
+
+    result.coursesCompleted++;
+  }
+
+  return result;
+};
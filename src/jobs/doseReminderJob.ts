@@ -0,0 +1,89 @@
+import Medication from '../models/Medication';
+import ScheduledDose from '../models/ScheduledDose';
+import User from '../models/User';
+import { NotificationSettings } from '../models/NotificationPreference';
+import { doseScheduleService } from '../services/doseScheduleService';
+import { doseReminderService } from '../services/doseReminderService';
+import { notificationPreferenceService } from '../services/notificationPreferenceService';
+import { getLocalDateKey, addDaysToDateKey, resolveTimezone } from '../utils/timezoneUtils';
+import { MAX_REMINDER_LEAD_MINUTES } from '../config/reminders';
+
+export const DOSE_REMINDER_JOB = 'dose-reminder';
+
+export interface DoseReminderRunResult {
+  patientsScanned: number;
+  dosesChecked: number;
+  remindersSent: number;
+}
+
+/**
+ * Send the reminders that have come due for open dose slots, at each
+ * patient's lead times and after any snooze, through the channels the
+ * patient has enabled.
+ */
+export const sendDueReminders = async (now: Date = new Date()): Promise<DoseReminderRunResult> => {
+  const result: DoseReminderRunResult = {
+    patientsScanned: 0,
+    dosesChecked: 0,
+    remindersSent: 0
+  };
+
+  // Make sure today's and tomorrow's slots exist, since lead times can cross midnight
+  const patientIds = await Medication.distinct('patient', { status: 'active' });
+  const patients = await User.find({ _id: { $in: patientIds } }).select('name email timezone');
+
+  for (const patient of patients) {
+    const todayKey = getLocalDateKey(now, resolveTimezone(patient.timezone));
+    await doseScheduleService.syncPatientDoses(patient._id, todayKey, addDaysToDateKey(todayKey, 1));
+    result.patientsScanned++;
+  }
+
+  const candidates = await ScheduledDose.find({
+    patient: { $in: patientIds },
+    status: 'pending',
+    windowEnd: { $gt: now },
+    $or: [
+      { scheduledFor: { $lte: new Date(now.getTime() + MAX_REMINDER_LEAD_MINUTES * 60000) } },
+      { snoozedUntil: { $lte: now } }
+    ]
+  }).populate('medication', 'name status');
+
+  const patientsById = new Map(patients.map(patient => [patient._id.toString(), patient]));
+  const settingsByPatient = new Map<string, NotificationSettings>();
+
+  for (const dose of candidates) {
+    const medication = dose.medication as any;
+    const patient = patientsById.get(dose.patient.toString());
+    if (!medication || medication.status !== 'active' || !patient) continue;
+
+    result.dosesChecked++;
+
+    let settings = settingsByPatient.get(patient._id.toString());
+    if (!settings) {
+      settings = await notificationPreferenceService.getSettings(patient._id);
+      settingsByPatient.set(patient._id.toString(), settings);
+    }
+
+    const reminder = doseReminderService.getDueReminder(dose, settings.reminderLeadMinutes, now);
+    if (!reminder) continue;
+
+    try {
+      const sent = await doseReminderService.sendReminder(
+        dose,
+        reminder,
+        patient,
+        medication,
+        settings,
+        resolveTimezone(patient.timezone),
+        now
+      );
+      if (sent) {
+        result.remindersSent++;
+      }
+    } catch (error) {
+      console.error(`Failed to send reminder for dose ${dose._id}:`, error);
+    }
+  }
+
+  return result;
+};
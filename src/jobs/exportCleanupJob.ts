@@ -0,0 +1,33 @@
+import DataExport from '../models/DataExport';
+import { healthExportService } from '../services/healthExportService';
+
+export const EXPORT_CLEANUP_JOB = 'export-cleanup';
+
+export interface ExportCleanupRunResult {
+  exportsExpired: number;
+}
+
+/**
+ * Delete stored health-data exports whose download link has expired
+ */
+export const removeExpiredExports = async (now: Date = new Date()): Promise<ExportCleanupRunResult> => {
+  const result: ExportCleanupRunResult = {
+    exportsExpired: 0
+  };
+
+  const expiredExports = await DataExport.find({
+    status: 'ready',
+    expiresAt: { $lte: now }
+  });
+
+  for (const dataExport of expiredExports) {
+    try {
+      await healthExportService.expireExport(dataExport);
+      result.exportsExpired++;
+    } catch (error) {
+      console.error(`Failed to remove export ${dataExport._id}:`, error);
+    }
+  }
+
+  return result;
+};
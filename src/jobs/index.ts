@@ -0,0 +1,91 @@
+import { jobScheduler } from './jobScheduler';
+import { detectMissedDoses, MISSED_DOSE_JOB } from './missedDoseJob';
+import { completeEndedCourses, COURSE_COMPLETION_JOB } from './courseCompletionJob';
+import { resumeDueMedications, MEDICATION_RESUME_JOB } from './medicationResumeJob';
+import { removeExpiredExports, EXPORT_CLEANUP_JOB } from './exportCleanupJob';
+import { sendDueReminders, DOSE_REMINDER_JOB } from './doseReminderJob';
+import { processNotificationOutbox, NOTIFICATION_OUTBOX_JOB } from './notificationOutboxJob';
+import { escalateUnacknowledgedAlerts, SOS_ESCALATION_JOB } from './sosEscalationJob';
+import { expireConnectionRequests, CONNECTION_REQUEST_EXPIRY_JOB } from './connectionRequestExpiryJob';
+import { expireCareConsents, CARE_CONSENT_EXPIRY_JOB } from './careConsentExpiryJob';
+import {
+  MISSED_DOSE_CHECK_INTERVAL_MINUTES,
+  COURSE_COMPLETION_CHECK_INTERVAL_MINUTES,
+  MEDICATION_RESUME_CHECK_INTERVAL_MINUTES,
+  DOSE_REMINDER_CHECK_INTERVAL_MINUTES,
+  NOTIFICATION_OUTBOX_INTERVAL_MINUTES,
+  SOS_ESCALATION_CHECK_INTERVAL_MINUTES,
+  EXPORT_CLEANUP_INTERVAL_MINUTES,
+  CONNECTION_REQUEST_EXPIRY_INTERVAL_MINUTES,
+  CARE_CONSENT_EXPIRY_INTERVAL_MINUTES
+} from '../config/jobs';
+
+/**
+ * Register all background jobs with the scheduler
+ */
+export const registerBackgroundJobs = (): void => {
+  jobScheduler.register({
+    name: MEDICATION_RESUME_JOB,
+    intervalMs: MEDICATION_RESUME_CHECK_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => resumeDueMedications(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: MISSED_DOSE_JOB,
+    intervalMs: MISSED_DOSE_CHECK_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => detectMissedDoses(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: DOSE_REMINDER_JOB,
+    intervalMs: DOSE_REMINDER_CHECK_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => sendDueReminders(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: NOTIFICATION_OUTBOX_JOB,
+    intervalMs: NOTIFICATION_OUTBOX_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => processNotificationOutbox(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: SOS_ESCALATION_JOB,
+    intervalMs: SOS_ESCALATION_CHECK_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => escalateUnacknowledgedAlerts(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: COURSE_COMPLETION_JOB,
+    intervalMs: COURSE_COMPLETION_CHECK_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => completeEndedCourses(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: EXPORT_CLEANUP_JOB,
+    intervalMs: EXPORT_CLEANUP_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => removeExpiredExports(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: CONNECTION_REQUEST_EXPIRY_JOB,
+    intervalMs: CONNECTION_REQUEST_EXPIRY_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => expireConnectionRequests(),
+    runOnStart: true
+  });
+
+  jobScheduler.register({
+    name: CARE_CONSENT_EXPIRY_JOB,
+    intervalMs: CARE_CONSENT_EXPIRY_INTERVAL_MINUTES * 60 * 1000,
+    handler: () => expireCareConsents(),
+    runOnStart: true
+  });
+};
+
+export { jobScheduler };
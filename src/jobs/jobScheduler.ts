@@ -0,0 +1,115 @@
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  handler: () => Promise<any>;
+  runOnStart?: boolean;
+}
+
+interface RegisteredJob {
+  definition: JobDefinition;
+  timer?: NodeJS.Timeout;
+  running: boolean;
+  lastRunAt?: Date;
+  lastError?: string;
+}
+
+/**
+ * Minimal in-process job runner. Each job runs on a fixed interval and
+ * never overlaps with itself; jobs are expected to be idempotent.
+ */
+class JobScheduler {
+  private jobs = new Map<string, RegisteredJob>();
+  private started = false;
+
+  register(definition: JobDefinition): void {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job ${definition.name} is already registered`);
+    }
+
+    this.jobs.set(definition.name, { definition, running: false });
+
+    if (this.started) {
+      this.schedule(definition.name);
+    }
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    for (const name of this.jobs.keys()) {
+      this.schedule(name);
+    }
+
+    console.log(`⏱️  Background jobs started: ${[...this.jobs.keys()].join(', ') || 'none'}`);
+  }
+
+  stop(): void {
+    this.started = false;
+
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        clearInterval(job.timer);
+        job.timer = undefined;
+      }
+    }
+  }
+
+  /**
+   * Run a job immediately, e.g. from a development endpoint
+   */
+  async runNow(name: string): Promise<any> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    if (job.running) {
+      throw new Error(`Job ${name} is already running`);
+    }
+
+    job.running = true;
+    try {
+      const result = await job.definition.handler();
+      job.lastError = undefined;
+      return result;
+    } catch (error) {
+      job.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      job.running = false;
+      job.lastRunAt = new Date();
+    }
+  }
+
+  getStatus() {
+    return [...this.jobs.values()].map(job => ({
+      name: job.definition.name,
+      intervalMs: job.definition.intervalMs,
+      running: job.running,
+      lastRunAt: job.lastRunAt,
+      lastError: job.lastError
+    }));
+  }
+
+  private schedule(name: string): void {
+    const job = this.jobs.get(name);
+    if (!job || job.timer) return;
+
+    const tick = () => {
+      if (job.running) return;
+      this.runNow(name).catch(error => {
+        console.error(`❌ Job ${name} failed:`, error);
+      });
+    };
+
+    job.timer = setInterval(tick, job.definition.intervalMs);
+    job.timer.unref();
+
+    if (job.definition.runOnStart) {
+      tick();
+    }
+  }
+}
+
+export const jobScheduler = new JobScheduler();
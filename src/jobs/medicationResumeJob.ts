@@ -0,0 +1,36 @@
+import Medication from '../models/Medication';
+import { medicationChangeService } from '../services/medicationChangeService';
+
+export const MEDICATION_RESUME_JOB = 'medication-auto-resume';
+
+export interface MedicationResumeRunResult {
+  medicationsResumed: number;
+}
+
+/**
+ * Resume paused medications whose scheduled resume time has passed
+ */
+export const resumeDueMedications = async (now: Date = new Date()): Promise<MedicationResumeRunResult> => {
+  const result: MedicationResumeRunResult = {
+    medicationsResumed: 0
+  };
+
+  const dueMedications = await Medication.find({
+    status: 'paused',
+    'pause.resumeAt': { $lte: now }
+  });
+
+  for (const medication of dueMedications) {
+    // Attribute the resume to whoever scheduled it
+    const changedBy = { _id: medication.pause?.pausedBy || medication.caregiver };
+
+    try {
+      await medicationChangeService.resumeMedication(medication, changedBy, { reason: 'scheduled resume' });
+      result.medicationsResumed++;
+    } catch (error) {
+      console.error(`Failed to auto-resume medication ${medication._id}:`, error);
+    }
+  }
+
+  return result;
+};
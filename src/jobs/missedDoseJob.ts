@@ -0,0 +1,188 @@
+import mongoose from 'mongoose';
+import Medication, { IMedication } from '../models/Medication';
+import Activity from '../models/Activity';
+import ScheduledDose, { IScheduledDose } from '../models/ScheduledDose';
+import { doseScheduleService } from '../services/doseScheduleService';
+import { notificationPreferenceService } from '../services/notificationPreferenceService';
+import { careConsentService } from '../services/careConsentService';
+import { activityStreamService } from '../services/activityStreamService';
+import { emergencyContactService } from '../services/emergencyContactService';
+import User from '../models/User';
+import { getLocalDateKey, addDaysToDateKey, formatLocalTime, resolveTimezone } from '../utils/timezoneUtils';
+import {
+  MISSED_DOSE_GRACE_MINUTES,
+  MISSED_DOSE_LOOKBACK_HOURS,
+  getMissedDoseGraceMinutes
+} from '../config/jobs';
+
+export const MISSED_DOSE_JOB = 'missed-dose-detector';
+
+const TIMING_RELATIONS = ['before_food', 'after_food', 'with_food', 'empty_stomach', 'anytime'];
+
+export interface MissedDoseRunResult {
+  patientsScanned: number;
+  dosesMarkedMissed: number;
+  activitiesCreated: number;
+  contactsAlerted: number;
+}
+
+/**
+ * Record the dose_missed activity for a slot. Upserting on the slot id keeps
+ * this safe to repeat after a crash or restart.
+ */
+const recordMissedDoseActivity = async (dose: IScheduledDose): Promise<boolean> => {
+  const medication = dose.medication as any;
+  const patient = dose.patient as any;
+
+  // The upsert bypasses the activity save hook, so apply notification preferences
+  // and the patient's consent here
+  const recipients = {
+    type: 'dose_missed' as const,
+    priority: 'medium' as const,
+    patient: patient._id,
+    caregiver: dose.caregiver
+  };
+  const mutedFor = await notificationPreferenceService.getMutedRecipients(recipients);
+  const caregiverId = new mongoose.Types.ObjectId(dose.caregiver.toString());
+  if (!mutedFor.some(userId => userId.equals(caregiverId)) && await careConsentService.isHiddenFromCaregiver(recipients)) {
+    mutedFor.push(caregiverId);
+  }
+
+  const result = await Activity.updateOne(
+    { type: 'dose_missed', 'metadata.scheduledDose': dose._id },
+    {
+      $setOnInsert: {
+        type: 'dose_missed',
+        patient: patient._id,
+        caregiver: dose.caregiver,
+        medication: medication._id,
+        message: `${patient.name || 'Patient'} missed ${medication.name} (due ${formatLocalTime(dose.scheduledFor, resolveTimezone(patient.timezone))})`,
+        priority: 'medium',
+        isRead: false,
+        mutedFor,
+        metadata: {
+          scheduledDose: dose._id,
+          doseStatus: 'missed'
+        }
+      }
+    },
+    { upsert: true }
+  );
+
+  const activity = await Activity.findOne({ type: 'dose_missed', 'metadata.scheduledDose': dose._id });
+  if (activity) {
+    await ScheduledDose.updateOne({ _id: dose._id, status: 'missed' }, { activity: activity._id });
+
+    // The upsert skips the save hooks, so stream the new activity here
+    if (result.upsertedCount > 0) {
+      activityStreamService.publish(activity).catch(error => {
+        console.error('Activity stream publish error:', error);
+      });
+    }
+  }
+
+  return result.upsertedCount > 0;
+};
+
+/**
+ * When a paused or archived medication stopped expecting doses: the start of
+ * its open pause period (archiving opens one too). Records from before pause
+ * history was kept count as stopped from the start.
+ */
+const getStoppedAt = (medication: IMedication): Date => {
+  const openPeriod = [...(medication.pauseHistory || [])].reverse().find(period => !period.resumedAt);
+  return openPeriod?.pausedAt || medication.archive?.archivedAt || new Date(0);
+};
+
+/**
+ * Scan every patient with active medications, close overdue dose slots as
+ * missed and notify the patient and caregiver through a dose_missed activity.
+ * Emergency contacts who opted in hear about a run of missed doses.
+ */
+export const detectMissedDoses = async (now: Date = new Date()): Promise<MissedDoseRunResult> => {
+  const result: MissedDoseRunResult = {
+    patientsScanned: 0,
+    dosesMarkedMissed: 0,
+    activitiesCreated: 0,
+    contactsAlerted: 0
+  };
+
+  // Make sure each patient's local today and yesterday slots exist before looking for gaps
+  const patientIds = await Medication.distinct('patient', { status: 'active' });
+  const patients = await User.find({ _id: { $in: patientIds } }).select('timezone');
+
+  for (const patient of patients) {
+    const todayKey = getLocalDateKey(now, resolveTimezone(patient.timezone));
+    await doseScheduleService.syncPatientDoses(patient._id, addDaysToDateKey(todayKey, -1), todayKey);
+    result.patientsScanned++;
+  }
+
+  const lookbackStart = new Date(now.getTime() - MISSED_DOSE_LOOKBACK_HOURS * 60 * 60 * 1000);
+  const minGraceMs = Math.min(
+    MISSED_DOSE_GRACE_MINUTES,
+    ...TIMING_RELATIONS.map(relation => getMissedDoseGraceMinutes(relation))
+  ) * 60000;
+
+  // Overdue pending slots, plus missed slots whose activity was never written
+  const candidates = await ScheduledDose.find({
+    $or: [
+      { status: 'pending', windowEnd: { $lt: new Date(now.getTime() - minGraceMs) } },
+      { status: 'missed', activity: { $exists: false }, windowEnd: { $gte: lookbackStart } }
+    ]
+  })
+    .populate('medication', 'name timingRelation status pauseHistory archive')
+    .populate('patient', 'name timezone');
+
+  // Patients with a newly reported miss, checked for a run of misses afterwards
+  const patientsWithMisses = new Map<string, { _id: string; name?: string }>();
+
+  for (const dose of candidates) {
+    const medication = dose.medication as any;
+    if (!medication || !dose.patient) continue;
+
+    // Doses that fall in a pause or after the medication was removed are not expected;
+    // ones due before that were still missed
+    if (dose.status === 'pending' && (medication.status === 'paused' || medication.status === 'archived') &&
+        dose.scheduledFor >= getStoppedAt(medication)) {
+      await ScheduledDose.updateOne(
+        { _id: dose._id, status: 'pending' },
+        { status: 'skipped', skipReason: medication.status === 'paused' ? 'Medication paused' : 'Medication removed' }
+      );
+      continue;
+    }
+
+    if (dose.status === 'pending') {
+      const graceMs = getMissedDoseGraceMinutes(medication.timingRelation) * 60000;
+      if (dose.windowEnd.getTime() + graceMs > now.getTime()) continue;
+
+      // Claim the slot; a dose logged in the meantime wins
+      const claimed = await ScheduledDose.updateOne(
+        { _id: dose._id, status: 'pending' },
+        { status: 'missed' }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      dose.status = 'missed';
+      result.dosesMarkedMissed++;
+    }
+
+    // Long-overdue slots (e.g. after downtime) are closed quietly
+    if (dose.windowEnd < lookbackStart) continue;
+
+    if (await recordMissedDoseActivity(dose)) {
+      result.activitiesCreated++;
+      const patient = dose.patient as any;
+      patientsWithMisses.set(patient._id.toString(), patient);
+    }
+  }
+
+  for (const patient of patientsWithMisses.values()) {
+    try {
+      result.contactsAlerted += await emergencyContactService.alertRepeatedMissedDoses(patient, now);
+    } catch (error) {
+      console.error(`Failed to alert emergency contacts of patient ${patient._id}:`, error);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,10 @@
+import { notificationDispatcher, OutboxRunResult } from '../services/notificationDispatcher';
+
+export const NOTIFICATION_OUTBOX_JOB = 'notification-outbox';
+
+/**
+ * Send queued notifications that are due, including retries of failed sends
+ */
+export const processNotificationOutbox = async (now: Date = new Date()): Promise<OutboxRunResult> => {
+  return notificationDispatcher.processDue(now);
+};
@@ -0,0 +1,40 @@
+import SosIncident from '../models/SosIncident';
+import { sosIncidentService } from '../services/sosIncidentService';
+
+export const SOS_ESCALATION_JOB = 'sos-escalation';
+
+export interface SosEscalationRunResult {
+  incidentsChecked: number;
+  escalated: number;
+}
+
+/**
+ * Alert the next caregiver or emergency contact for every SOS incident
+ * that nobody has acknowledged within the escalation window
+ */
+export const escalateUnacknowledgedAlerts = async (now: Date = new Date()): Promise<SosEscalationRunResult> => {
+  const result: SosEscalationRunResult = {
+    incidentsChecked: 0,
+    escalated: 0
+  };
+
+  const due = await SosIncident.find({
+    status: { $in: ['raised', 'escalated'] },
+    nextEscalationAt: { $lte: now }
+  });
+
+  for (const incident of due) {
+    result.incidentsChecked++;
+
+    try {
+      const escalated = await sosIncidentService.escalate(incident, now);
+      if (escalated) {
+        result.escalated++;
+      }
+    } catch (error) {
+      console.error(`Failed to escalate SOS incident ${incident._id}:`, error);
+    }
+  }
+
+  return result;
+};
@@ -56,6 +56,18 @@ const decoded = jwt.verify(token, process.env.JWT_SECRET) as JWTPayload;
   }
 };
 
+/**
+ * EventSource cannot send an Authorization header, so stream endpoints also
+ * accept the same JWT as an access_token query parameter
+ */
+export const acceptQueryToken = (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { access_token } = req.query;
+  if (!req.headers.authorization && typeof access_token === 'string' && access_token) {
+    req.headers.authorization = `Bearer ${access_token}`;
+  }
+  next();
+};
+
 export const authorizeRoles = (...roles: UserRole[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
@@ -1,70 +1,188 @@
 import { body, query, param, ValidationChain } from 'express-validator';
+import { CARE_ROLES } from '../models/Patient';
 
-// Patient validation for adding new patient
-export const patientValidation: ValidationChain[] = [
-  body('name')
-    .trim()
-    .isLength({ min: 2, max: 50 })
-    .withMessage('Name must be between 2 and 50 characters')
-    .matches(/^[a-zA-Z\s]+$/)
-    .withMessage('Name can only contain letters and spaces'),
-  
-  body('email')
-    .isEmail()
-    .normalizeEmail()
-    .withMessage('Please provide a valid email address'),
-  
-  body('age')
-    .isInt({ min: 1, max: 150 })
-    .withMessage('Age must be between 1 and 150'),
-  
-  body('gender')
-    .isIn(['male', 'female', 'other', 'prefer_not_to_say'])
-    .withMessage('Please select a valid gender'),
-  
-  body('phoneNumber')
-    .matches(/^[\+]?[1-9][\d]{0,15}$/)
-    .withMessage('Please provide a valid phone number'),
+const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
 
-  // Optional fields
-  body('emergencyContact.name')
+// Optional dosing schedule (fixed clock times, intervals, weekly / every-N-days rules)
+export const scheduleValidation: ValidationChain[] = [
+  body('schedule.type')
+    .if(body('schedule').exists({ values: 'null' }))
+    .isIn(['meal_anchored', 'fixed_times', 'interval'])
+    .withMessage('Schedule type must be one of: meal_anchored, fixed_times, interval'),
+
+  body('schedule.meals')
     .optional()
-    .trim()
-    .isLength({ min: 2, max: 50 })
-    .withMessage('Emergency contact name must be between 2 and 50 characters'),
-  
-  body('emergencyContact.relationship')
+    .isArray({ min: 1, max: 4 })
+    .withMessage('Meals must be a list of 1 to 4 meals'),
+
+  body('schedule.meals.*')
+    .isIn(['breakfast', 'lunch', 'dinner', 'snack'])
+    .withMessage('Meals must be breakfast, lunch, dinner or snack'),
+
+  body('schedule.times')
+    .if(body('schedule.type').equals('fixed_times'))
+    .isArray({ min: 1, max: 12 })
+    .withMessage('Fixed time schedules need between 1 and 12 times'),
+
+  body('schedule.times.*')
+    .matches(timeRegex)
+    .withMessage('Schedule times must be in HH:MM format'),
+
+  body('schedule.intervalHours')
+    .if(body('schedule.type').equals('interval'))
+    .isFloat({ min: 1, max: 24 })
+    .withMessage('Interval must be between 1 and 24 hours'),
+
+  body('schedule.startTime')
     .optional()
-    .trim()
-    .isLength({ min: 2, max: 30 })
-    .withMessage('Relationship must be between 2 and 30 characters'),
-  
-  body('emergencyContact.phoneNumber')
+    .matches(timeRegex)
+    .withMessage('Start time must be in HH:MM format'),
+
+  body('schedule.daysOfWeek')
     .optional()
-    .matches(/^[\+]?[1-9][\d]{0,15}$/)
-    .withMessage('Please provide a valid emergency contact phone number'),
+    .isArray({ min: 1, max: 7 })
+    .withMessage('Days of week must be a list of 1 to 7 days'),
+
+  body('schedule.daysOfWeek.*')
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Days of week must be between 0 (Sunday) and 6 (Saturday)'),
 
-  body('medicalHistory')
+  body('schedule.everyNDays')
     .optional()
-    .isArray()
-    .withMessage('Medical history must be an array'),
-  
-  body('medicalHistory.*')
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Day interval must be between 1 and 365')
+    .custom((value, { req }) => {
+      if (req.body.schedule?.daysOfWeek?.length) {
+        throw new Error('Use either days of week or every N days, not both');
+      }
+      return true;
+    }),
+
+  body('schedule.anchorDate')
     .optional()
-    .trim()
-    .isLength({ min: 2, max: 100 })
-    .withMessage('Each medical history item must be between 2 and 100 characters'),
+    .isISO8601()
+    .toDate()
+    .withMessage('Please provide a valid schedule start date')
+];
 
-  body('allergies')
+// As-needed (PRN) mode with daily cap and minimum spacing
+export const prnValidation: ValidationChain[] = [
+  body('isPRN')
     .optional()
-    .isArray()
-    .withMessage('Allergies must be an array'),
-  
-  body('allergies.*')
+    .isBoolean()
+    .withMessage('isPRN must be true or false')
+    .toBoolean(),
+
+  body('prn')
+    .if(body('isPRN').equals('true'))
+    .exists()
+    .withMessage('Dose limits are required for as-needed medications')
+    .custom((value, { req }) => {
+      if (req.body.schedule) {
+        throw new Error('As-needed medications cannot have a schedule');
+      }
+      return true;
+    }),
+
+  body('prn.maxDosesPer24h')
+    .if(body('prn').exists({ values: 'null' }))
+    .isInt({ min: 1, max: 24 })
+    .withMessage('Maximum doses per 24 hours must be between 1 and 24'),
+
+  body('prn.minIntervalHours')
+    .optional()
+    .isFloat({ min: 0, max: 72 })
+    .withMessage('Minimum interval must be between 0 and 72 hours'),
+
+  body('prn.requireReason')
+    .optional()
+    .isBoolean()
+    .withMessage('requireReason must be true or false')
+    .toBoolean()
+];
+
+// Taper / titration plan: phases with their own dosage, schedule and duration
+export const dosePlanValidation: ValidationChain[] = [
+  body('dosePlan.startDate')
+    .if(body('dosePlan').exists({ values: 'null' }))
+    .isISO8601()
+    .toDate()
+    .withMessage('Please provide a valid dose plan start date'),
+
+  body('dosePlan.phases')
+    .if(body('dosePlan').exists({ values: 'null' }))
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Dose plan must have between 1 and 20 phases')
+    .custom((phases: any[], { req }) => {
+      if (req.body.isPRN) {
+        throw new Error('As-needed medications cannot have a dose plan');
+      }
+      if (phases.slice(0, -1).some(phase => !phase.durationDays)) {
+        throw new Error('Every phase except the last needs a duration');
+      }
+      return true;
+    }),
+
+  body('dosePlan.phases.*.dosage')
+    .matches(/^\d+(\.\d+)?$/)
+    .withMessage('Phase dosage must be a valid number (e.g., 40, 2.5)'),
+
+  body('dosePlan.phases.*.dosageUnit')
+    .optional()
+    .isIn(['mg', 'g', 'ml', 'tablets', 'capsules', 'drops', 'puffs', 'units'])
+    .withMessage('Please select a valid phase dosage unit'),
+
+  body('dosePlan.phases.*.frequency')
+    .optional()
+    .isInt({ min: 1, max: 6 })
+    .withMessage('Phase frequency must be between 1 and 6 times daily'),
+
+  body('dosePlan.phases.*.schedule.type')
+    .optional()
+    .isIn(['meal_anchored', 'fixed_times', 'interval'])
+    .withMessage('Phase schedule type must be one of: meal_anchored, fixed_times, interval'),
+
+  body('dosePlan.phases.*.durationDays')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Phase duration must be between 1 and 365 days'),
+
+  body('dosePlan.phases.*.instructions')
     .optional()
     .trim()
-    .isLength({ min: 2, max: 50 })
-    .withMessage('Each allergy item must be between 2 and 50 characters')
+    .isLength({ max: 200 })
+    .withMessage('Phase instructions cannot exceed 200 characters')
+];
+
+// Course of therapy: start date plus either an end date or a duration
+export const courseValidation: ValidationChain[] = [
+  body('startDate')
+    .optional()
+    .isISO8601()
+    .toDate()
+    .withMessage('Please provide a valid start date'),
+
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .toDate()
+    .withMessage('Please provide a valid end date')
+    .custom((value, { req }) => {
+      const startDate = req.body.startDate ? new Date(req.body.startDate) : new Date();
+      if (new Date(value) < startDate) {
+        throw new Error('End date cannot be before the start date');
+      }
+      if (req.body.durationDays !== undefined) {
+        throw new Error('Use either an end date or a duration, not both');
+      }
+      return true;
+    }),
+
+  body('durationDays')
+    .optional()
+    .isInt({ min: 1, max: 3650 })
+    .withMessage('Duration must be between 1 and 3650 days')
+    .toInt()
 ];
 
 // Medication validation for adding new medication
@@ -76,7 +194,9 @@ export const medicationValidation: ValidationChain[] = [
     .matches(/^[a-zA-Z0-9\s\-\.]+$/)
     .withMessage('Medication name can only contain letters, numbers, spaces, hyphens, and periods'),
   
+  // Dosage defaults to the first phase of a dose plan
   body('dosage')
+    .if((value: any, { req }: any) => value !== undefined || !req.body.dosePlan)
     .matches(/^\d+(\.\d+)?$/)
     .withMessage('Please enter a valid dosage (e.g., 500, 2.5)')
     .isFloat({ min: 0.1, max: 10000 })
@@ -86,13 +206,21 @@ export const medicationValidation: ValidationChain[] = [
     .isIn(['mg', 'g', 'ml', 'tablets', 'capsules', 'drops', 'puffs', 'units'])
     .withMessage('Please select a valid dosage unit'),
   
+  // Frequency is derived from the schedule or PRN limits when given
   body('frequency')
+    .if((value: any, { req }: any) => !req.body.schedule && !req.body.isPRN)
     .isInt({ min: 1, max: 6 })
     .withMessage('Frequency must be between 1 and 6 times daily'),
   
   body('timingRelation')
     .isIn(['before_food', 'after_food', 'with_food', 'empty_stomach', 'anytime'])
     .withMessage('Please select a valid timing relation'),
+
+  ...scheduleValidation,
+
+  ...prnValidation,
+
+  ...dosePlanValidation,
   
   body('quantity')
     .isInt({ min: 1, max: 1000 })
@@ -113,7 +241,9 @@ export const medicationValidation: ValidationChain[] = [
     .optional()
     .trim()
     .isLength({ max: 500 })
-    .withMessage('Instructions cannot exceed 500 characters')
+    .withMessage('Instructions cannot exceed 500 characters'),
+
+  ...courseValidation
 ];
 
 // Search validation for patient search
@@ -187,21 +317,204 @@ export const medicationIdValidation: ValidationChain[] = [
 
 // Update medication validation
 export const updateMedicationValidation: ValidationChain[] = [
-  body('status')
+  body('name')
     .optional()
-    .isIn(['active', 'paused', 'completed'])
-    .withMessage('Status must be one of: active, paused, completed'),
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Medication name must be between 2 and 100 characters')
+    .matches(/^[a-zA-Z0-9\s\-\.]+$/)
+    .withMessage('Medication name can only contain letters, numbers, spaces, hyphens, and periods'),
+
+  body('dosage')
+    .optional()
+    .matches(/^\d+(\.\d+)?$/)
+    .withMessage('Please enter a valid dosage (e.g., 500, 2.5)')
+    .isFloat({ min: 0.1, max: 10000 })
+    .withMessage('Dosage must be between 0.1 and 10000'),
+
+  body('dosageUnit')
+    .optional()
+    .isIn(['mg', 'g', 'ml', 'tablets', 'capsules', 'drops', 'puffs', 'units'])
+    .withMessage('Please select a valid dosage unit'),
+
+  body('frequency')
+    .optional()
+    .isInt({ min: 1, max: 6 })
+    .withMessage('Frequency must be between 1 and 6 times daily'),
+
+  body('timingRelation')
+    .optional()
+    .isIn(['before_food', 'after_food', 'with_food', 'empty_stomach', 'anytime'])
+    .withMessage('Please select a valid timing relation'),
+
+  ...scheduleValidation,
+
+  ...prnValidation,
+
+  ...dosePlanValidation,
+
+  ...courseValidation,
+
+  body('totalQuantity')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('Total quantity must be between 1 and 1000'),
   
   body('remainingQuantity')
     .optional()
     .isInt({ min: 0 })
     .withMessage('Remaining quantity must be a non-negative integer'),
+
+  body('expiryDate')
+    .optional()
+    .isISO8601()
+    .toDate()
+    .withMessage('Please provide a valid expiry date'),
   
   body('instructions')
     .optional()
     .trim()
     .isLength({ max: 500 })
-    .withMessage('Instructions cannot exceed 500 characters')
+    .withMessage('Instructions cannot exceed 500 characters'),
+
+  body('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Version must be a positive integer'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Reason cannot exceed 500 characters')
+];
+
+// Pause / resume validation
+export const medicationStatusValidation: ValidationChain[] = [
+  body('status')
+    .isIn(['active', 'paused'])
+    .withMessage('Status must be active (resume) or paused'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters'),
+
+  body('resumeAt')
+    .optional()
+    .if(body('status').equals('paused'))
+    .isISO8601()
+    .withMessage('Please provide a valid resume time')
+    .custom((value) => {
+      if (new Date(value) <= new Date()) {
+        throw new Error('Resume time must be in the future');
+      }
+      return true;
+    }),
+
+  body('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Version must be a positive integer')
+];
+
+// Archive / restore medication validation
+export const medicationArchiveValidation: ValidationChain[] = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters'),
+
+  body('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Version must be a positive integer')
+];
+
+// Dose logged by a caregiver on the patient's behalf
+export const caregiverDoseValidation: ValidationChain[] = [
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Notes cannot exceed 500 characters'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters'),
+
+  body('override')
+    .optional()
+    .isBoolean()
+    .withMessage('Override must be true or false')
+];
+
+// Care team role change validation
+export const careTeamRoleValidation: ValidationChain[] = [
+  param('patientId')
+    .isMongoId()
+    .withMessage('Invalid patient ID format'),
+
+  param('caregiverId')
+    .isMongoId()
+    .withMessage('Invalid caregiver ID format'),
+
+  body('role')
+    .isIn(CARE_ROLES)
+    .withMessage(`Role must be one of: ${CARE_ROLES.join(', ')}`)
+];
+
+// Bulk medication import validation; rows are checked one by one with medicationValidation
+export const medicationImportValidation: ValidationChain[] = [
+  body('format')
+    .isIn(['csv', 'fhir'])
+    .withMessage('Format must be csv or fhir'),
+
+  body('mode')
+    .optional()
+    .isIn(['dry_run', 'commit'])
+    .withMessage('Mode must be dry_run or commit'),
+
+  body('data')
+    .if(body('format').equals('csv'))
+    .isString()
+    .withMessage('CSV data must be sent as text')
+    .isLength({ min: 1, max: 1024 * 1024 })
+    .withMessage('CSV data must be between 1 byte and 1 MB'),
+
+  body('data')
+    .if(body('format').equals('fhir'))
+    .isObject()
+    .withMessage('FHIR data must be a Bundle resource'),
+
+  body('defaults')
+    .optional()
+    .isObject()
+    .withMessage('Defaults must be an object'),
+
+  body('defaults.expiryDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Please provide a valid default expiry date'),
+
+  body('defaults.quantity')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('Default quantity must be between 1 and 1000'),
+
+  body('defaults.timingRelation')
+    .optional()
+    .isIn(['before_food', 'after_food', 'with_food', 'empty_stomach', 'anytime'])
+    .withMessage('Please select a valid default timing relation'),
+
+  body('defaults.startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Please provide a valid default start date')
 ];
 
 // Batch operations validation
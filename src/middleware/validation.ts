@@ -1,4 +1,14 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, param, query, ValidationChain } from 'express-validator';
+import { isValidTimezone } from '../utils/timezoneUtils';
+import { NOTIFICATION_CATEGORIES, NOTIFICATION_CHANNELS, DIGEST_FREQUENCIES } from '../models/NotificationPreference';
+import { MAX_REMINDER_LEAD_MINUTES } from '../config/reminders';
+import { CONNECTION_REQUEST_STATUSES } from '../models/ConnectionRequest';
+import { CARE_HANDOVER_STATUSES } from '../models/CareHandover';
+import { CARE_ROLES } from '../models/Patient';
+import { CONSENT_SCOPES } from '../models/CareConsent';
+import { CARE_CONSENT_MAX_DAYS } from '../config/consent';
+import { PUSH_SERVICE_HOSTS } from '../config/notifications';
+import { isPushServiceEndpoint } from '../utils/webPushUtils';
 
 export const loginValidation: ValidationChain[] = [
   body('email')
@@ -56,7 +66,50 @@ export const signupValidation: ValidationChain[] = [
   
   body('role')
     .isIn(['caregiver', 'patient'])
-    .withMessage('Role must be either caregiver or patient')
+    .withMessage('Role must be either caregiver or patient'),
+
+  body('timezone')
+    .optional()
+    .custom((value) => {
+      if (!isValidTimezone(value)) {
+        throw new Error('Please provide a valid IANA timezone (e.g. Asia/Kolkata)');
+      }
+      return true;
+    })
+];
+
+export const profileUpdateValidation: ValidationChain[] = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Name must be between 2 and 50 characters')
+    .matches(/^[a-zA-Z\s]+$/)
+    .withMessage('Name can only contain letters and spaces'),
+
+  body('age')
+    .optional()
+    .isInt({ min: 1, max: 150 })
+    .withMessage('Age must be between 1 and 150'),
+
+  body('gender')
+    .optional()
+    .isIn(['male', 'female', 'other', 'prefer_not_to_say'])
+    .withMessage('Please select a valid gender'),
+
+  body('phoneNumber')
+    .optional()
+    .matches(/^[\+]?[1-9][\d]{0,15}$/)
+    .withMessage('Please provide a valid phone number'),
+
+  body('timezone')
+    .optional()
+    .custom((value) => {
+      if (!isValidTimezone(value)) {
+        throw new Error('Please provide a valid IANA timezone (e.g. Asia/Kolkata)');
+      }
+      return true;
+    })
 ];
 
 export const otpValidation: ValidationChain[] = [
@@ -102,4 +155,285 @@ export const resetPasswordValidation: ValidationChain[] = [
       }
       return true;
     })
-];
\ No newline at end of file
+];
+export const notificationSettingsValidation: ValidationChain[] = [
+  body('categories')
+    .optional()
+    .isObject()
+    .withMessage('Categories must be an object'),
+
+  body(NOTIFICATION_CATEGORIES.map(category => `categories.${category}`))
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Category settings must be true or false'),
+
+  body('channels')
+    .optional()
+    .isObject()
+    .withMessage('Channels must be an object'),
+
+  body(NOTIFICATION_CHANNELS.map(channel => `channels.${channel}`))
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Channel settings must be true or false'),
+
+  body('quietHours')
+    .optional()
+    .isObject()
+    .withMessage('Quiet hours must be an object'),
+
+  body('quietHours.enabled')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('Quiet hours enabled must be true or false'),
+
+  body(['quietHours.start', 'quietHours.end'])
+    .optional()
+    .matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    .withMessage('Quiet hours must use HH:MM format'),
+
+  body('digestFrequency')
+    .optional()
+    .isIn(DIGEST_FREQUENCIES)
+    .withMessage(`Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`),
+
+  body('reminderLeadMinutes')
+    .optional()
+    .isArray({ min: 1, max: 3 })
+    .withMessage('Reminder lead times must be a list of 1 to 3 values'),
+
+  body('reminderLeadMinutes.*')
+    .isInt({ min: 0, max: MAX_REMINDER_LEAD_MINUTES })
+    .withMessage(`Reminder lead times must be between 0 and ${MAX_REMINDER_LEAD_MINUTES} minutes`)
+];
+
+export const pushUnsubscribeValidation: ValidationChain[] = [
+  body('endpoint')
+    .isURL({ protocols: ['https'], require_protocol: true, require_tld: false })
+    .withMessage('Endpoint must be an https URL')
+];
+
+export const pushSubscriptionValidation: ValidationChain[] = [
+  ...pushUnsubscribeValidation,
+
+  body('endpoint')
+    .custom(endpoint => isPushServiceEndpoint(endpoint, PUSH_SERVICE_HOSTS))
+    .withMessage('Endpoint must belong to a supported push service'),
+
+  body('keys.p256dh')
+    .matches(/^[A-Za-z0-9_-]{86,88}={0,2}$/)
+    .withMessage('Subscription key must be a base64url P-256 public key'),
+
+  body('keys.auth')
+    .matches(/^[A-Za-z0-9_-]{22,24}={0,2}$/)
+    .withMessage('Subscription auth secret must be base64url')
+];
+
+export const sosIncidentIdValidation: ValidationChain[] = [
+  param('incidentId')
+    .isMongoId()
+    .withMessage('Invalid SOS alert ID format')
+];
+
+export const sosCancelValidation: ValidationChain[] = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters')
+];
+
+export const sosResolveValidation: ValidationChain[] = [
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters')
+];
+
+export const emergencyContactIdValidation: ValidationChain[] = [
+  param('contactId')
+    .isMongoId()
+    .withMessage('Invalid emergency contact ID format')
+];
+
+export const emergencyContactAlertsValidation: ValidationChain[] = [
+  body('sos')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('sos must be true or false'),
+
+  body('missedDoses')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('missedDoses must be true or false')
+];
+
+export const emergencyContactValidation: ValidationChain[] = [
+  body('alerts.sos')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('alerts.sos must be true or false'),
+
+  body('alerts.missedDoses')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('alerts.missedDoses must be true or false')
+];
+
+export const emergencyContactVerifyValidation: ValidationChain[] = [
+  body('otp')
+    .isLength({ min: 6, max: 6 })
+    .isNumeric()
+    .withMessage('OTP must be a 6-digit number')
+];
+
+export const connectionRequestValidation: ValidationChain[] = [
+  body('caregiverEmail')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid caregiver email address'),
+
+  body('message')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Message cannot exceed 500 characters')
+];
+
+export const connectionRequestIdValidation: ValidationChain[] = [
+  param('requestId')
+    .isMongoId()
+    .withMessage('Invalid request ID format')
+];
+
+export const connectionRequestListValidation: ValidationChain[] = [
+  query('status')
+    .optional()
+    .isIn([...CONNECTION_REQUEST_STATUSES, 'all'])
+    .withMessage(`Status must be one of: ${CONNECTION_REQUEST_STATUSES.join(', ')}, all`)
+];
+
+export const connectionRequestDeclineValidation: ValidationChain[] = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters')
+];
+
+// Medical history and allergies, shared by the patient and their care team
+export const medicalProfileValidation: ValidationChain[] = [
+  body('medicalHistory')
+    .optional()
+    .isArray()
+    .withMessage('Medical history must be an array'),
+
+  body('medicalHistory.*')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Each medical history item must be between 2 and 100 characters'),
+
+  body('allergies')
+    .optional()
+    .isArray()
+    .withMessage('Allergies must be an array'),
+
+  body('allergies.*')
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Each allergy item must be between 2 and 50 characters')
+];
+
+export const careHandoverValidation: ValidationChain[] = [
+  body('caregiverEmail')
+    .isEmail()
+    .normalizeEmail()
+    .withMessage('Please provide a valid caregiver email address'),
+
+  body('note')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Note cannot exceed 500 characters')
+];
+
+export const careHandoverIdValidation: ValidationChain[] = [
+  param('handoverId')
+    .isMongoId()
+    .withMessage('Invalid handover ID format')
+];
+
+export const careHandoverListValidation: ValidationChain[] = [
+  query('status')
+    .optional()
+    .isIn([...CARE_HANDOVER_STATUSES, 'all'])
+    .withMessage(`Status must be one of: ${CARE_HANDOVER_STATUSES.join(', ')}, all`)
+];
+
+export const careHandoverDeclineValidation: ValidationChain[] = [
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters')
+];
+
+export const caregiverRoleValidation: ValidationChain[] = [
+  param('caregiverId')
+    .isMongoId()
+    .withMessage('Invalid caregiver ID'),
+
+  body('role')
+    .isIn(CARE_ROLES)
+    .withMessage(`Role must be one of: ${CARE_ROLES.join(', ')}`)
+];
+
+export const caregiverIdValidation: ValidationChain[] = [
+  param('caregiverId')
+    .isMongoId()
+    .withMessage('Invalid caregiver ID')
+];
+
+export const caregiverConsentValidation: ValidationChain[] = [
+  param('caregiverId')
+    .isMongoId()
+    .withMessage('Invalid caregiver ID'),
+
+  body('scopes')
+    .optional()
+    .isArray({ max: CONSENT_SCOPES.length })
+    .withMessage('Scopes must be a list'),
+
+  body('scopes.*')
+    .isIn(CONSENT_SCOPES)
+    .withMessage(`Each scope must be one of: ${CONSENT_SCOPES.join(', ')}`),
+
+  // null removes the time limit
+  body('expiresAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Please provide a valid expiry date')
+    .custom((value) => {
+      const expiresAt = new Date(value).getTime();
+      if (expiresAt <= Date.now()) {
+        throw new Error('Expiry date must be in the future');
+      }
+      if (expiresAt > Date.now() + CARE_CONSENT_MAX_DAYS * 24 * 60 * 60 * 1000) {
+        throw new Error(`Access can be granted for at most ${CARE_CONSENT_MAX_DAYS} days`);
+      }
+      return true;
+    })
+];
+
+export const caregiverConsentRevokeValidation: ValidationChain[] = [
+  param('caregiverId')
+    .isMongoId()
+    .withMessage('Invalid caregiver ID'),
+
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Reason cannot exceed 200 characters')
+];
@@ -0,0 +1,142 @@
+import dotenv from 'dotenv';
+
+// Load environment variables first
+dotenv.config();
+
+import mongoose from 'mongoose';
+import connectDatabase from '../config/database';
+import Patient from '../models/Patient';
+import PatientProfile from '../models/PatientProfile';
+import User from '../models/User';
+import Medication from '../models/Medication';
+import Activity from '../models/Activity';
+import EmergencyContact from '../models/EmergencyContact';
+
+// Profile fields relationship records used to copy from the patient's account
+const LEGACY_FIELDS = ['name', 'email', 'age', 'gender', 'phoneNumber', 'medicalHistory', 'allergies', 'emergencyContact'];
+
+interface LegacyPatientRecord {
+  _id: mongoose.Types.ObjectId;
+  email?: string;
+  caregiver: mongoose.Types.ObjectId;
+  medicalHistory?: string[];
+  allergies?: string[];
+  emergencyContact?: { name?: string; relationship?: string; phoneNumber?: string };
+}
+
+export interface LinkPatientRecordsResult {
+  linked: number;
+  orphaned: { id: string; email?: string; caregiver: string; reason: string }[];
+}
+
+/**
+ * Point relationship records saved before they referenced the patient's account
+ * at that account, found by email. Medical history and allergies move to the
+ * shared patient profile, a legacy emergency contact becomes an unverified
+ * EmergencyContact, and medications or activities stored against the record id
+ * are moved to the account. Records that match no patient account (or a
+ * caregiver already linked to that account) are flagged with orphanedAt and
+ * keep their legacy fields for someone to resolve by hand.
+ * Safe to run again: linked records are skipped.
+ */
+export const linkPatientRecords = async (now: Date = new Date()): Promise<LinkPatientRecordsResult> => {
+  const result: LinkPatientRecordsResult = { linked: 0, orphaned: [] };
+
+  // Read straight from the collection: the legacy fields are no longer in the schema
+  const records = await Patient.collection
+    .find<LegacyPatientRecord>({ patient: { $exists: false } })
+    .toArray();
+
+  for (const record of records) {
+    const orphan = async (reason: string) => {
+      await Patient.collection.updateOne({ _id: record._id }, { $set: { orphanedAt: now } });
+      result.orphaned.push({ id: record._id.toString(), email: record.email, caregiver: record.caregiver.toString(), reason });
+    };
+
+    const patientUser = record.email
+      ? await User.findOne({ email: record.email.toLowerCase(), role: 'patient' }).select('_id')
+      : null;
+    if (!patientUser) {
+      await orphan('No patient account with this email');
+      continue;
+    }
+
+    const alreadyLinked = await Patient.exists({ patient: patientUser._id, caregiver: record.caregiver });
+    if (alreadyLinked) {
+      await orphan('The caregiver already has a record linked to this patient');
+      continue;
+    }
+
+    // Each caregiver kept their own copy; the shared profile keeps every entry once
+    const medicalHistory = record.medicalHistory || [];
+    const allergies = record.allergies || [];
+    if (medicalHistory.length > 0 || allergies.length > 0) {
+      await PatientProfile.updateOne(
+        { patient: patientUser._id },
+        { $addToSet: { medicalHistory: { $each: medicalHistory }, allergies: { $each: allergies } } },
+        { upsert: true }
+      );
+    }
+
+    const contact = record.emergencyContact;
+    if (contact?.name && contact.relationship && contact.phoneNumber) {
+      const known = await EmergencyContact.exists({ patient: patientUser._id, phoneNumber: contact.phoneNumber });
+      if (!known) {
+        try {
+          // Unverified, so nothing is sent to it until the patient confirms the number
+          await EmergencyContact.create({
+            patient: patientUser._id,
+            name: contact.name,
+            relationship: contact.relationship,
+            phoneNumber: contact.phoneNumber
+          });
+        } catch (error) {
+          console.warn(`⚠️ Could not keep the emergency contact of patient record ${record._id}:`, error);
+        }
+      }
+    }
+
+    // Records added by a caregiver before the patient had an account logged against the record id
+    await Promise.all([
+      Medication.updateMany({ patient: record._id }, { patient: patientUser._id }),
+      Activity.updateMany({ patient: record._id }, { patient: patientUser._id })
+    ]);
+
+    await Patient.collection.updateOne(
+      { _id: record._id },
+      {
+        $set: { patient: patientUser._id },
+        $unset: Object.fromEntries([...LEGACY_FIELDS, 'orphanedAt'].map(field => [field, 1]))
+      }
+    );
+    result.linked++;
+  }
+
+  // Drops the email indexes, which would otherwise reject new records that have no email
+  await Patient.syncIndexes();
+
+  return result;
+};
+
+const run = async () => {
+  await connectDatabase();
+
+  const result = await linkPatientRecords();
+  console.log(`✅ Linked ${result.linked} patient records to patient accounts`);
+
+  if (result.orphaned.length > 0) {
+    console.warn(`⚠️ ${result.orphaned.length} patient records were flagged as orphans:`);
+    result.orphaned.forEach(orphan => {
+      console.warn(`  - ${orphan.id} (${orphan.email || 'no email'}, caregiver ${orphan.caregiver}): ${orphan.reason}`);
+    });
+  }
+
+  await mongoose.connection.close();
+};
+
+if (require.main === module) {
+  run().catch(error => {
+    console.error('❌ Patient record migration failed:', error);
+    process.exit(1);
+  });
+}
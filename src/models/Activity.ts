@@ -1,21 +1,44 @@
 import mongoose, { Schema } from 'mongoose';
+import { notificationPreferenceService } from '../services/notificationPreferenceService';
+import { activityStreamService } from '../services/activityStreamService';
+import { careConsentService } from '../services/careConsentService';
 
 export interface IActivity extends mongoose.Document {
   _id: string;
-  type: 'dose_taken' | 'dose_missed' | 'low_stock' | 'sos_alert' | 'medication_added' | 'medication_paused';
+  type: 'dose_taken' | 'dose_missed' | 'low_stock' | 'sos_alert' | 'medication_added' | 'medication_paused' | 'medication_completed' | 'medication_updated' | 'medication_resumed' | 'medication_archived' | 'medication_restored' | 'dose_reminder' | 'sos_escalated' | 'sos_acknowledged' | 'sos_resolved' | 'sos_cancelled' | 'connection_requested' | 'connection_accepted' | 'connection_declined' | 'care_role_changed' | 'consent_changed' | 'handover_requested' | 'handover_completed' | 'handover_declined';
   patient: mongoose.Types.ObjectId;
   caregiver: mongoose.Types.ObjectId;
   medication?: mongoose.Types.ObjectId;
   message: string;
   priority: 'low' | 'medium' | 'high' | 'critical';
   isRead: boolean;
+  mutedFor: mongoose.Types.ObjectId[]; // recipients whose preferences keep this out of their notification feed
   metadata?: {
     doseTaken?: Date;
     stockLevel?: number;
+    remainingQuantity?: number;
     alertType?: string;
+    severity?: string;
     method?: string;
     wasOverridden?: boolean;
     notes?: string;
+    safetyReason?: string;
+    warnings?: string[]; // Safety checks a caregiver overrode when logging the dose
+    scheduledDose?: mongoose.Types.ObjectId;
+    doseStatus?: string;
+    isPRN?: boolean;
+    prnReason?: string;
+    dosage?: string;
+    dosePhase?: number;
+    medicationChange?: mongoose.Types.ObjectId;
+    version?: number;
+    sosIncident?: mongoose.Types.ObjectId;
+    connectionRequest?: mongoose.Types.ObjectId;
+    careRole?: string;
+    previousCareRole?: string;
+    careConsent?: mongoose.Types.ObjectId;
+    consentAction?: string;
+    careHandover?: mongoose.Types.ObjectId;
   };
   createdAt: Date;
   updatedAt: Date;
@@ -25,7 +48,7 @@ const activitySchema = new Schema<IActivity>({
   type: {
     type: String,
     required: [true, 'Activity type is required'],
-    enum: ['dose_taken', 'dose_missed', 'low_stock', 'sos_alert', 'medication_added', 'medication_paused']
+    enum: ['dose_taken', 'dose_missed', 'low_stock', 'sos_alert', 'medication_added', 'medication_paused', 'medication_completed', 'medication_updated', 'medication_resumed', 'medication_archived', 'medication_restored', 'dose_reminder', 'sos_escalated', 'sos_acknowledged', 'sos_resolved', 'sos_cancelled', 'connection_requested', 'connection_accepted', 'connection_declined', 'care_role_changed', 'consent_changed', 'handover_requested', 'handover_completed', 'handover_declined']
   },
   patient: {
     type: Schema.Types.ObjectId,
@@ -56,10 +79,57 @@ const activitySchema = new Schema<IActivity>({
     type: Boolean,
     default: false
   },
+  mutedFor: [{
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }],
   metadata: {
     doseTaken: Date,
     stockLevel: Number,
-    alertType: String
+    remainingQuantity: Number,
+    alertType: String,
+    severity: String,
+    method: String,
+    wasOverridden: Boolean,
+    notes: String,
+    safetyReason: String,
+    warnings: {
+      type: [String],
+      default: undefined
+    },
+    scheduledDose: {
+      type: Schema.Types.ObjectId,
+      ref: 'ScheduledDose'
+    },
+    doseStatus: String,
+    isPRN: Boolean,
+    prnReason: String,
+    dosage: String,
+    dosePhase: Number,
+    medicationChange: {
+      type: Schema.Types.ObjectId,
+      ref: 'MedicationChange'
+    },
+    version: Number,
+    sosIncident: {
+      type: Schema.Types.ObjectId,
+      ref: 'SosIncident'
+    },
+    connectionRequest: {
+      type: Schema.Types.ObjectId,
+      ref: 'ConnectionRequest'
+    },
+    careRole: String,
+    previousCareRole: String,
+    careConsent: {
+      type: Schema.Types.ObjectId,
+      ref: 'CareConsent'
+    },
+    consentAction: String,
+    careHandover: {
+      type: Schema.Types.ObjectId,
+      ref: 'CareHandover'
+    }
   }
 }, {
   timestamps: true,
@@ -80,4 +150,42 @@ activitySchema.index({ type: 1 });
 activitySchema.index({ priority: 1 });
 activitySchema.index({ isRead: 1 });
 
+// Apply the recipients' notification preferences when the activity is first recorded
+activitySchema.pre('save', async function(next) {
+  if (this.isNew) {
+    try {
+      const muted = await notificationPreferenceService.getMutedRecipients(this);
+      // Caregivers the patient has stopped sharing this with don't get it either
+      if (await careConsentService.isHiddenFromCaregiver(this)) {
+        muted.push(new mongoose.Types.ObjectId(this.caregiver.toString()));
+      }
+      const preset = this.mutedFor || [];
+      this.mutedFor = [...preset, ...muted.filter(userId => !preset.some(existing => existing.equals(userId)))];
+    } catch (error) {
+      return next(error as Error);
+    }
+  }
+  next();
+});
+
+// Stream new activities to connected patients and caregivers
+activitySchema.pre('save', function(next) {
+  this.$locals.wasNew = this.isNew;
+  next();
+});
+
+activitySchema.post('save', function(doc) {
+  if (doc.$locals.wasNew) {
+    activityStreamService.publish(doc).catch(error => {
+      console.error('Activity stream publish error:', error);
+    });
+  }
+});
+
+// At most one missed-dose activity per scheduled dose, so the detector can safely re-run
+activitySchema.index(
+  { type: 1, 'metadata.scheduledDose': 1 },
+  { unique: true, partialFilterExpression: { type: 'dose_missed' } }
+);
+
 export default mongoose.model<IActivity>('Activity', activitySchema);
\ No newline at end of file
@@ -0,0 +1,133 @@
+import mongoose, { Schema } from 'mongoose';
+
+// What a patient shares with a caregiver
+export const CONSENT_SCOPES = ['medications', 'dose_history', 'sos_location', 'emergency_contacts'] as const;
+
+export const CONSENT_STATUSES = ['active', 'revoked', 'expired'] as const;
+
+export const CONSENT_ACTIONS = ['granted', 'updated', 'revoked', 'expired'] as const;
+
+export type ConsentScope = typeof CONSENT_SCOPES[number];
+export type ConsentStatus = typeof CONSENT_STATUSES[number];
+export type ConsentAction = typeof CONSENT_ACTIONS[number];
+
+export interface IConsentHistoryEntry {
+  action: ConsentAction;
+  at: Date;
+  actor?: mongoose.Types.ObjectId;
+  actorRole: 'patient' | 'caregiver' | 'system';
+  scopes: ConsentScope[];
+  expiresAt?: Date;
+  note?: string;
+}
+
+export interface ICareConsent extends mongoose.Document {
+  _id: string;
+  patient: mongoose.Types.ObjectId;
+  caregiver: mongoose.Types.ObjectId;
+  patientRecord: mongoose.Types.ObjectId; // The caregiver relationship this consent covers
+  scopes: ConsentScope[];
+  status: ConsentStatus;
+  grantedAt: Date;
+  expiresAt?: Date; // No time limit when unset
+  revokedAt?: Date;
+  revokeReason?: string;
+  history: IConsentHistoryEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const historyEntrySchema = new Schema<IConsentHistoryEntry>({
+  action: {
+    type: String,
+    required: [true, 'Action is required'],
+    enum: CONSENT_ACTIONS
+  },
+  at: {
+    type: Date,
+    required: [true, 'Time is required']
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  actorRole: {
+    type: String,
+    required: [true, 'Actor role is required'],
+    enum: ['patient', 'caregiver', 'system']
+  },
+  scopes: {
+    type: [String],
+    enum: CONSENT_SCOPES,
+    default: []
+  },
+  expiresAt: Date,
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Note cannot exceed 200 characters']
+  }
+}, { _id: false });
+
+const careConsentSchema = new Schema<ICareConsent>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  caregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Caregiver is required']
+  },
+  patientRecord: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient record is required']
+  },
+  scopes: {
+    type: [String],
+    enum: CONSENT_SCOPES,
+    default: []
+  },
+  status: {
+    type: String,
+    enum: CONSENT_STATUSES,
+    default: 'active'
+  },
+  grantedAt: {
+    type: Date,
+    required: [true, 'Grant time is required']
+  },
+  expiresAt: Date,
+  revokedAt: Date,
+  revokeReason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  },
+  history: {
+    type: [historyEntrySchema],
+    default: []
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// One consent record per caregiver relationship
+careConsentSchema.index({ patientRecord: 1 }, { unique: true });
+
+// Indexes for performance
+careConsentSchema.index({ patient: 1, caregiver: 1 });
+careConsentSchema.index({ caregiver: 1, status: 1 });
+careConsentSchema.index({ status: 1, expiresAt: 1 });
+
+export default mongoose.model<ICareConsent>('CareConsent', careConsentSchema);
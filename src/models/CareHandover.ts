@@ -0,0 +1,107 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const CARE_HANDOVER_STATUSES = ['pending', 'completed', 'declined', 'cancelled', 'expired'] as const;
+
+export type CareHandoverStatus = typeof CARE_HANDOVER_STATUSES[number];
+
+export interface ICareHandoverSummary {
+  medications: number;
+  scheduledDoses: number;
+  medicationLogs: number;
+  medicationChanges: number;
+  activities: number;
+  sosIncidents: number;
+}
+
+export interface ICareHandover extends mongoose.Document {
+  _id: string;
+  patient: mongoose.Types.ObjectId;
+  patientRecord: mongoose.Types.ObjectId; // The relationship being handed over
+  fromCaregiver: mongoose.Types.ObjectId;
+  toCaregiver: mongoose.Types.ObjectId;
+  note?: string;
+  status: CareHandoverStatus;
+  expiresAt: Date;
+  respondedAt?: Date;
+  declineReason?: string;
+  transferred?: ICareHandoverSummary; // What moved to the new caregiver once the patient confirmed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const handoverSummarySchema = new Schema<ICareHandoverSummary>({
+  medications: { type: Number, default: 0 },
+  scheduledDoses: { type: Number, default: 0 },
+  medicationLogs: { type: Number, default: 0 },
+  medicationChanges: { type: Number, default: 0 },
+  activities: { type: Number, default: 0 },
+  sosIncidents: { type: Number, default: 0 }
+}, { _id: false });
+
+const careHandoverSchema = new Schema<ICareHandover>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  patientRecord: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient',
+    required: [true, 'Patient record is required']
+  },
+  fromCaregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Current caregiver is required']
+  },
+  toCaregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'New caregiver is required']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  status: {
+    type: String,
+    enum: CARE_HANDOVER_STATUSES,
+    default: 'pending'
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required']
+  },
+  respondedAt: Date,
+  declineReason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  },
+  transferred: handoverSummarySchema
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+careHandoverSchema.index({ patient: 1, status: 1, createdAt: -1 });
+careHandoverSchema.index({ fromCaregiver: 1, createdAt: -1 });
+careHandoverSchema.index({ toCaregiver: 1, createdAt: -1 });
+careHandoverSchema.index({ status: 1, expiresAt: 1 });
+
+// At most one open handover per relationship
+careHandoverSchema.index(
+  { patientRecord: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+export default mongoose.model<ICareHandover>('CareHandover', careHandoverSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const CONNECTION_REQUEST_STATUSES = ['pending', 'accepted', 'declined', 'cancelled', 'expired'] as const;
+
+export type ConnectionRequestStatus = typeof CONNECTION_REQUEST_STATUSES[number];
+
+export interface IConnectionRequest extends mongoose.Document {
+  _id: string;
+  patient: mongoose.Types.ObjectId;
+  caregiver: mongoose.Types.ObjectId;
+  caregiverEmail: string;
+  message?: string;
+  status: ConnectionRequestStatus;
+  expiresAt: Date;
+  respondedAt?: Date;
+  declineReason?: string;
+  patientRecord?: mongoose.Types.ObjectId; // Relationship record created on acceptance
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const connectionRequestSchema = new Schema<IConnectionRequest>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  caregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Caregiver is required']
+  },
+  caregiverEmail: {
+    type: String,
+    required: [true, 'Caregiver email is required'],
+    lowercase: true,
+    trim: true
+  },
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Message cannot exceed 500 characters']
+  },
+  status: {
+    type: String,
+    enum: CONNECTION_REQUEST_STATUSES,
+    default: 'pending'
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required']
+  },
+  respondedAt: Date,
+  declineReason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  },
+  patientRecord: {
+    type: Schema.Types.ObjectId,
+    ref: 'Patient'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+connectionRequestSchema.index({ patient: 1, createdAt: -1 });
+connectionRequestSchema.index({ caregiver: 1, status: 1, createdAt: -1 });
+connectionRequestSchema.index({ status: 1, expiresAt: 1 });
+
+// At most one open request from a patient to the same caregiver
+connectionRequestSchema.index(
+  { patient: 1, caregiver: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+export default mongoose.model<IConnectionRequest>('ConnectionRequest', connectionRequestSchema);
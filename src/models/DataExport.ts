@@ -0,0 +1,84 @@
+import mongoose, { Schema } from 'mongoose';
+
+export type DataExportFormat = 'json' | 'csv' | 'pdf';
+
+export interface IDataExport extends mongoose.Document {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  format: DataExportFormat;
+  status: 'ready' | 'failed' | 'expired';
+  fileName: string;
+  filePath?: string; // Removed once the export expires
+  mimeType: string;
+  sizeBytes: number;
+  expiresAt: Date;
+  downloadCount: number;
+  lastDownloadedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dataExportSchema = new Schema<IDataExport>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  format: {
+    type: String,
+    enum: ['json', 'csv', 'pdf'],
+    required: [true, 'Format is required']
+  },
+  status: {
+    type: String,
+    enum: ['ready', 'failed', 'expired'],
+    default: 'ready'
+  },
+  fileName: {
+    type: String,
+    required: [true, 'File name is required']
+  },
+  filePath: {
+    type: String
+  },
+  mimeType: {
+    type: String,
+    required: true
+  },
+  sizeBytes: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: [true, 'Expiry is required']
+  },
+  downloadCount: {
+    type: Number,
+    default: 0
+  },
+  lastDownloadedAt: {
+    type: Date
+  },
+  error: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.filePath;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+dataExportSchema.index({ user: 1, createdAt: -1 });
+dataExportSchema.index({ status: 1, expiresAt: 1 });
+
+export default mongoose.model<IDataExport>('DataExport', dataExportSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema } from 'mongoose';
+import { NotificationChannel, NOTIFICATION_CHANNELS } from './NotificationPreference';
+
+export interface IDoseReminder extends mongoose.Document {
+  _id: string;
+  scheduledDose: mongoose.Types.ObjectId;
+  medication: mongoose.Types.ObjectId;
+  patient: mongoose.Types.ObjectId;
+  kind: 'lead' | 'snooze';
+  leadMinutes?: number; // For lead reminders: minutes before the dose was due
+  remindAt: Date;
+  sentAt: Date;
+  channels: NotificationChannel[]; // Channels the reminder was delivered or queued on
+  activity?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const doseReminderSchema = new Schema<IDoseReminder>({
+  scheduledDose: {
+    type: Schema.Types.ObjectId,
+    ref: 'ScheduledDose',
+    required: [true, 'Scheduled dose is required']
+  },
+  medication: {
+    type: Schema.Types.ObjectId,
+    ref: 'Medication',
+    required: [true, 'Medication is required']
+  },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  kind: {
+    type: String,
+    enum: ['lead', 'snooze'],
+    required: [true, 'Reminder kind is required']
+  },
+  leadMinutes: {
+    type: Number,
+    min: 0
+  },
+  remindAt: {
+    type: Date,
+    required: [true, 'Reminder time is required']
+  },
+  sentAt: {
+    type: Date,
+    required: [true, 'Sent time is required']
+  },
+  channels: [{
+    type: String,
+    enum: NOTIFICATION_CHANNELS
+  }],
+  activity: {
+    type: Schema.Types.ObjectId,
+    ref: 'Activity'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Each reminder instant is sent at most once per dose, so the job can safely re-run
+doseReminderSchema.index({ scheduledDose: 1, remindAt: 1 }, { unique: true });
+
+// Indexes for performance
+doseReminderSchema.index({ patient: 1, sentAt: -1 });
+
+export default mongoose.model<IDoseReminder>('DoseReminder', doseReminderSchema);
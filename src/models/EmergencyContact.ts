@@ -1,6 +1,13 @@
 // Create src/models/EmergencyContact.ts
 import mongoose, { Schema } from 'mongoose';
 
+export const EMERGENCY_CONTACT_ALERTS = ['sos', 'missedDoses'] as const;
+
+export type EmergencyContactAlert = typeof EMERGENCY_CONTACT_ALERTS[number];
+
+// Alerts the contact has agreed to receive; nothing is sent until the number is verified
+export type IEmergencyContactAlerts = Record<EmergencyContactAlert, boolean>;
+
 export interface IEmergencyContact extends mongoose.Document {
   _id: string;
   patient: mongoose.Types.ObjectId;
@@ -8,6 +15,14 @@ export interface IEmergencyContact extends mongoose.Document {
   relationship: string;
   phoneNumber: string;
   isPrimary: boolean;
+  isVerified: boolean; // Phone number confirmed with a code sent to it
+  verifiedAt?: Date;
+  verificationCode?: string;
+  verificationCodeExpires?: Date;
+  verificationSentAt?: Date;
+  verificationAttempts: number;
+  alerts: IEmergencyContactAlerts;
+  lastMissedDoseAlertAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,7 +54,31 @@ const emergencyContactSchema = new Schema<IEmergencyContact>({
   isPrimary: {
     type: Boolean,
     default: false
-  }
+  },
+  isVerified: {
+    type: Boolean,
+    default: false
+  },
+  verifiedAt: Date,
+  verificationCode: {
+    type: String,
+    select: false
+  },
+  verificationCodeExpires: {
+    type: Date,
+    select: false
+  },
+  verificationSentAt: Date,
+  verificationAttempts: {
+    type: Number,
+    default: 0,
+    select: false
+  },
+  alerts: {
+    sos: { type: Boolean, default: true },
+    missedDoses: { type: Boolean, default: false }
+  },
+  lastMissedDoseAlertAt: Date
 }, {
   timestamps: true,
   toJSON: {
@@ -47,6 +86,9 @@ const emergencyContactSchema = new Schema<IEmergencyContact>({
       ret.id = ret._id;
       delete ret._id;
       delete ret.__v;
+      delete ret.verificationCode;
+      delete ret.verificationCodeExpires;
+      delete ret.verificationAttempts;
       return ret;
     }
   }
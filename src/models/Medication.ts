@@ -1,4 +1,26 @@
 import mongoose, { Schema } from 'mongoose';
+import { MedicationSchedule, PRNLimits, getDosesPerDay } from '../utils/medicationTimingUtils';
+import { DosePlan } from '../utils/dosePlanUtils';
+
+export interface IMedicationPause {
+  reason?: string;
+  pausedAt: Date;
+  pausedBy?: mongoose.Types.ObjectId;
+  resumeAt?: Date; // Resumed automatically at this time
+}
+
+export interface IPausePeriod {
+  pausedAt: Date;
+  resumedAt?: Date;
+  reason?: string;
+}
+
+export interface IMedicationArchive {
+  archivedAt: Date;
+  archivedBy?: mongoose.Types.ObjectId;
+  reason?: string;
+  previousStatus: 'active' | 'paused' | 'completed'; // Restored on unarchive
+}
 
 export interface IMedication extends mongoose.Document {
   _id: string;
@@ -7,13 +29,26 @@ export interface IMedication extends mongoose.Document {
   dosageUnit: 'mg' | 'g' | 'ml' | 'tablets' | 'capsules' | 'drops' | 'puffs' | 'units';
   frequency: number;
   timingRelation: 'before_food' | 'after_food' | 'with_food' | 'empty_stomach' | 'anytime';
+  schedule?: MedicationSchedule;
+  isPRN: boolean;
+  prn?: PRNLimits;
+  dosePlan?: DosePlan;
   totalQuantity: number;
   remainingQuantity: number;
   expiryDate: Date;
   instructions?: string;
   patient: mongoose.Types.ObjectId;
   caregiver: mongoose.Types.ObjectId;
-  status: 'active' | 'paused' | 'completed';
+  status: 'active' | 'paused' | 'completed' | 'archived';
+  startDate: Date;
+  endDate?: Date;       // Last day of the course; open-ended when not set
+  durationDays?: number;
+  completedAt?: Date;
+  completionReason?: 'course_ended' | 'quantity_exhausted';
+  version: number; // Bumped on every caregiver edit, see MedicationChange
+  pause?: IMedicationPause; // Set while the medication is paused
+  pauseHistory: IPausePeriod[]; // Periods in which no doses were expected (pauses and archiving)
+  archive?: IMedicationArchive; // Set while the medication is archived (removed by the caregiver)
   adherenceRate: number;
   lastTaken?: Date;
   barcodeData: string;
@@ -21,6 +56,166 @@ export interface IMedication extends mongoose.Document {
   updatedAt: Date;
 }
 
+// Dosing regimen; when absent the medication follows meals based on frequency
+const scheduleSchema = new Schema({
+  type: {
+    type: String,
+    required: [true, 'Schedule type is required'],
+    enum: ['meal_anchored', 'fixed_times', 'interval']
+  },
+  meals: [{
+    type: String,
+    enum: ['breakfast', 'lunch', 'dinner', 'snack']
+  }],
+  times: [{
+    type: String,
+    match: [/^([01]\d|2[0-3]):([0-5]\d)$/, 'Schedule times must be in HH:MM format']
+  }],
+  intervalHours: {
+    type: Number,
+    min: [1, 'Interval must be at least 1 hour'],
+    max: [24, 'Interval cannot exceed 24 hours']
+  },
+  startTime: {
+    type: String,
+    match: [/^([01]\d|2[0-3]):([0-5]\d)$/, 'Start time must be in HH:MM format']
+  },
+  daysOfWeek: [{
+    type: Number,
+    min: [0, 'Days of week must be between 0 (Sunday) and 6 (Saturday)'],
+    max: [6, 'Days of week must be between 0 (Sunday) and 6 (Saturday)']
+  }],
+  everyNDays: {
+    type: Number,
+    min: [1, 'Day interval must be at least 1'],
+    max: [365, 'Day interval cannot exceed 365']
+  },
+  anchorDate: {
+    type: Date
+  }
+}, { _id: false });
+
+// Limits for as-needed (PRN) medications
+const prnSchema = new Schema({
+  maxDosesPer24h: {
+    type: Number,
+    required: [true, 'Maximum doses per 24 hours is required'],
+    min: [1, 'Maximum doses must be at least 1'],
+    max: [24, 'Maximum doses cannot exceed 24']
+  },
+  minIntervalHours: {
+    type: Number,
+    default: 0,
+    min: [0, 'Minimum interval cannot be negative'],
+    max: [72, 'Minimum interval cannot exceed 72 hours']
+  },
+  requireReason: {
+    type: Boolean,
+    default: false
+  }
+}, { _id: false });
+
+// One step of a taper or titration
+const dosePhaseSchema = new Schema({
+  dosage: {
+    type: String,
+    required: [true, 'Phase dosage is required'],
+    match: [/^\d+(\.\d+)?$/, 'Please enter a valid dosage (e.g., 500, 2.5)']
+  },
+  dosageUnit: {
+    type: String,
+    enum: ['mg', 'g', 'ml', 'tablets', 'capsules', 'drops', 'puffs', 'units']
+  },
+  frequency: {
+    type: Number,
+    min: [1, 'Frequency must be at least 1'],
+    max: [24, 'Frequency cannot exceed 24 times daily']
+  },
+  schedule: {
+    type: scheduleSchema
+  },
+  durationDays: {
+    type: Number,
+    min: [1, 'Phase must last at least 1 day'],
+    max: [365, 'Phase cannot exceed 365 days']
+  },
+  instructions: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Phase instructions cannot exceed 200 characters']
+  }
+}, { _id: false });
+
+const dosePlanSchema = new Schema({
+  startDate: {
+    type: Date,
+    required: [true, 'Dose plan start date is required']
+  },
+  phases: {
+    type: [dosePhaseSchema],
+    validate: {
+      validator: function(phases: any[]) {
+        return phases.length >= 1 && phases.length <= 20;
+      },
+      message: 'Dose plan must have between 1 and 20 phases'
+    }
+  }
+}, { _id: false });
+
+const pauseSchema = new Schema({
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Pause reason cannot exceed 200 characters']
+  },
+  pausedAt: {
+    type: Date,
+    required: true
+  },
+  pausedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resumeAt: {
+    type: Date
+  }
+}, { _id: false });
+
+const pausePeriodSchema = new Schema({
+  pausedAt: {
+    type: Date,
+    required: true
+  },
+  resumedAt: {
+    type: Date
+  },
+  reason: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+const archiveSchema = new Schema({
+  archivedAt: {
+    type: Date,
+    required: true
+  },
+  archivedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Archive reason cannot exceed 200 characters']
+  },
+  previousStatus: {
+    type: String,
+    enum: ['active', 'paused', 'completed'],
+    required: true
+  }
+}, { _id: false });
+
 const medicationSchema = new Schema<IMedication>({
   name: {
     type: String,
@@ -43,13 +238,26 @@ const medicationSchema = new Schema<IMedication>({
     type: Number,
     required: [true, 'Frequency is required'],
     min: [1, 'Frequency must be at least 1'],
-    max: [6, 'Frequency cannot exceed 6 times daily']
+    max: [24, 'Frequency cannot exceed 24 times daily']
   },
   timingRelation: {
     type: String,
     required: [true, 'Timing relation is required'],
     enum: ['before_food', 'after_food', 'with_food', 'empty_stomach', 'anytime']
   },
+  schedule: {
+    type: scheduleSchema
+  },
+  isPRN: {
+    type: Boolean,
+    default: false
+  },
+  prn: {
+    type: prnSchema
+  },
+  dosePlan: {
+    type: dosePlanSchema
+  },
   totalQuantity: {
     type: Number,
     required: [true, 'Total quantity is required'],
@@ -87,9 +295,49 @@ const medicationSchema = new Schema<IMedication>({
   },
   status: {
     type: String,
-    enum: ['active', 'paused', 'completed'],
+    enum: ['active', 'paused', 'completed', 'archived'],
     default: 'active'
   },
+  startDate: {
+    type: Date,
+    default: Date.now
+  },
+  endDate: {
+    type: Date,
+    validate: {
+      validator: function(this: any, date: Date) {
+        return !this.startDate || date >= this.startDate;
+      },
+      message: 'End date cannot be before the start date'
+    }
+  },
+  durationDays: {
+    type: Number,
+    min: [1, 'Duration must be at least 1 day'],
+    max: [3650, 'Duration cannot exceed 3650 days']
+  },
+  completedAt: {
+    type: Date
+  },
+  completionReason: {
+    type: String,
+    enum: ['course_ended', 'quantity_exhausted']
+  },
+  version: {
+    type: Number,
+    default: 1,
+    min: 1
+  },
+  pause: {
+    type: pauseSchema
+  },
+  pauseHistory: {
+    type: [pausePeriodSchema],
+    default: []
+  },
+  archive: {
+    type: archiveSchema
+  },
   adherenceRate: {
     type: Number,
     default: 0,
@@ -128,6 +376,47 @@ medicationSchema.virtual('daysUntilExpiry').get(function() {
   return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
 });
 
+// Keep frequency (doses per dosing day) in step with an explicit schedule
+medicationSchema.pre('validate', function(next) {
+  // A course length fixes the last day of the course
+  if (this.durationDays && this.startDate && (this.isNew || this.isModified('durationDays') || this.isModified('startDate'))) {
+    this.endDate = new Date(this.startDate.getTime() + (this.durationDays - 1) * 24 * 60 * 60 * 1000);
+  }
+
+  if (this.dosePlan?.phases?.length) {
+    if (this.isPRN) {
+      return next(new Error('As-needed medications cannot have a dose plan'));
+    }
+    // Only the last phase may run indefinitely
+    if (this.dosePlan.phases.slice(0, -1).some(phase => !phase.durationDays)) {
+      return next(new Error('Every phase except the last needs a duration'));
+    }
+    if (!this.dosage) {
+      this.dosage = this.dosePlan.phases[0].dosage;
+    }
+  }
+
+  if (this.isPRN) {
+    if (!this.prn) {
+      return next(new Error('As-needed medications need dose limits'));
+    }
+    if (this.schedule?.type) {
+      return next(new Error('As-needed medications cannot have a schedule'));
+    }
+    // Frequency is the daily cap so supply estimates stay conservative
+    this.frequency = this.prn.maxDosesPer24h;
+  } else if (this.schedule?.type) {
+    if (this.schedule.type === 'fixed_times' && !(this.schedule.times && this.schedule.times.length > 0)) {
+      return next(new Error('Fixed time schedules need at least one time'));
+    }
+    if (this.schedule.type === 'interval' && !this.schedule.intervalHours) {
+      return next(new Error('Interval schedules need intervalHours'));
+    }
+    this.frequency = getDosesPerDay(this.frequency, this.schedule);
+  }
+  next();
+});
+
 // Generate unique barcode data before saving
 medicationSchema.pre('save', async function(next) {
   if (!this.barcodeData) {
@@ -183,6 +472,8 @@ medicationSchema.index({ patient: 1 });
 medicationSchema.index({ caregiver: 1 });
 medicationSchema.index({ status: 1 });
 medicationSchema.index({ expiryDate: 1 });
+medicationSchema.index({ status: 1, endDate: 1 });
+medicationSchema.index({ status: 1, 'pause.resumeAt': 1 });
 medicationSchema.index({ barcodeData: 1 }, { unique: true });
 
 export default mongoose.model<IMedication>('Medication', medicationSchema);
\ No newline at end of file
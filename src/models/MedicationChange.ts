@@ -0,0 +1,90 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface IFieldChange {
+  field: string;
+  from?: any;
+  to?: any;
+}
+
+export interface IMedicationChange extends mongoose.Document {
+  _id: string;
+  medication: mongoose.Types.ObjectId;
+  patient: mongoose.Types.ObjectId;
+  caregiver: mongoose.Types.ObjectId;
+  changedBy: mongoose.Types.ObjectId;
+  version: number; // Medication version this change produced
+  action: 'updated' | 'paused' | 'resumed' | 'archived' | 'restored';
+  changes: IFieldChange[];
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fieldChangeSchema = new Schema({
+  field: {
+    type: String,
+    required: true
+  },
+  from: Schema.Types.Mixed,
+  to: Schema.Types.Mixed
+}, { _id: false });
+
+const medicationChangeSchema = new Schema<IMedicationChange>({
+  medication: {
+    type: Schema.Types.ObjectId,
+    ref: 'Medication',
+    required: [true, 'Medication is required']
+  },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  caregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Caregiver is required']
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Changed by is required']
+  },
+  version: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  action: {
+    type: String,
+    enum: ['updated', 'paused', 'resumed', 'archived', 'restored'],
+    default: 'updated'
+  },
+  changes: {
+    type: [fieldChangeSchema],
+    default: []
+  },
+  reason: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Reason cannot exceed 500 characters']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// One history entry per medication version
+medicationChangeSchema.index({ medication: 1, version: 1 }, { unique: true });
+
+// Indexes for performance
+medicationChangeSchema.index({ patient: 1, createdAt: -1 });
+
+export default mongoose.model<IMedicationChange>('MedicationChange', medicationChangeSchema);
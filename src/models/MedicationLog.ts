@@ -22,7 +22,7 @@ const medicationLogSchema = new Schema<IMedicationLog>({
   },
   patient: {
     type: Schema.Types.ObjectId,
-    ref: 'Patient',
+    ref: 'User',
     required: true
   },
   caregiver: {
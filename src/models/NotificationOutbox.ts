@@ -0,0 +1,126 @@
+import mongoose, { Schema } from 'mongoose';
+import { DeliveryChannel, DeliveryPriority, DeliveryStatus } from '../types/notification.types';
+import { NotificationCategory, NOTIFICATION_CATEGORIES } from './NotificationPreference';
+
+export interface INotificationOutbox extends mongoose.Document {
+  _id: string;
+  channel: DeliveryChannel;
+  to: string;
+  user?: mongoose.Types.ObjectId;
+  category?: NotificationCategory; // Unset for transactional messages such as OTPs
+  subject?: string;
+  text: string;
+  html?: string;
+  data?: Record<string, unknown>;
+  priority: DeliveryPriority;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  expiresAt?: Date; // Dropped instead of sent after this (one-time codes)
+  purgeAt?: Date;   // Set once sent or failed; the entry is deleted after it
+  lockedAt?: Date;
+  lastError?: string;
+  sentAt?: Date;
+  providerMessageId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationOutboxSchema = new Schema<INotificationOutbox>({
+  channel: {
+    type: String,
+    required: [true, 'Channel is required'],
+    enum: ['email', 'sms', 'push', 'webhook']
+  },
+  to: {
+    type: String,
+    required: [true, 'Recipient is required'],
+    trim: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  category: {
+    type: String,
+    enum: NOTIFICATION_CATEGORIES
+  },
+  subject: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Subject cannot exceed 200 characters']
+  },
+  text: {
+    type: String,
+    required: [true, 'Message text is required']
+  },
+  html: {
+    type: String
+  },
+  data: {
+    type: Schema.Types.Mixed
+  },
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high', 'critical'],
+    default: 'medium'
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'sending', 'sent', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  maxAttempts: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  nextAttemptAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date
+  },
+  purgeAt: {
+    type: Date
+  },
+  lockedAt: {
+    type: Date
+  },
+  lastError: {
+    type: String
+  },
+  sentAt: {
+    type: Date
+  },
+  providerMessageId: {
+    type: String
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+notificationOutboxSchema.index({ status: 1, nextAttemptAt: 1 });
+notificationOutboxSchema.index({ status: 1, lockedAt: 1 });
+notificationOutboxSchema.index({ user: 1, createdAt: -1 });
+
+// MongoDB removes finished entries once purgeAt passes, so message bodies are not kept forever
+notificationOutboxSchema.index({ purgeAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<INotificationOutbox>('NotificationOutbox', notificationOutboxSchema);
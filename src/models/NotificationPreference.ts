@@ -0,0 +1,110 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const NOTIFICATION_CATEGORIES = [
+  'medicationReminders',
+  'refillReminders',
+  'adherenceAlerts',
+  'sosAlerts',
+  'doseConfirmations',
+  'medicationChanges',
+  'connectionRequests'
+] as const;
+
+export const NOTIFICATION_CHANNELS = ['inApp', 'email', 'push', 'sms'] as const;
+
+export const DIGEST_FREQUENCIES = ['none', 'daily', 'weekly'] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+
+export interface IQuietHours {
+  enabled: boolean;
+  start: string; // HH:MM, patient/caregiver local time
+  end: string;   // HH:MM, may be earlier than start to span midnight
+}
+
+export interface NotificationSettings {
+  categories: Record<NotificationCategory, boolean>;
+  channels: Record<NotificationChannel, boolean>;
+  quietHours: IQuietHours;
+  digestFrequency: DigestFrequency;
+  reminderLeadMinutes: number[]; // Minutes before a dose is due that reminders go out
+}
+
+export interface INotificationPreference extends mongoose.Document, NotificationSettings {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const quietHoursSchema = new Schema<IQuietHours>({
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  start: {
+    type: String,
+    default: '22:00',
+    match: [TIME_PATTERN, 'Please enter a valid time in HH:MM format']
+  },
+  end: {
+    type: String,
+    default: '07:00',
+    match: [TIME_PATTERN, 'Please enter a valid time in HH:MM format']
+  }
+}, { _id: false });
+
+const notificationPreferenceSchema = new Schema<INotificationPreference>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  categories: {
+    medicationReminders: { type: Boolean, default: true },
+    refillReminders: { type: Boolean, default: true },
+    adherenceAlerts: { type: Boolean, default: true },
+    sosAlerts: { type: Boolean, default: true },
+    doseConfirmations: { type: Boolean, default: true },
+    medicationChanges: { type: Boolean, default: true },
+    connectionRequests: { type: Boolean, default: true }
+  },
+  channels: {
+    inApp: { type: Boolean, default: true },
+    email: { type: Boolean, default: true },
+    push: { type: Boolean, default: true },
+    sms: { type: Boolean, default: false }
+  },
+  quietHours: {
+    type: quietHoursSchema,
+    default: () => ({})
+  },
+  digestFrequency: {
+    type: String,
+    enum: DIGEST_FREQUENCIES,
+    default: 'none'
+  },
+  reminderLeadMinutes: {
+    type: [{ type: Number, min: 0 }],
+    default: undefined
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// One preference document per user
+notificationPreferenceSchema.index({ user: 1 }, { unique: true });
+
+export default mongoose.model<INotificationPreference>('NotificationPreference', notificationPreferenceSchema);
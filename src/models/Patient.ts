@@ -1,64 +1,45 @@
 import mongoose, { Schema } from 'mongoose';
 
+// What a caregiver may do for this patient: the primary caregiver runs the regimen,
+// secondary caregivers help with doses and alerts, viewers follow adherence
+export const CARE_ROLES = ['primary', 'secondary', 'viewer'] as const;
+
+export type CareRole = typeof CARE_ROLES[number];
+
+// Account fields shown wherever a relationship is listed; populate the patient with these
+export const PATIENT_ACCOUNT_FIELDS = 'name email age gender phoneNumber timezone';
+
+// A caregiver's relationship with a patient. The patient's name, contact details and age
+// live on their account, and their medical history and allergies in their PatientProfile.
 export interface IPatient extends mongoose.Document {
   _id: string;
-  name: string;
-  email: string;
-  age: number;
-  gender: string;
-  phoneNumber: string;
+  patient: mongoose.Types.ObjectId;
   caregiver: mongoose.Types.ObjectId;
+  careRole: CareRole;
   status: 'active' | 'inactive' | 'critical';
   adherenceRate: number;
   lastActivity: Date;
-  emergencyContact?: {
-    name: string;
-    relationship: string;
-    phoneNumber: string;
-  };
-  medicalHistory?: string[];
-  allergies?: string[];
+  orphanedAt?: Date; // Set by the link migration on records that match no patient account
   createdAt: Date;
   updatedAt: Date;
 }
 
 const patientSchema = new Schema<IPatient>({
-  name: {
-    type: String,
-    required: [true, 'Patient name is required'],
-    trim: true,
-    minlength: [2, 'Name must be at least 2 characters'],
-    maxlength: [50, 'Name cannot exceed 50 characters']
-  },
-  email: {
-    type: String,
-    required: [true, 'Email is required'],
-    lowercase: true,
-    trim: true,
-    match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
-  },
-  age: {
-    type: Number,
-    required: [true, 'Age is required'],
-    min: [1, 'Age must be at least 1'],
-    max: [150, 'Age cannot exceed 150']
-  },
-  gender: {
-    type: String,
-    required: [true, 'Gender is required'],
-    enum: ['male', 'female', 'other', 'prefer_not_to_say']
-  },
-  phoneNumber: {
-    type: String,
-    required: [true, 'Phone number is required'],
-    trim: true,
-    match: [/^[\+]?[1-9][\d]{0,15}$/, 'Please enter a valid phone number']
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient account is required']
   },
   caregiver: {
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: [true, 'Caregiver is required']
   },
+  careRole: {
+    type: String,
+    enum: CARE_ROLES,
+    default: 'primary'
+  },
   status: {
     type: String,
     enum: ['active', 'inactive', 'critical'],
@@ -74,28 +55,7 @@ const patientSchema = new Schema<IPatient>({
     type: Date,
     default: Date.now
   },
-  emergencyContact: {
-    name: {
-      type: String,
-      trim: true
-    },
-    relationship: {
-      type: String,
-      trim: true
-    },
-    phoneNumber: {
-      type: String,
-      trim: true
-    }
-  },
-  medicalHistory: [{
-    type: String,
-    trim: true
-  }],
-  allergies: [{
-    type: String,
-    trim: true
-  }]
+  orphanedAt: Date
 }, {
   timestamps: true,
   toJSON: {
@@ -108,12 +68,33 @@ const patientSchema = new Schema<IPatient>({
   }
 });
 
-patientSchema.index({ email: 1, caregiver: 1 }, { unique: true });
+// Records the link migration could not match to an account have no patient and are left out
+patientSchema.index(
+  { patient: 1, caregiver: 1 },
+  { unique: true, partialFilterExpression: { patient: { $exists: true } } }
+);
+
+// The first caregiver to connect becomes primary; caregivers joining an existing team start as secondary
+// (records saved before roles existed have no careRole and count as primary)
+patientSchema.pre('validate', async function(next) {
+  if (this.isNew && this.$isDefault('careRole')) {
+    try {
+      const hasPrimary = await mongoose.model<IPatient>('Patient').exists({
+        patient: this.patient,
+        careRole: { $nin: ['secondary', 'viewer'] },
+        _id: { $ne: this._id }
+      });
+      this.careRole = hasPrimary ? 'secondary' : 'primary';
+    } catch (error) {
+      return next(error as Error);
+    }
+  }
+  next();
+});
 
 // Indexes for performance
 patientSchema.index({ caregiver: 1 });
-patientSchema.index({ email: 1 });
+patientSchema.index({ patient: 1, careRole: 1 });
 patientSchema.index({ status: 1 });
-patientSchema.index({ name: 'text', email: 'text' });
 
 export default mongoose.model<IPatient>('Patient', patientSchema);
\ No newline at end of file
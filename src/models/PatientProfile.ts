@@ -0,0 +1,49 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Clinical details of a patient, shared by the patient and everyone on their care team
+export interface IPatientProfile extends mongoose.Document {
+  _id: string;
+  patient: mongoose.Types.ObjectId;
+  medicalHistory: string[];
+  allergies: string[];
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const patientProfileSchema = new Schema<IPatientProfile>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  medicalHistory: [{
+    type: String,
+    trim: true,
+    maxlength: [100, 'Medical history entries cannot exceed 100 characters']
+  }],
+  allergies: [{
+    type: String,
+    trim: true,
+    maxlength: [50, 'Allergies cannot exceed 50 characters']
+  }],
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// One profile per patient
+patientProfileSchema.index({ patient: 1 }, { unique: true });
+
+export default mongoose.model<IPatientProfile>('PatientProfile', patientProfileSchema);
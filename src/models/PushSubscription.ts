@@ -0,0 +1,63 @@
+import mongoose, { Schema } from 'mongoose';
+
+export interface IPushSubscription extends mongoose.Document {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  endpoint: string;
+  keys: {
+    p256dh: string; // base64url P-256 public key of the browser
+    auth: string;   // base64url 16-byte auth secret
+  };
+  userAgent?: string;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pushSubscriptionSchema = new Schema<IPushSubscription>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'User is required']
+  },
+  endpoint: {
+    type: String,
+    required: [true, 'Endpoint is required'],
+    trim: true
+  },
+  keys: {
+    p256dh: {
+      type: String,
+      required: [true, 'Subscription key is required']
+    },
+    auth: {
+      type: String,
+      required: [true, 'Subscription auth secret is required']
+    }
+  },
+  userAgent: {
+    type: String,
+    trim: true,
+    maxlength: [300, 'User agent cannot exceed 300 characters']
+  },
+  lastUsedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      delete ret.keys;
+      return ret;
+    }
+  }
+});
+
+// A browser subscription belongs to one user at a time
+pushSubscriptionSchema.index({ endpoint: 1 }, { unique: true });
+pushSubscriptionSchema.index({ user: 1 });
+
+export default mongoose.model<IPushSubscription>('PushSubscription', pushSubscriptionSchema);
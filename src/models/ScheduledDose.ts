@@ -0,0 +1,138 @@
+import mongoose, { Schema } from 'mongoose';
+
+export type ScheduledDoseStatus = 'pending' | 'taken' | 'late' | 'missed' | 'skipped';
+
+export interface IScheduledDose extends mongoose.Document {
+  _id: string;
+  medication: mongoose.Types.ObjectId;
+  patient: mongoose.Types.ObjectId;
+  caregiver: mongoose.Types.ObjectId;
+  dateKey: string; // Patient's local day (YYYY-MM-DD)
+  slotIndex: number;
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  dosage?: string; // Dose due in this slot, e.g. "40 mg" (varies under a dose plan)
+  dosePhase?: number;
+  scheduledFor: Date;
+  windowStart: Date;
+  windowEnd: Date;
+  status: ScheduledDoseStatus;
+  takenAt?: Date;
+  activity?: mongoose.Types.ObjectId | string;
+  method?: 'manual' | 'barcode_scan' | 'reminder';
+  wasOverridden?: boolean;
+  notes?: string;
+  skipReason?: string;
+  snoozedUntil?: Date; // Reminders are held back until then
+  snoozeCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledDoseSchema = new Schema<IScheduledDose>({
+  medication: {
+    type: Schema.Types.ObjectId,
+    ref: 'Medication',
+    required: [true, 'Medication is required']
+  },
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  caregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Caregiver is required']
+  },
+  dateKey: {
+    type: String,
+    required: true,
+    match: [/^\d{4}-\d{2}-\d{2}$/, 'Date key must be in YYYY-MM-DD format']
+  },
+  slotIndex: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  mealType: {
+    type: String,
+    enum: ['breakfast', 'lunch', 'dinner', 'snack']
+  },
+  dosage: {
+    type: String
+  },
+  dosePhase: {
+    type: Number,
+    min: 0
+  },
+  scheduledFor: {
+    type: Date,
+    required: true
+  },
+  windowStart: {
+    type: Date,
+    required: true
+  },
+  windowEnd: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'taken', 'late', 'missed', 'skipped'],
+    default: 'pending'
+  },
+  takenAt: {
+    type: Date
+  },
+  activity: {
+    type: Schema.Types.ObjectId,
+    ref: 'Activity'
+  },
+  method: {
+    type: String,
+    enum: ['manual', 'barcode_scan', 'reminder']
+  },
+  wasOverridden: {
+    type: Boolean,
+    default: false
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  skipReason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Skip reason cannot exceed 200 characters']
+  },
+  snoozedUntil: {
+    type: Date
+  },
+  snoozeCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// One slot per medication, day and position in the day
+scheduledDoseSchema.index({ medication: 1, dateKey: 1, slotIndex: 1 }, { unique: true });
+
+// Indexes for performance
+scheduledDoseSchema.index({ patient: 1, scheduledFor: 1 });
+scheduledDoseSchema.index({ medication: 1, scheduledFor: 1 });
+scheduledDoseSchema.index({ status: 1, windowEnd: 1 });
+
+export default mongoose.model<IScheduledDose>('ScheduledDose', scheduledDoseSchema);
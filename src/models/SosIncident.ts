@@ -0,0 +1,202 @@
+import mongoose, { Schema } from 'mongoose';
+
+export const SOS_INCIDENT_STATUSES = ['raised', 'acknowledged', 'escalated', 'resolved', 'cancelled'] as const;
+
+// Incidents still waiting for someone to deal with them
+export const OPEN_SOS_STATUSES = ['raised', 'acknowledged', 'escalated'] as const;
+
+// Who an alert went to first: the patient's caregiver, or the fallback when they have none
+export const SOS_ROUTINGS = ['caregiver', 'on_call', 'emergency_contacts', 'unassigned'] as const;
+
+export const SOS_TIMELINE_EVENTS = ['raised', 'notified', 'escalated', 'acknowledged', 'resolved', 'cancelled'] as const;
+
+export type SosIncidentStatus = typeof SOS_INCIDENT_STATUSES[number];
+export type SosTimelineEvent = typeof SOS_TIMELINE_EVENTS[number];
+export type SosRouting = typeof SOS_ROUTINGS[number];
+
+export interface ISosEscalationStep {
+  kind: 'caregiver' | 'on_call' | 'emergency_contact';
+  caregiver?: mongoose.Types.ObjectId; // Set for caregivers and the on-call account
+  emergencyContact?: mongoose.Types.ObjectId;
+  name: string;
+  phoneNumber?: string;
+  notifiedAt?: Date;
+  channels: string[];
+}
+
+export interface ISosTimelineEntry {
+  type: SosTimelineEvent;
+  at: Date;
+  actor?: mongoose.Types.ObjectId;
+  actorName?: string;
+  actorRole: 'patient' | 'caregiver' | 'system';
+  note?: string;
+}
+
+export interface ISosIncident extends mongoose.Document {
+  _id: string;
+  patient: mongoose.Types.ObjectId;
+  caregiver?: mongoose.Types.ObjectId; // First account alerted (a caregiver or the on-call account); unset when nobody with an account was
+  activity?: mongoose.Types.ObjectId;
+  status: SosIncidentStatus;
+  routing: SosRouting;
+  message: string;
+  severity: string;
+  location?: any;
+  escalationChain: ISosEscalationStep[]; // Caregivers (or the on-call account), then emergency contacts, in the order they are alerted
+  escalationLevel: number; // Index of the last step alerted, -1 before anyone is
+  nextEscalationAt?: Date;
+  acknowledgedBy?: mongoose.Types.ObjectId;
+  acknowledgedAt?: Date;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  cancelledAt?: Date;
+  cancelReason?: string;
+  timeline: ISosTimelineEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const escalationStepSchema = new Schema<ISosEscalationStep>({
+  kind: {
+    type: String,
+    required: [true, 'Step kind is required'],
+    enum: ['caregiver', 'on_call', 'emergency_contact']
+  },
+  caregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  emergencyContact: {
+    type: Schema.Types.ObjectId,
+    ref: 'EmergencyContact'
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true
+  },
+  phoneNumber: String,
+  notifiedAt: Date,
+  channels: {
+    type: [String],
+    default: []
+  }
+}, { _id: false });
+
+const timelineEntrySchema = new Schema<ISosTimelineEntry>({
+  type: {
+    type: String,
+    required: [true, 'Event type is required'],
+    enum: SOS_TIMELINE_EVENTS
+  },
+  at: {
+    type: Date,
+    required: [true, 'Event time is required']
+  },
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  actorName: String,
+  actorRole: {
+    type: String,
+    required: [true, 'Actor role is required'],
+    enum: ['patient', 'caregiver', 'system']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+const sosIncidentSchema = new Schema<ISosIncident>({
+  patient: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Patient is required']
+  },
+  caregiver: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  activity: {
+    type: Schema.Types.ObjectId,
+    ref: 'Activity'
+  },
+  status: {
+    type: String,
+    enum: SOS_INCIDENT_STATUSES,
+    default: 'raised'
+  },
+  routing: {
+    type: String,
+    enum: SOS_ROUTINGS,
+    default: 'caregiver'
+  },
+  message: {
+    type: String,
+    required: [true, 'Message is required'],
+    trim: true,
+    maxlength: [500, 'Message cannot exceed 500 characters']
+  },
+  severity: {
+    type: String,
+    default: 'critical'
+  },
+  location: Schema.Types.Mixed,
+  escalationChain: {
+    type: [escalationStepSchema],
+    default: []
+  },
+  escalationLevel: {
+    type: Number,
+    default: -1
+  },
+  nextEscalationAt: Date,
+  acknowledgedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  acknowledgedAt: Date,
+  resolvedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resolvedAt: Date,
+  resolutionNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Resolution note cannot exceed 500 characters']
+  },
+  cancelledAt: Date,
+  cancelReason: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Reason cannot exceed 200 characters']
+  },
+  timeline: {
+    type: [timelineEntrySchema],
+    default: []
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc: any, ret: any) {
+      ret.id = ret._id;
+      delete ret._id;
+      delete ret.__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for performance
+sosIncidentSchema.index({ patient: 1, createdAt: -1 });
+sosIncidentSchema.index({ 'escalationChain.caregiver': 1, createdAt: -1 });
+sosIncidentSchema.index({ status: 1, nextEscalationAt: 1 });
+sosIncidentSchema.index({ routing: 1, status: 1 });
+
+export default mongoose.model<ISosIncident>('SosIncident', sosIncidentSchema);
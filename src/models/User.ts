@@ -3,6 +3,7 @@ import bcrypt from 'bcryptjs';
 import jwt, {SignOptions, Secret} from 'jsonwebtoken';
 import { IUser, UserRole, Gender } from '../types/auth.types';
 import { JWT_SECRET, JWT_EXPIRES_IN } from '../config/jwt';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../utils/timezoneUtils';
 
 const userSchema = new Schema<IUser>({
   email: {
@@ -45,6 +46,14 @@ const userSchema = new Schema<IUser>({
     trim: true,
     match: [/^[\+]?[1-9][\d]{0,15}$/, 'Please enter a valid phone number']
   },
+  timezone: {
+    type: String,
+    default: DEFAULT_TIMEZONE,
+    validate: {
+      validator: isValidTimezone,
+      message: 'Please provide a valid IANA timezone (e.g. Asia/Kolkata)'
+    }
+  },
   isEmailVerified: {
     type: Boolean,
     default: false
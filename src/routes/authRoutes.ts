@@ -17,7 +17,8 @@ import {
   signupValidation,
   otpValidation,
   forgotPasswordValidation,
-  resetPasswordValidation
+  resetPasswordValidation,
+  profileUpdateValidation
 } from '../middleware/validation';
 import { handleValidationErrors } from '../middleware/errorHandler';
 import { authenticateToken } from '../middleware/auth';
@@ -57,7 +58,7 @@ router.use(authenticateToken); // All routes below require authentication
 
 router.get('/me', getCurrentUser);
 router.post('/logout', logoutUser);
-router.patch('/profile', updateProfile);
+router.patch('/profile', profileUpdateValidation, handleValidationErrors, updateProfile);
 router.post('/change-password', changePassword);
 router.delete('/account', deleteAccount);
 
@@ -10,7 +10,8 @@ import {
   removePatient,
   sendPatientOTP,
   verifyPatientOTP,
-  deleteMedication,
+  archiveMedication,
+  restoreMedication,
   getNotifications,
   markNotificationAsRead,
   markAllNotificationsAsRead,
@@ -18,16 +19,56 @@ import {
   deleteMultipleNotifications,
   deleteAllNotifications,
   getNotificationCount,
+  getNotificationSettings,
+  updateNotificationSettings,
   getPatientEmergencyContacts,
   getPatientMedicationHistory,
+  getPatientFhirBundle,
+  importMedications,
+  getMedicationImportTemplate,
+  updateMedication,
+  updateMedicationStatus,
+  getMedicationChangeHistory,
+  getSOSIncidents,
+  getSOSIncident,
+  acknowledgeSOSIncident,
+  resolveSOSIncident,
+  getConnectionRequests,
+  acceptConnectionRequest,
+  declineConnectionRequest,
+  logPatientDose,
+  updatePatientProfile,
+  getCareTeam,
+  updateCareTeamRole,
+  requestHandover,
+  getHandovers,
+  cancelHandover,
 } from '../controllers/caregiverController';
 import {
-  patientValidation,
   medicationValidation,
   searchValidation,
   medicationIdValidation,
+  updateMedicationValidation,
+  medicationStatusValidation,
+  medicationArchiveValidation,
+  medicationImportValidation,
+  patientIdValidation,
+  caregiverDoseValidation,
+  careTeamRoleValidation,
 } from '../middleware/caregiverValidation';
 import { handleValidationErrors } from '../middleware/errorHandler';
+import {
+  notificationSettingsValidation,
+  sosIncidentIdValidation,
+  sosResolveValidation,
+  connectionRequestIdValidation,
+  connectionRequestListValidation,
+  connectionRequestDeclineValidation,
+  careHandoverValidation,
+  careHandoverIdValidation,
+  careHandoverListValidation,
+  medicalProfileValidation
+} from '../middleware/validation';
 import { authenticateToken, authorizeRoles } from '../middleware/auth';
 import rateLimit from 'express-rate-limit';
 
@@ -55,14 +96,31 @@ router.get('/dashboard/stats', getDashboardStats);
 router.get('/patients', getPatients);
 router.get('/patients/search', searchValidation, handleValidationErrors, searchExistingPatients);
 router.get('/patients/:patientId', getPatientDetails);
-router.post('/patients', patientValidation, handleValidationErrors, addPatient);
+router.post('/patients', addPatient); // Removed: answers 410 with the approval flow to use instead
 router.delete('/patients/:patientId', removePatient);
+router.put('/patients/:patientId/profile', patientIdValidation, medicalProfileValidation, handleValidationErrors, updatePatientProfile);
 router.post('/patients/send-otp', sendPatientOTP);
 router.post('/patients/verify-otp', verifyPatientOTP);
 
 // Medication routes
 router.post('/patients/:patientId/medications', medicationValidation, handleValidationErrors, addMedication);
-router.delete('/medications/:medicationId', medicationIdValidation, handleValidationErrors, deleteMedication);
+router.post('/patients/:patientId/medications/import', patientIdValidation, medicationImportValidation, handleValidationErrors, importMedications);
+router.get('/medications/import-template', getMedicationImportTemplate);
+router.patch('/medications/:medicationId', medicationIdValidation, updateMedicationValidation, handleValidationErrors, updateMedication);
+router.patch('/medications/:medicationId/status', medicationIdValidation, medicationStatusValidation, handleValidationErrors, updateMedicationStatus);
+router.get('/medications/:medicationId/history', medicationIdValidation, handleValidationErrors, getMedicationChangeHistory);
+router.delete('/medications/:medicationId', medicationIdValidation, medicationArchiveValidation, handleValidationErrors, archiveMedication);
+router.post('/medications/:medicationId/restore', medicationIdValidation, medicationArchiveValidation, handleValidationErrors, restoreMedication);
+router.post('/medications/:medicationId/doses', medicationIdValidation, caregiverDoseValidation, handleValidationErrors, logPatientDose);
+
+// Care team routes
+router.get('/patients/:patientId/care-team', patientIdValidation, handleValidationErrors, getCareTeam);
+router.patch('/patients/:patientId/care-team/:caregiverId', careTeamRoleValidation, handleValidationErrors, updateCareTeamRole);
+
+// Handing a patient over to another caregiver
+router.post('/patients/:patientId/handover', patientIdValidation, careHandoverValidation, handleValidationErrors, requestHandover);
+router.get('/handovers', careHandoverListValidation, handleValidationErrors, getHandovers);
+router.delete('/handovers/:handoverId', careHandoverIdValidation, handleValidationErrors, cancelHandover);
 
 // Barcode routes
 router.get('/barcodes', getBarcodes);
@@ -75,9 +133,23 @@ router.delete('/notifications/delete-multiple', deleteMultipleNotifications);
 router.delete('/notifications/delete-all', deleteAllNotifications);
 router.patch('/notifications/:notificationId/read', markNotificationAsRead);
 router.delete('/notifications/:notificationId', deleteNotification);
+router.get('/notification-settings', getNotificationSettings);
+router.put('/notification-settings', notificationSettingsValidation, handleValidationErrors, updateNotificationSettings);
+
+// Connection requests from patients
+router.get('/connection-requests', connectionRequestListValidation, handleValidationErrors, getConnectionRequests);
+router.post('/connection-requests/:requestId/accept', connectionRequestIdValidation, handleValidationErrors, acceptConnectionRequest);
+router.post('/connection-requests/:requestId/decline', connectionRequestIdValidation, connectionRequestDeclineValidation, handleValidationErrors, declineConnectionRequest);
+
+// SOS alerts
+router.get('/sos', getSOSIncidents);
+router.get('/sos/:incidentId', sosIncidentIdValidation, handleValidationErrors, getSOSIncident);
+router.post('/sos/:incidentId/acknowledge', sosIncidentIdValidation, handleValidationErrors, acknowledgeSOSIncident);
+router.post('/sos/:incidentId/resolve', sosIncidentIdValidation, sosResolveValidation, handleValidationErrors, resolveSOSIncident);
 
 //others
 router.get('/patients/:patientId/emergency-contacts', getPatientEmergencyContacts);
 router.get('/patients/:patientId/medication-history', getPatientMedicationHistory);
+router.get('/patients/:patientId/fhir', getPatientFhirBundle);
 
 export default router;
\ No newline at end of file
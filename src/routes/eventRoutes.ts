@@ -0,0 +1,10 @@
+import express from 'express';
+import { streamEvents } from '../controllers/eventController';
+import { acceptQueryToken, authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = express.Router();
+
+// Real-time activity events for patients and caregivers
+router.get('/stream', acceptQueryToken, authenticateToken, authorizeRoles('patient', 'caregiver'), streamEvents);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from 'express';
+import { runJob, getJobStatus } from '../controllers/jobController';
+import { authenticateToken } from '../middleware/auth';
+
+const router = express.Router();
+
+// Test endpoints (development only)
+router.use(authenticateToken);
+router.get('/', getJobStatus);
+router.post('/:jobName/run', runJob);
+
+export default router;
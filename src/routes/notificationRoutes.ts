@@ -0,0 +1,15 @@
+import express from 'express';
+import { getPushPublicKey, subscribeToPush, unsubscribeFromPush } from '../controllers/notificationController';
+import { authenticateToken } from '../middleware/auth';
+import { handleValidationErrors } from '../middleware/errorHandler';
+import { pushSubscriptionValidation, pushUnsubscribeValidation } from '../middleware/validation';
+
+const router = express.Router();
+
+// Push subscriptions for patients and caregivers alike
+router.use(authenticateToken);
+router.get('/push/public-key', getPushPublicKey);
+router.post('/push/subscriptions', pushSubscriptionValidation, handleValidationErrors, subscribeToPush);
+router.delete('/push/subscriptions', pushUnsubscribeValidation, handleValidationErrors, unsubscribeFromPush);
+
+export default router;
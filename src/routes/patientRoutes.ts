@@ -13,21 +13,60 @@ import {
   deleteMultipleNotifications,
   deleteAllNotifications,
   sendSOSAlert,
+  getSOSIncidents,
+  getSOSIncident,
+  cancelSOSIncident,
   getEmergencyContacts,
   getCaregivers,
   requestCaregiverConnection,
+  getCaregiverRequests,
+  cancelCaregiverRequest,
+  getCaregiverHandovers,
+  confirmCaregiverHandover,
+  declineCaregiverHandover,
   getNotificationSettings,
   updateNotificationSettings,
   exportHealthData,
+  downloadHealthExport,
+  getFhirBundle,
   getCurrentUser,
   updateProfile,
   addEmergencyContact,
   removeEmergencyContact,
+  sendEmergencyContactCode,
+  verifyEmergencyContact,
+  updateEmergencyContactAlerts,
   getRecentActivities,
   checkMedicationTiming,
+  getScheduledDoses,
+  skipScheduledDose,
+  snoozeScheduledDose,
+  updateCaregiverRole,
+  getCaregiverConsent,
+  updateCaregiverConsent,
+  revokeCaregiverConsent,
 } from '../controllers/patientController';
 import { authenticateToken, authorizeRoles } from '../middleware/auth';
 import { handleValidationErrors } from '../middleware/errorHandler';
+import {
+  notificationSettingsValidation,
+  sosIncidentIdValidation,
+  sosCancelValidation,
+  emergencyContactValidation,
+  emergencyContactIdValidation,
+  emergencyContactVerifyValidation,
+  emergencyContactAlertsValidation,
+  connectionRequestValidation,
+  connectionRequestIdValidation,
+  careHandoverIdValidation,
+  careHandoverListValidation,
+  careHandoverDeclineValidation,
+  medicalProfileValidation,
+  caregiverRoleValidation,
+  caregiverIdValidation,
+  caregiverConsentValidation,
+  caregiverConsentRevokeValidation
+} from '../middleware/validation';
 import rateLimit from 'express-rate-limit';
 import '../models/EmergencyContact';
 import '../models/MealTime';
@@ -57,6 +96,11 @@ router.get('/medications', getMedications);
 router.get('/medications/:medicationId', getMedicationDetails);
 router.post('/medications/:medicationId/log', logMedicationTaken);
 
+// Scheduled doses
+router.get('/doses', getScheduledDoses);
+router.post('/doses/:doseId/skip', skipScheduledDose);
+router.post('/doses/:doseId/snooze', snoozeScheduledDose);
+
 // Meal times
 router.get('/meal-times', getMealTimes);
 router.put('/meal-times', updateMealTimes);
@@ -71,22 +115,39 @@ router.delete('/notifications/:notificationId', deleteNotification);
 
 // SOS/Emergency
 router.post('/sos', sendSOSAlert);
+router.get('/sos', getSOSIncidents);
+router.get('/sos/:incidentId', sosIncidentIdValidation, handleValidationErrors, getSOSIncident);
+router.post('/sos/:incidentId/cancel', sosIncidentIdValidation, sosCancelValidation, handleValidationErrors, cancelSOSIncident);
 router.get('/emergency-contacts', getEmergencyContacts);
 
 // Settings
 router.get('/notification-settings', getNotificationSettings);
-router.put('/notification-settings', updateNotificationSettings);
+router.put('/notification-settings', notificationSettingsValidation, handleValidationErrors, updateNotificationSettings);
 
 // Caregivers
 router.get('/caregivers', getCaregivers);
-router.post('/caregiver-request', requestCaregiverConnection);
+router.patch('/caregivers/:caregiverId/role', caregiverRoleValidation, handleValidationErrors, updateCaregiverRole);
+router.get('/caregivers/:caregiverId/consent', caregiverIdValidation, handleValidationErrors, getCaregiverConsent);
+router.put('/caregivers/:caregiverId/consent', caregiverConsentValidation, handleValidationErrors, updateCaregiverConsent);
+router.post('/caregivers/:caregiverId/consent/revoke', caregiverConsentRevokeValidation, handleValidationErrors, revokeCaregiverConsent);
+router.post('/caregiver-request', connectionRequestValidation, handleValidationErrors, requestCaregiverConnection);
+router.get('/caregiver-requests', getCaregiverRequests);
+router.delete('/caregiver-requests/:requestId', connectionRequestIdValidation, handleValidationErrors, cancelCaregiverRequest);
+router.get('/handovers', careHandoverListValidation, handleValidationErrors, getCaregiverHandovers);
+router.post('/handovers/:handoverId/confirm', careHandoverIdValidation, handleValidationErrors, confirmCaregiverHandover);
+router.post('/handovers/:handoverId/decline', careHandoverIdValidation, careHandoverDeclineValidation, handleValidationErrors, declineCaregiverHandover);
 
 // Data export
 router.post('/export-data', exportHealthData);
+router.get('/exports/:exportId/download', downloadHealthExport);
+router.get('/fhir/bundle', getFhirBundle);
 
 router.get('/profile', getCurrentUser);
-router.put('/profile', updateProfile);
-router.post('/emergency-contacts', addEmergencyContact);
+router.put('/profile', medicalProfileValidation, handleValidationErrors, updateProfile);
+router.post('/emergency-contacts', emergencyContactValidation, handleValidationErrors, addEmergencyContact);
+router.post('/emergency-contacts/:contactId/send-code', emergencyContactIdValidation, handleValidationErrors, sendEmergencyContactCode);
+router.post('/emergency-contacts/:contactId/verify', emergencyContactIdValidation, emergencyContactVerifyValidation, handleValidationErrors, verifyEmergencyContact);
+router.patch('/emergency-contacts/:contactId/alerts', emergencyContactIdValidation, emergencyContactAlertsValidation, handleValidationErrors, updateEmergencyContactAlerts);
 router.delete('/emergency-contacts/:contactId', removeEmergencyContact);
 router.get('/activities', getRecentActivities);
 router.get('/medications/:medicationId/timing-check', checkMedicationTiming);
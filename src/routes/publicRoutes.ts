@@ -0,0 +1,22 @@
+import express from 'express';
+import { getSOSStatusPage } from '../controllers/publicController';
+import rateLimit from 'express-rate-limit';
+
+const router = express.Router();
+
+// Links are unauthenticated, so keep guessing expensive
+const publicLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 60,
+  message: {
+    success: false,
+    message: 'Too many requests, please try again later'
+  }
+});
+
+router.use(publicLimiter);
+
+// Signed status page texted to emergency contacts during an SOS
+router.get('/sos/:incidentId/contacts/:contactId', getSOSStatusPage);
+
+export default router;
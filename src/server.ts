@@ -5,6 +5,8 @@ dotenv.config();
 
 import app from './app';
 import connectDatabase from './config/database';
+import { registerBackgroundJobs, jobScheduler } from './jobs';
+import { activityStreamService } from './services/activityStreamService';
 
 const PORT = process.env.PORT || 5000;
 
@@ -22,6 +24,10 @@ const startServer = async () => {
   try {
     // Connect to MongoDB
     await connectDatabase();
+
+    // Start background jobs (missed-dose detection, ...)
+    registerBackgroundJobs();
+    jobScheduler.start();
     
     // Start server
     const server = app.listen(PORT, () => {
@@ -33,6 +39,8 @@ const startServer = async () => {
     // Graceful shutdown handling
     process.on('SIGTERM', () => {
       console.log('👋 SIGTERM received, shutting down gracefully');
+      jobScheduler.stop();
+      activityStreamService.closeAll();
       server.close(() => {
         console.log('🔄 Process terminated');
       });
@@ -40,6 +48,8 @@ const startServer = async () => {
 
     process.on('SIGINT', () => {
       console.log('👋 SIGINT received, shutting down gracefully');
+      jobScheduler.stop();
+      activityStreamService.closeAll();
       server.close(() => {
         console.log('🔄 Process terminated');
       });
@@ -0,0 +1,220 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { IActivity } from '../models/Activity';
+import Patient, { CareRole } from '../models/Patient';
+import { careConsentService } from './careConsentService';
+import { careTeamService } from './careTeamService';
+
+interface StreamClient {
+  userId: string;
+  res: Response;
+  held: IActivity[] | null; // Live events held back while missed ones are replayed
+}
+
+// Most events replayed to a reconnecting client; older gaps fall back to the notifications API
+const MAX_REPLAY_EVENTS = 100;
+
+// Comment line sent periodically so proxies keep idle connections open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// How long the browser waits before reconnecting after a drop
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Server-sent event stream of new activities. A patient receives their own
+ * activities; a caregiver receives the activities of every patient they are
+ * connected to. Event ids are activity ids, so a reconnecting client sends
+ * Last-Event-ID and gets everything it missed.
+ *
+ * Connections live in this process only. With several API instances a
+ * client still catches up through replay when it reconnects.
+ */
+class ActivityStreamService {
+  private clients = new Map<string, Set<StreamClient>>();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Start streaming to a connected user, replaying anything after lastEventId first
+   */
+  async connect(user: { _id: mongoose.Types.ObjectId | string; role: string; email: string }, res: Response, lastEventId?: string): Promise<void> {
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const replaying = Boolean(lastEventId && mongoose.Types.ObjectId.isValid(lastEventId));
+    const client: StreamClient = { userId: user._id.toString(), res, held: replaying ? [] : null };
+
+    // Register before replaying so nothing published in between is lost
+    const userClients = this.clients.get(client.userId) || new Set<StreamClient>();
+    userClients.add(client);
+    this.clients.set(client.userId, userClients);
+    this.startHeartbeat();
+
+    res.on('close', () => this.disconnect(client));
+
+    if (replaying) {
+      try {
+        const missed = await this.getMissedActivities(user, lastEventId!);
+        const replayed = new Set(missed.map(activity => activity._id.toString()));
+        missed.forEach(activity => this.send(client, activity));
+        client.held!
+          .filter(activity => !replayed.has(activity._id.toString()))
+          .forEach(activity => this.send(client, activity));
+      } finally {
+        client.held = null;
+      }
+    }
+  }
+
+  /**
+   * Push a newly recorded activity to every connected recipient
+   */
+  async publish(activity: IActivity): Promise<void> {
+    if (this.clients.size === 0) return;
+
+    const recipients = await this.getRecipientIds(activity);
+    const muted = new Set((activity.mutedFor || []).map(userId => userId.toString()));
+
+    for (const userId of recipients) {
+      if (muted.has(userId)) continue;
+      this.clients.get(userId)?.forEach(client => {
+        if (client.held) {
+          client.held.push(activity);
+        } else {
+          this.send(client, activity);
+        }
+      });
+    }
+  }
+
+  /**
+   * End every open stream (used on shutdown so the server can close)
+   */
+  closeAll(): void {
+    this.clients.forEach(userClients => userClients.forEach(client => client.res.end()));
+    this.clients.clear();
+    this.stopHeartbeat();
+  }
+
+  getConnectionCount(): number {
+    let count = 0;
+    this.clients.forEach(userClients => { count += userClients.size; });
+    return count;
+  }
+
+  /**
+   * The patient and caregiver an activity is about, plus every caregiver linked
+   * to that patient whose role and consent cover it
+   */
+  private async getRecipientIds(activity: IActivity): Promise<string[]> {
+    const recipients = new Set<string>([activity.patient.toString(), activity.caregiver.toString()]);
+
+    const team = await Patient.find({ patient: activity.patient }).select('caregiver careRole');
+    const blocked = activity.type === 'consent_changed'
+      ? []
+      : await careConsentService.getBlockedCaregiverIds(activity.patient, careConsentService.getActivityScope(activity.type));
+    team
+      .filter(member => careTeamService.receivesActivity(member.careRole, activity.type))
+      .filter(member => !blocked.includes(member.caregiver.toString()))
+      .forEach(member => recipients.add(member.caregiver.toString()));
+
+    return [...recipients];
+  }
+
+  /**
+   * Activities a user should have received after the given event id, oldest first
+   */
+  private async getMissedActivities(
+    user: { _id: mongoose.Types.ObjectId | string; role: string; email: string },
+    lastEventId: string
+  ): Promise<IActivity[]> {
+    const query: any = {
+      _id: { $gt: new mongoose.Types.ObjectId(lastEventId) },
+      mutedFor: { $ne: user._id }
+    };
+
+    if (user.role === 'caregiver') {
+      // Teammates' activities, limited to what each relationship's role is sent live
+      const relationships = await Patient.find({ caregiver: user._id, patient: { $exists: true } }).select('patient careRole');
+      const patientIdsByRole = new Map<CareRole | undefined, mongoose.Types.ObjectId[]>();
+      relationships.forEach(relationship => {
+        const patientIds = patientIdsByRole.get(relationship.careRole) || [];
+        patientIds.push(relationship.patient);
+        patientIdsByRole.set(relationship.careRole, patientIds);
+      });
+
+      query.$or = [{ caregiver: user._id }];
+      patientIdsByRole.forEach((patientIds, role) => {
+        query.$or.push({ patient: { $in: patientIds }, type: { $in: careTeamService.getReceivedActivityTypes(role) } });
+      });
+
+      // Same consent filter as the notification feed, so replay never shows what the live stream held back
+      const hidden = await careConsentService.getHiddenActivityConditions(user._id);
+      if (hidden.length > 0) {
+        query.$nor = hidden;
+      }
+    } else {
+      query.patient = user._id;
+    }
+
+    // Looked up by name: the Activity model publishes through this service
+    return mongoose.model<IActivity>('Activity').find(query)
+      .populate('medication', 'name')
+      .sort({ _id: 1 })
+      .limit(MAX_REPLAY_EVENTS);
+  }
+
+  private send(client: StreamClient, activity: IActivity): void {
+    const medication = activity.medication as any;
+    const data = {
+      id: activity._id,
+      type: activity.type,
+      patient: activity.patient,
+      medication: medication?.name ? { id: medication._id, name: medication.name } : activity.medication,
+      message: activity.message,
+      priority: activity.priority,
+      createdAt: activity.createdAt,
+      data: activity.metadata
+    };
+
+    // Unnamed events, so EventSource.onmessage receives every type
+    client.res.write(`id: ${activity._id}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  private disconnect(client: StreamClient): void {
+    const userClients = this.clients.get(client.userId);
+    if (!userClients) return;
+
+    userClients.delete(client);
+    if (userClients.size === 0) {
+      this.clients.delete(client.userId);
+    }
+    if (this.clients.size === 0) {
+      this.stopHeartbeat();
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+
+    this.heartbeat = setInterval(() => {
+      this.clients.forEach(userClients => userClients.forEach(client => client.res.write(': ping\n\n')));
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
+
+export const activityStreamService = new ActivityStreamService();
@@ -0,0 +1,343 @@
+import mongoose from 'mongoose';
+import CareConsent, { ICareConsent, ConsentScope, ConsentStatus, ConsentAction, CONSENT_SCOPES } from '../models/CareConsent';
+import { IPatient } from '../models/Patient';
+import { IActivity } from '../models/Activity';
+import User from '../models/User';
+import { CARE_CONSENT_DEFAULT_DAYS } from '../config/consent';
+
+type UserId = mongoose.Types.ObjectId | string;
+
+export interface ConsentAccess {
+  status: ConsentStatus;
+  scopes: ConsentScope[];
+  grantedAt: Date | null;
+  expiresAt: Date | null;
+  recorded: boolean; // false for relationships made before consent was recorded, which share everything
+}
+
+export interface ConsentChanges {
+  scopes?: ConsentScope[];
+  expiresAt?: Date | null; // null removes the time limit
+}
+
+interface ConsentActor {
+  _id?: UserId;
+  role: 'patient' | 'caregiver' | 'system';
+}
+
+const SCOPE_LABELS: Record<ConsentScope, string> = {
+  medications: 'medications',
+  dose_history: 'dose history',
+  sos_location: 'emergency alerts and location',
+  emergency_contacts: 'emergency contacts'
+};
+
+// Activities that reveal what a scope covers; caregivers without the scope do not receive them
+const ACTIVITY_SCOPES: Partial<Record<IActivity['type'], ConsentScope>> = {
+  dose_taken: 'dose_history',
+  dose_missed: 'dose_history',
+  dose_reminder: 'dose_history',
+  low_stock: 'medications',
+  medication_added: 'medications',
+  medication_paused: 'medications',
+  medication_completed: 'medications',
+  medication_updated: 'medications',
+  medication_resumed: 'medications',
+  medication_archived: 'medications',
+  medication_restored: 'medications',
+  sos_alert: 'sos_location',
+  sos_escalated: 'sos_location',
+  sos_acknowledged: 'sos_location',
+  sos_resolved: 'sos_location',
+  sos_cancelled: 'sos_location'
+};
+
+const formatDate = (date: Date): string => {
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+};
+
+class CareConsentService {
+  /**
+   * What a caregiver may currently see. Consent past its time limit counts as
+   * expired straight away, before the expiry job has closed it.
+   */
+  getAccess(consent: ICareConsent | null, now: Date = new Date()): ConsentAccess {
+    if (!consent) {
+      return { status: 'active', scopes: [...CONSENT_SCOPES], grantedAt: null, expiresAt: null, recorded: false };
+    }
+
+    const isExpired = consent.status === 'active' && Boolean(consent.expiresAt && consent.expiresAt <= now);
+    return {
+      status: isExpired ? 'expired' : consent.status,
+      scopes: consent.scopes,
+      grantedAt: consent.grantedAt,
+      expiresAt: consent.expiresAt || null,
+      recorded: true
+    };
+  }
+
+  allows(access: ConsentAccess, scope?: ConsentScope): boolean {
+    return access.status === 'active' && (!scope || access.scopes.includes(scope));
+  }
+
+  /**
+   * Message for a caregiver the patient's consent does not cover
+   */
+  describeDenial(access: ConsentAccess, patientName: string, scope?: ConsentScope): string {
+    if (access.status === 'revoked') return `${patientName} has revoked your access`;
+    if (access.status === 'expired') return `Your access to ${patientName}'s records has expired`;
+    return `${patientName} has not shared their ${scope ? SCOPE_LABELS[scope] : 'records'} with you`;
+  }
+
+  async getForRelationship(relationship: IPatient): Promise<ICareConsent | null> {
+    return CareConsent.findOne({ patientRecord: relationship._id });
+  }
+
+  async getAccessForRelationship(relationship: IPatient, now: Date = new Date()): Promise<ConsentAccess> {
+    return this.getAccess(await this.getForRelationship(relationship), now);
+  }
+
+  async getAccessForCaregiver(patientUserId: UserId, caregiverId: UserId, now: Date = new Date()): Promise<ConsentAccess> {
+    return this.getAccess(await CareConsent.findOne({ patient: patientUserId, caregiver: caregiverId }), now);
+  }
+
+  /**
+   * Patients whose consent keeps a caregiver from something, for filtering lists
+   */
+  async getBlockedPatientIds(caregiverId: UserId, scope?: ConsentScope, now: Date = new Date()): Promise<mongoose.Types.ObjectId[]> {
+    const consents = await CareConsent.find({ caregiver: caregiverId });
+    return consents
+      .filter(consent => !this.allows(this.getAccess(consent, now), scope))
+      .map(consent => consent.patient);
+  }
+
+  /**
+   * Caregivers a patient's consent keeps from something
+   */
+  async getBlockedCaregiverIds(patientUserId: UserId, scope?: ConsentScope, now: Date = new Date()): Promise<string[]> {
+    const consents = await CareConsent.find({ patient: patientUserId });
+    return consents
+      .filter(consent => !this.allows(this.getAccess(consent, now), scope))
+      .map(consent => consent.caregiver.toString());
+  }
+
+  /**
+   * Query conditions matching a caregiver's activities that patients' consent no longer covers,
+   * for use with $nor. Consent changes themselves always stay visible.
+   */
+  async getHiddenActivityConditions(caregiverId: UserId, now: Date = new Date()): Promise<Record<string, unknown>[]> {
+    const consents = await CareConsent.find({ caregiver: caregiverId });
+    const conditions: Record<string, unknown>[] = [];
+
+    for (const consent of consents) {
+      const access = this.getAccess(consent, now);
+      if (access.status !== 'active') {
+        conditions.push({ patient: consent.patient, type: { $ne: 'consent_changed' } });
+        continue;
+      }
+
+      const hiddenTypes = Object.entries(ACTIVITY_SCOPES)
+        .filter(([, scope]) => !access.scopes.includes(scope!))
+        .map(([type]) => type);
+      if (hiddenTypes.length > 0) {
+        conditions.push({ patient: consent.patient, type: { $in: hiddenTypes } });
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Whether an activity should stay out of its caregiver's feed because of the patient's consent.
+   * Consent changes themselves always reach both parties.
+   */
+  async isHiddenFromCaregiver(activity: Pick<IActivity, 'type' | 'patient' | 'caregiver'>, now: Date = new Date()): Promise<boolean> {
+    if (activity.type === 'consent_changed') return false;
+
+    const access = await this.getAccessForCaregiver(activity.patient, activity.caregiver, now);
+    return !this.allows(access, ACTIVITY_SCOPES[activity.type]);
+  }
+
+  getActivityScope(type: IActivity['type']): ConsentScope | undefined {
+    return ACTIVITY_SCOPES[type];
+  }
+
+  /**
+   * Give a caregiver access, or change what an active consent covers.
+   * Anything not given keeps its current value; a new or renewed consent
+   * shares everything for the default time limit.
+   */
+  async grant(relationship: IPatient, changes: ConsentChanges, actor: ConsentActor, now: Date = new Date()): Promise<ICareConsent> {
+    const existing = await this.getForRelationship(relationship);
+    const isActive = existing ? this.getAccess(existing, now).status === 'active' : false;
+    const action: ConsentAction = isActive ? 'updated' : 'granted';
+
+    const consent = existing || new CareConsent({
+      patient: relationship.patient._id,
+      caregiver: relationship.caregiver,
+      patientRecord: relationship._id
+    });
+
+    const scopes = changes.scopes || (isActive ? consent.scopes : [...CONSENT_SCOPES]);
+    const expiresAt = changes.expiresAt !== undefined
+      ? changes.expiresAt
+      : isActive ? consent.expiresAt || null : this.getDefaultExpiry(now);
+
+    consent.status = 'active';
+    consent.scopes = scopes;
+    consent.expiresAt = expiresAt || undefined;
+    if (!isActive) {
+      consent.grantedAt = now;
+      consent.revokedAt = undefined;
+      consent.revokeReason = undefined;
+    }
+    consent.history.push({
+      action,
+      at: now,
+      actor: actor._id ? new mongoose.Types.ObjectId(actor._id.toString()) : undefined,
+      actorRole: actor.role,
+      scopes,
+      expiresAt: expiresAt || undefined
+    });
+    await consent.save();
+
+    await this.recordChange(consent, action);
+    return consent;
+  }
+
+  /**
+   * Move a relationship's consent to the caregiver it was handed over to.
+   * The patient confirmed the handover, so what they share stays the same.
+   */
+  async transfer(relationship: IPatient, fromName: string, actor: ConsentActor, now: Date = new Date()): Promise<ICareConsent> {
+    const consent = await this.ensure(relationship);
+
+    consent.caregiver = relationship.caregiver;
+    consent.history.push({
+      action: 'granted',
+      at: now,
+      actor: actor._id ? new mongoose.Types.ObjectId(actor._id.toString()) : undefined,
+      actorRole: actor.role,
+      scopes: consent.scopes,
+      expiresAt: consent.expiresAt,
+      note: `Handed over from ${fromName}`
+    });
+    await consent.save();
+
+    await this.recordChange(consent, 'granted');
+    return consent;
+  }
+
+  /**
+   * Withdraw a caregiver's access. Returns null when there is no active consent to revoke.
+   */
+  async revoke(relationship: IPatient, actor: ConsentActor, reason?: string, now: Date = new Date()): Promise<ICareConsent | null> {
+    const consent = await this.ensure(relationship);
+    if (this.getAccess(consent, now).status !== 'active') return null;
+
+    consent.status = 'revoked';
+    consent.revokedAt = now;
+    consent.revokeReason = reason;
+    consent.history.push({
+      action: 'revoked',
+      at: now,
+      actor: actor._id ? new mongoose.Types.ObjectId(actor._id.toString()) : undefined,
+      actorRole: actor.role,
+      scopes: consent.scopes,
+      note: reason
+    });
+    await consent.save();
+
+    await this.recordChange(consent, 'revoked', reason);
+    return consent;
+  }
+
+  /**
+   * Close consents past their time limit. Each one is claimed first so the
+   * change is logged once even if the job overlaps itself.
+   */
+  async expireStale(now: Date = new Date()): Promise<number> {
+    const due = await CareConsent.find({ status: 'active', expiresAt: { $lte: now } }).select('_id scopes');
+    let expired = 0;
+
+    for (const candidate of due) {
+      const consent = await CareConsent.findOneAndUpdate(
+        { _id: candidate._id, status: 'active', expiresAt: { $lte: now } },
+        {
+          status: 'expired',
+          $push: { history: { action: 'expired', at: now, actorRole: 'system', scopes: candidate.scopes } }
+        },
+        { new: true }
+      );
+      if (!consent) continue;
+
+      await this.recordChange(consent, 'expired');
+      expired++;
+    }
+
+    return expired;
+  }
+
+  private getDefaultExpiry(now: Date): Date | null {
+    if (CARE_CONSENT_DEFAULT_DAYS <= 0) return null;
+    return new Date(now.getTime() + CARE_CONSENT_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  // Relationships from before consent was recorded get a record of their implicit full access
+  private async ensure(relationship: IPatient): Promise<ICareConsent> {
+    const existing = await this.getForRelationship(relationship);
+    if (existing) return existing;
+
+    return CareConsent.create({
+      patient: relationship.patient._id,
+      caregiver: relationship.caregiver,
+      patientRecord: relationship._id,
+      scopes: [...CONSENT_SCOPES],
+      grantedAt: relationship.createdAt,
+      history: [{
+        action: 'granted',
+        at: relationship.createdAt,
+        actorRole: 'system',
+        scopes: [...CONSENT_SCOPES],
+        note: 'Access given before consent was recorded'
+      }]
+    });
+  }
+
+  // Log a consent change in both the patient's and the caregiver's feed
+  private async recordChange(consent: ICareConsent, action: ConsentAction, note?: string): Promise<void> {
+    const [patient, caregiver] = await Promise.all([
+      User.findById(consent.patient).select('name'),
+      User.findById(consent.caregiver).select('name')
+    ]);
+    const patientName = patient?.name || 'The patient';
+    const caregiverName = caregiver?.name || 'the caregiver';
+    const scopeList = consent.scopes.length > 0
+      ? consent.scopes.map(scope => SCOPE_LABELS[scope]).join(', ')
+      : 'nothing';
+    const until = consent.expiresAt ? ` until ${formatDate(consent.expiresAt)}` : '';
+
+    const messages: Record<ConsentAction, string> = {
+      granted: `${patientName} shared ${scopeList} with ${caregiverName}${until}`,
+      updated: `${patientName} now shares ${scopeList} with ${caregiverName}${until}`,
+      revoked: `${patientName} revoked ${caregiverName}'s access`,
+      expired: `${caregiverName}'s access to ${patientName}'s records expired`
+    };
+
+    // Looked up by name: the Activity model checks consent through this service
+    await mongoose.model<IActivity>('Activity').create({
+      type: 'consent_changed',
+      patient: consent.patient,
+      caregiver: consent.caregiver,
+      message: messages[action],
+      priority: action === 'revoked' || action === 'expired' ? 'high' : 'medium',
+      metadata: {
+        careConsent: consent._id,
+        consentAction: action,
+        notes: note
+      }
+    });
+  }
+}
+
+export const careConsentService = new CareConsentService();
@@ -0,0 +1,262 @@
+import mongoose from 'mongoose';
+import CareHandover, { ICareHandover, ICareHandoverSummary } from '../models/CareHandover';
+import Patient, { IPatient } from '../models/Patient';
+import Medication from '../models/Medication';
+import ScheduledDose from '../models/ScheduledDose';
+import MedicationLog from '../models/MedicationLog';
+import MedicationChange from '../models/MedicationChange';
+import Activity from '../models/Activity';
+import SosIncident, { OPEN_SOS_STATUSES } from '../models/SosIncident';
+import User from '../models/User';
+import CareConsent from '../models/CareConsent';
+import { careConsentService } from './careConsentService';
+import { CARE_HANDOVER_TTL_DAYS } from '../config/connections';
+
+type UserId = mongoose.Types.ObjectId | string;
+
+// The records a handover moves, by collection
+type HeldRecords = Record<keyof ICareHandoverSummary, string[]>;
+
+interface Successor {
+  name: string;
+  phoneNumber?: string;
+}
+
+interface HandoverParty {
+  _id: UserId;
+  name: string;
+}
+
+class CareHandoverService {
+  /**
+   * Nominate a new caregiver to take over a relationship and ask the patient to confirm
+   */
+  async nominate(
+    relationship: IPatient,
+    patient: HandoverParty,
+    from: HandoverParty,
+    to: HandoverParty,
+    note?: string,
+    now: Date = new Date()
+  ): Promise<ICareHandover> {
+    const handover = await CareHandover.create({
+      patient: patient._id,
+      patientRecord: relationship._id,
+      fromCaregiver: from._id,
+      toCaregiver: to._id,
+      note,
+      expiresAt: new Date(now.getTime() + CARE_HANDOVER_TTL_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    // The patient is asked to confirm; the nominated caregiver hears about it separately
+    await Activity.create({
+      type: 'handover_requested',
+      patient: patient._id,
+      caregiver: from._id,
+      message: `${from.name} wants to hand your care over to ${to.name}. Please confirm or decline.`,
+      priority: 'high',
+      mutedFor: [from._id],
+      metadata: { careHandover: handover._id, notes: note }
+    });
+
+    await Activity.create({
+      type: 'handover_requested',
+      patient: patient._id,
+      caregiver: to._id,
+      message: `${from.name} nominated you to take over ${patient.name}'s care. Waiting for ${patient.name} to confirm.`,
+      priority: 'medium',
+      mutedFor: [patient._id],
+      metadata: { careHandover: handover._id, notes: note }
+    });
+
+    return handover;
+  }
+
+  /**
+   * The patient agrees: the relationship, medications (with their barcodes),
+   * dose history, activity history and open SOS alerts move to the new
+   * caregiver as they are. Returns null when the handover is no longer pending.
+   */
+  async confirm(handover: ICareHandover, patient: HandoverParty, now: Date = new Date()): Promise<ICareHandover | null> {
+    const claimed = await CareHandover.findOneAndUpdate(
+      { _id: handover._id, status: 'pending', expiresAt: { $gt: now } },
+      { status: 'completed', respondedAt: now },
+      { new: true }
+    );
+    if (!claimed) return null;
+
+    let from;
+    let to;
+    let relationship;
+    let held;
+    try {
+      [from, to] = await Promise.all([
+        User.findById(claimed.fromCaregiver).select('name phoneNumber'),
+        User.findById(claimed.toCaregiver).select('name phoneNumber')
+      ]);
+      relationship = await Patient.findOne({ _id: claimed.patientRecord, caregiver: claimed.fromCaregiver });
+      if (!from || !to || !relationship) {
+        throw new Error(`Handover ${claimed._id} no longer matches its caregivers or patient record`);
+      }
+      held = await this.findHeldRecords(claimed.patient, claimed.fromCaregiver);
+
+      // Moved first, so a new caregiver who joined the team since the nomination stops it before any records move.
+      // The relationship keeps its role, history and creation date.
+      relationship.caregiver = claimed.toCaregiver;
+      await relationship.save();
+    } catch (error) {
+      // Leave the handover open so the patient can confirm again
+      await CareHandover.updateOne({ _id: claimed._id }, { status: 'pending', $unset: { respondedAt: 1 } });
+      throw error;
+    }
+
+    try {
+      claimed.transferred = await this.moveRecords(held, claimed.fromCaregiver, claimed.toCaregiver, to);
+      await careConsentService.transfer(relationship, from.name, { _id: patient._id, role: 'patient' }, now);
+      await claimed.save();
+    } catch (error) {
+      // Give the outgoing caregiver back the relationship and everything that had moved
+      await this.moveRecords(held, claimed.toCaregiver, claimed.fromCaregiver, from);
+      await CareConsent.updateOne({ patientRecord: relationship._id }, { caregiver: claimed.fromCaregiver });
+      relationship.caregiver = claimed.fromCaregiver;
+      await relationship.save();
+      await CareHandover.updateOne({ _id: claimed._id }, { status: 'pending', $unset: { respondedAt: 1, transferred: 1 } });
+      throw error;
+    }
+
+    // Audit entries for both caregivers; the first also tells the patient
+    await Activity.create({
+      type: 'handover_completed',
+      patient: claimed.patient,
+      caregiver: claimed.fromCaregiver,
+      message: `${patient.name}'s care was handed over from ${from.name} to ${to.name}`,
+      priority: 'medium',
+      metadata: { careHandover: claimed._id }
+    });
+
+    await Activity.create({
+      type: 'handover_completed',
+      patient: claimed.patient,
+      caregiver: claimed.toCaregiver,
+      message: `You now care for ${patient.name}, handed over by ${from.name}`,
+      priority: 'medium',
+      mutedFor: [claimed.patient],
+      metadata: { careHandover: claimed._id }
+    });
+
+    return claimed;
+  }
+
+  /**
+   * The patient keeps their current caregiver. Returns null when the handover is no longer pending.
+   */
+  async decline(handover: ICareHandover, patient: HandoverParty, reason?: string, now: Date = new Date()): Promise<ICareHandover | null> {
+    const declined = await CareHandover.findOneAndUpdate(
+      { _id: handover._id, status: 'pending', expiresAt: { $gt: now } },
+      { status: 'declined', respondedAt: now, declineReason: reason },
+      { new: true }
+    );
+    if (!declined) return null;
+
+    for (const caregiver of [declined.fromCaregiver, declined.toCaregiver]) {
+      await Activity.create({
+        type: 'handover_declined',
+        patient: declined.patient,
+        caregiver,
+        message: `${patient.name} declined the proposed caregiver handover`,
+        priority: 'medium',
+        mutedFor: [declined.patient],
+        metadata: { careHandover: declined._id, notes: reason }
+      });
+    }
+
+    return declined;
+  }
+
+  /**
+   * Withdraw a pending handover on the current caregiver's behalf
+   */
+  async cancel(handover: ICareHandover, now: Date = new Date()): Promise<ICareHandover | null> {
+    return CareHandover.findOneAndUpdate(
+      { _id: handover._id, status: 'pending', expiresAt: { $gt: now } },
+      { status: 'cancelled', respondedAt: now },
+      { new: true }
+    );
+  }
+
+  /**
+   * Close pending handovers the patient did not answer in time
+   */
+  async expireStale(filter: Record<string, unknown> = {}, now: Date = new Date()): Promise<number> {
+    const result = await CareHandover.updateMany(
+      { ...filter, status: 'pending', expiresAt: { $lte: now } },
+      { status: 'expired' }
+    );
+    return result.modifiedCount;
+  }
+
+  // Everything a caregiver holds for the patient, so a failed handover can put back exactly what moved
+  private async findHeldRecords(patient: UserId, caregiver: UserId): Promise<HeldRecords> {
+    const owned = { patient, caregiver };
+
+    const [medications, scheduledDoses, medicationLogs, medicationChanges, activities, sosIncidents] = await Promise.all([
+      Medication.distinct('_id', owned),
+      ScheduledDose.distinct('_id', owned),
+      MedicationLog.distinct('_id', owned),
+      MedicationChange.distinct('_id', owned),
+      Activity.distinct('_id', owned),
+      SosIncident.distinct('_id', {
+        patient,
+        status: { $in: OPEN_SOS_STATUSES },
+        $or: [{ caregiver }, { 'escalationChain.caregiver': caregiver }]
+      })
+    ]);
+
+    return { medications, scheduledDoses, medicationLogs, medicationChanges, activities, sosIncidents };
+  }
+
+  // Reassign the held records from one caregiver to the other, without recreating them
+  private async moveRecords(held: HeldRecords, from: UserId, to: UserId, successor: Successor): Promise<ICareHandoverSummary> {
+    const owned = (ids: string[]) => ({ _id: { $in: ids }, caregiver: from });
+
+    const [medications, scheduledDoses, medicationLogs, medicationChanges] = await Promise.all([
+      Medication.updateMany(owned(held.medications), { caregiver: to }),
+      ScheduledDose.updateMany(owned(held.scheduledDoses), { caregiver: to }),
+      MedicationLog.updateMany(owned(held.medicationLogs), { caregiver: to }),
+      MedicationChange.updateMany(owned(held.medicationChanges), { caregiver: to })
+    ]);
+
+    // Entries hidden from the outgoing caregiver stay hidden from the new one
+    await Activity.updateMany(
+      { ...owned(held.activities), mutedFor: from },
+      { $set: { 'mutedFor.$[muted]': to } },
+      { arrayFilters: [{ muted: from }] }
+    );
+    const activities = await Activity.updateMany(owned(held.activities), { caregiver: to });
+
+    // Open alerts escalate to the new caregiver in the outgoing one's place
+    const step: Record<string, unknown> = {
+      'escalationChain.$[step].caregiver': to,
+      'escalationChain.$[step].name': successor.name
+    };
+    if (successor.phoneNumber) step['escalationChain.$[step].phoneNumber'] = successor.phoneNumber;
+
+    const sosIncidents = await SosIncident.updateMany(
+      { _id: { $in: held.sosIncidents }, 'escalationChain.caregiver': from },
+      { $set: step },
+      { arrayFilters: [{ 'step.caregiver': from }] }
+    );
+    await SosIncident.updateMany(owned(held.sosIncidents), { caregiver: to });
+
+    return {
+      medications: medications.modifiedCount,
+      scheduledDoses: scheduledDoses.modifiedCount,
+      medicationLogs: medicationLogs.modifiedCount,
+      medicationChanges: medicationChanges.modifiedCount,
+      activities: activities.modifiedCount,
+      sosIncidents: sosIncidents.modifiedCount
+    };
+  }
+}
+
+export const careHandoverService = new CareHandoverService();
@@ -0,0 +1,191 @@
+import mongoose from 'mongoose';
+import Patient, { IPatient, CareRole } from '../models/Patient';
+import User from '../models/User';
+import Activity, { IActivity } from '../models/Activity';
+
+type UserId = mongoose.Types.ObjectId | string;
+
+export type CarePermission = 'viewAdherence' | 'viewRecords' | 'logDoses' | 'respondToAlerts' | 'editMedications' | 'editRecords' | 'manageTeam';
+
+export const CARE_ROLE_PERMISSIONS: Record<CareRole, CarePermission[]> = {
+  primary: ['viewAdherence', 'viewRecords', 'logDoses', 'respondToAlerts', 'editMedications', 'editRecords', 'manageTeam'],
+  secondary: ['viewAdherence', 'viewRecords', 'logDoses', 'respondToAlerts'],
+  viewer: ['viewAdherence']
+};
+
+// Permission a team member needs to be sent each kind of activity; anything
+// not listed (connections, roles, handovers) counts as part of the records
+const ACTIVITY_PERMISSIONS: Partial<Record<IActivity['type'], CarePermission>> = {
+  dose_taken: 'viewAdherence',
+  dose_missed: 'viewAdherence',
+  dose_reminder: 'viewAdherence',
+  sos_alert: 'respondToAlerts',
+  sos_escalated: 'respondToAlerts',
+  sos_acknowledged: 'respondToAlerts',
+  sos_resolved: 'respondToAlerts',
+  sos_cancelled: 'respondToAlerts'
+};
+
+const PERMISSION_LABELS: Record<CarePermission, string> = {
+  viewAdherence: 'view adherence',
+  viewRecords: "view the patient's records",
+  logDoses: 'log doses',
+  respondToAlerts: 'respond to emergency alerts',
+  editMedications: 'change medications',
+  editRecords: "update the patient's medical history and allergies",
+  manageTeam: 'manage the care team'
+};
+
+const ROLE_LABELS: Record<CareRole, string> = {
+  primary: 'primary caregiver',
+  secondary: 'secondary caregiver',
+  viewer: 'viewer'
+};
+
+// Records saved before roles existed have no careRole and count as primary
+const PRIMARY_FILTER = { careRole: { $nin: ['secondary', 'viewer'] } };
+
+interface RoleChangeActor {
+  _id: UserId;
+  name: string;
+  role: 'patient' | 'caregiver';
+}
+
+class CareTeamService {
+  hasPermission(role: CareRole | undefined, permission: CarePermission): boolean {
+    return CARE_ROLE_PERMISSIONS[role || 'primary'].includes(permission);
+  }
+
+  getPermissions(role: CareRole | undefined): CarePermission[] {
+    return CARE_ROLE_PERMISSIONS[role || 'primary'];
+  }
+
+  /**
+   * Whether a team member with this role is sent an activity about the patient
+   */
+  receivesActivity(role: CareRole | undefined, type: IActivity['type']): boolean {
+    return this.hasPermission(role, ACTIVITY_PERMISSIONS[type] || 'viewRecords');
+  }
+
+  /**
+   * Every activity type a team member with this role is sent
+   */
+  getReceivedActivityTypes(role: CareRole | undefined): IActivity['type'][] {
+    const types = Activity.schema.path('type').options.enum as IActivity['type'][];
+    return types.filter(type => this.receivesActivity(role, type));
+  }
+
+  describeRole(role: CareRole | undefined): string {
+    return ROLE_LABELS[role || 'primary'];
+  }
+
+  /**
+   * Message for a caregiver whose role does not allow an action
+   */
+  describeDenial(role: CareRole | undefined, permission: CarePermission): string {
+    return `As a ${this.describeRole(role)} you cannot ${PERMISSION_LABELS[permission]} for this patient`;
+  }
+
+  /**
+   * All caregiver relationships of a patient, in the order they connected
+   */
+  async getTeam(patientUserId: UserId): Promise<IPatient[]> {
+    return Patient.find({ patient: patientUserId })
+      .sort({ createdAt: 1 })
+      .populate('caregiver', 'name email phoneNumber');
+  }
+
+  /**
+   * A caregiver's relationship with a patient's account
+   */
+  async findRelationship(patientUserId: UserId, caregiverId: UserId): Promise<IPatient | null> {
+    return Patient.findOne({ patient: patientUserId, caregiver: caregiverId });
+  }
+
+  /**
+   * Give a caregiver a new role on a patient's team. Making someone primary
+   * moves the previous primary caregiver to secondary, so a team always has
+   * one primary. Returns null when the change would leave the team without
+   * a primary caregiver; promote someone else instead.
+   */
+  async changeRole(relationship: IPatient, role: CareRole, actor: RoleChangeActor): Promise<IPatient | null> {
+    const previousRole = relationship.careRole || 'primary';
+    if (previousRole === role) return relationship;
+    if (previousRole === 'primary') return null;
+
+    const demoted = role === 'primary'
+      ? await Patient.find({ patient: relationship.patient, _id: { $ne: relationship._id }, ...PRIMARY_FILTER })
+      : [];
+
+    if (demoted.length > 0) {
+      await Patient.updateMany({ _id: { $in: demoted.map(record => record._id) } }, { careRole: 'secondary' });
+    }
+
+    relationship.careRole = role;
+    await relationship.save();
+
+    await this.recordRoleChange(relationship, previousRole, role, actor);
+    for (const record of demoted) {
+      await this.recordRoleChange(record, 'primary', 'secondary', actor);
+    }
+
+    return relationship;
+  }
+
+  /**
+   * Who takes over a departing caregiver's medications: the primary caregiver,
+   * or the longest-connected remaining caregiver when the team has no primary
+   */
+  async findSuccessor(patientUserId: UserId): Promise<IPatient | null> {
+    const primary = await Patient.findOne({ patient: patientUserId, ...PRIMARY_FILTER }).sort({ createdAt: 1 });
+    if (primary) return primary;
+
+    return Patient.findOne({ patient: patientUserId }).sort({ createdAt: 1 });
+  }
+
+  /**
+   * After the primary caregiver leaves, hand the role to the longest-serving secondary caregiver.
+   * Viewers are never promoted automatically.
+   */
+  async fillPrimaryVacancy(patientUserId: UserId): Promise<IPatient | null> {
+    const hasPrimary = await Patient.exists({ patient: patientUserId, ...PRIMARY_FILTER });
+    if (hasPrimary) return null;
+
+    return Patient.findOneAndUpdate(
+      { patient: patientUserId, careRole: 'secondary' },
+      { careRole: 'primary' },
+      { new: true, sort: { createdAt: 1 } }
+    );
+  }
+
+  // Tell the caregiver (and the patient, unless they made the change) about a new role
+  private async recordRoleChange(
+    relationship: IPatient,
+    previousRole: CareRole,
+    role: CareRole,
+    actor: RoleChangeActor
+  ): Promise<void> {
+    const isSelf = actor.role === 'caregiver' && relationship.caregiver.toString() === actor._id.toString();
+    const patientUserId = relationship.patient._id;
+    const mutedFor = actor.role === 'patient' ? [patientUserId] : isSelf ? [actor._id] : [];
+    const [patient, caregiver] = await Promise.all([
+      User.findById(patientUserId).select('name'),
+      User.findById(relationship.caregiver).select('name')
+    ]);
+
+    await Activity.create({
+      type: 'care_role_changed',
+      patient: patientUserId,
+      caregiver: relationship.caregiver,
+      message: `${actor.name} changed ${caregiver?.name || 'a caregiver'} from ${this.describeRole(previousRole)} to ${this.describeRole(role)} for ${patient?.name || 'the patient'}`,
+      priority: 'medium',
+      mutedFor,
+      metadata: {
+        careRole: role,
+        previousCareRole: previousRole
+      }
+    });
+  }
+}
+
+export const careTeamService = new CareTeamService();
@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import ConnectionRequest, { IConnectionRequest } from '../models/ConnectionRequest';
+import Patient from '../models/Patient';
+import User from '../models/User';
+import Activity from '../models/Activity';
+import { emailService } from './emailService';
+import { notificationDispatcher } from './notificationDispatcher';
+import { careConsentService } from './careConsentService';
+import { CONNECTION_REQUEST_TTL_DAYS } from '../config/connections';
+
+type UserId = mongoose.Types.ObjectId | string;
+
+interface RequestParty {
+  _id: UserId;
+  name: string;
+  email: string;
+}
+
+class ConnectionRequestService {
+  /**
+   * Store a patient's request and let the caregiver know in the app and on
+   * the channels their notification settings allow
+   */
+  async create(patient: RequestParty, caregiver: RequestParty, message?: string, now: Date = new Date()): Promise<IConnectionRequest> {
+    const request = await ConnectionRequest.create({
+      patient: patient._id,
+      caregiver: caregiver._id,
+      caregiverEmail: caregiver.email,
+      message,
+      expiresAt: new Date(now.getTime() + CONNECTION_REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    // Addressed to the caregiver only
+    await Activity.create({
+      type: 'connection_requested',
+      patient: patient._id,
+      caregiver: caregiver._id,
+      message: `${patient.name} asked you to be their caregiver`,
+      priority: 'medium',
+      mutedFor: [patient._id],
+      metadata: {
+        connectionRequest: request._id,
+        notes: message
+      }
+    });
+
+    await notificationDispatcher.notifyUser(caregiver._id, 'connectionRequests', {
+      ...emailService.buildConnectionRequestNotification(caregiver.name, patient.name, message, request.expiresAt),
+      data: { type: 'connection_requested', connectionRequestId: request._id.toString() }
+    });
+
+    return request;
+  }
+
+  /**
+   * Accept a pending request and create the patient relationship record.
+   * Returns null when the request is no longer pending or has expired.
+   */
+  async accept(request: IConnectionRequest, caregiver: { _id: UserId; name: string }, now: Date = new Date()): Promise<IConnectionRequest | null> {
+    const claimed = await ConnectionRequest.findOneAndUpdate(
+      { _id: request._id, status: 'pending', expiresAt: { $gt: now } },
+      { status: 'accepted', respondedAt: now },
+      { new: true }
+    );
+    if (!claimed) return null;
+
+    try {
+      const patientUser = await User.findById(claimed.patient).select('_id');
+      if (!patientUser) {
+        throw new Error(`Patient ${claimed.patient} of connection request ${claimed._id} not found`);
+      }
+
+      // The caregiver may have added the patient themselves in the meantime
+      let patientRecord = await Patient.findOne({ patient: patientUser._id, caregiver: caregiver._id });
+      if (!patientRecord) {
+        patientRecord = await Patient.create({
+          patient: patientUser._id,
+          caregiver: caregiver._id
+        });
+      }
+
+      // Asking the caregiver is the patient's consent; it also restores access they had revoked
+      await careConsentService.grant(patientRecord, {}, { _id: claimed.patient, role: 'patient' }, now);
+
+      claimed.patientRecord = patientRecord._id as any;
+      await claimed.save();
+    } catch (error) {
+      // Leave the request open so it can be accepted again
+      await ConnectionRequest.updateOne({ _id: claimed._id }, { status: 'pending', $unset: { respondedAt: 1 } });
+      throw error;
+    }
+
+    // Addressed to the patient only
+    await Activity.create({
+      type: 'connection_accepted',
+      patient: claimed.patient,
+      caregiver: caregiver._id,
+      message: `${caregiver.name} accepted your caregiver request`,
+      priority: 'medium',
+      mutedFor: [caregiver._id],
+      metadata: { connectionRequest: claimed._id }
+    });
+
+    return claimed;
+  }
+
+  /**
+   * Decline a pending request. Returns null when it is no longer pending.
+   */
+  async decline(request: IConnectionRequest, caregiver: { _id: UserId; name: string }, reason?: string, now: Date = new Date()): Promise<IConnectionRequest | null> {
+    const declined = await ConnectionRequest.findOneAndUpdate(
+      { _id: request._id, status: 'pending', expiresAt: { $gt: now } },
+      { status: 'declined', respondedAt: now, declineReason: reason },
+      { new: true }
+    );
+    if (!declined) return null;
+
+    await Activity.create({
+      type: 'connection_declined',
+      patient: declined.patient,
+      caregiver: caregiver._id,
+      message: `${caregiver.name} declined your caregiver request`,
+      priority: 'low',
+      mutedFor: [caregiver._id],
+      metadata: {
+        connectionRequest: declined._id,
+        notes: reason
+      }
+    });
+
+    return declined;
+  }
+
+  /**
+   * Withdraw a pending request on the patient's behalf
+   */
+  async cancel(request: IConnectionRequest, now: Date = new Date()): Promise<IConnectionRequest | null> {
+    return ConnectionRequest.findOneAndUpdate(
+      { _id: request._id, status: 'pending', expiresAt: { $gt: now } },
+      { status: 'cancelled', respondedAt: now },
+      { new: true }
+    );
+  }
+
+  /**
+   * Close pending requests that were not answered in time
+   */
+  async expireStale(filter: Record<string, unknown> = {}, now: Date = new Date()): Promise<number> {
+    const result = await ConnectionRequest.updateMany(
+      { ...filter, status: 'pending', expiresAt: { $lte: now } },
+      { status: 'expired' }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * How many requests a patient has sent in the last day
+   */
+  async countRecent(patientId: UserId, now: Date = new Date()): Promise<number> {
+    return ConnectionRequest.countDocuments({
+      patient: patientId,
+      createdAt: { $gt: new Date(now.getTime() - 24 * 60 * 60 * 1000) }
+    });
+  }
+}
+
+export const connectionRequestService = new ConnectionRequestService();
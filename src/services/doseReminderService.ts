@@ -0,0 +1,220 @@
+import mongoose from 'mongoose';
+import Medication from '../models/Medication';
+import { IScheduledDose } from '../models/ScheduledDose';
+import DoseReminder, { IDoseReminder } from '../models/DoseReminder';
+import Activity from '../models/Activity';
+import { NotificationChannel, NotificationSettings } from '../models/NotificationPreference';
+import { doseScheduleService } from './doseScheduleService';
+import { notificationPreferenceService } from './notificationPreferenceService';
+import { notificationDispatcher } from './notificationDispatcher';
+import { getLocalDateKey, addDaysToDateKey, formatLocalTime } from '../utils/timezoneUtils';
+
+export interface DueReminder {
+  kind: IDoseReminder['kind'];
+  leadMinutes?: number;
+  remindAt: Date;
+}
+
+export interface UpcomingDose {
+  dose: IScheduledDose;
+  nextReminderAt: Date | null;
+}
+
+// How far ahead to look for a medication's next dose (covers weekly and every-N-days schedules)
+const NEXT_DOSE_LOOKAHEAD_DAYS = 7;
+
+class DoseReminderService {
+  /**
+   * Reminder instants for a dose: one per lead time, plus the end of a snooze.
+   * Lead reminders that would fall inside a snooze are dropped.
+   */
+  getReminderTimes(dose: IScheduledDose, leadMinutes: number[]): DueReminder[] {
+    const times: DueReminder[] = leadMinutes.map(minutes => ({
+      kind: 'lead' as const,
+      leadMinutes: minutes,
+      remindAt: new Date(dose.scheduledFor.getTime() - minutes * 60000)
+    }));
+
+    if (dose.snoozedUntil) {
+      const snoozedUntil = dose.snoozedUntil;
+      return [
+        ...times.filter(time => time.remindAt > snoozedUntil),
+        { kind: 'snooze', remindAt: snoozedUntil }
+      ];
+    }
+
+    return times;
+  }
+
+  /**
+   * The reminder that should go out now for a pending dose, if any.
+   * When several are overdue (e.g. after downtime) only the latest is sent.
+   */
+  getDueReminder(dose: IScheduledDose, leadMinutes: number[], now: Date = new Date()): DueReminder | null {
+    if (dose.status !== 'pending' || dose.windowEnd <= now) return null;
+
+    const due = this.getReminderTimes(dose, leadMinutes)
+      .filter(time => time.remindAt <= now)
+      .sort((a, b) => b.remindAt.getTime() - a.remindAt.getTime());
+
+    return due[0] || null;
+  }
+
+  /**
+   * When the next reminder for a pending dose will go out, or null if none are left
+   */
+  getNextReminderAt(dose: IScheduledDose, leadMinutes: number[], now: Date = new Date()): Date | null {
+    if (dose.status !== 'pending' || dose.windowEnd <= now) return null;
+
+    const upcoming = this.getReminderTimes(dose, leadMinutes)
+      .map(time => time.remindAt)
+      .filter(remindAt => remindAt > now && remindAt < dose.windowEnd)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return upcoming[0] || null;
+  }
+
+  /**
+   * Open dose slots of a patient's active medications, soonest first, each
+   * with the time of its next reminder. Slots come from the patient's meal-time
+   * windows via the dose schedule.
+   */
+  async getUpcomingDoses(
+    patientUserId: string | mongoose.Types.ObjectId,
+    timezone: string,
+    now: Date = new Date(),
+    lookaheadDays: number = NEXT_DOSE_LOOKAHEAD_DAYS
+  ): Promise<UpcomingDose[]> {
+    const todayKey = getLocalDateKey(now, timezone);
+    const [doses, medications, settings] = await Promise.all([
+      doseScheduleService.getPatientDoses(patientUserId, todayKey, addDaysToDateKey(todayKey, lookaheadDays)),
+      Medication.find({ patient: patientUserId, status: 'active' }).select('_id'),
+      notificationPreferenceService.getSettings(patientUserId)
+    ]);
+
+    // As-needed medications have no slots; paused and removed ones are left out
+    const activeIds = new Set(medications.map(med => med._id.toString()));
+
+    return doses
+      .filter(dose =>
+        activeIds.has(dose.medication.toString()) &&
+        doseScheduleService.getEffectiveStatus(dose, now) === 'pending'
+      )
+      .map(dose => ({
+        dose,
+        nextReminderAt: this.getNextReminderAt(dose, settings.reminderLeadMinutes, now)
+      }));
+  }
+
+  /**
+   * The next open dose of each medication, keyed by medication id
+   */
+  getNextDoses(upcoming: UpcomingDose[]): Map<string, UpcomingDose> {
+    const nextDoses = new Map<string, UpcomingDose>();
+    for (const entry of upcoming) {
+      const medicationId = entry.dose.medication.toString();
+      if (!nextDoses.has(medicationId)) {
+        nextDoses.set(medicationId, entry);
+      }
+    }
+    return nextDoses;
+  }
+
+  /**
+   * Short label for when a dose is due, e.g. "Today 08:00" or "Tomorrow 20:00"
+   */
+  describeDueTime(dose: IScheduledDose, timezone: string, now: Date = new Date()): string {
+    const todayKey = getLocalDateKey(now, timezone);
+    const time = formatLocalTime(dose.scheduledFor, timezone);
+
+    if (dose.dateKey === todayKey) return `Today ${time}`;
+    if (dose.dateKey === addDaysToDateKey(todayKey, 1)) return `Tomorrow ${time}`;
+    return `${dose.dateKey} ${time}`;
+  }
+
+  /**
+   * Hold a dose's reminders back for a few minutes
+   */
+  async snoozeDose(dose: IScheduledDose, minutes: number, now: Date = new Date()): Promise<IScheduledDose> {
+    dose.snoozedUntil = new Date(now.getTime() + minutes * 60000);
+    dose.snoozeCount = (dose.snoozeCount || 0) + 1;
+    return dose.save();
+  }
+
+  /**
+   * Send a reminder for a dose on every channel the patient allows.
+   * Claiming the reminder first makes a repeat run a no-op.
+   * Returns null when the reminder was already sent.
+   */
+  async sendReminder(
+    dose: IScheduledDose,
+    reminder: DueReminder,
+    patient: { _id: mongoose.Types.ObjectId | string },
+    medication: { _id: mongoose.Types.ObjectId | string; name: string },
+    settings: NotificationSettings,
+    timezone: string,
+    now: Date = new Date()
+  ): Promise<IDoseReminder | null> {
+    let record: IDoseReminder;
+    try {
+      record = await DoseReminder.create({
+        scheduledDose: dose._id,
+        medication: medication._id,
+        patient: patient._id,
+        kind: reminder.kind,
+        leadMinutes: reminder.leadMinutes,
+        remindAt: reminder.remindAt,
+        sentAt: now,
+        channels: []
+      });
+    } catch (error: any) {
+      if (error.code === 11000) return null;
+      throw error;
+    }
+
+    const dueTime = formatLocalTime(dose.scheduledFor, timezone);
+    const dosage = dose.dosage ? ` (${dose.dosage})` : '';
+    const message = dose.scheduledFor > now
+      ? `${medication.name}${dosage} is due at ${dueTime}`
+      : `Time to take ${medication.name}${dosage}, due at ${dueTime}`;
+    const channels: NotificationChannel[] = [];
+
+    if (notificationPreferenceService.allows(settings, 'medicationReminders', 'inApp')) {
+      // Reminders are addressed to the patient only
+      const activity = await Activity.create({
+        type: 'dose_reminder',
+        patient: patient._id,
+        caregiver: dose.caregiver,
+        medication: medication._id,
+        message,
+        priority: 'medium',
+        mutedFor: [dose.caregiver],
+        metadata: {
+          scheduledDose: dose._id,
+          doseStatus: dose.status,
+          dosage: dose.dosage
+        }
+      });
+      record.activity = activity._id as any;
+      channels.push('inApp');
+    }
+
+    // Push, SMS and email go through the outbox, which applies the patient's channel settings
+    const queued = await notificationDispatcher.notifyUser(patient._id, 'medicationReminders', {
+      subject: `Medication reminder: ${medication.name}`,
+      text: `${message}. Open MediTracker to log the dose or snooze this reminder.`,
+      data: { type: 'dose_reminder', doseId: dose._id.toString(), medicationId: medication._id.toString() }
+    }, { at: now });
+
+    queued.forEach(entry => {
+      if (entry.channel !== 'webhook' && !channels.includes(entry.channel)) {
+        channels.push(entry.channel);
+      }
+    });
+
+    record.channels = channels;
+    return record.save();
+  }
+}
+
+export const doseReminderService = new DoseReminderService();
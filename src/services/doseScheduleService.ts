@@ -0,0 +1,367 @@
+import mongoose from 'mongoose';
+import Medication, { IMedication } from '../models/Medication';
+import MealTime from '../models/MealTime';
+import ScheduledDose, { IScheduledDose, ScheduledDoseStatus } from '../models/ScheduledDose';
+import {
+  MealTimes,
+  DEFAULT_MEAL_TIMES,
+  calculateMedicationWindows,
+  isDosingDay,
+  isPRNMedication,
+  getRegimenForDay,
+  timeToMinutes
+} from '../utils/medicationTimingUtils';
+import { getDoseForDay } from '../utils/dosePlanUtils';
+import User from '../models/User';
+import {
+  getLocalDateKey,
+  zonedMinutesToUTC,
+  addDaysToDateKey,
+  resolveTimezone
+} from '../utils/timezoneUtils';
+
+interface PlannedSlot {
+  slotIndex: number;
+  mealType?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  dosage: string;
+  dosePhase?: number;
+  scheduledFor: Date;
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+interface AttachDoseOptions {
+  method?: 'manual' | 'barcode_scan' | 'reminder';
+  wasOverridden?: boolean;
+  notes?: string;
+}
+
+export interface DoseSummary {
+  expected: number;
+  taken: number;
+  late: number;
+  missed: number;
+  skipped: number;
+  pending: number;
+  adherenceRate: number;
+}
+
+class DoseScheduleService {
+  /**
+   * Load a patient's meal times, falling back to defaults for anything not configured
+   */
+  async getMealTimes(patientUserId: string | mongoose.Types.ObjectId): Promise<MealTimes> {
+    const mealTimes = await MealTime.find({ patient: patientUserId });
+    const mealTimesObj: MealTimes = { ...DEFAULT_MEAL_TIMES };
+
+    mealTimes.forEach(meal => {
+      mealTimesObj[meal.mealId as keyof MealTimes] = meal.time;
+    });
+
+    return mealTimesObj;
+  }
+
+  /**
+   * Get a patient's timezone, falling back to the default
+   */
+  async getPatientTimezone(patientUserId: string | mongoose.Types.ObjectId): Promise<string> {
+    const patientUser = await User.findById(patientUserId).select('timezone');
+    return resolveTimezone(patientUser?.timezone);
+  }
+
+  /**
+   * Expand a medication into concrete dose slots for one local day
+   */
+  planSlotsForDay(
+    medication: IMedication,
+    mealTimes: MealTimes,
+    dateKey: string,
+    timezone: string
+  ): PlannedSlot[] {
+    // As-needed medications have no expected doses
+    if (isPRNMedication(medication)) {
+      return [];
+    }
+
+    // Dose plans use the phase that applies on this day
+    const regimen = getRegimenForDay(medication, dateKey, timezone);
+    if (!regimen || !isDosingDay(regimen, dateKey, timezone)) {
+      return [];
+    }
+
+    const dose = getDoseForDay(medication, dateKey, timezone);
+    const windows = calculateMedicationWindows(
+      regimen.frequency,
+      regimen.timingRelation,
+      mealTimes,
+      regimen.schedule
+    );
+
+    return windows.map((window, slotIndex) => {
+      let startMinutes = timeToMinutes(window.windowStart);
+      let endMinutes = timeToMinutes(window.windowEnd);
+      const mealMinutes = timeToMinutes(window.mealTime);
+
+      // Overnight windows either open the previous evening or close the next morning
+      if (endMinutes <= startMinutes) {
+        if (mealMinutes >= startMinutes) {
+          endMinutes += 24 * 60;
+        } else {
+          startMinutes -= 24 * 60;
+        }
+      }
+
+      const windowStart = zonedMinutesToUTC(dateKey, startMinutes, timezone);
+      const windowEnd = zonedMinutesToUTC(dateKey, endMinutes, timezone);
+      const mealInstant = zonedMinutesToUTC(dateKey, mealMinutes, timezone);
+
+      const scheduledFor = mealInstant >= windowStart && mealInstant <= windowEnd
+        ? mealInstant
+        : windowStart;
+
+      return {
+        slotIndex,
+        mealType: window.mealType,
+        dosage: `${dose.dosage} ${dose.dosageUnit}`,
+        dosePhase: dose.phase?.phaseIndex,
+        scheduledFor,
+        windowStart,
+        windowEnd
+      };
+    });
+  }
+
+  /**
+   * Make sure dose slots exist for every active medication of a patient
+   * between two local days (inclusive). Pending future slots are kept in
+   * step with the current meal times and regimen.
+   */
+  async syncPatientDoses(
+    patientUserId: string | mongoose.Types.ObjectId,
+    fromDateKey: string,
+    toDateKey: string
+  ): Promise<void> {
+    const now = new Date();
+    const [medications, mealTimes, timezone, existingDoses] = await Promise.all([
+      Medication.find({ patient: patientUserId, status: 'active' }),
+      this.getMealTimes(patientUserId),
+      this.getPatientTimezone(patientUserId),
+      ScheduledDose.find({
+        patient: patientUserId,
+        dateKey: { $gte: fromDateKey, $lte: toDateKey }
+      })
+    ]);
+
+    const existingByKey = new Map<string, IScheduledDose>();
+    existingDoses.forEach(dose => {
+      existingByKey.set(`${dose.medication}:${dose.dateKey}:${dose.slotIndex}`, dose);
+    });
+
+    const plannedKeys = new Set<string>();
+    const toInsert: any[] = [];
+    const toUpdate: Promise<any>[] = [];
+
+    for (const medication of medications) {
+      for (let dateKey = fromDateKey; dateKey <= toDateKey; dateKey = addDaysToDateKey(dateKey, 1)) {
+        for (const slot of this.planSlotsForDay(medication, mealTimes, dateKey, timezone)) {
+          // Never create slots for a time before the medication existed or while it was paused
+          if (slot.windowEnd <= medication.createdAt) continue;
+          if (this.isDuringPause(medication, slot.windowEnd)) continue;
+
+          const key = `${medication._id}:${dateKey}:${slot.slotIndex}`;
+          plannedKeys.add(key);
+
+          const existing = existingByKey.get(key);
+          if (!existing) {
+            toInsert.push({
+              medication: medication._id,
+              patient: medication.patient,
+              caregiver: medication.caregiver,
+              dateKey,
+              ...slot
+            });
+          } else if (
+            existing.status === 'pending' &&
+            existing.windowStart > now &&
+            (existing.windowStart.getTime() !== slot.windowStart.getTime() ||
+              existing.windowEnd.getTime() !== slot.windowEnd.getTime() ||
+              existing.dosage !== slot.dosage)
+          ) {
+            toUpdate.push(ScheduledDose.updateOne({ _id: existing._id }, {
+              mealType: slot.mealType,
+              dosage: slot.dosage,
+              dosePhase: slot.dosePhase,
+              scheduledFor: slot.scheduledFor,
+              windowStart: slot.windowStart,
+              windowEnd: slot.windowEnd
+            }));
+          }
+        }
+      }
+    }
+
+    // Future pending slots that are no longer part of any regimen
+    const staleIds = existingDoses
+      .filter(dose =>
+        dose.status === 'pending' &&
+        dose.windowStart > now &&
+        !plannedKeys.has(`${dose.medication}:${dose.dateKey}:${dose.slotIndex}`)
+      )
+      .map(dose => dose._id);
+
+    if (staleIds.length > 0) {
+      toUpdate.push(ScheduledDose.deleteMany({ _id: { $in: staleIds } }));
+    }
+
+    await Promise.all(toUpdate);
+
+    if (toInsert.length > 0) {
+      try {
+        await ScheduledDose.insertMany(toInsert, { ordered: false });
+      } catch (error: any) {
+        // Another request may have generated the same slots concurrently
+        if (error.code !== 11000 && !error.writeErrors?.every((e: any) => e.code === 11000)) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Whether an instant falls inside one of the medication's pause periods
+   */
+  isDuringPause(medication: IMedication, instant: Date): boolean {
+    return (medication.pauseHistory || []).some(period =>
+      instant > period.pausedAt && (!period.resumedAt || instant <= period.resumedAt)
+    );
+  }
+
+  /**
+   * Close slots once a medication stops (paused or archived): the slot that is
+   * open right now is skipped with the given reason and later pending slots are removed.
+   */
+  async closeDosesFrom(medication: IMedication, stoppedAt: Date, skipReason: string): Promise<void> {
+    await Promise.all([
+      ScheduledDose.updateMany(
+        {
+          medication: medication._id,
+          status: 'pending',
+          windowStart: { $lte: stoppedAt },
+          windowEnd: { $gte: stoppedAt }
+        },
+        { status: 'skipped', skipReason }
+      ),
+      ScheduledDose.deleteMany({
+        medication: medication._id,
+        status: 'pending',
+        windowStart: { $gt: stoppedAt }
+      })
+    ]);
+  }
+
+  /**
+   * Get dose slots for a patient between two local days (inclusive), generating them first
+   */
+  async getPatientDoses(
+    patientUserId: string | mongoose.Types.ObjectId,
+    fromDateKey: string,
+    toDateKey: string,
+    medicationIds?: (string | mongoose.Types.ObjectId)[]
+  ): Promise<IScheduledDose[]> {
+    await this.syncPatientDoses(patientUserId, fromDateKey, toDateKey);
+
+    const query: any = {
+      patient: patientUserId,
+      dateKey: { $gte: fromDateKey, $lte: toDateKey }
+    };
+    if (medicationIds) {
+      query.medication = { $in: medicationIds };
+    }
+
+    return ScheduledDose.find(query).sort({ scheduledFor: 1 });
+  }
+
+  /**
+   * Attach a logged dose to the slot it belongs to.
+   * Prefers a slot whose window contains the dose, then the most recent
+   * overdue slot (recorded as late), then the next open slot of the same day.
+   */
+  async attachDose(
+    medication: IMedication,
+    takenAt: Date,
+    options: AttachDoseOptions = {}
+  ): Promise<IScheduledDose | null> {
+    const timezone = await this.getPatientTimezone(medication.patient);
+    const dateKey = getLocalDateKey(takenAt, timezone);
+    await this.syncPatientDoses(medication.patient, addDaysToDateKey(dateKey, -1), dateKey);
+
+    const openDoses = await ScheduledDose.find({
+      medication: medication._id,
+      status: { $in: ['pending', 'missed'] },
+      dateKey: { $gte: addDaysToDateKey(dateKey, -1), $lte: dateKey }
+    }).sort({ scheduledFor: 1 });
+
+    let slot = openDoses.find(dose => dose.windowStart <= takenAt && dose.windowEnd >= takenAt);
+    let status: ScheduledDoseStatus = 'taken';
+
+    if (!slot) {
+      slot = [...openDoses].reverse().find(dose => dose.windowEnd < takenAt);
+      status = 'late';
+    }
+
+    if (!slot) {
+      slot = openDoses.find(dose => dose.dateKey === dateKey && dose.windowStart > takenAt);
+      status = 'taken';
+    }
+
+    if (!slot) {
+      return null;
+    }
+
+    slot.status = status;
+    slot.takenAt = takenAt;
+    slot.method = options.method || 'manual';
+    slot.wasOverridden = options.wasOverridden || false;
+    slot.notes = options.notes;
+
+    return slot.save();
+  }
+
+  /**
+   * Status of a slot as of a point in time: pending slots whose window has closed count as missed
+   */
+  getEffectiveStatus(dose: IScheduledDose, now: Date = new Date()): ScheduledDoseStatus {
+    if (dose.status === 'pending' && dose.windowEnd < now) {
+      return 'missed';
+    }
+    return dose.status;
+  }
+
+  /**
+   * Summarize a set of slots. Skipped and still-pending slots are left out of adherence.
+   */
+  summarizeDoses(doses: IScheduledDose[], now: Date = new Date()): DoseSummary {
+    const summary: DoseSummary = {
+      expected: 0,
+      taken: 0,
+      late: 0,
+      missed: 0,
+      skipped: 0,
+      pending: 0,
+      adherenceRate: 0
+    };
+
+    doses.forEach(dose => {
+      summary[this.getEffectiveStatus(dose, now)]++;
+    });
+
+    summary.expected = summary.taken + summary.late + summary.missed;
+    summary.adherenceRate = summary.expected > 0
+      ? Math.round(((summary.taken + summary.late) / summary.expected) * 100)
+      : 0;
+
+    return summary;
+  }
+}
+
+export const doseScheduleService = new DoseScheduleService();
@@ -1,41 +1,35 @@
-import nodemailer from 'nodemailer';
+import { notificationDispatcher, UserNotification } from './notificationDispatcher';
+import { DeliveryPriority } from '../types/notification.types';
+import { escapeHtml } from '../utils/statusPageUtils';
+import { generateOTPExpiry } from '../utils/otpUtils';
+import { OUTBOX_CODE_MAX_ATTEMPTS } from '../config/notifications';
 
 interface EmailOptions {
   to: string;
   subject: string;
   text?: string;
   html?: string;
+  priority?: DeliveryPriority;
+  maxAttempts?: number;
+  expiresAt?: Date;
 }
 
 class EmailService {
-  private transporter: nodemailer.Transporter;
-
-  constructor() {
-    this.transporter = nodemailer.createTransport({
-      service: process.env.EMAIL_SERVICE || 'gmail',
-      auth: {
-        user: process.env.EMAIL_USER,
-        pass: process.env.EMAIL_PASSWORD,
-      },
-    });
-  }
-
+  /**
+   * Queue an email in the notification outbox. SMTP failures are retried in
+   * the background instead of failing the request that sent the email.
+   */
   async sendEmail(options: EmailOptions): Promise<void> {
-    try {
-      const mailOptions = {
-        from: `MediTracker <${process.env.EMAIL_USER}>`,
-        to: options.to,
-        subject: options.subject,
-        text: options.text,
-        html: options.html,
-      };
-
-      await this.transporter.sendMail(mailOptions);
-      console.log(`✅ Email sent successfully to ${options.to}`);
-    } catch (error) {
-      console.error('❌ Error sending email:', error);
-      throw new Error('Failed to send email');
-    }
+    await notificationDispatcher.enqueue({
+      channel: 'email',
+      to: options.to,
+      subject: options.subject,
+      text: options.text || options.subject,
+      html: options.html,
+      priority: options.priority || 'high',
+      maxAttempts: options.maxAttempts,
+      expiresAt: options.expiresAt
+    });
   }
 
   async sendOTPEmail(email: string, otp: string, purpose: 'signup' | 'forgot_password' = 'signup'): Promise<void> {
@@ -93,7 +87,8 @@ class EmailService {
       to: email,
       subject,
       html,
-      text: `Your verification code is: ${otp}. This code will expire in 5 minutes.`
+      text: `Your verification code is: ${otp}. This code will expire in 5 minutes.`,
+      ...this.codeDelivery()
     });
   }
 
@@ -149,8 +144,76 @@ class EmailService {
       to: patientEmail,
       subject,
       html,
-      text: `${caregiverName} wants to add you as a patient. Your verification code is: ${otp}. This code expires in 5 minutes.`
+      text: `${caregiverName} wants to add you as a patient. Your verification code is: ${otp}. This code expires in 5 minutes.`,
+      ...this.codeDelivery()
     });
   }
+
+  /**
+   * Content of the notification asking a caregiver to connect; it is sent
+   * through the dispatcher so the caregiver's notification settings apply
+   */
+  buildConnectionRequestNotification(
+    caregiverName: string,
+    patientName: string,
+    message: string | undefined,
+    expiresAt: Date
+  ): UserNotification {
+    const subject = `MediTracker - ${patientName} wants you as their caregiver`;
+    const expiresOn = expiresAt.toDateString();
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #2563EB 0%, #059669 100%); padding: 20px; text-align: center; color: white;">
+          <h1 style="margin: 0; font-size: 28px;">MediTracker</h1>
+          <p style="margin: 5px 0 0 0; opacity: 0.9;">Caregiver Connection Request</p>
+        </div>
+        
+        <div style="padding: 30px; background: #f8f9fa;">
+          <h2 style="color: #1e293b; margin-bottom: 20px;">Hello ${escapeHtml(caregiverName)},</h2>
+          
+          <p style="color: #64748b; line-height: 1.6; margin-bottom: 25px;">
+            <strong>${escapeHtml(patientName)}</strong> has asked you to be their caregiver on MediTracker.
+            If you accept, you will be able to follow their medications and receive their alerts.
+          </p>
+          ${message ? `
+          <div style="background: white; border-left: 4px solid #2563EB; padding: 15px; margin: 25px 0; color: #1e293b;">
+            ${escapeHtml(message)}
+          </div>` : ''}
+          <p style="color: #64748b; line-height: 1.6; margin-bottom: 25px;">
+            Open the MediTracker app to accept or decline this request.
+          </p>
+          
+          <div style="background: #fef3c7; border: 1px solid #fbbf24; border-radius: 8px; padding: 15px; margin: 25px 0;">
+            <p style="margin: 0; color: #92400e; font-size: 14px;">
+              ⏰ <strong>Important:</strong> This request expires on ${expiresOn}.
+            </p>
+          </div>
+          
+          <p style="color: #64748b; line-height: 1.6; font-size: 14px;">
+            If you don't know ${escapeHtml(patientName)}, you can simply decline or ignore this request.
+          </p>
+        </div>
+        
+        <div style="background: #1e293b; padding: 20px; text-align: center; color: #94a3b8; font-size: 12px;">
+          <p style="margin: 0;">© 2024 MediTracker. All rights reserved.</p>
+        </div>
+      </div>
+    `;
+
+    return {
+      subject,
+      html,
+      text: `${patientName} has asked you to be their caregiver on MediTracker.${message ? ` Message: "${message}".` : ''} Open the app to accept or decline. This request expires on ${expiresOn}.`
+    };
+  }
+
+  /**
+   * One-time codes get a few quick attempts and are dropped once the code
+   * has expired, rather than arriving late
+   */
+  private codeDelivery(): Pick<EmailOptions, 'maxAttempts' | 'expiresAt'> {
+    return { maxAttempts: OUTBOX_CODE_MAX_ATTEMPTS, expiresAt: generateOTPExpiry() };
+  }
 }
 export const emailService = new EmailService();
\ No newline at end of file
@@ -0,0 +1,153 @@
+import mongoose from 'mongoose';
+import EmergencyContact, { IEmergencyContact, EmergencyContactAlert } from '../models/EmergencyContact';
+import ScheduledDose from '../models/ScheduledDose';
+import { notificationDispatcher } from './notificationDispatcher';
+import { generateOTP, generateOTPExpiry, isOTPExpired } from '../utils/otpUtils';
+import { createSignedPath } from '../utils/signedUrlUtils';
+import {
+  EMERGENCY_CONTACT_CODE_TTL_MINUTES,
+  EMERGENCY_CONTACT_CODE_RESEND_SECONDS,
+  EMERGENCY_CONTACT_CODE_MAX_ATTEMPTS,
+  MISSED_DOSE_CONTACT_ALERT_THRESHOLD,
+  MISSED_DOSE_CONTACT_ALERT_COOLDOWN_HOURS
+} from '../config/emergencyContacts';
+import { PUBLIC_BASE_URL, SOS_STATUS_LINK_SECRET, SOS_STATUS_LINK_TTL_HOURS } from '../config/sos';
+
+type UserId = mongoose.Types.ObjectId | string;
+
+export type ContactVerificationResult = 'verified' | 'no_code' | 'expired' | 'invalid' | 'too_many_attempts';
+
+class EmergencyContactService {
+  /**
+   * Text a verification code to a contact. Reading the code back to the
+   * patient confirms the number and the contact's agreement to receive alerts.
+   * Returns the seconds to wait instead when a code was sent too recently.
+   */
+  async sendVerificationCode(contact: IEmergencyContact, patientName: string, now: Date = new Date()): Promise<{ sent: boolean; retryAfterSeconds?: number }> {
+    if (contact.verificationSentAt) {
+      const waitMs = contact.verificationSentAt.getTime() + EMERGENCY_CONTACT_CODE_RESEND_SECONDS * 1000 - now.getTime();
+      if (waitMs > 0) {
+        return { sent: false, retryAfterSeconds: Math.ceil(waitMs / 1000) };
+      }
+    }
+
+    const code = generateOTP();
+    contact.verificationCode = code;
+    contact.verificationCodeExpires = generateOTPExpiry(EMERGENCY_CONTACT_CODE_TTL_MINUTES);
+    contact.verificationSentAt = now;
+    contact.verificationAttempts = 0;
+    await contact.save();
+
+    await notificationDispatcher.enqueue({
+      channel: 'sms',
+      to: contact.phoneNumber,
+      priority: 'high',
+      text: `MediTracker: ${patientName} added you as an emergency contact. Your code is ${code}. Giving it to them confirms you agree to receive alerts about their health. It expires in ${EMERGENCY_CONTACT_CODE_TTL_MINUTES} minutes.`
+    });
+
+    return { sent: true };
+  }
+
+  /**
+   * Check a code the patient entered for one of their contacts
+   */
+  async verifyCode(contactId: string, patientId: UserId, code: string, now: Date = new Date()): Promise<ContactVerificationResult | null> {
+    const contact = await EmergencyContact.findOne({ _id: contactId, patient: patientId })
+      .select('+verificationCode +verificationCodeExpires +verificationAttempts');
+    if (!contact) return null;
+
+    if (!contact.verificationCode || !contact.verificationCodeExpires) return 'no_code';
+    if (isOTPExpired(contact.verificationCodeExpires)) return 'expired';
+    if (contact.verificationAttempts >= EMERGENCY_CONTACT_CODE_MAX_ATTEMPTS) return 'too_many_attempts';
+
+    if (contact.verificationCode !== code) {
+      contact.verificationAttempts += 1;
+      await contact.save();
+      return 'invalid';
+    }
+
+    contact.isVerified = true;
+    contact.verifiedAt = now;
+    contact.verificationCode = undefined;
+    contact.verificationCodeExpires = undefined;
+    contact.verificationAttempts = 0;
+    await contact.save();
+
+    return 'verified';
+  }
+
+  /**
+   * Verified contacts of a patient who opted into an alert, primary contact first
+   */
+  async getAlertRecipients(patientId: UserId, alert: EmergencyContactAlert): Promise<IEmergencyContact[]> {
+    return EmergencyContact.find({ patient: patientId, isVerified: true, [`alerts.${alert}`]: true })
+      .sort({ isPrimary: -1, createdAt: 1 });
+  }
+
+  /**
+   * Path of the public status page of an SOS incident, as seen by one contact
+   */
+  getStatusPath(incidentId: string, contactId: string): string {
+    return `/api/public/sos/${incidentId}/contacts/${contactId}`;
+  }
+
+  /**
+   * Signed, expiring status page link to text to a contact
+   */
+  getStatusLink(incidentId: string, contactId: string, now: Date = new Date()): string {
+    const expiresAt = new Date(now.getTime() + SOS_STATUS_LINK_TTL_HOURS * 60 * 60 * 1000);
+    return `${PUBLIC_BASE_URL}${createSignedPath(this.getStatusPath(incidentId, contactId), expiresAt, SOS_STATUS_LINK_SECRET)}`;
+  }
+
+  /**
+   * Missed doses in a row at the end of a patient's dose history; skipped doses don't break a run
+   */
+  async countConsecutiveMissedDoses(patientId: UserId, limit: number): Promise<number> {
+    const recent = await ScheduledDose.find({ patient: patientId, status: { $in: ['taken', 'late', 'missed'] } })
+      .sort({ scheduledFor: -1 })
+      .limit(limit)
+      .select('status');
+
+    const firstTaken = recent.findIndex(dose => dose.status !== 'missed');
+    return firstTaken === -1 ? recent.length : firstTaken;
+  }
+
+  /**
+   * Text opted-in contacts when a patient has missed several doses in a row.
+   * Each contact is claimed first so a contact hears about it at most once per cooldown.
+   * Returns how many contacts were alerted.
+   */
+  async alertRepeatedMissedDoses(patient: { _id: UserId; name?: string }, now: Date = new Date()): Promise<number> {
+    const missed = await this.countConsecutiveMissedDoses(patient._id, MISSED_DOSE_CONTACT_ALERT_THRESHOLD);
+    if (missed < MISSED_DOSE_CONTACT_ALERT_THRESHOLD) return 0;
+
+    const contacts = await this.getAlertRecipients(patient._id, 'missedDoses');
+    const cooldownStart = new Date(now.getTime() - MISSED_DOSE_CONTACT_ALERT_COOLDOWN_HOURS * 60 * 60 * 1000);
+    let alerted = 0;
+
+    for (const contact of contacts) {
+      const claimed = await EmergencyContact.updateOne(
+        {
+          _id: contact._id,
+          $or: [{ lastMissedDoseAlertAt: { $exists: false } }, { lastMissedDoseAlertAt: { $lt: cooldownStart } }]
+        },
+        { lastMissedDoseAlertAt: now }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      await notificationDispatcher.enqueue({
+        channel: 'sms',
+        to: contact.phoneNumber,
+        category: 'adherenceAlerts',
+        priority: 'high',
+        text: `MediTracker: ${patient.name || 'Your contact'} has missed their last ${missed} medication doses. You may want to check on them.`,
+        data: { type: 'missed_doses', patientId: patient._id.toString(), missedDoses: missed }
+      });
+      alerted++;
+    }
+
+    return alerted;
+  }
+}
+
+export const emergencyContactService = new EmergencyContactService();
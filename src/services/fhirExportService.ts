@@ -0,0 +1,440 @@
+import mongoose from 'mongoose';
+import { IUser } from '../types/auth.types';
+import Medication, { IMedication } from '../models/Medication';
+import ScheduledDose, { IScheduledDose } from '../models/ScheduledDose';
+import EmergencyContact, { IEmergencyContact } from '../models/EmergencyContact';
+import Activity, { IActivity } from '../models/Activity';
+import { doseScheduleService } from './doseScheduleService';
+import {
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirDosage,
+  FhirMedicationAdministration,
+  FhirMedicationRequest,
+  FhirMedicationStatement,
+  FhirPatient,
+  FhirQuantity,
+  FhirReference,
+  FhirRelatedPerson,
+  FhirResource,
+  FhirTimingRepeat
+} from '../types/fhir.types';
+import { MedicationSchedule, describeSchedule, isPRNMedication, resolveSchedule } from '../utils/medicationTimingUtils';
+import { DosePhase, getPhaseRanges } from '../utils/dosePlanUtils';
+import { getLocalDateKey, resolveTimezone } from '../utils/timezoneUtils';
+import { validateFhirBundle } from '../utils/fhirValidationUtils';
+
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const USER_IDENTIFIER_SYSTEM = 'urn:meditracker:user';
+const MEDICATION_IDENTIFIER_SYSTEM = 'urn:meditracker:medication';
+
+// Dosage units that have a UCUM code; the rest are sent as text only
+const UCUM_UNITS: Record<string, string> = {
+  mg: 'mg',
+  g: 'g',
+  ml: 'mL',
+  drops: '[drp]'
+};
+
+// Medication status -> MedicationRequest / MedicationStatement status
+const REQUEST_STATUS: Record<IMedication['status'], FhirMedicationRequest['status']> = {
+  active: 'active',
+  paused: 'on-hold',
+  completed: 'completed',
+  archived: 'stopped'
+};
+
+const STATEMENT_STATUS: Record<IMedication['status'], FhirMedicationStatement['status']> = {
+  active: 'active',
+  paused: 'on-hold',
+  completed: 'completed',
+  archived: 'stopped'
+};
+
+// Timing relation -> HL7 v3 TimingEvent codes, per meal where one exists
+const MEAL_TIMING_EVENTS: Record<string, { any: string; breakfast: string; lunch: string; dinner: string } | undefined> = {
+  before_food: { any: 'AC', breakfast: 'ACM', lunch: 'ACD', dinner: 'ACV' },
+  empty_stomach: { any: 'AC', breakfast: 'ACM', lunch: 'ACD', dinner: 'ACV' },
+  after_food: { any: 'PC', breakfast: 'PCM', lunch: 'PCD', dinner: 'PCV' },
+  with_food: { any: 'C', breakfast: 'CM', lunch: 'CD', dinner: 'CV' }
+};
+
+const DAY_CODES: NonNullable<FhirTimingRepeat['dayOfWeek']> = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface PatientRecords {
+  medications: IMedication[];
+  doses: IScheduledDose[];
+  prnDoses: IActivity[];      // dose_taken activities for as-needed doses
+  emergencyContacts: IEmergencyContact[];
+}
+
+interface BundleOptions {
+  baseUrl: string;                                    // e.g. https://api.example.com/api
+  caregiverId?: string | mongoose.Types.ObjectId;     // Limit to medications this caregiver manages
+  includeEmergencyContacts?: boolean;                 // false when the reader may not see them; defaults to true
+  now?: Date;
+}
+
+const toQuantity = (value: string | number, unit: string): FhirQuantity => {
+  const quantity: FhirQuantity = { value: Number(value), unit };
+  if (UCUM_UNITS[unit]) {
+    quantity.system = UCUM_SYSTEM;
+    quantity.code = UCUM_UNITS[unit];
+  }
+  return quantity;
+};
+
+// Recorded doses are stored as text, e.g. "40 mg"
+const doseTextToQuantity = (text: string, fallbackUnit: string): FhirQuantity => {
+  const [value, unit] = text.trim().split(/\s+/);
+  return toQuantity(value, unit || fallbackUnit);
+};
+
+const medicationConcept = (medication: IMedication): FhirCodeableConcept => ({
+  text: medication.name
+});
+
+class FhirExportService {
+  /**
+   * Build a FHIR R4 collection Bundle with the patient, their emergency contacts,
+   * medications (as MedicationRequest and MedicationStatement) and dose administrations
+   */
+  async buildPatientBundle(user: IUser, options: BundleOptions): Promise<FhirBundle> {
+    const medicationQuery: any = { patient: user._id };
+    if (options.caregiverId) {
+      medicationQuery.caregiver = options.caregiverId;
+    }
+
+    const medications = await Medication.find(medicationQuery)
+      .populate('caregiver', 'name')
+      .sort({ createdAt: 1 });
+    const medicationIds = medications.map(med => med._id);
+
+    const [doses, prnDoses, emergencyContacts] = await Promise.all([
+      ScheduledDose.find({ patient: user._id, medication: { $in: medicationIds } }).sort({ scheduledFor: 1 }),
+      Activity.find({
+        patient: user._id,
+        medication: { $in: medicationIds },
+        type: 'dose_taken',
+        'metadata.isPRN': true
+      }).sort({ createdAt: 1 }),
+      options.includeEmergencyContacts === false
+        ? []
+        : EmergencyContact.find({ patient: user._id }).sort({ isPrimary: -1, createdAt: 1 })
+    ]);
+
+    return this.assembleBundle(user, { medications, doses, prnDoses, emergencyContacts }, options);
+  }
+
+  /**
+   * Map a patient's loaded records to the Bundle, validating it before it is returned.
+   * Medications must have their caregiver populated with a name.
+   */
+  assembleBundle(user: IUser, records: PatientRecords, options: BundleOptions): FhirBundle {
+    const { medications, doses, prnDoses, emergencyContacts } = records;
+    const now = options.now || new Date();
+    const timezone = resolveTimezone(user.timezone);
+
+    const patientReference: FhirReference = { reference: `Patient/${user._id}`, display: user.name };
+    const medicationsById = new Map(medications.map(med => [med._id.toString(), med]));
+    const resources: FhirResource[] = [this.toPatient(user)];
+
+    if (options.includeEmergencyContacts !== false) {
+      emergencyContacts.forEach(contact => resources.push(this.toRelatedPerson(contact, patientReference)));
+    }
+
+    medications.forEach(medication => {
+      resources.push(this.toMedicationRequest(medication, patientReference, timezone));
+      resources.push(this.toMedicationStatement(medication, patientReference, timezone, now));
+    });
+
+    // Pending doses have not happened yet, so they are not administrations
+    doses.forEach(dose => {
+      const medication = medicationsById.get(dose.medication.toString());
+      const status = doseScheduleService.getEffectiveStatus(dose, now);
+      if (!medication || status === 'pending') return;
+
+      const administration: FhirMedicationAdministration = {
+        resourceType: 'MedicationAdministration',
+        id: dose._id.toString(),
+        meta: { lastUpdated: dose.updatedAt.toISOString() },
+        status: status === 'taken' || status === 'late' ? 'completed' : 'not-done',
+        medicationCodeableConcept: medicationConcept(medication),
+        subject: patientReference,
+        effectiveDateTime: (dose.takenAt || dose.scheduledFor).toISOString(),
+        request: { reference: `MedicationRequest/${medication._id}` }
+      };
+
+      if (status === 'missed' || status === 'skipped') {
+        administration.statusReason = [{ text: status === 'missed' ? 'Missed dose' : (dose.skipReason || 'Skipped') }];
+      }
+      if (status === 'late') {
+        administration.note = [{ text: `Taken late (scheduled ${dose.scheduledFor.toISOString()})` }];
+      } else if (dose.notes) {
+        administration.note = [{ text: dose.notes }];
+      }
+
+      const doseText = dose.dosage || `${medication.dosage} ${medication.dosageUnit}`;
+      administration.dosage = {
+        text: doseText,
+        dose: doseTextToQuantity(doseText, medication.dosageUnit)
+      };
+
+      resources.push(administration);
+    });
+
+    prnDoses.forEach(activity => {
+      const medication = medicationsById.get(activity.medication!.toString());
+      if (!medication) return;
+
+      const doseText = activity.metadata?.dosage || `${medication.dosage} ${medication.dosageUnit}`;
+      const administration: FhirMedicationAdministration = {
+        resourceType: 'MedicationAdministration',
+        id: activity._id.toString(),
+        status: 'completed',
+        medicationCodeableConcept: medicationConcept(medication),
+        subject: patientReference,
+        effectiveDateTime: (activity.metadata?.doseTaken || activity.createdAt).toISOString(),
+        request: { reference: `MedicationRequest/${medication._id}` },
+        dosage: {
+          text: doseText,
+          dose: doseTextToQuantity(doseText, medication.dosageUnit)
+        }
+      };
+      if (activity.metadata?.prnReason) {
+        administration.reasonCode = [{ text: activity.metadata.prnReason }];
+      }
+      if (activity.metadata?.notes) {
+        administration.note = [{ text: activity.metadata.notes }];
+      }
+
+      resources.push(administration);
+    });
+
+    const bundle: FhirBundle = {
+      resourceType: 'Bundle',
+      id: new mongoose.Types.ObjectId().toString(),
+      meta: { lastUpdated: now.toISOString() },
+      type: 'collection',
+      timestamp: now.toISOString(),
+      entry: resources.map(resource => ({
+        fullUrl: `${options.baseUrl}/${resource.resourceType}/${resource.id}`,
+        resource
+      }))
+    };
+
+    // Never hand out a bundle that does not conform
+    const errors = validateFhirBundle(bundle);
+    if (errors.length > 0) {
+      throw new Error(`Generated FHIR bundle is invalid: ${errors.slice(0, 5).join('; ')}`);
+    }
+
+    return bundle;
+  }
+
+  private toPatient(user: IUser): FhirPatient {
+    const patient: FhirPatient = {
+      resourceType: 'Patient',
+      id: user._id.toString(),
+      meta: { lastUpdated: user.updatedAt.toISOString() },
+      identifier: [{ system: USER_IDENTIFIER_SYSTEM, value: user._id.toString() }],
+      active: true,
+      name: [{ use: 'usual', text: user.name }],
+      telecom: [{ system: 'email', value: user.email }]
+    };
+
+    if (user.phoneNumber) {
+      patient.telecom!.push({ system: 'phone', value: user.phoneNumber, use: 'mobile' });
+    }
+    if (user.gender) {
+      patient.gender = user.gender === 'prefer_not_to_say' ? 'unknown' : user.gender;
+    }
+
+    return patient;
+  }
+
+  private toRelatedPerson(contact: IEmergencyContact, patientReference: FhirReference): FhirRelatedPerson {
+    return {
+      resourceType: 'RelatedPerson',
+      id: contact._id.toString(),
+      meta: { lastUpdated: contact.updatedAt.toISOString() },
+      patient: patientReference,
+      relationship: [
+        { text: contact.relationship },
+        {
+          coding: [{
+            system: 'http://terminology.hl7.org/CodeSystem/v2-0131',
+            code: 'C',
+            display: 'Emergency Contact'
+          }]
+        }
+      ],
+      name: [{ text: contact.name }],
+      telecom: [{ system: 'phone', value: contact.phoneNumber, rank: contact.isPrimary ? 1 : 2 }]
+    };
+  }
+
+  private toMedicationRequest(
+    medication: IMedication,
+    patientReference: FhirReference,
+    timezone: string
+  ): FhirMedicationRequest {
+    const caregiver = medication.caregiver as any;
+    const request: FhirMedicationRequest = {
+      resourceType: 'MedicationRequest',
+      id: medication._id.toString(),
+      meta: { lastUpdated: medication.updatedAt.toISOString(), versionId: String(medication.version || 1) },
+      identifier: [{ system: MEDICATION_IDENTIFIER_SYSTEM, value: medication._id.toString() }],
+      status: REQUEST_STATUS[medication.status],
+      intent: 'order',
+      medicationCodeableConcept: medicationConcept(medication),
+      subject: patientReference,
+      authoredOn: medication.createdAt.toISOString(),
+      dosageInstruction: this.toDosages(medication, timezone),
+      dispenseRequest: {
+        validityPeriod: {
+          start: getLocalDateKey(medication.startDate || medication.createdAt, timezone),
+          ...(medication.endDate ? { end: getLocalDateKey(medication.endDate, timezone) } : {})
+        },
+        quantity: toQuantity(medication.totalQuantity, medication.dosageUnit)
+      }
+    };
+
+    // Caregivers are app users rather than FHIR practitioners
+    if (caregiver?.name) {
+      request.requester = { display: caregiver.name };
+    }
+    if (medication.instructions) {
+      request.note = [{ text: medication.instructions }];
+    }
+
+    return request;
+  }
+
+  private toMedicationStatement(
+    medication: IMedication,
+    patientReference: FhirReference,
+    timezone: string,
+    now: Date
+  ): FhirMedicationStatement {
+    const stoppedAt = medication.completedAt || medication.archive?.archivedAt || medication.endDate;
+    const statement: FhirMedicationStatement = {
+      resourceType: 'MedicationStatement',
+      id: medication._id.toString(),
+      meta: { lastUpdated: medication.updatedAt.toISOString() },
+      basedOn: [{ reference: `MedicationRequest/${medication._id}` }],
+      status: STATEMENT_STATUS[medication.status],
+      medicationCodeableConcept: medicationConcept(medication),
+      subject: patientReference,
+      effectivePeriod: {
+        start: getLocalDateKey(medication.startDate || medication.createdAt, timezone),
+        ...(stoppedAt ? { end: getLocalDateKey(stoppedAt, timezone) } : {})
+      },
+      dateAsserted: now.toISOString(),
+      informationSource: patientReference,
+      dosage: this.toDosages(medication, timezone)
+    };
+
+    if (medication.status === 'paused' && medication.pause?.reason) {
+      statement.statusReason = [{ text: medication.pause.reason }];
+    } else if (medication.status === 'archived' && medication.archive?.reason) {
+      statement.statusReason = [{ text: medication.archive.reason }];
+    }
+
+    return statement;
+  }
+
+  // One dosage per dose plan phase, or a single dosage for a fixed regimen
+  private toDosages(medication: IMedication, timezone: string): FhirDosage[] {
+    const phases = medication.dosePlan?.phases || [];
+    if (phases.length === 0) {
+      return [this.toDosage(medication, { dosage: medication.dosage }, undefined)];
+    }
+
+    const ranges = getPhaseRanges(medication.dosePlan!, timezone);
+    return phases.map((phase, index) => this.toDosage(medication, phase, {
+      sequence: index + 1,
+      start: ranges[index].startDateKey,
+      end: ranges[index].endDateKey
+    }));
+  }
+
+  private toDosage(
+    medication: IMedication,
+    phase: DosePhase,
+    planPhase?: { sequence: number; start: string; end: string | null }
+  ): FhirDosage {
+    const unit = phase.dosageUnit || medication.dosageUnit;
+    const frequency = phase.frequency || medication.frequency;
+    const schedule = phase.schedule || medication.schedule;
+    const dosage: FhirDosage = {
+      text: `${phase.dosage} ${unit}, ${describeSchedule({ ...medication.toObject(), frequency, schedule })}`,
+      doseAndRate: [{ doseQuantity: toQuantity(phase.dosage, unit) }]
+    };
+
+    if (planPhase) {
+      dosage.sequence = planPhase.sequence;
+    }
+    if (phase.instructions || medication.instructions) {
+      dosage.patientInstruction = phase.instructions || medication.instructions;
+    }
+    if (medication.timingRelation !== 'anytime') {
+      dosage.additionalInstruction = [{ text: medication.timingRelation.replace(/_/g, ' ') }];
+    }
+
+    if (isPRNMedication(medication) && medication.prn) {
+      dosage.asNeededBoolean = true;
+      dosage.maxDosePerPeriod = {
+        numerator: { value: medication.prn.maxDosesPer24h },
+        denominator: { value: 24, unit: 'h', system: UCUM_SYSTEM, code: 'h' }
+      };
+      return dosage;
+    }
+
+    const repeat = this.toTimingRepeat(medication.timingRelation, frequency, schedule);
+    if (planPhase) {
+      repeat.boundsPeriod = { start: planPhase.start, ...(planPhase.end ? { end: planPhase.end } : {}) };
+    }
+    dosage.timing = { repeat };
+
+    return dosage;
+  }
+
+  private toTimingRepeat(timingRelation: string, frequency: number, schedule?: MedicationSchedule): FhirTimingRepeat {
+    const effective = resolveSchedule(frequency, schedule);
+    let repeat: FhirTimingRepeat;
+
+    if (effective.type === 'fixed_times' && effective.times?.length) {
+      repeat = {
+        frequency: effective.times.length,
+        period: 1,
+        periodUnit: 'd',
+        timeOfDay: effective.times.map(time => `${time}:00`)
+      };
+    } else if (effective.type === 'interval') {
+      repeat = { frequency: 1, period: effective.intervalHours || 24 / frequency, periodUnit: 'h' };
+    } else {
+      repeat = { frequency, period: 1, periodUnit: 'd' };
+
+      const events = MEAL_TIMING_EVENTS[timingRelation];
+      if (events) {
+        const meals = (effective.meals || []).filter(meal => meal !== 'snack') as ('breakfast' | 'lunch' | 'dinner')[];
+        repeat.when = meals.length === frequency ? meals.map(meal => events[meal]) : [events.any];
+      }
+    }
+
+    // Doses on every Nth day: the day's doses repeat over N days
+    if (effective.everyNDays && effective.everyNDays > 1) {
+      repeat.frequency = effective.type === 'fixed_times' && effective.times?.length ? effective.times.length : frequency;
+      repeat.period = effective.everyNDays;
+      repeat.periodUnit = 'd';
+    }
+    if (effective.daysOfWeek?.length) {
+      repeat.dayOfWeek = [...effective.daysOfWeek].sort((a, b) => a - b).map(day => DAY_CODES[day]);
+    }
+
+    return repeat;
+  }
+}
+
+export const fhirExportService = new FhirExportService();
@@ -0,0 +1,384 @@
+import fs from 'fs';
+import path from 'path';
+import { IUser } from '../types/auth.types';
+import Medication from '../models/Medication';
+import ScheduledDose from '../models/ScheduledDose';
+import MealTime from '../models/MealTime';
+import EmergencyContact from '../models/EmergencyContact';
+import Activity from '../models/Activity';
+import DataExport, { DataExportFormat, IDataExport } from '../models/DataExport';
+import { doseScheduleService } from './doseScheduleService';
+import { patientProfileService } from './patientProfileService';
+import { describeSchedule } from '../utils/medicationTimingUtils';
+import { getLocalDateKey, formatLocalTime, resolveTimezone } from '../utils/timezoneUtils';
+import { toCsv } from '../utils/csvUtils';
+import { createZip } from '../utils/zipUtils';
+import { createTextPdf } from '../utils/pdfUtils';
+import { createSignedPath } from '../utils/signedUrlUtils';
+import { EXPORT_STORAGE_DIR, EXPORT_LINK_TTL_MINUTES, EXPORT_SIGNING_SECRET } from '../config/exports';
+
+export const EXPORT_FORMATS: DataExportFormat[] = ['json', 'csv', 'pdf'];
+
+export interface ExportedMedication {
+  id: string;
+  name: string;
+  dosage: string;
+  dosageUnit: string;
+  schedule: string;
+  timingRelation: string;
+  isPRN: boolean;
+  instructions?: string;
+  status: string;
+  startDate?: Date;
+  endDate?: Date;
+  completedAt?: Date;
+  archivedAt?: Date;
+  remainingQuantity: number;
+  totalQuantity: number;
+  expiryDate: Date;
+  adherenceRate: number;
+}
+
+export interface ExportedDose {
+  medicationId: string;
+  medicationName: string;
+  date: string; // Patient-local day
+  scheduledFor: Date;
+  scheduledTime: string;
+  dosage?: string;
+  status: string;
+  takenAt?: Date;
+  method?: string;
+  notes?: string;
+  skipReason?: string;
+}
+
+// Everything a patient's health-data export contains
+export interface HealthRecord {
+  exportedAt: Date;
+  timezone: string;
+  profile: {
+    id: string;
+    name: string;
+    email: string;
+    phoneNumber?: string;
+    age?: number;
+    gender?: string;
+    medicalHistory: string[];
+    allergies: string[];
+  };
+  medications: ExportedMedication[];
+  doses: ExportedDose[];
+  mealTimes: { meal: string; name: string; time: string; enabled: boolean }[];
+  emergencyContacts: { name: string; relationship: string; phoneNumber: string; isPrimary: boolean }[];
+  activities: { type: string; message: string; priority: string; medicationName?: string; createdAt: Date }[];
+}
+
+const MIME_TYPES: Record<DataExportFormat, { mimeType: string; extension: string }> = {
+  json: { mimeType: 'application/json', extension: 'json' },
+  csv: { mimeType: 'application/zip', extension: 'zip' },
+  pdf: { mimeType: 'application/pdf', extension: 'pdf' }
+};
+
+class HealthExportService {
+  /**
+   * Collect a patient's profile, medications, dose log, meal times, emergency contacts and activity
+   */
+  async gatherHealthRecord(user: IUser, now: Date = new Date()): Promise<HealthRecord> {
+    const timezone = resolveTimezone(user.timezone);
+
+    const [profile, medications, doses, mealTimes, emergencyContacts, activities] = await Promise.all([
+      patientProfileService.get(user._id),
+      Medication.find({ patient: user._id }).sort({ createdAt: 1 }),
+      ScheduledDose.find({ patient: user._id }).sort({ scheduledFor: 1 }),
+      MealTime.find({ patient: user._id }),
+      EmergencyContact.find({ patient: user._id }).sort({ isPrimary: -1, createdAt: 1 }),
+      Activity.find({ patient: user._id }).populate('medication', 'name').sort({ createdAt: 1 })
+    ]);
+
+    // Archived medications are kept so every dose can still be named
+    const medicationNames = new Map(medications.map(med => [med._id.toString(), med.name]));
+
+    return {
+      exportedAt: now,
+      timezone,
+      profile: {
+        id: user._id.toString(),
+        name: user.name,
+        email: user.email,
+        phoneNumber: user.phoneNumber,
+        age: user.age,
+        gender: user.gender,
+        medicalHistory: profile.medicalHistory,
+        allergies: profile.allergies
+      },
+      medications: medications.map(med => ({
+        id: med._id.toString(),
+        name: med.name,
+        dosage: med.dosage,
+        dosageUnit: med.dosageUnit,
+        schedule: describeSchedule(med),
+        timingRelation: med.timingRelation,
+        isPRN: med.isPRN,
+        instructions: med.instructions,
+        status: med.status,
+        startDate: med.startDate,
+        endDate: med.endDate,
+        completedAt: med.completedAt,
+        archivedAt: med.archive?.archivedAt,
+        remainingQuantity: med.remainingQuantity,
+        totalQuantity: med.totalQuantity,
+        expiryDate: med.expiryDate,
+        adherenceRate: med.adherenceRate
+      })),
+      doses: doses.map(dose => ({
+        medicationId: dose.medication.toString(),
+        medicationName: medicationNames.get(dose.medication.toString()) || 'Unknown',
+        date: dose.dateKey,
+        scheduledFor: dose.scheduledFor,
+        scheduledTime: formatLocalTime(dose.scheduledFor, timezone),
+        dosage: dose.dosage,
+        status: doseScheduleService.getEffectiveStatus(dose, now),
+        takenAt: dose.takenAt,
+        method: dose.method,
+        notes: dose.notes,
+        skipReason: dose.skipReason
+      })),
+      mealTimes: mealTimes.map(meal => ({
+        meal: meal.mealId,
+        name: meal.name,
+        time: meal.time,
+        enabled: meal.enabled
+      })),
+      emergencyContacts: emergencyContacts.map(contact => ({
+        name: contact.name,
+        relationship: contact.relationship,
+        phoneNumber: contact.phoneNumber,
+        isPrimary: contact.isPrimary
+      })),
+      activities: activities.map(activity => ({
+        type: activity.type,
+        message: activity.message,
+        priority: activity.priority,
+        medicationName: (activity.medication as any)?.name,
+        createdAt: activity.createdAt
+      }))
+    };
+  }
+
+  /**
+   * Render a health record in the requested format
+   */
+  render(record: HealthRecord, format: DataExportFormat): Buffer {
+    switch (format) {
+      case 'json':
+        return Buffer.from(JSON.stringify(record, null, 2), 'utf8');
+      case 'csv':
+        return this.renderCsvBundle(record);
+      case 'pdf':
+        return this.renderPdf(record);
+    }
+  }
+
+  /**
+   * Generate an export file for a patient and store it until its download link expires
+   */
+  async createExport(user: IUser, format: DataExportFormat, now: Date = new Date()): Promise<IDataExport> {
+    const { mimeType, extension } = MIME_TYPES[format];
+    const timezone = resolveTimezone(user.timezone);
+
+    const dataExport = new DataExport({
+      user: user._id,
+      format,
+      fileName: `health-data-${getLocalDateKey(now, timezone)}.${extension}`,
+      mimeType,
+      expiresAt: new Date(now.getTime() + EXPORT_LINK_TTL_MINUTES * 60 * 1000)
+    });
+
+    try {
+      const record = await this.gatherHealthRecord(user, now);
+      const content = this.render(record, format);
+
+      await fs.promises.mkdir(EXPORT_STORAGE_DIR, { recursive: true });
+      const filePath = path.join(EXPORT_STORAGE_DIR, `${dataExport._id}.${extension}`);
+      await fs.promises.writeFile(filePath, content);
+
+      dataExport.filePath = filePath;
+      dataExport.sizeBytes = content.length;
+      await dataExport.save();
+    } catch (error) {
+      dataExport.status = 'failed';
+      dataExport.error = error instanceof Error ? error.message : String(error);
+      await dataExport.save();
+      throw error;
+    }
+
+    return dataExport;
+  }
+
+  /**
+   * Path of the authenticated download route for an export
+   */
+  getDownloadPath(exportId: string): string {
+    return `/api/patient/exports/${exportId}/download`;
+  }
+
+  /**
+   * Signed download link, valid until the export expires
+   */
+  getSignedDownloadPath(dataExport: IDataExport): string {
+    return createSignedPath(this.getDownloadPath(dataExport._id.toString()), dataExport.expiresAt, EXPORT_SIGNING_SECRET);
+  }
+
+  /**
+   * Delete the stored file of an export and mark it expired
+   */
+  async expireExport(dataExport: IDataExport): Promise<void> {
+    if (dataExport.filePath) {
+      await fs.promises.rm(dataExport.filePath, { force: true });
+    }
+    dataExport.status = 'expired';
+    dataExport.filePath = undefined;
+    await dataExport.save();
+  }
+
+  // One CSV per section, zipped together
+  private renderCsvBundle(record: HealthRecord): Buffer {
+    const tz = record.timezone;
+    const localDateTime = (date?: Date) => date ? `${getLocalDateKey(date, tz)} ${formatLocalTime(date, tz)}` : '';
+    const localDate = (date?: Date) => date ? getLocalDateKey(date, tz) : '';
+
+    const profileRows = [
+      ['Name', record.profile.name],
+      ['Email', record.profile.email],
+      ['Phone number', record.profile.phoneNumber],
+      ['Age', record.profile.age],
+      ['Gender', record.profile.gender],
+      ['Medical history', record.profile.medicalHistory.join('; ')],
+      ['Allergies', record.profile.allergies.join('; ')],
+      ['Timezone', record.timezone],
+      ['Exported at', localDateTime(record.exportedAt)]
+    ];
+
+    return createZip([
+      {
+        name: 'profile.csv',
+        content: toCsv([
+          { header: 'Field', value: (row: any[]) => row[0] },
+          { header: 'Value', value: (row: any[]) => row[1] }
+        ], profileRows)
+      },
+      {
+        name: 'medications.csv',
+        content: toCsv<ExportedMedication>([
+          { header: 'Name', value: med => med.name },
+          { header: 'Dosage', value: med => `${med.dosage} ${med.dosageUnit}` },
+          { header: 'Schedule', value: med => med.schedule },
+          { header: 'Timing', value: med => med.timingRelation },
+          { header: 'Instructions', value: med => med.instructions },
+          { header: 'Status', value: med => med.status },
+          { header: 'Start date', value: med => localDate(med.startDate) },
+          { header: 'End date', value: med => localDate(med.endDate) },
+          { header: 'Remaining quantity', value: med => med.remainingQuantity },
+          { header: 'Expiry date', value: med => localDate(med.expiryDate) },
+          { header: 'Adherence rate (%)', value: med => med.adherenceRate }
+        ], record.medications)
+      },
+      {
+        name: 'dose_log.csv',
+        content: toCsv<ExportedDose>([
+          { header: 'Date', value: dose => dose.date },
+          { header: 'Scheduled time', value: dose => dose.scheduledTime },
+          { header: 'Medication', value: dose => dose.medicationName },
+          { header: 'Dosage', value: dose => dose.dosage },
+          { header: 'Status', value: dose => dose.status },
+          { header: 'Taken at', value: dose => localDateTime(dose.takenAt) },
+          { header: 'Method', value: dose => dose.method },
+          { header: 'Notes', value: dose => dose.notes || dose.skipReason }
+        ], record.doses)
+      },
+      {
+        name: 'meal_times.csv',
+        content: toCsv<HealthRecord['mealTimes'][number]>([
+          { header: 'Meal', value: meal => meal.name },
+          { header: 'Time', value: meal => meal.time },
+          { header: 'Enabled', value: meal => meal.enabled ? 'yes' : 'no' }
+        ], record.mealTimes)
+      },
+      {
+        name: 'emergency_contacts.csv',
+        content: toCsv<HealthRecord['emergencyContacts'][number]>([
+          { header: 'Name', value: contact => contact.name },
+          { header: 'Relationship', value: contact => contact.relationship },
+          { header: 'Phone number', value: contact => contact.phoneNumber },
+          { header: 'Primary', value: contact => contact.isPrimary ? 'yes' : 'no' }
+        ], record.emergencyContacts)
+      },
+      {
+        name: 'activities.csv',
+        content: toCsv<HealthRecord['activities'][number]>([
+          { header: 'Time', value: activity => localDateTime(activity.createdAt) },
+          { header: 'Type', value: activity => activity.type },
+          { header: 'Medication', value: activity => activity.medicationName },
+          { header: 'Message', value: activity => activity.message }
+        ], record.activities)
+      }
+    ], record.exportedAt);
+  }
+
+  // Printable summary for handing to a doctor
+  private renderPdf(record: HealthRecord): Buffer {
+    const tz = record.timezone;
+    const localDateTime = (date: Date) => `${getLocalDateKey(date, tz)} ${formatLocalTime(date, tz)}`;
+    const { profile } = record;
+
+    return createTextPdf(`Health record: ${profile.name}`, [
+      {
+        heading: 'Patient',
+        lines: [
+          `Name: ${profile.name}`,
+          `Email: ${profile.email}`,
+          ...(profile.phoneNumber ? [`Phone: ${profile.phoneNumber}`] : []),
+          ...(profile.age ? [`Age: ${profile.age}`] : []),
+          ...(profile.gender ? [`Gender: ${profile.gender}`] : []),
+          `Medical history: ${profile.medicalHistory.join(', ') || 'None recorded'}`,
+          `Allergies: ${profile.allergies.join(', ') || 'None recorded'}`
+        ]
+      },
+      {
+        heading: 'Medications',
+        lines: record.medications.map(med => {
+          const course = [
+            med.startDate ? `from ${getLocalDateKey(med.startDate, tz)}` : '',
+            med.endDate ? `to ${getLocalDateKey(med.endDate, tz)}` : ''
+          ].filter(Boolean).join(' ');
+          return `${med.name} ${med.dosage} ${med.dosageUnit} - ${med.schedule}, ${med.timingRelation.replace(/_/g, ' ')}` +
+            ` [${med.status}]${course ? ` ${course}` : ''}${med.instructions ? `. ${med.instructions}` : ''}`;
+        })
+      },
+      {
+        heading: 'Dose log',
+        lines: record.doses.map(dose =>
+          `${dose.date} ${dose.scheduledTime}  ${dose.medicationName}${dose.dosage ? ` ${dose.dosage}` : ''}: ${dose.status}` +
+          `${dose.takenAt ? ` at ${formatLocalTime(dose.takenAt, tz)}` : ''}${dose.skipReason ? ` (${dose.skipReason})` : ''}`
+        )
+      },
+      {
+        heading: 'Meal times',
+        lines: record.mealTimes.map(meal => `${meal.name}: ${meal.time}${meal.enabled ? '' : ' (disabled)'}`)
+      },
+      {
+        heading: 'Emergency contacts',
+        lines: record.emergencyContacts.map(contact =>
+          `${contact.name} (${contact.relationship}): ${contact.phoneNumber}${contact.isPrimary ? ' - primary' : ''}`
+        )
+      },
+      {
+        heading: 'Activity',
+        lines: record.activities.map(activity => `${localDateTime(activity.createdAt)}  ${activity.message}`)
+      }
+    ], `Exported ${localDateTime(record.exportedAt)} (${tz})`);
+  }
+}
+
+export const healthExportService = new HealthExportService();
@@ -0,0 +1,319 @@
+import mongoose from 'mongoose';
+import { IMedication } from '../models/Medication';
+import MedicationChange, { IFieldChange, IMedicationChange } from '../models/MedicationChange';
+import Activity, { IActivity } from '../models/Activity';
+import { doseScheduleService } from './doseScheduleService';
+import { getLocalDateKey, formatLocalTime } from '../utils/timezoneUtils';
+
+// Fields a caregiver may edit after a medication has been created
+export const EDITABLE_MEDICATION_FIELDS = [
+  'name',
+  'dosage',
+  'dosageUnit',
+  'frequency',
+  'timingRelation',
+  'schedule',
+  'isPRN',
+  'prn',
+  'dosePlan',
+  'instructions',
+  'totalQuantity',
+  'remainingQuantity',
+  'expiryDate',
+  'startDate',
+  'endDate',
+  'durationDays'
+] as const;
+
+const FIELD_LABELS: Record<string, string> = {
+  dosage: 'dosage',
+  dosageUnit: 'dosage unit',
+  timingRelation: 'timing',
+  isPRN: 'as-needed mode',
+  prn: 'as-needed limits',
+  dosePlan: 'dose plan',
+  totalQuantity: 'total quantity',
+  remainingQuantity: 'remaining quantity',
+  expiryDate: 'expiry date',
+  startDate: 'start date',
+  endDate: 'end date',
+  durationDays: 'course length',
+  status: 'status',
+  pause: 'pause',
+  archive: 'archive'
+};
+
+interface ChangeOptions {
+  action?: IMedicationChange['action'];
+  reason?: string;
+}
+
+// Plain JSON form of a document value so values can be compared and stored
+const toPlain = (value: any): any => {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value));
+};
+
+class MedicationChangeService {
+  /**
+   * Apply caregiver edits to a medication, bump its version and record what changed.
+   * Returns null when nothing actually changed.
+   */
+  async applyChanges(
+    medication: IMedication,
+    updates: Record<string, any>,
+    changedBy: { _id: string | mongoose.Types.ObjectId; name?: string },
+    options: ChangeOptions = {}
+  ): Promise<IMedicationChange | null> {
+    const currentVersion = medication.version || 1;
+
+    // An explicit end date replaces a course length
+    if (updates.endDate !== undefined && updates.durationDays === undefined && medication.durationDays) {
+      updates = { ...updates, durationDays: null };
+    }
+
+    // Refilling a medication that ran out puts it back into use
+    if (
+      updates.remainingQuantity > 0 &&
+      medication.status === 'completed' &&
+      medication.completionReason === 'quantity_exhausted'
+    ) {
+      updates = { ...updates, status: 'active', completedAt: null, completionReason: null };
+    }
+
+    const changes: IFieldChange[] = [];
+    for (const [field, value] of Object.entries(updates)) {
+      if (value === undefined) continue;
+
+      const before = toPlain(medication.get(field));
+      medication.set(field, value === null ? undefined : value);
+      const after = toPlain(medication.get(field));
+
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ field, from: before, to: after });
+      }
+    }
+
+    if (changes.length === 0) {
+      return null;
+    }
+
+    medication.version = currentVersion + 1;
+    await medication.save();
+
+    const change = await MedicationChange.create({
+      medication: medication._id,
+      patient: medication.patient,
+      caregiver: medication.caregiver,
+      changedBy: changedBy._id,
+      version: medication.version,
+      action: options.action || 'updated',
+      changes,
+      reason: options.reason
+    });
+
+    await this.notifyPatient(medication, change, changedBy.name);
+
+    return change;
+  }
+
+  /**
+   * Pause a medication, optionally until a given time. Doses in the pause are not expected.
+   */
+  async pauseMedication(
+    medication: IMedication,
+    changedBy: { _id: string | mongoose.Types.ObjectId; name?: string },
+    options: { reason?: string; resumeAt?: Date } = {}
+  ): Promise<IMedicationChange | null> {
+    const pausedAt = new Date();
+
+    medication.pauseHistory.push({ pausedAt, reason: options.reason });
+    const change = await this.applyChanges(medication, {
+      status: 'paused',
+      pause: {
+        reason: options.reason,
+        pausedAt,
+        pausedBy: changedBy._id,
+        resumeAt: options.resumeAt
+      }
+    }, changedBy, { action: 'paused', reason: options.reason });
+
+    await doseScheduleService.closeDosesFrom(
+      medication,
+      pausedAt,
+      options.reason ? `Medication paused: ${options.reason}` : 'Medication paused'
+    );
+
+    return change;
+  }
+
+  /**
+   * Resume a paused medication; dose slots are generated again from now on
+   */
+  async resumeMedication(
+    medication: IMedication,
+    changedBy: { _id: string | mongoose.Types.ObjectId; name?: string },
+    options: { reason?: string } = {}
+  ): Promise<IMedicationChange | null> {
+    const openPeriod = [...medication.pauseHistory].reverse().find(period => !period.resumedAt);
+    if (openPeriod) {
+      openPeriod.resumedAt = new Date();
+      medication.markModified('pauseHistory');
+    }
+
+    return this.applyChanges(medication, { status: 'active', pause: null }, changedBy, {
+      action: 'resumed',
+      reason: options.reason
+    });
+  }
+
+  /**
+   * Archive a medication the caregiver removed. It drops out of active lists
+   * but stays resolvable in dose history, exports and adherence reports.
+   */
+  async archiveMedication(
+    medication: IMedication,
+    changedBy: { _id: string | mongoose.Types.ObjectId; name?: string },
+    options: { reason?: string } = {}
+  ): Promise<IMedicationChange | null> {
+    const archivedAt = new Date();
+
+    // Doses are not expected while archived; a paused medication already has an open period
+    if (medication.status === 'active') {
+      medication.pauseHistory.push({ pausedAt: archivedAt, reason: 'Archived' });
+    }
+
+    const change = await this.applyChanges(medication, {
+      status: 'archived',
+      archive: {
+        archivedAt,
+        archivedBy: changedBy._id,
+        reason: options.reason,
+        previousStatus: medication.status
+      }
+    }, changedBy, { action: 'archived', reason: options.reason });
+
+    await doseScheduleService.closeDosesFrom(medication, archivedAt, 'Medication removed');
+
+    return change;
+  }
+
+  /**
+   * Restore an archived medication to the status it had before
+   */
+  async restoreMedication(
+    medication: IMedication,
+    changedBy: { _id: string | mongoose.Types.ObjectId; name?: string },
+    options: { reason?: string } = {}
+  ): Promise<IMedicationChange | null> {
+    const previousStatus = medication.archive?.previousStatus || 'active';
+
+    if (previousStatus === 'active') {
+      const openPeriod = [...medication.pauseHistory].reverse().find(period => !period.resumedAt);
+      if (openPeriod) {
+        openPeriod.resumedAt = new Date();
+        medication.markModified('pauseHistory');
+      }
+    }
+
+    return this.applyChanges(medication, { status: previousStatus, archive: null }, changedBy, {
+      action: 'restored',
+      reason: options.reason
+    });
+  }
+
+  /**
+   * Change history of a medication, newest first
+   */
+  async getHistory(medicationId: string | mongoose.Types.ObjectId, limit: number = 50): Promise<IMedicationChange[]> {
+    return MedicationChange.find({ medication: medicationId })
+      .populate('changedBy', 'name role')
+      .sort({ version: -1 })
+      .limit(limit);
+  }
+
+  /**
+   * Recent changes across a set of medications, newest first
+   */
+  async getRecentChanges(
+    medicationIds: (string | mongoose.Types.ObjectId)[],
+    limit: number = 20
+  ): Promise<IMedicationChange[]> {
+    return MedicationChange.find({ medication: { $in: medicationIds } })
+      .populate('changedBy', 'name role')
+      .sort({ createdAt: -1 })
+      .limit(limit);
+  }
+
+  /**
+   * Why a medication is paused, for the patient, e.g. "Paused: surgery (resumes 2026-03-02 08:00)"
+   */
+  describePause(medication: IMedication, timezone: string): string | null {
+    if (medication.status !== 'paused') return null;
+
+    let message = medication.pause?.reason ? `Paused: ${medication.pause.reason}` : 'Paused by your caregiver';
+    const resumeAt = medication.pause?.resumeAt;
+    if (resumeAt) {
+      message += ` (resumes ${getLocalDateKey(resumeAt, timezone)} ${formatLocalTime(resumeAt, timezone)})`;
+    }
+    return message;
+  }
+
+  /**
+   * Short human readable summary, e.g. "dosage 40 → 30, instructions updated"
+   */
+  describeChanges(changes: IFieldChange[]): string {
+    return changes
+      .map(change => {
+        const label = FIELD_LABELS[change.field] || change.field;
+        const isSimple = (value: any) => value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+        if (isSimple(change.from) && isSimple(change.to) && String(change.to).length <= 40) {
+          return `${label} ${change.from ?? 'not set'} → ${change.to ?? 'not set'}`;
+        }
+        return `${label} updated`;
+      })
+      .join(', ');
+  }
+
+  private async notifyPatient(medication: IMedication, change: IMedicationChange, changedByName?: string): Promise<void> {
+    const by = changedByName || 'Your caregiver';
+    let type: IActivity['type'] = 'medication_updated';
+    let message = `${by} updated ${medication.name}: ${this.describeChanges(change.changes)}`;
+
+    if (change.action === 'paused') {
+      type = 'medication_paused';
+      message = `${by} paused ${medication.name}${change.reason ? ` (${change.reason})` : ''}`;
+
+      const resumeAt = medication.pause?.resumeAt;
+      if (resumeAt) {
+        const timezone = await doseScheduleService.getPatientTimezone(medication.patient);
+        message += ` until ${getLocalDateKey(resumeAt, timezone)} ${formatLocalTime(resumeAt, timezone)}`;
+      }
+    } else if (change.action === 'resumed') {
+      type = 'medication_resumed';
+      message = `${by} resumed ${medication.name}${change.reason ? ` (${change.reason})` : ''}`;
+    } else if (change.action === 'archived') {
+      type = 'medication_archived';
+      message = `${by} removed ${medication.name}${change.reason ? ` (${change.reason})` : ''}`;
+    } else if (change.action === 'restored') {
+      type = 'medication_restored';
+      message = `${by} restored ${medication.name}${change.reason ? ` (${change.reason})` : ''}`;
+    }
+
+    await Activity.create({
+      type,
+      patient: medication.patient,
+      caregiver: medication.caregiver,
+      medication: medication._id,
+      message,
+      priority: change.action === 'updated' ? 'medium' : 'low',
+      metadata: {
+        medicationChange: change._id,
+        version: change.version
+      }
+    });
+  }
+}
+
+export const medicationChangeService = new MedicationChangeService();
@@ -0,0 +1,520 @@
+import mongoose from 'mongoose';
+import { validationResult } from 'express-validator';
+import Medication, { IMedication } from '../models/Medication';
+import Activity from '../models/Activity';
+import { medicationValidation } from '../middleware/caregiverValidation';
+import { generateShortBarcodeData } from '../utils/barcodeUtils';
+import { parseCsv, toCsv } from '../utils/csvUtils';
+
+export type ImportFormat = 'csv' | 'fhir';
+
+// Upper bound on rows per import, a patient's full medication list fits easily
+export const MAX_IMPORT_ROWS = 100;
+
+export interface ImportRowError {
+  field: string;
+  message: string;
+}
+
+export interface ImportRow {
+  row: number;                 // 1-based data row (CSV) or bundle entry (FHIR)
+  body: Record<string, any>;   // Same shape as the addMedication request body
+  skipReason?: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  name?: string;
+  status: 'valid' | 'invalid' | 'skipped' | 'created';
+  errors?: ImportRowError[];
+  skipReason?: string;
+  medication?: Record<string, any>;
+  medicationId?: string;
+  barcodeData?: string;
+}
+
+// CSV template columns; list cells use ";" as separator
+const CSV_COLUMNS = [
+  'name',
+  'dosage',
+  'dosageUnit',
+  'frequency',
+  'timingRelation',
+  'times',
+  'intervalHours',
+  'daysOfWeek',
+  'everyNDays',
+  'isPRN',
+  'prnMaxDosesPer24h',
+  'prnMinIntervalHours',
+  'prnRequireReason',
+  'quantity',
+  'expiryDate',
+  'startDate',
+  'endDate',
+  'durationDays',
+  'instructions'
+] as const;
+
+// Fields a caregiver can fill in once for every row that leaves them out
+export const IMPORT_DEFAULT_FIELDS = ['expiryDate', 'quantity', 'timingRelation', 'startDate'] as const;
+
+const DAY_INDEX: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
+
+// FHIR / UCUM units back to the app's dosage units
+const UNIT_ALIASES: Record<string, string> = {
+  mg: 'mg',
+  g: 'g',
+  ml: 'ml',
+  '[drp]': 'drops',
+  drop: 'drops',
+  drops: 'drops',
+  tab: 'tablets',
+  tablet: 'tablets',
+  tablets: 'tablets',
+  '{tbl}': 'tablets',
+  cap: 'capsules',
+  capsule: 'capsules',
+  capsules: 'capsules',
+  puff: 'puffs',
+  puffs: 'puffs',
+  u: 'units',
+  '[iu]': 'units',
+  unit: 'units',
+  units: 'units'
+};
+
+const WHEN_TIMING_RELATION: Record<string, string> = {
+  AC: 'before_food', ACM: 'before_food', ACD: 'before_food', ACV: 'before_food',
+  PC: 'after_food', PCM: 'after_food', PCD: 'after_food', PCV: 'after_food',
+  C: 'with_food', CM: 'with_food', CD: 'with_food', CV: 'with_food'
+};
+
+const WHEN_MEAL: Record<string, string> = {
+  ACM: 'breakfast', PCM: 'breakfast', CM: 'breakfast',
+  ACD: 'lunch', PCD: 'lunch', CD: 'lunch',
+  ACV: 'dinner', PCV: 'dinner', CV: 'dinner'
+};
+
+const TIMING_RELATIONS = ['before_food', 'after_food', 'with_food', 'empty_stomach', 'anytime'];
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[\s_-]/g, '');
+
+const splitList = (value: string): string[] => value.split(';').map(item => item.trim()).filter(Boolean);
+
+const parseBoolean = (value: string): boolean | string => {
+  const normalized = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'n', '0'].includes(normalized)) return false;
+  return value; // Left for the validator to reject
+};
+
+const parseDay = (value: string): number | string => {
+  const day = DAY_INDEX[value.slice(0, 3).toLowerCase()];
+  return day !== undefined ? day : value;
+};
+
+const daysBetween = (start: string, end: string): number => {
+  return Math.round((Date.parse(end.slice(0, 10)) - Date.parse(start.slice(0, 10))) / (24 * 60 * 60 * 1000)) + 1;
+};
+
+class MedicationImportService {
+  /**
+   * Blank CSV template with one example row
+   */
+  getCsvTemplate(): string {
+    const example: Record<string, string> = {
+      name: 'Metformin',
+      dosage: '500',
+      dosageUnit: 'mg',
+      frequency: '2',
+      timingRelation: 'after_food',
+      quantity: '60',
+      expiryDate: '2027-12-31',
+      instructions: 'Take with a full glass of water'
+    };
+
+    return toCsv(CSV_COLUMNS.map(column => ({
+      header: column,
+      value: (row: Record<string, string>) => row[column]
+    })), [example]);
+  }
+
+  /**
+   * Turn CSV text into medication request bodies, one per data row
+   */
+  parseCsvRows(text: string): { rows: ImportRow[]; error?: string } {
+    const [header, ...records] = parseCsv(text);
+    if (!header) {
+      return { rows: [], error: 'The CSV file is empty' };
+    }
+
+    const columnIndex = new Map(header.map((column, index) => [normalizeHeader(column), index]));
+    if (!columnIndex.has('name')) {
+      return { rows: [], error: 'The CSV file must have a header row with at least a "name" column' };
+    }
+
+    const rows = records.map((record, index) => {
+      const cell = (column: typeof CSV_COLUMNS[number]): string | undefined => {
+        const position = columnIndex.get(normalizeHeader(column));
+        const value = position === undefined ? undefined : record[position]?.trim();
+        return value === '' ? undefined : value;
+      };
+
+      const body: Record<string, any> = {
+        name: cell('name'),
+        dosage: cell('dosage'),
+        dosageUnit: cell('dosageUnit')?.toLowerCase(),
+        frequency: cell('frequency'),
+        timingRelation: cell('timingRelation')?.toLowerCase(),
+        quantity: cell('quantity'),
+        expiryDate: cell('expiryDate'),
+        startDate: cell('startDate'),
+        endDate: cell('endDate'),
+        durationDays: cell('durationDays'),
+        instructions: cell('instructions')
+      };
+
+      const times = cell('times');
+      const intervalHours = cell('intervalHours');
+      const daysOfWeek = cell('daysOfWeek');
+      const everyNDays = cell('everyNDays');
+      if (times || intervalHours || daysOfWeek || everyNDays) {
+        body.schedule = times
+          ? { type: 'fixed_times', times: splitList(times) }
+          : intervalHours
+            ? { type: 'interval', intervalHours }
+            : { type: 'meal_anchored' };
+        if (daysOfWeek) body.schedule.daysOfWeek = splitList(daysOfWeek).map(parseDay);
+        if (everyNDays) body.schedule.everyNDays = everyNDays;
+      }
+
+      const isPRN = cell('isPRN');
+      if (isPRN !== undefined) {
+        body.isPRN = parseBoolean(isPRN);
+      }
+      if (body.isPRN === true) {
+        body.prn = {
+          maxDosesPer24h: cell('prnMaxDosesPer24h'),
+          minIntervalHours: cell('prnMinIntervalHours'),
+          requireReason: cell('prnRequireReason') !== undefined ? parseBoolean(cell('prnRequireReason')!) : undefined
+        };
+      }
+
+      return { row: index + 1, body: this.compact(body) };
+    });
+
+    return { rows };
+  }
+
+  /**
+   * Turn a FHIR Bundle of MedicationRequest resources into medication request bodies
+   */
+  parseFhirBundle(bundle: any): { rows: ImportRow[]; error?: string } {
+    if (!bundle || bundle.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+      return { rows: [], error: 'Expected a FHIR Bundle with entries' };
+    }
+
+    const rows: ImportRow[] = [];
+    bundle.entry.forEach((entry: any, index: number) => {
+      const resource = entry?.resource;
+      if (resource?.resourceType !== 'MedicationRequest') return;
+
+      const row = index + 1;
+      if (!['active', 'on-hold', 'draft'].includes(resource.status)) {
+        rows.push({ row, body: { name: resource.medicationCodeableConcept?.text }, skipReason: `Status is ${resource.status}` });
+        return;
+      }
+
+      rows.push({ row, body: this.compact(this.fromMedicationRequest(resource)) });
+    });
+
+    if (rows.length === 0) {
+      return { rows, error: 'The bundle does not contain any MedicationRequest resources' };
+    }
+
+    return { rows };
+  }
+
+  /**
+   * Check each row with the same rules as adding a single medication
+   */
+  async validateRows(
+    rows: ImportRow[],
+    patientUserId: string | mongoose.Types.ObjectId,
+    caregiverId: string | mongoose.Types.ObjectId,
+    defaults: Record<string, any> = {}
+  ): Promise<ImportRowResult[]> {
+    const results: ImportRowResult[] = [];
+
+    for (const row of rows) {
+      if (row.skipReason) {
+        results.push({ row: row.row, name: row.body.name, status: 'skipped', skipReason: row.skipReason });
+        continue;
+      }
+
+      IMPORT_DEFAULT_FIELDS.forEach(field => {
+        if (row.body[field] === undefined && defaults[field] !== undefined) {
+          row.body[field] = defaults[field];
+        }
+      });
+
+      // Run the express-validator chains against the row as if it were a request
+      const request: any = { body: row.body };
+      for (const chain of medicationValidation) {
+        await chain.run(request);
+      }
+
+      const errors: ImportRowError[] = validationResult(request).array().map((error: any) => ({
+        field: error.path || error.param || 'row',
+        message: error.msg
+      }));
+
+      // Model rules (schedule shape, dose plan, course) run on top
+      if (errors.length === 0) {
+        const medication = this.buildMedication(request.body, patientUserId, caregiverId);
+        try {
+          await medication.validate();
+        } catch (error: any) {
+          if (error.name !== 'ValidationError') throw error;
+          Object.values(error.errors).forEach((fieldError: any) => {
+            errors.push({ field: fieldError.path, message: fieldError.message });
+          });
+        }
+      }
+
+      results.push({
+        row: row.row,
+        name: row.body.name,
+        status: errors.length > 0 ? 'invalid' : 'valid',
+        errors: errors.length > 0 ? errors : undefined,
+        medication: errors.length > 0 ? undefined : this.preview(request.body)
+      });
+
+      row.body = request.body;
+    }
+
+    return results;
+  }
+
+  /**
+   * Create all valid rows with barcodes. Either every medication is created or none is.
+   */
+  async commitRows(
+    rows: ImportRow[],
+    results: ImportRowResult[],
+    patient: { userId: string | mongoose.Types.ObjectId; name: string },
+    caregiverId: string | mongoose.Types.ObjectId
+  ): Promise<ImportRowResult[]> {
+    const created: IMedication[] = [];
+
+    try {
+      for (const row of rows) {
+        const result = results.find(item => item.row === row.row);
+        if (!result || result.status !== 'valid') continue;
+
+        const medication = this.buildMedication(row.body, patient.userId, caregiverId);
+        medication.barcodeData = await generateShortBarcodeData(medication._id.toString());
+        await medication.save();
+        created.push(medication);
+
+        result.status = 'created';
+        result.medicationId = medication._id.toString();
+        result.barcodeData = medication.barcodeData;
+      }
+    } catch (error) {
+      // Roll back what was created so the import can simply be retried
+      await Medication.deleteMany({ _id: { $in: created.map(med => med._id) } });
+      throw error;
+    }
+
+    if (created.length > 0) {
+      await Activity.create({
+        type: 'medication_added',
+        patient: patient.userId,
+        caregiver: caregiverId,
+        message: `${created.length} medication${created.length === 1 ? '' : 's'} imported for ${patient.name}: ${created.map(med => med.name).join(', ')}`,
+        priority: 'low'
+      });
+    }
+
+    return results;
+  }
+
+  // Mirrors addMedication
+  private buildMedication(
+    body: Record<string, any>,
+    patientUserId: string | mongoose.Types.ObjectId,
+    caregiverId: string | mongoose.Types.ObjectId
+  ): IMedication {
+    return new Medication({
+      name: body.name,
+      dosage: body.dosage,
+      dosageUnit: body.dosageUnit,
+      frequency: body.frequency,
+      timingRelation: body.timingRelation,
+      schedule: body.schedule,
+      isPRN: body.isPRN || false,
+      prn: body.isPRN ? body.prn : undefined,
+      dosePlan: body.dosePlan,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      durationDays: body.durationDays,
+      totalQuantity: body.quantity,
+      remainingQuantity: body.quantity,
+      expiryDate: body.expiryDate,
+      instructions: body.instructions,
+      patient: patientUserId,
+      caregiver: caregiverId
+    });
+  }
+
+  private preview(body: Record<string, any>): Record<string, any> {
+    return {
+      name: body.name,
+      dosage: body.dosage,
+      dosageUnit: body.dosageUnit,
+      frequency: body.frequency,
+      timingRelation: body.timingRelation,
+      schedule: body.schedule,
+      isPRN: body.isPRN || false,
+      prn: body.prn,
+      dosePlan: body.dosePlan,
+      quantity: body.quantity,
+      expiryDate: body.expiryDate,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      durationDays: body.durationDays,
+      instructions: body.instructions
+    };
+  }
+
+  private fromMedicationRequest(resource: any): Record<string, any> {
+    const dosages: any[] = Array.isArray(resource.dosageInstruction) ? resource.dosageInstruction : [];
+    const first = dosages[0] || {};
+    const dose = this.fromQuantity(first.doseAndRate?.[0]?.doseQuantity);
+
+    const body: Record<string, any> = {
+      name: resource.medicationCodeableConcept?.text || resource.medicationCodeableConcept?.coding?.[0]?.display,
+      dosage: dose.value,
+      dosageUnit: dose.unit,
+      timingRelation: this.fromTimingRelation(first),
+      instructions: first.patientInstruction || resource.note?.[0]?.text,
+      quantity: resource.dispenseRequest?.quantity?.value,
+      startDate: resource.dispenseRequest?.validityPeriod?.start,
+      endDate: resource.dispenseRequest?.validityPeriod?.end
+    };
+
+    if (first.asNeededBoolean || first.asNeededCodeableConcept) {
+      body.isPRN = true;
+      body.prn = { maxDosesPer24h: this.fromMaxDosePerPeriod(first.maxDosePerPeriod) };
+      return body;
+    }
+
+    Object.assign(body, this.fromTiming(first.timing?.repeat));
+
+    // Sequenced dosages with bounds are the phases of a dose plan
+    const phases = dosages.filter(dosage => dosage.timing?.repeat?.boundsPeriod?.start);
+    if (phases.length > 1) {
+      const ordered = [...phases].sort((a, b) => (a.sequence || 0) - (b.sequence || 0));
+      body.dosePlan = {
+        startDate: ordered[0].timing.repeat.boundsPeriod.start,
+        phases: ordered.map(dosage => {
+          const phaseDose = this.fromQuantity(dosage.doseAndRate?.[0]?.doseQuantity);
+          const timing = this.fromTiming(dosage.timing.repeat);
+          const bounds = dosage.timing.repeat.boundsPeriod;
+          return this.compact({
+            dosage: phaseDose.value,
+            dosageUnit: phaseDose.unit !== body.dosageUnit ? phaseDose.unit : undefined,
+            frequency: timing.frequency,
+            schedule: timing.schedule,
+            durationDays: bounds.end ? daysBetween(bounds.start, bounds.end) : undefined,
+            instructions: dosage.patientInstruction
+          });
+        })
+      };
+    }
+
+    return body;
+  }
+
+  private fromQuantity(quantity: any): { value?: string; unit?: string } {
+    if (!quantity) return {};
+    const unit = String(quantity.code || quantity.unit || '').toLowerCase();
+    return {
+      value: quantity.value !== undefined ? String(quantity.value) : undefined,
+      unit: UNIT_ALIASES[unit] || UNIT_ALIASES[String(quantity.unit || '').toLowerCase()] || unit || undefined
+    };
+  }
+
+  private fromTimingRelation(dosage: any): string {
+    const when: string[] = dosage.timing?.repeat?.when || [];
+    const fromWhen = when.map(code => WHEN_TIMING_RELATION[code]).find(Boolean);
+    if (fromWhen) return fromWhen;
+
+    // Our own exports carry the relation as an additional instruction
+    const instruction = dosage.additionalInstruction?.[0]?.text?.toLowerCase().replace(/\s+/g, '_');
+    return TIMING_RELATIONS.includes(instruction) ? instruction : 'anytime';
+  }
+
+  private fromMaxDosePerPeriod(ratio: any): number | undefined {
+    const doses = ratio?.numerator?.value;
+    const period = ratio?.denominator;
+    if (!doses || !period?.value) return undefined;
+
+    const hours = ['d', 'day', 'days'].includes(period.code || period.unit) ? period.value * 24 : period.value;
+    return Math.floor((doses * 24) / hours);
+  }
+
+  private fromTiming(repeat: any): { frequency?: number; schedule?: Record<string, any> } {
+    if (!repeat) return {};
+
+    const result: { frequency?: number; schedule?: Record<string, any> } = {};
+    const frequency = repeat.frequency || 1;
+
+    if (Array.isArray(repeat.timeOfDay) && repeat.timeOfDay.length > 0) {
+      result.schedule = { type: 'fixed_times', times: repeat.timeOfDay.map((time: string) => time.slice(0, 5)) };
+    } else if (repeat.periodUnit === 'h' || repeat.periodUnit === 'min') {
+      const periodHours = repeat.periodUnit === 'min' ? repeat.period / 60 : repeat.period;
+      result.schedule = { type: 'interval', intervalHours: periodHours / frequency };
+    } else {
+      result.frequency = frequency;
+      const meals = (repeat.when || []).map((code: string) => WHEN_MEAL[code]).filter(Boolean);
+      if (meals.length > 0 && meals.length === frequency) {
+        result.schedule = { type: 'meal_anchored', meals };
+      }
+    }
+
+    if (repeat.periodUnit === 'd' && repeat.period > 1) {
+      result.schedule = { type: 'meal_anchored', ...result.schedule, everyNDays: repeat.period };
+    }
+    if (Array.isArray(repeat.dayOfWeek) && repeat.dayOfWeek.length > 0) {
+      result.schedule = {
+        type: 'meal_anchored',
+        ...result.schedule,
+        daysOfWeek: repeat.dayOfWeek.map((day: string) => DAY_INDEX[day])
+      };
+      if (repeat.periodUnit === 'wk') {
+        result.frequency = 1;
+      }
+    }
+
+    return result;
+  }
+
+  // Drop empty values so optional validators treat them as absent
+  private compact<T extends Record<string, any>>(value: T): T {
+    Object.keys(value).forEach(key => {
+      const item = value[key];
+      if (item === undefined || item === null || item === '') {
+        delete value[key];
+      } else if (typeof item === 'object' && !Array.isArray(item) && !(item instanceof Date)) {
+        this.compact(item);
+        if (Object.keys(item).length === 0) delete value[key];
+      }
+    });
+    return value;
+  }
+}
+
+export const medicationImportService = new MedicationImportService();
@@ -0,0 +1,287 @@
+import mongoose from 'mongoose';
+import NotificationOutbox, { INotificationOutbox } from '../models/NotificationOutbox';
+import PushSubscription from '../models/PushSubscription';
+import User from '../models/User';
+import { NotificationCategory } from '../models/NotificationPreference';
+import { notificationPreferenceService } from './notificationPreferenceService';
+import {
+  DeliveryChannel,
+  DeliveryPriority,
+  NotificationTransport,
+  OutboundMessage
+} from '../types/notification.types';
+import { EmailTransport } from './transports/emailTransport';
+import { SmsTransport } from './transports/smsTransport';
+import { PushTransport } from './transports/pushTransport';
+import { WebhookTransport } from './transports/webhookTransport';
+import { FakeTransport } from './transports/fakeTransport';
+import { createDeliveryError, isRetryableError } from './transports/transportUtils';
+import { resolveTimezone } from '../utils/timezoneUtils';
+import {
+  NOTIFICATION_TRANSPORT,
+  NOTIFICATION_WEBHOOK_URL,
+  OUTBOX_MAX_ATTEMPTS,
+  OUTBOX_RETRY_BASE_SECONDS,
+  OUTBOX_RETRY_MAX_MINUTES,
+  OUTBOX_RETENTION_DAYS,
+  OUTBOX_SENDING_TIMEOUT_MINUTES
+} from '../config/notifications';
+
+export interface EnqueueOptions {
+  channel: DeliveryChannel;
+  to: string;
+  subject?: string;
+  text: string;
+  html?: string;
+  data?: Record<string, unknown>;
+  user?: string | mongoose.Types.ObjectId;
+  category?: NotificationCategory;
+  priority?: DeliveryPriority;
+  maxAttempts?: number;
+  expiresAt?: Date; // Drop the message rather than deliver it after this
+}
+
+export interface UserNotification {
+  subject: string;
+  text: string;
+  html?: string;
+  data?: Record<string, unknown>;
+}
+
+export interface OutboxRunResult {
+  recovered: number;
+  attempted: number;
+  sent: number;
+  failed: number;
+}
+
+const PRIORITY_RANK: Record<DeliveryPriority, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+// Channels a user can receive notifications on outside the app, in delivery order
+const USER_CHANNELS = ['push', 'sms', 'email'] as const;
+
+class NotificationDispatcher {
+  private transports = new Map<DeliveryChannel, NotificationTransport>();
+
+  constructor() {
+    if (NOTIFICATION_TRANSPORT === 'fake') {
+      (['email', 'sms', 'push', 'webhook'] as const).forEach(channel => {
+        this.registerTransport(new FakeTransport(channel));
+      });
+    } else {
+      this.registerTransport(new EmailTransport());
+      this.registerTransport(new SmsTransport());
+      this.registerTransport(new PushTransport());
+      this.registerTransport(new WebhookTransport());
+    }
+  }
+
+  /**
+   * Use a transport for a channel, replacing the current one
+   */
+  registerTransport(transport: NotificationTransport): void {
+    this.transports.set(transport.channel, transport);
+  }
+
+  getTransport(channel: DeliveryChannel): NotificationTransport | undefined {
+    return this.transports.get(channel);
+  }
+
+  /**
+   * Persist a message in the outbox and try to send it straight away.
+   * Sending happens in the background: a failing provider never fails the
+   * caller, and the outbox job retries with backoff.
+   */
+  async enqueue(options: EnqueueOptions): Promise<INotificationOutbox> {
+    const entry = await NotificationOutbox.create({
+      channel: options.channel,
+      to: options.to,
+      user: options.user,
+      category: options.category,
+      subject: options.subject,
+      text: options.text,
+      html: options.html,
+      data: options.data,
+      priority: options.priority || 'medium',
+      maxAttempts: options.maxAttempts || OUTBOX_MAX_ATTEMPTS,
+      expiresAt: options.expiresAt,
+      nextAttemptAt: new Date()
+    });
+
+    setImmediate(() => {
+      this.deliver(entry._id).catch(error => {
+        console.error(`Outbox delivery error for ${entry._id}:`, error);
+      });
+    });
+
+    return entry;
+  }
+
+  /**
+   * Queue a notification for a user on every channel their preferences allow
+   * (push, SMS, email), plus the operator webhook when one is configured.
+   * In-app delivery is the activity feed and is not handled here.
+   */
+  async notifyUser(
+    userId: string | mongoose.Types.ObjectId,
+    category: NotificationCategory,
+    notification: UserNotification,
+    options: { priority?: DeliveryPriority; at?: Date } = {}
+  ): Promise<INotificationOutbox[]> {
+    const user = await User.findById(userId).select('email phoneNumber timezone');
+    if (!user) return [];
+
+    const priority = options.priority || 'medium';
+    const settings = await notificationPreferenceService.getSettings(user._id);
+    const context = { priority, timezone: resolveTimezone(user.timezone), at: options.at };
+    const entries: INotificationOutbox[] = [];
+
+    for (const channel of USER_CHANNELS) {
+      if (!notificationPreferenceService.allows(settings, category, channel, context)) continue;
+
+      let recipients: string[] = [];
+      if (channel === 'email' && user.email) {
+        recipients = [user.email];
+      } else if (channel === 'sms' && user.phoneNumber) {
+        recipients = [user.phoneNumber];
+      } else if (channel === 'push') {
+        const subscriptions = await PushSubscription.find({ user: user._id }).select('endpoint');
+        recipients = subscriptions.map(subscription => subscription.endpoint);
+      }
+
+      for (const to of recipients) {
+        entries.push(await this.enqueue({
+          channel,
+          to,
+          user: user._id,
+          category,
+          priority,
+          subject: notification.subject,
+          text: notification.text,
+          html: channel === 'email' ? notification.html : undefined,
+          data: notification.data
+        }));
+      }
+    }
+
+    if (NOTIFICATION_WEBHOOK_URL) {
+      entries.push(await this.enqueue({
+        channel: 'webhook',
+        to: NOTIFICATION_WEBHOOK_URL,
+        user: user._id,
+        category,
+        priority,
+        subject: notification.subject,
+        text: notification.text,
+        data: { ...notification.data, userId: user._id.toString(), category }
+      }));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Wait before the next attempt: doubles each time, capped, with a little jitter
+   */
+  getRetryDelayMs(attempts: number): number {
+    const base = OUTBOX_RETRY_BASE_SECONDS * 1000 * Math.pow(2, Math.max(0, attempts - 1));
+    const capped = Math.min(base, OUTBOX_RETRY_MAX_MINUTES * 60 * 1000);
+    return Math.round(capped * (1 + Math.random() * 0.2));
+  }
+
+  /**
+   * Make one delivery attempt for an outbox entry. The entry is claimed first
+   * so concurrent workers never send the same message twice. Entries past
+   * their expiry fail without being sent, and finished entries are scheduled
+   * for deletion.
+   */
+  async deliver(entryId: string | mongoose.Types.ObjectId, now: Date = new Date()): Promise<INotificationOutbox | null> {
+    const entry = await NotificationOutbox.findOneAndUpdate(
+      { _id: entryId, status: 'pending', nextAttemptAt: { $lte: now } },
+      { status: 'sending', lockedAt: now, $inc: { attempts: 1 } },
+      { new: true }
+    );
+    if (!entry) return null;
+
+    const transport = this.transports.get(entry.channel);
+    const message: OutboundMessage = {
+      id: entry._id.toString(),
+      channel: entry.channel,
+      to: entry.to,
+      subject: entry.subject,
+      text: entry.text,
+      html: entry.html,
+      data: entry.data,
+      priority: entry.priority
+    };
+
+    try {
+      if (entry.expiresAt && entry.expiresAt <= now) {
+        throw createDeliveryError('Expired before it could be delivered', false);
+      }
+      if (!transport) {
+        throw createDeliveryError(`No transport registered for ${entry.channel}`, false);
+      }
+
+      const result = await transport.send(message);
+      entry.status = 'sent';
+      entry.sentAt = new Date();
+      entry.providerMessageId = result.providerMessageId;
+      entry.lastError = undefined;
+    } catch (error) {
+      entry.lastError = error instanceof Error ? error.message : String(error);
+
+      const nextAttemptAt = new Date(now.getTime() + this.getRetryDelayMs(entry.attempts));
+      const expiresFirst = Boolean(entry.expiresAt && entry.expiresAt <= nextAttemptAt);
+
+      if (isRetryableError(error) && entry.attempts < entry.maxAttempts && !expiresFirst) {
+        entry.status = 'pending';
+        entry.nextAttemptAt = nextAttemptAt;
+      } else {
+        entry.status = 'failed';
+        console.error(`Notification ${entry._id} (${entry.channel}) failed after ${entry.attempts} attempt(s): ${entry.lastError}`);
+      }
+    }
+
+    if (entry.status !== 'pending') {
+      entry.purgeAt = new Date(now.getTime() + OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    }
+
+    entry.lockedAt = undefined;
+    return entry.save();
+  }
+
+  /**
+   * Send every outbox entry that is due, most urgent first. Entries left in
+   * 'sending' by a crashed worker are put back in the queue first.
+   */
+  async processDue(now: Date = new Date(), limit: number = 100): Promise<OutboxRunResult> {
+    const result: OutboxRunResult = { recovered: 0, attempted: 0, sent: 0, failed: 0 };
+
+    const stuck = await NotificationOutbox.updateMany(
+      { status: 'sending', lockedAt: { $lt: new Date(now.getTime() - OUTBOX_SENDING_TIMEOUT_MINUTES * 60000) } },
+      { status: 'pending', nextAttemptAt: now, $unset: { lockedAt: 1 } }
+    );
+    result.recovered = stuck.modifiedCount;
+
+    const due = await NotificationOutbox.find({ status: 'pending', nextAttemptAt: { $lte: now } })
+      .sort({ nextAttemptAt: 1 })
+      .limit(limit)
+      .select('priority');
+
+    due.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+
+    for (const { _id } of due) {
+      const entry = await this.deliver(_id, now);
+      if (!entry) continue;
+
+      result.attempted++;
+      if (entry.status === 'sent') result.sent++;
+      if (entry.status === 'failed') result.failed++;
+    }
+
+    return result;
+  }
+}
+
+export const notificationDispatcher = new NotificationDispatcher();
@@ -0,0 +1,239 @@
+import mongoose from 'mongoose';
+import NotificationPreference, {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationSettings,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS
+} from '../models/NotificationPreference';
+import { IActivity } from '../models/Activity';
+import { formatLocalTime, resolveTimezone } from '../utils/timezoneUtils';
+import { DOSE_REMINDER_LEAD_MINUTES } from '../config/reminders';
+
+// Activities kept as records when a user deletes them from their feed
+const DOSE_RECORD_TYPES: IActivity['type'][] = ['dose_taken'];
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  categories: {
+    medicationReminders: true,
+    refillReminders: true,
+    adherenceAlerts: true,
+    sosAlerts: true,
+    doseConfirmations: true,
+    medicationChanges: true,
+    connectionRequests: true
+  },
+  channels: {
+    inApp: true,
+    email: true,
+    push: true,
+    sms: false
+  },
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00'
+  },
+  digestFrequency: 'none',
+  reminderLeadMinutes: DOSE_REMINDER_LEAD_MINUTES
+};
+
+// Which preference category each activity type is delivered under
+const ACTIVITY_CATEGORIES: Record<IActivity['type'], NotificationCategory> = {
+  dose_taken: 'doseConfirmations',
+  dose_missed: 'adherenceAlerts',
+  low_stock: 'refillReminders',
+  sos_alert: 'sosAlerts',
+  medication_added: 'medicationChanges',
+  medication_paused: 'medicationChanges',
+  medication_completed: 'medicationChanges',
+  medication_updated: 'medicationChanges',
+  medication_resumed: 'medicationChanges',
+  medication_archived: 'medicationChanges',
+  medication_restored: 'medicationChanges',
+  dose_reminder: 'medicationReminders',
+  sos_escalated: 'sosAlerts',
+  sos_acknowledged: 'sosAlerts',
+  sos_resolved: 'sosAlerts',
+  sos_cancelled: 'sosAlerts',
+  connection_requested: 'connectionRequests',
+  connection_accepted: 'connectionRequests',
+  connection_declined: 'connectionRequests',
+  care_role_changed: 'connectionRequests',
+  consent_changed: 'connectionRequests',
+  handover_requested: 'connectionRequests',
+  handover_completed: 'connectionRequests',
+  handover_declined: 'connectionRequests'
+};
+
+interface DeliveryContext {
+  priority?: IActivity['priority'];
+  timezone?: string;
+  at?: Date;
+}
+
+type UserId = string | mongoose.Types.ObjectId;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+class NotificationPreferenceService {
+  /**
+   * Stored settings for a user, with defaults filled in for anything not saved yet
+   */
+  async getSettings(userId: UserId): Promise<NotificationSettings> {
+    const preference = await NotificationPreference.findOne({ user: userId }).lean();
+    if (!preference) {
+      return DEFAULT_NOTIFICATION_SETTINGS;
+    }
+
+    return {
+      categories: { ...DEFAULT_NOTIFICATION_SETTINGS.categories, ...preference.categories },
+      channels: { ...DEFAULT_NOTIFICATION_SETTINGS.channels, ...preference.channels },
+      quietHours: { ...DEFAULT_NOTIFICATION_SETTINGS.quietHours, ...preference.quietHours },
+      digestFrequency: preference.digestFrequency || DEFAULT_NOTIFICATION_SETTINGS.digestFrequency,
+      reminderLeadMinutes: preference.reminderLeadMinutes?.length
+        ? preference.reminderLeadMinutes
+        : DEFAULT_NOTIFICATION_SETTINGS.reminderLeadMinutes
+    };
+  }
+
+  /**
+   * Save a partial update. Only the keys present in the update are changed.
+   */
+  async updateSettings(userId: UserId, updates: Partial<{
+    categories: Partial<NotificationSettings['categories']>;
+    channels: Partial<NotificationSettings['channels']>;
+    quietHours: Partial<NotificationSettings['quietHours']>;
+    digestFrequency: NotificationSettings['digestFrequency'];
+    reminderLeadMinutes: number[];
+  }>): Promise<NotificationSettings> {
+    const $set: Record<string, unknown> = {};
+
+    for (const category of NOTIFICATION_CATEGORIES) {
+      if (updates.categories?.[category] !== undefined) {
+        $set[`categories.${category}`] = updates.categories[category];
+      }
+    }
+    for (const channel of NOTIFICATION_CHANNELS) {
+      if (updates.channels?.[channel] !== undefined) {
+        $set[`channels.${channel}`] = updates.channels[channel];
+      }
+    }
+    for (const key of ['enabled', 'start', 'end'] as const) {
+      if (updates.quietHours?.[key] !== undefined) {
+        $set[`quietHours.${key}`] = updates.quietHours[key];
+      }
+    }
+    if (updates.digestFrequency !== undefined) {
+      $set.digestFrequency = updates.digestFrequency;
+    }
+    if (updates.reminderLeadMinutes !== undefined) {
+      $set.reminderLeadMinutes = [...new Set(updates.reminderLeadMinutes)].sort((a, b) => b - a);
+    }
+
+    await NotificationPreference.findOneAndUpdate(
+      { user: userId },
+      { $set, $setOnInsert: { user: userId } },
+      { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    return this.getSettings(userId);
+  }
+
+  getActivityCategory(type: IActivity['type']): NotificationCategory {
+    return ACTIVITY_CATEGORIES[type];
+  }
+
+  /**
+   * Whether an instant falls inside the user's quiet hours, in their local time
+   */
+  isQuietTime(settings: NotificationSettings, timezone?: string, at: Date = new Date()): boolean {
+    const { enabled, start, end } = settings.quietHours;
+    if (!enabled || start === end) return false;
+
+    const now = toMinutes(formatLocalTime(at, resolveTimezone(timezone)));
+    const startMinutes = toMinutes(start);
+    const endMinutes = toMinutes(end);
+
+    return startMinutes < endMinutes
+      ? now >= startMinutes && now < endMinutes
+      : now >= startMinutes || now < endMinutes;
+  }
+
+  /**
+   * Decide whether a notification in a category may go out on a channel.
+   * Critical notifications (SOS) always reach the in-app feed and ignore
+   * quiet hours; everything else follows the user's toggles, and quiet
+   * hours hold back the interruptive channels (email, push, SMS).
+   */
+  allows(
+    settings: NotificationSettings,
+    category: NotificationCategory,
+    channel: NotificationChannel,
+    context: DeliveryContext = {}
+  ): boolean {
+    const isCritical = context.priority === 'critical';
+
+    if (channel === 'inApp' && isCritical) return true;
+    if (!settings.channels[channel] || !settings.categories[category]) return false;
+    if (channel === 'inApp' || isCritical) return true;
+
+    return !this.isQuietTime(settings, context.timezone, context.at);
+  }
+
+  async shouldNotify(
+    userId: UserId,
+    category: NotificationCategory,
+    channel: NotificationChannel,
+    context: DeliveryContext = {}
+  ): Promise<boolean> {
+    const settings = await this.getSettings(userId);
+    return this.allows(settings, category, channel, context);
+  }
+
+  /**
+   * Recipients of an activity (patient and caregiver) who have switched off
+   * in-app notifications for its category. The activity is still recorded
+   * for history; it is just left out of their notification feed.
+   */
+  async getMutedRecipients(activity: Pick<IActivity, 'type' | 'priority' | 'patient' | 'caregiver'>): Promise<mongoose.Types.ObjectId[]> {
+    const category = this.getActivityCategory(activity.type);
+    const recipients = [activity.patient, activity.caregiver].filter(Boolean);
+    const muted: mongoose.Types.ObjectId[] = [];
+
+    for (const recipient of recipients) {
+      if (muted.some(userId => userId.equals(recipient))) continue;
+
+      const allowed = await this.shouldNotify(recipient, category, 'inApp', { priority: activity.priority });
+      if (!allowed) {
+        muted.push(new mongoose.Types.ObjectId(recipient.toString()));
+      }
+    }
+
+    return muted;
+  }
+
+  /**
+   * Take activities out of a user's notification feed, returning how many went.
+   * Taken doses are only muted for the user: they are the dose record that
+   * as-needed limits and the dose history are counted from.
+   */
+  async dismissActivities(userId: UserId, filter: mongoose.FilterQuery<IActivity>): Promise<number> {
+    // Looked up by name: the Activity model checks preferences through this service
+    const Activity = mongoose.model<IActivity>('Activity');
+    const [muted, deleted] = await Promise.all([
+      Activity.updateMany(
+        { ...filter, type: { $in: DOSE_RECORD_TYPES }, mutedFor: { $ne: userId } },
+        { $addToSet: { mutedFor: userId } }
+      ),
+      Activity.deleteMany({ ...filter, type: { $nin: DOSE_RECORD_TYPES } })
+    ]);
+
+    return muted.modifiedCount + deleted.deletedCount;
+  }
+}
+
+export const notificationPreferenceService = new NotificationPreferenceService();
@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import PatientProfile from '../models/PatientProfile';
+
+type UserId = mongoose.Types.ObjectId | string;
+
+export interface MedicalProfile {
+  medicalHistory: string[];
+  allergies: string[];
+  updatedAt: Date | null;
+}
+
+export interface MedicalProfileChanges {
+  medicalHistory?: string[];
+  allergies?: string[];
+}
+
+class PatientProfileService {
+  /**
+   * A patient's medical history and allergies; empty until someone records them
+   */
+  async get(patientUserId: UserId): Promise<MedicalProfile> {
+    const profile = await PatientProfile.findOne({ patient: patientUserId });
+    return {
+      medicalHistory: profile?.medicalHistory || [],
+      allergies: profile?.allergies || [],
+      updatedAt: profile?.updatedAt || null
+    };
+  }
+
+  /**
+   * Replace the lists that were given, leaving the others as they are
+   */
+  async update(patientUserId: UserId, changes: MedicalProfileChanges, updatedBy: UserId): Promise<MedicalProfile> {
+    const updates: Record<string, unknown> = { updatedBy };
+    if (changes.medicalHistory !== undefined) updates.medicalHistory = changes.medicalHistory;
+    if (changes.allergies !== undefined) updates.allergies = changes.allergies;
+
+    const profile = await PatientProfile.findOneAndUpdate(
+      { patient: patientUserId },
+      updates,
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    return {
+      medicalHistory: profile.medicalHistory,
+      allergies: profile.allergies,
+      updatedAt: profile.updatedAt
+    };
+  }
+}
+
+export const patientProfileService = new PatientProfileService();
@@ -0,0 +1,401 @@
+import mongoose from 'mongoose';
+import SosIncident, { ISosIncident, ISosEscalationStep, ISosTimelineEntry, SosRouting, OPEN_SOS_STATUSES } from '../models/SosIncident';
+import Activity, { IActivity } from '../models/Activity';
+import Patient from '../models/Patient';
+import User from '../models/User';
+import { notificationDispatcher } from './notificationDispatcher';
+import { emergencyContactService } from './emergencyContactService';
+import { careTeamService } from './careTeamService';
+import { careConsentService } from './careConsentService';
+import { SOS_ESCALATION_MINUTES, SOS_ON_CALL_EMAIL } from '../config/sos';
+
+type UserId = mongoose.Types.ObjectId | string;
+
+interface SosPerson {
+  _id: UserId;
+  name: string;
+}
+
+export interface RaiseSosOptions {
+  message: string;
+  location?: any;
+  severity?: string;
+}
+
+// Statuses in which nobody has taken the alert on yet
+const UNACKNOWLEDGED_STATUSES = ['raised', 'escalated'];
+
+const ROUTING_BY_FIRST_STEP: Record<ISosEscalationStep['kind'], SosRouting> = {
+  caregiver: 'caregiver',
+  on_call: 'on_call',
+  emergency_contact: 'emergency_contacts'
+};
+
+const STEP_LABELS: Record<ISosEscalationStep['kind'], string> = {
+  caregiver: 'caregiver',
+  on_call: 'on-call team',
+  emergency_contact: 'emergency contact'
+};
+
+class SosIncidentService {
+  /**
+   * Who to alert, in order: the patient's primary caregiver, their secondary
+   * caregivers in the order they connected, then their verified emergency
+   * contacts who opted into SOS alerts, with the primary contact first.
+   * Viewers on the care team, and caregivers the patient does not share
+   * emergency alerts with, are not asked to respond.
+   * A patient with no caregiver who can respond goes to the on-call account first, when one
+   * is configured; alerts are never handed to an unrelated caregiver.
+   */
+  async buildEscalationChain(patient: SosPerson): Promise<ISosEscalationStep[]> {
+    const [records, contacts, withoutConsent] = await Promise.all([
+      Patient.find({ patient: patient._id }).sort({ createdAt: 1 }).select('caregiver careRole'),
+      emergencyContactService.getAlertRecipients(patient._id, 'sos'),
+      careConsentService.getBlockedCaregiverIds(patient._id, 'sos_location')
+    ]);
+
+    const responders = records
+      .filter(record => careTeamService.hasPermission(record.careRole, 'respondToAlerts'))
+      .filter(record => !withoutConsent.includes(record.caregiver.toString()))
+      .sort((a, b) => Number(b.careRole === 'primary') - Number(a.careRole === 'primary'));
+    const caregiverIds = [...new Set(responders.map(record => record.caregiver.toString()))];
+    const caregivers = await User.find({ _id: { $in: caregiverIds }, role: 'caregiver' }).select('name');
+    const caregiversById = new Map(caregivers.map(caregiver => [caregiver._id.toString(), caregiver]));
+
+    const caregiverSteps: ISosEscalationStep[] = caregiverIds
+      .filter(caregiverId => caregiversById.has(caregiverId))
+      .map(caregiverId => ({
+        kind: 'caregiver',
+        caregiver: new mongoose.Types.ObjectId(caregiverId),
+        name: caregiversById.get(caregiverId)!.name,
+        channels: []
+      }));
+
+    const contactSteps: ISosEscalationStep[] = contacts.map(contact => ({
+      kind: 'emergency_contact',
+      emergencyContact: new mongoose.Types.ObjectId(contact._id),
+      name: contact.name,
+      phoneNumber: contact.phoneNumber,
+      channels: []
+    }));
+
+    if (caregiverSteps.length === 0) {
+      const onCall = await this.getOnCallAccount();
+      if (onCall) {
+        caregiverSteps.push({
+          kind: 'on_call',
+          caregiver: new mongoose.Types.ObjectId(onCall._id),
+          name: onCall.name,
+          channels: []
+        });
+      }
+    }
+
+    return [...caregiverSteps, ...contactSteps];
+  }
+
+  /**
+   * The configured on-call organisation account, if there is one
+   */
+  async getOnCallAccount() {
+    if (!SOS_ON_CALL_EMAIL) return null;
+
+    const account = await User.findOne({ email: SOS_ON_CALL_EMAIL, role: 'caregiver' }).select('name');
+    if (!account) {
+      console.warn(`SOS on-call account ${SOS_ON_CALL_EMAIL} not found; unassigned alerts go to emergency contacts only`);
+    }
+    return account;
+  }
+
+  /**
+   * Open an incident for a patient's SOS and alert the first person in the chain.
+   * The escalation job alerts the next one if nobody acknowledges in time.
+   */
+  async raise(patient: SosPerson, options: RaiseSosOptions, now: Date = new Date()): Promise<ISosIncident> {
+    const chain = await this.buildEscalationChain(patient);
+    const primary = chain.find(step => step.caregiver);
+
+    const incident = new SosIncident({
+      patient: patient._id,
+      caregiver: primary?.caregiver,
+      status: 'raised',
+      routing: chain.length > 0 ? ROUTING_BY_FIRST_STEP[chain[0].kind] : 'unassigned',
+      message: options.message,
+      severity: options.severity || 'critical',
+      location: options.location,
+      escalationChain: chain,
+      timeline: [{
+        type: 'raised',
+        at: now,
+        actor: patient._id,
+        actorName: patient.name,
+        actorRole: 'patient',
+        note: options.message
+      }]
+    });
+
+    if (primary) {
+      const activity = await this.recordActivity(incident, 'sos_alert', primary.caregiver!, options.message, 'critical');
+      incident.activity = activity._id as any;
+    }
+
+    if (chain.length > 0) {
+      incident.escalationLevel = 0;
+      await this.alertStep(incident, 0, patient.name, now);
+    }
+
+    return incident.save();
+  }
+
+  /**
+   * Alert the next person in the chain for an incident nobody has acknowledged.
+   * The step is claimed first, so overlapping runs never alert anyone twice.
+   * Returns null when the incident was acknowledged or escalated in the meantime.
+   */
+  async escalate(incident: ISosIncident, now: Date = new Date()): Promise<ISosIncident | null> {
+    const level = incident.escalationLevel + 1;
+    if (level >= incident.escalationChain.length) return null;
+
+    const claimed = await SosIncident.findOneAndUpdate(
+      {
+        _id: incident._id,
+        status: { $in: UNACKNOWLEDGED_STATUSES },
+        escalationLevel: incident.escalationLevel,
+        nextEscalationAt: { $lte: now }
+      },
+      { $set: { status: 'escalated', escalationLevel: level }, $unset: { nextEscalationAt: 1 } },
+      { new: true }
+    );
+    if (!claimed) return null;
+
+    const patient = await User.findById(claimed.patient).select('name');
+    await this.alertStep(claimed, level, patient?.name || 'A patient', now);
+
+    return claimed.save();
+  }
+
+  /**
+   * A caregiver confirms they have seen the alert and are responding; escalation stops
+   */
+  async acknowledge(incident: ISosIncident, caregiver: SosPerson, now: Date = new Date()): Promise<ISosIncident | null> {
+    const updated = await SosIncident.findOneAndUpdate(
+      { _id: incident._id, status: { $in: UNACKNOWLEDGED_STATUSES } },
+      {
+        $set: { status: 'acknowledged', acknowledgedBy: caregiver._id, acknowledgedAt: now },
+        $unset: { nextEscalationAt: 1 },
+        $push: { timeline: this.entry('acknowledged', now, caregiver, 'caregiver') }
+      },
+      { new: true }
+    );
+    if (!updated) return null;
+
+    await this.recordActivity(updated, 'sos_acknowledged', caregiver._id, `${caregiver.name} has seen the emergency alert and is responding`, 'high');
+
+    try {
+      await notificationDispatcher.notifyUser(updated.patient, 'sosAlerts', {
+        subject: 'Help is on the way',
+        text: `${caregiver.name} has seen your emergency alert and is responding.`,
+        data: { type: 'sos_acknowledged', incidentId: updated._id.toString() }
+      }, { priority: 'critical', at: now });
+    } catch (error) {
+      console.error('Failed to queue SOS acknowledgement notification:', error);
+    }
+
+    return updated;
+  }
+
+  /**
+   * A caregiver closes the incident once the patient is safe
+   */
+  async resolve(incident: ISosIncident, caregiver: SosPerson, note?: string, now: Date = new Date()): Promise<ISosIncident | null> {
+    const updated = await SosIncident.findOneAndUpdate(
+      { _id: incident._id, status: { $in: OPEN_SOS_STATUSES } },
+      {
+        $set: { status: 'resolved', resolvedBy: caregiver._id, resolvedAt: now, resolutionNote: note },
+        $unset: { nextEscalationAt: 1 },
+        $push: { timeline: this.entry('resolved', now, caregiver, 'caregiver', note) }
+      },
+      { new: true }
+    );
+    if (!updated) return null;
+
+    const patient = await User.findById(updated.patient).select('name');
+    const patientName = patient?.name || 'The patient';
+
+    await this.recordActivity(updated, 'sos_resolved', caregiver._id, `${caregiver.name} marked the emergency alert as resolved`, 'medium');
+    await this.notifyStandDown(
+      updated,
+      `Update: ${patientName}'s emergency alert has been resolved by ${caregiver.name}. No further action is needed.`,
+      caregiver._id
+    );
+
+    return updated;
+  }
+
+  /**
+   * The patient withdraws an alert raised by mistake
+   */
+  async cancel(incident: ISosIncident, patient: SosPerson, reason?: string, now: Date = new Date()): Promise<ISosIncident | null> {
+    const updated = await SosIncident.findOneAndUpdate(
+      { _id: incident._id, status: { $in: OPEN_SOS_STATUSES } },
+      {
+        $set: { status: 'cancelled', cancelledAt: now, cancelReason: reason },
+        $unset: { nextEscalationAt: 1 },
+        $push: { timeline: this.entry('cancelled', now, patient, 'patient', reason) }
+      },
+      { new: true }
+    );
+    if (!updated) return null;
+
+    if (updated.caregiver) {
+      await this.recordActivity(updated, 'sos_cancelled', updated.caregiver, `${patient.name} cancelled the emergency alert as a false alarm`, 'high');
+    }
+    await this.notifyStandDown(
+      updated,
+      `Update: ${patient.name} cancelled their emergency alert as a false alarm. No further action is needed.`
+    );
+
+    return updated;
+  }
+
+  /**
+   * Send the alert to one step of the chain, record it on the timeline and
+   * schedule the next escalation. The caller saves the incident.
+   */
+  private async alertStep(incident: ISosIncident, index: number, patientName: string, now: Date): Promise<void> {
+    const step = incident.escalationChain[index];
+    const channels: string[] = [];
+    const data = {
+      type: 'sos_alert',
+      incidentId: incident._id.toString(),
+      patientId: incident.patient.toString(),
+      location: incident.location
+    };
+
+    try {
+      if (step.caregiver) {
+        // The first account alerted already has the sos_alert activity in their feed
+        if (index > 0) {
+          await this.recordActivity(incident, 'sos_escalated', step.caregiver!, `Emergency alert from ${patientName} has not been acknowledged: ${incident.message}`, 'critical');
+        }
+        channels.push('inApp');
+
+        const queued = await notificationDispatcher.notifyUser(step.caregiver!, 'sosAlerts', {
+          subject: `SOS: ${patientName} needs help`,
+          text: `${patientName} sent an emergency alert: ${incident.message}`,
+          data
+        }, { priority: 'critical', at: now });
+
+        queued.forEach(entry => {
+          if (entry.channel !== 'webhook' && !channels.includes(entry.channel)) {
+            channels.push(entry.channel);
+          }
+        });
+      } else {
+        await notificationDispatcher.enqueue({
+          channel: 'sms',
+          to: step.phoneNumber!,
+          category: 'sosAlerts',
+          priority: 'critical',
+          text: `MediTracker emergency alert: ${patientName} needs help${index > 0 ? ' and nobody has responded yet' : ''}. "${incident.message}"${this.describeLocation(incident.location)}. Please check on them or call emergency services. Live status: ${emergencyContactService.getStatusLink(incident._id.toString(), step.emergencyContact!.toString(), now)}`,
+          data
+        });
+        channels.push('sms');
+
+        if (incident.caregiver) {
+          await this.recordActivity(incident, 'sos_escalated', incident.caregiver, `Emergency alert escalated to ${step.name}, ${patientName}'s emergency contact`, 'critical');
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to alert ${step.kind} for SOS incident ${incident._id}:`, error);
+    }
+
+    step.notifiedAt = now;
+    step.channels = channels;
+    incident.timeline.push({
+      type: index === 0 ? 'notified' : 'escalated',
+      at: now,
+      actorRole: 'system',
+      note: `Alerted ${step.name} (${STEP_LABELS[step.kind]})${channels.length > 0 ? ` by ${channels.join(', ')}` : ''}`
+    });
+
+    incident.nextEscalationAt = index < incident.escalationChain.length - 1
+      ? new Date(now.getTime() + SOS_ESCALATION_MINUTES * 60000)
+      : undefined;
+  }
+
+  /**
+   * Tell everyone already alerted that the incident is over
+   */
+  private async notifyStandDown(incident: ISosIncident, text: string, exceptUserId?: UserId): Promise<void> {
+    const alerted = incident.escalationChain.filter(step =>
+      step.notifiedAt && !(step.caregiver && exceptUserId && step.caregiver.toString() === exceptUserId.toString())
+    );
+
+    for (const step of alerted) {
+      try {
+        if (step.caregiver) {
+          await notificationDispatcher.notifyUser(step.caregiver, 'sosAlerts', {
+            subject: 'Emergency alert closed',
+            text,
+            data: { type: `sos_${incident.status}`, incidentId: incident._id.toString() }
+          }, { priority: 'high' });
+        } else {
+          await notificationDispatcher.enqueue({
+            channel: 'sms',
+            to: step.phoneNumber!,
+            category: 'sosAlerts',
+            priority: 'high',
+            text: `MediTracker: ${text}`
+          });
+        }
+      } catch (error) {
+        console.error(`Failed to notify ${step.name} that SOS incident ${incident._id} is closed:`, error);
+      }
+    }
+  }
+
+  private async recordActivity(
+    incident: ISosIncident,
+    type: IActivity['type'],
+    caregiverId: UserId,
+    message: string,
+    priority: IActivity['priority']
+  ): Promise<IActivity> {
+    return Activity.create({
+      type,
+      patient: incident.patient,
+      caregiver: caregiverId,
+      message,
+      priority,
+      metadata: {
+        alertType: 'sos',
+        severity: incident.severity,
+        sosIncident: incident._id
+      }
+    });
+  }
+
+  private entry(type: ISosTimelineEntry['type'], at: Date, actor: SosPerson, actorRole: ISosTimelineEntry['actorRole'], note?: string): ISosTimelineEntry {
+    return {
+      type,
+      at,
+      actor: new mongoose.Types.ObjectId(actor._id.toString()),
+      actorName: actor.name,
+      actorRole,
+      note
+    };
+  }
+
+  private describeLocation(location: any): string {
+    if (!location) return '';
+    if (typeof location === 'string') return `. Location: ${location}`;
+    if (location.address) return `. Location: ${location.address}`;
+    if (location.latitude !== undefined && location.longitude !== undefined) {
+      return `. Location: https://maps.google.com/?q=${location.latitude},${location.longitude}`;
+    }
+    return '';
+  }
+}
+
+export const sosIncidentService = new SosIncidentService();
@@ -0,0 +1,38 @@
+import nodemailer from 'nodemailer';
+import { NotificationTransport, OutboundMessage, DeliveryResult } from '../../types/notification.types';
+import { createDeliveryError } from './transportUtils';
+
+/**
+ * Email over SMTP (nodemailer)
+ */
+export class EmailTransport implements NotificationTransport {
+  readonly channel = 'email' as const;
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      service: process.env.EMAIL_SERVICE || 'gmail',
+      auth: {
+        user: process.env.EMAIL_USER,
+        pass: process.env.EMAIL_PASSWORD,
+      },
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: `MediTracker <${process.env.EMAIL_USER}>`,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      return { providerMessageId: info.messageId };
+    } catch (error: any) {
+      // Permanent SMTP rejections (5xx) will not succeed on retry
+      const retryable = !(typeof error?.responseCode === 'number' && error.responseCode >= 500);
+      throw createDeliveryError(`SMTP send failed: ${error?.message || error}`, retryable);
+    }
+  }
+}
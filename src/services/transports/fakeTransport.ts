@@ -0,0 +1,33 @@
+import { DeliveryChannel, NotificationTransport, OutboundMessage, DeliveryResult } from '../../types/notification.types';
+import { createDeliveryError } from './transportUtils';
+
+/**
+ * In-memory transport for local development and tests. Records every
+ * message it is given and can be told to fail the next few sends.
+ */
+export class FakeTransport implements NotificationTransport {
+  readonly sent: OutboundMessage[] = [];
+  private failures: { count: number; retryable: boolean } = { count: 0, retryable: true };
+
+  constructor(readonly channel: DeliveryChannel) {}
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    if (this.failures.count > 0) {
+      this.failures.count--;
+      throw createDeliveryError(`Simulated ${this.channel} failure`, this.failures.retryable);
+    }
+
+    this.sent.push(message);
+    console.log(`[fake ${this.channel}] to ${message.to}: ${message.subject || message.text}`);
+    return { providerMessageId: `fake-${this.channel}-${this.sent.length}` };
+  }
+
+  failNext(count: number = 1, retryable: boolean = true): void {
+    this.failures = { count, retryable };
+  }
+
+  reset(): void {
+    this.sent.length = 0;
+    this.failures = { count: 0, retryable: true };
+  }
+}
@@ -0,0 +1,76 @@
+import PushSubscription from '../../models/PushSubscription';
+import { NotificationTransport, OutboundMessage, DeliveryResult } from '../../types/notification.types';
+import { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT, TRANSPORT_TIMEOUT_MS, PUSH_SERVICE_HOSTS } from '../../config/notifications';
+import { encryptPushPayload, createVapidAuthorization, isPushServiceEndpoint } from '../../utils/webPushUtils';
+import { createDeliveryError } from './transportUtils';
+
+// How long the push service should keep an undelivered message (seconds)
+const PUSH_TTL_SECONDS = 4 * 60 * 60;
+
+/**
+ * Web push (RFC 8030) to a stored browser subscription, encrypted per RFC 8291
+ * and authenticated with VAPID. The outbox entry's recipient is the endpoint.
+ */
+export class PushTransport implements NotificationTransport {
+  readonly channel = 'push' as const;
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) {
+      throw createDeliveryError('Web push is not configured', false);
+    }
+
+    const subscription = await PushSubscription.findOne({ endpoint: message.to });
+    if (!subscription) {
+      throw createDeliveryError('Push subscription no longer exists', false);
+    }
+
+    // Subscriptions stored before endpoints were checked, or after the allowed hosts changed
+    if (!isPushServiceEndpoint(subscription.endpoint, PUSH_SERVICE_HOSTS)) {
+      throw createDeliveryError('Push endpoint is not on a supported push service', false);
+    }
+
+    const payload = Buffer.from(JSON.stringify({
+      title: message.subject || 'MediTracker',
+      body: message.text,
+      data: { ...message.data, notificationId: message.id }
+    }));
+
+    let response: Response;
+    try {
+      response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers: {
+          'Authorization': createVapidAuthorization(
+            subscription.endpoint,
+            { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY },
+            VAPID_SUBJECT
+          ),
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          'TTL': String(PUSH_TTL_SECONDS),
+          'Urgency': message.priority === 'critical' || message.priority === 'high' ? 'high' : 'normal'
+        },
+        body: encryptPushPayload(payload, subscription.keys),
+        signal: AbortSignal.timeout(TRANSPORT_TIMEOUT_MS)
+      });
+    } catch (error) {
+      throw createDeliveryError(`Push service request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    // The browser unsubscribed; stop sending to this endpoint
+    if (response.status === 404 || response.status === 410) {
+      await PushSubscription.deleteOne({ _id: subscription._id });
+      throw createDeliveryError('Push subscription has expired', false);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw createDeliveryError(`Push service responded ${response.status}`, retryable);
+    }
+
+    subscription.lastUsedAt = new Date();
+    await subscription.save();
+
+    return { providerMessageId: response.headers.get('location') || undefined };
+  }
+}
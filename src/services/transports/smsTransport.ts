@@ -0,0 +1,38 @@
+import { NotificationTransport, OutboundMessage, DeliveryResult } from '../../types/notification.types';
+import { SMS_API_BASE_URL, SMS_ACCOUNT_SID, SMS_AUTH_TOKEN, SMS_FROM_NUMBER } from '../../config/notifications';
+import { createDeliveryError, postToProvider } from './transportUtils';
+
+// SMS bodies longer than this are split by carriers into many billed segments
+const MAX_SMS_LENGTH = 480;
+
+/**
+ * SMS through a Twilio-compatible Messages API
+ */
+export class SmsTransport implements NotificationTransport {
+  readonly channel = 'sms' as const;
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    if (!SMS_ACCOUNT_SID || !SMS_AUTH_TOKEN || !SMS_FROM_NUMBER) {
+      throw createDeliveryError('SMS provider is not configured', false);
+    }
+
+    const body = message.text.length > MAX_SMS_LENGTH
+      ? `${message.text.slice(0, MAX_SMS_LENGTH - 1)}…`
+      : message.text;
+
+    const response = await postToProvider(
+      `${SMS_API_BASE_URL}/2010-04-01/Accounts/${SMS_ACCOUNT_SID}/Messages.json`,
+      {
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${SMS_ACCOUNT_SID}:${SMS_AUTH_TOKEN}`).toString('base64')}`,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body: new URLSearchParams({ To: message.to, From: SMS_FROM_NUMBER, Body: body }).toString()
+      },
+      'SMS provider'
+    );
+
+    const result = await response.json().catch(() => ({})) as { sid?: string };
+    return { providerMessageId: result.sid };
+  }
+}
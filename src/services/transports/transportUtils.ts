@@ -0,0 +1,43 @@
+import { TRANSPORT_TIMEOUT_MS } from '../../config/notifications';
+
+/**
+ * Error from a transport. Non-retryable errors (bad address, revoked
+ * subscription, rejected credentials) fail the outbox entry straight away.
+ */
+export const createDeliveryError = (message: string, retryable: boolean = true): Error => {
+  return Object.assign(new Error(message), { retryable });
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  return (error as { retryable?: boolean })?.retryable !== false;
+};
+
+/**
+ * POST to a provider with a timeout. Rate limiting and server errors are
+ * retryable; other 4xx responses are not.
+ */
+export const postToProvider = async (
+  url: string,
+  init: { headers: Record<string, string>; body: string | Buffer },
+  provider: string
+): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: init.headers,
+      body: init.body,
+      signal: AbortSignal.timeout(TRANSPORT_TIMEOUT_MS)
+    });
+  } catch (error) {
+    throw createDeliveryError(`${provider} request failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => '')).slice(0, 200);
+    const retryable = response.status === 429 || response.status >= 500;
+    throw createDeliveryError(`${provider} responded ${response.status}${detail ? `: ${detail}` : ''}`, retryable);
+  }
+
+  return response;
+};
@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { NotificationTransport, OutboundMessage, DeliveryResult } from '../../types/notification.types';
+import { NOTIFICATION_WEBHOOK_SECRET } from '../../config/notifications';
+import { postToProvider } from './transportUtils';
+
+/**
+ * JSON POST to a webhook URL. When a secret is configured the body is signed
+ * with HMAC-SHA256 over "<timestamp>.<body>" so receivers can verify it.
+ */
+export class WebhookTransport implements NotificationTransport {
+  readonly channel = 'webhook' as const;
+
+  async send(message: OutboundMessage): Promise<DeliveryResult> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify({
+      id: message.id,
+      subject: message.subject,
+      text: message.text,
+      priority: message.priority,
+      data: message.data || {},
+      sentAt: new Date().toISOString()
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-MediTracker-Delivery': message.id,
+      'X-MediTracker-Timestamp': timestamp
+    };
+
+    if (NOTIFICATION_WEBHOOK_SECRET) {
+      const signature = crypto
+        .createHmac('sha256', NOTIFICATION_WEBHOOK_SECRET)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+      headers['X-MediTracker-Signature'] = `sha256=${signature}`;
+    }
+
+    await postToProvider(message.to, { headers, body }, 'Webhook');
+    return { providerMessageId: message.id };
+  }
+}
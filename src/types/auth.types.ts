@@ -9,6 +9,7 @@ export interface IUser extends Document {
   age?: number;
   gender?: Gender;
   phoneNumber?: string;
+  timezone: string; // IANA timezone, e.g. 'Asia/Kolkata'
   isEmailVerified: boolean;
   otp?: string;
   otpExpires?: Date;
@@ -35,6 +36,7 @@ export interface SignupData {
   gender: Gender;
   phoneNumber: string;
   role: UserRole;
+  timezone?: string;
 }
 
 export interface OTPVerification {
@@ -51,6 +53,7 @@ export interface AuthResponse {
     age?: number;
     gender?: Gender;
     phoneNumber?: string;
+    timezone: string;
     isEmailVerified: boolean;
     createdAt: string;
     updatedAt: string;
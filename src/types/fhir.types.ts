@@ -0,0 +1,152 @@
+// Subset of FHIR R4 (4.0.1) datatypes and resources produced by the FHIR export
+
+export interface FhirReference {
+  reference?: string; // e.g. "Patient/64f0..."
+  display?: string;
+}
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: 'home' | 'work' | 'temp' | 'old' | 'mobile';
+  rank?: number;
+}
+
+export interface FhirHumanName {
+  use?: 'usual' | 'official' | 'temp' | 'nickname' | 'anonymous' | 'old' | 'maiden';
+  text?: string;
+}
+
+export interface FhirTimingRepeat {
+  boundsPeriod?: FhirPeriod;
+  frequency?: number;
+  period?: number;
+  periodUnit?: 's' | 'min' | 'h' | 'd' | 'wk' | 'mo' | 'a';
+  dayOfWeek?: ('mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun')[];
+  timeOfDay?: string[]; // hh:mm:ss
+  when?: string[];
+}
+
+export interface FhirDosage {
+  sequence?: number;
+  text?: string;
+  additionalInstruction?: FhirCodeableConcept[];
+  patientInstruction?: string;
+  timing?: { repeat?: FhirTimingRepeat };
+  asNeededBoolean?: boolean;
+  doseAndRate?: { doseQuantity?: FhirQuantity }[];
+  maxDosePerPeriod?: { numerator: FhirQuantity; denominator: FhirQuantity };
+}
+
+interface FhirResourceBase {
+  id?: string;
+  meta?: { lastUpdated?: string; versionId?: string };
+}
+
+export interface FhirPatient extends FhirResourceBase {
+  resourceType: 'Patient';
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: 'male' | 'female' | 'other' | 'unknown';
+}
+
+export interface FhirRelatedPerson extends FhirResourceBase {
+  resourceType: 'RelatedPerson';
+  patient: FhirReference;
+  relationship?: FhirCodeableConcept[];
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+}
+
+export interface FhirMedicationRequest extends FhirResourceBase {
+  resourceType: 'MedicationRequest';
+  identifier?: FhirIdentifier[];
+  status: 'active' | 'on-hold' | 'cancelled' | 'completed' | 'entered-in-error' | 'stopped' | 'draft' | 'unknown';
+  intent: 'proposal' | 'plan' | 'order' | 'original-order' | 'reflex-order' | 'filler-order' | 'instance-order' | 'option';
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  authoredOn?: string;
+  requester?: FhirReference;
+  note?: { text: string }[];
+  dosageInstruction?: FhirDosage[];
+  dispenseRequest?: {
+    validityPeriod?: FhirPeriod;
+    quantity?: FhirQuantity;
+  };
+}
+
+export interface FhirMedicationStatement extends FhirResourceBase {
+  resourceType: 'MedicationStatement';
+  basedOn?: FhirReference[];
+  status: 'active' | 'completed' | 'entered-in-error' | 'intended' | 'stopped' | 'on-hold' | 'unknown' | 'not-taken';
+  statusReason?: FhirCodeableConcept[];
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  effectivePeriod?: FhirPeriod;
+  dateAsserted?: string;
+  informationSource?: FhirReference;
+  dosage?: FhirDosage[];
+}
+
+export interface FhirMedicationAdministration extends FhirResourceBase {
+  resourceType: 'MedicationAdministration';
+  status: 'in-progress' | 'not-done' | 'on-hold' | 'completed' | 'entered-in-error' | 'stopped' | 'unknown';
+  statusReason?: FhirCodeableConcept[];
+  medicationCodeableConcept: FhirCodeableConcept;
+  subject: FhirReference;
+  effectiveDateTime: string;
+  request?: FhirReference;
+  reasonCode?: FhirCodeableConcept[];
+  note?: { text: string }[];
+  dosage?: {
+    text?: string;
+    dose?: FhirQuantity;
+  };
+}
+
+export type FhirResource =
+  | FhirPatient
+  | FhirRelatedPerson
+  | FhirMedicationRequest
+  | FhirMedicationStatement
+  | FhirMedicationAdministration;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  meta?: { lastUpdated?: string };
+  type: 'document' | 'message' | 'transaction' | 'transaction-response' | 'batch' | 'batch-response' | 'history' | 'searchset' | 'collection';
+  timestamp?: string;
+  total?: number;
+  entry?: { fullUrl?: string; resource: FhirResource }[];
+}
@@ -0,0 +1,27 @@
+// Outbound notification delivery (outbox + pluggable transports)
+
+export type DeliveryChannel = 'email' | 'sms' | 'push' | 'webhook';
+
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export type DeliveryPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface OutboundMessage {
+  id: string; // Outbox entry id, usable as an idempotency key by providers
+  channel: DeliveryChannel;
+  to: string; // Email address, phone number, push endpoint or webhook URL
+  subject?: string;
+  text: string;
+  html?: string;
+  data?: Record<string, unknown>;
+  priority: DeliveryPriority;
+}
+
+export interface DeliveryResult {
+  providerMessageId?: string;
+}
+
+export interface NotificationTransport {
+  channel: DeliveryChannel;
+  send(message: OutboundMessage): Promise<DeliveryResult>;
+}
@@ -1,4 +1,5 @@
-import { getCurrentIST, convertUTCToIST } from './timezoneUtils';
+import { TimingMedication, MealTimes, DEFAULT_MEAL_TIMES, getMinimumDoseIntervalHours, getRegimenForDay } from './medicationTimingUtils';
+import { getLocalDateKey, DEFAULT_TIMEZONE } from './timezoneUtils';
 
 /**
  * Generate short barcode data using medication ID with collision handling
@@ -108,7 +109,15 @@ export const parseMedicationBarcodeData = (barcodeData: string) => {
 };
 
 // Keep the rest of your timing functions...
-export const canTakeMedicationNow = (lastTaken: Date | null, frequency: number): { 
+// All instants are true UTC; the interval check does not depend on the patient's timezone
+// The required gap comes from the medication's schedule (e.g. 8h for every-8-hours, a week for weekly)
+export const canTakeMedicationNow = (
+  lastTaken: Date | null,
+  medication: TimingMedication,
+  mealTimes: MealTimes = DEFAULT_MEAL_TIMES,
+  now: Date = new Date(),
+  timezone: string = DEFAULT_TIMEZONE
+): { 
   canTake: boolean, 
   nextDoseTime?: Date, 
   hoursRemaining?: number 
@@ -118,11 +127,10 @@ export const canTakeMedicationNow = (lastTaken: Date | null, frequency: number):
     return { canTake: true };
   }
 
-  const hoursPerDay = 24;
-  const intervalHours = hoursPerDay / frequency;
-  const now = getCurrentIST();
-  const lasTakenIST = convertUTCToIST(lastTaken);
-  const timeSinceLastDose = (now.getTime() - lasTakenIST.getTime()) / (1000 * 60 * 60);
+  // Dose plans use the spacing of the phase that applies today
+  const regimen = getRegimenForDay(medication, getLocalDateKey(now, timezone), timezone) || medication;
+  const intervalHours = getMinimumDoseIntervalHours(regimen, mealTimes);
+  const timeSinceLastDose = (now.getTime() - lastTaken.getTime()) / (1000 * 60 * 60);
 
   console.log(`Time since last dose: ${timeSinceLastDose.toFixed(2)} hours`);
   console.log(`Required interval: ${intervalHours} hours`);
@@ -132,7 +140,7 @@ export const canTakeMedicationNow = (lastTaken: Date | null, frequency: number):
     return { canTake: true };
   }
 
-  const nextDoseTime = new Date(lasTakenIST.getTime() + (intervalHours * 60 * 60 * 1000));
+  const nextDoseTime = new Date(lastTaken.getTime() + (intervalHours * 60 * 60 * 1000));
   const hoursRemaining = Math.ceil(intervalHours - timeSinceLastDose);
 
   console.log(`Next dose time: ${nextDoseTime}`);
@@ -0,0 +1,161 @@
+import type { MedicationSchedule } from './medicationTimingUtils';
+import { getLocalDateKey, addDaysToDateKey, DEFAULT_TIMEZONE } from './timezoneUtils';
+
+export interface DosePhase {
+  dosage: string;
+  dosageUnit?: string;          // Defaults to the medication's unit
+  frequency?: number;           // Defaults to the medication's frequency
+  schedule?: MedicationSchedule; // Defaults to the medication's schedule
+  durationDays?: number;        // Omitted on the last phase to continue indefinitely
+  instructions?: string;
+}
+
+// Taper / titration plan: phases run back to back from startDate
+export interface DosePlan {
+  startDate: Date;
+  phases: DosePhase[];
+}
+
+export interface ActiveDosePhase {
+  phaseIndex: number;
+  phaseCount: number;
+  dosage: string;
+  dosageUnit?: string;
+  frequency?: number;
+  schedule?: MedicationSchedule;
+  instructions?: string;
+  startDateKey: string;
+  endDateKey: string | null; // Last day of the phase (inclusive), null when open-ended
+  dayOfPhase: number;        // 1-based
+}
+
+export interface PhaseTransition {
+  phaseIndex: number;
+  date: string; // First day of the new phase (YYYY-MM-DD, patient-local)
+  dosage: string;
+  dosageUnit?: string;
+  frequency?: number;
+  instructions?: string;
+}
+
+// The parts of a medication needed to work out today's dose
+interface DosedMedication {
+  dosage: string;
+  dosageUnit: string;
+  dosePlan?: DosePlan | null;
+}
+
+const hasPhases = (plan?: DosePlan | null): plan is DosePlan => {
+  return Boolean(plan && plan.startDate && plan.phases && plan.phases.length > 0);
+};
+
+/**
+ * Local day ranges of every phase in a plan
+ */
+export const getPhaseRanges = (
+  plan: DosePlan,
+  timezone: string = DEFAULT_TIMEZONE
+): { startDateKey: string; endDateKey: string | null }[] => {
+  let startDateKey = getLocalDateKey(new Date(plan.startDate), timezone);
+
+  return plan.phases.map(phase => {
+    const endDateKey = phase.durationDays
+      ? addDaysToDateKey(startDateKey, phase.durationDays - 1)
+      : null;
+    const range = { startDateKey, endDateKey };
+    startDateKey = endDateKey ? addDaysToDateKey(endDateKey, 1) : startDateKey;
+    return range;
+  });
+};
+
+/**
+ * Last day of a plan, or null when the final phase is open-ended
+ */
+export const getPlanEndDateKey = (plan: DosePlan, timezone: string = DEFAULT_TIMEZONE): string | null => {
+  const ranges = getPhaseRanges(plan, timezone);
+  return ranges[ranges.length - 1].endDateKey;
+};
+
+/**
+ * Phase in effect on a local day. Null before the plan starts or after it ends.
+ */
+export const resolveDosePhase = (
+  plan: DosePlan | null | undefined,
+  dateKey: string,
+  timezone: string = DEFAULT_TIMEZONE
+): ActiveDosePhase | null => {
+  if (!hasPhases(plan)) return null;
+
+  const ranges = getPhaseRanges(plan, timezone);
+
+  for (let i = 0; i < ranges.length; i++) {
+    const { startDateKey, endDateKey } = ranges[i];
+    if (dateKey < startDateKey) return null;
+
+    if (endDateKey === null || dateKey <= endDateKey) {
+      const phase = plan.phases[i];
+      return {
+        phaseIndex: i,
+        phaseCount: plan.phases.length,
+        dosage: phase.dosage,
+        dosageUnit: phase.dosageUnit,
+        frequency: phase.frequency,
+        schedule: phase.schedule,
+        instructions: phase.instructions,
+        startDateKey,
+        endDateKey,
+        dayOfPhase: Math.round(
+          (Date.parse(`${dateKey}T00:00:00Z`) - Date.parse(`${startDateKey}T00:00:00Z`)) / (24 * 60 * 60 * 1000)
+        ) + 1
+      };
+    }
+
+    // An open-ended phase never ends, so later phases are unreachable
+    if (endDateKey === null) break;
+  }
+
+  return null;
+};
+
+/**
+ * Phase changes on or after a local day
+ */
+export const getUpcomingPhaseTransitions = (
+  plan: DosePlan | null | undefined,
+  fromDateKey: string,
+  timezone: string = DEFAULT_TIMEZONE
+): PhaseTransition[] => {
+  if (!hasPhases(plan)) return [];
+
+  return getPhaseRanges(plan, timezone)
+    .map((range, phaseIndex) => ({ range, phaseIndex }))
+    .filter(({ range, phaseIndex }) => phaseIndex > 0 && range.startDateKey > fromDateKey)
+    .map(({ range, phaseIndex }) => {
+      const phase = plan.phases[phaseIndex];
+      return {
+        phaseIndex,
+        date: range.startDateKey,
+        dosage: phase.dosage,
+        dosageUnit: phase.dosageUnit,
+        frequency: phase.frequency,
+        instructions: phase.instructions
+      };
+    });
+};
+
+/**
+ * Dose that applies on a local day, taking any dose plan into account
+ */
+export const getDoseForDay = (
+  medication: DosedMedication,
+  dateKey: string,
+  timezone: string = DEFAULT_TIMEZONE
+): { dosage: string; dosageUnit: string; phase: ActiveDosePhase | null } => {
+  const phase = resolveDosePhase(medication.dosePlan, dateKey, timezone);
+
+  return {
+    dosage: phase ? phase.dosage : medication.dosage,
+    dosageUnit: phase?.dosageUnit || medication.dosageUnit,
+    phase
+  };
+};
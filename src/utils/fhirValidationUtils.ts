@@ -0,0 +1,392 @@
+/**
+ * Structural validation of the FHIR R4 resources we produce, following the
+ * cardinalities, datatypes and required value sets in the R4 (4.0.1)
+ * StructureDefinitions. Unknown elements are reported, as R4 does not allow them.
+ */
+
+type ElementType =
+  | 'id' | 'string' | 'boolean' | 'positiveInt' | 'decimal' | 'code' | 'uri'
+  | 'dateTime' | 'instant' | 'time'
+  | 'Reference' | 'CodeableConcept' | 'Coding' | 'Identifier' | 'Quantity' | 'Period'
+  | 'ContactPoint' | 'HumanName' | 'Annotation' | 'Meta' | 'Timing' | 'TimingRepeat'
+  | 'Dosage' | 'DoseAndRate' | 'Ratio' | 'DispenseRequest' | 'AdministrationDosage' | 'BundleEntry';
+
+interface ElementRule {
+  type: ElementType;
+  min?: number;        // 1 when required
+  many?: boolean;      // max = *
+  codes?: readonly string[];   // Required value set binding
+  targets?: readonly string[]; // Allowed reference target types
+}
+
+type StructureRules = Record<string, ElementRule>;
+
+const ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+const DATE_TIME_PATTERN = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)(-(0[1-9]|1[0-2])(-(0[1-9]|[1-2][0-9]|3[0-1])(T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00)))?)?)?$/;
+const INSTANT_PATTERN = /^([0-9]([0-9]([0-9][1-9]|[1-9]0)|[1-9]00)|[1-9]000)-(0[1-9]|1[0-2])-(0[1-9]|[1-2][0-9]|3[0-1])T([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?(Z|(\+|-)((0[0-9]|1[0-3]):[0-5][0-9]|14:00))$/;
+const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9]:([0-5][0-9]|60)(\.[0-9]+)?$/;
+const CODE_PATTERN = /^[^\s]+(\s[^\s]+)*$/;
+const RELATIVE_REFERENCE_PATTERN = /^[A-Z][A-Za-z]+\/[A-Za-z0-9\-.]{1,64}$/;
+
+const RESOURCE_BASE: StructureRules = {
+  resourceType: { type: 'code', min: 1 },
+  id: { type: 'id' },
+  meta: { type: 'Meta' }
+};
+
+// Complex datatypes
+const DATATYPES: Partial<Record<ElementType, StructureRules>> = {
+  Meta: {
+    versionId: { type: 'id' },
+    lastUpdated: { type: 'instant' }
+  },
+  Reference: {
+    reference: { type: 'string' },
+    display: { type: 'string' }
+  },
+  Coding: {
+    system: { type: 'uri' },
+    code: { type: 'code' },
+    display: { type: 'string' }
+  },
+  CodeableConcept: {
+    coding: { type: 'Coding', many: true },
+    text: { type: 'string' }
+  },
+  Identifier: {
+    system: { type: 'uri' },
+    value: { type: 'string' }
+  },
+  Quantity: {
+    value: { type: 'decimal' },
+    unit: { type: 'string' },
+    system: { type: 'uri' },
+    code: { type: 'code' }
+  },
+  Period: {
+    start: { type: 'dateTime' },
+    end: { type: 'dateTime' }
+  },
+  Ratio: {
+    numerator: { type: 'Quantity' },
+    denominator: { type: 'Quantity' }
+  },
+  ContactPoint: {
+    system: { type: 'code', codes: ['phone', 'fax', 'email', 'pager', 'url', 'sms', 'other'] },
+    value: { type: 'string' },
+    use: { type: 'code', codes: ['home', 'work', 'temp', 'old', 'mobile'] },
+    rank: { type: 'positiveInt' }
+  },
+  HumanName: {
+    use: { type: 'code', codes: ['usual', 'official', 'temp', 'nickname', 'anonymous', 'old', 'maiden'] },
+    text: { type: 'string' }
+  },
+  Annotation: {
+    text: { type: 'string', min: 1 }
+  },
+  Timing: {
+    repeat: { type: 'TimingRepeat' }
+  },
+  TimingRepeat: {
+    boundsPeriod: { type: 'Period' },
+    frequency: { type: 'positiveInt' },
+    period: { type: 'decimal' },
+    periodUnit: { type: 'code', codes: ['s', 'min', 'h', 'd', 'wk', 'mo', 'a'] },
+    dayOfWeek: { type: 'code', many: true, codes: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] },
+    timeOfDay: { type: 'time', many: true },
+    when: { type: 'code', many: true }
+  },
+  DoseAndRate: {
+    doseQuantity: { type: 'Quantity' }
+  },
+  Dosage: {
+    sequence: { type: 'positiveInt' },
+    text: { type: 'string' },
+    additionalInstruction: { type: 'CodeableConcept', many: true },
+    patientInstruction: { type: 'string' },
+    timing: { type: 'Timing' },
+    asNeededBoolean: { type: 'boolean' },
+    doseAndRate: { type: 'DoseAndRate', many: true },
+    maxDosePerPeriod: { type: 'Ratio' }
+  },
+  DispenseRequest: {
+    validityPeriod: { type: 'Period' },
+    quantity: { type: 'Quantity' }
+  },
+  AdministrationDosage: {
+    text: { type: 'string' },
+    dose: { type: 'Quantity' }
+  },
+  BundleEntry: {
+    fullUrl: { type: 'uri' },
+    resource: { type: 'string', min: 1 } // Validated as a resource below
+  }
+};
+
+const RESOURCES: Record<string, StructureRules> = {
+  Patient: {
+    ...RESOURCE_BASE,
+    identifier: { type: 'Identifier', many: true },
+    active: { type: 'boolean' },
+    name: { type: 'HumanName', many: true },
+    telecom: { type: 'ContactPoint', many: true },
+    gender: { type: 'code', codes: ['male', 'female', 'other', 'unknown'] }
+  },
+  RelatedPerson: {
+    ...RESOURCE_BASE,
+    patient: { type: 'Reference', min: 1, targets: ['Patient'] },
+    relationship: { type: 'CodeableConcept', many: true },
+    name: { type: 'HumanName', many: true },
+    telecom: { type: 'ContactPoint', many: true }
+  },
+  MedicationRequest: {
+    ...RESOURCE_BASE,
+    identifier: { type: 'Identifier', many: true },
+    status: {
+      type: 'code',
+      min: 1,
+      codes: ['active', 'on-hold', 'cancelled', 'completed', 'entered-in-error', 'stopped', 'draft', 'unknown']
+    },
+    intent: {
+      type: 'code',
+      min: 1,
+      codes: ['proposal', 'plan', 'order', 'original-order', 'reflex-order', 'filler-order', 'instance-order', 'option']
+    },
+    medicationCodeableConcept: { type: 'CodeableConcept', min: 1 },
+    subject: { type: 'Reference', min: 1, targets: ['Patient', 'Group'] },
+    authoredOn: { type: 'dateTime' },
+    requester: { type: 'Reference', targets: ['Practitioner', 'PractitionerRole', 'Organization', 'Patient', 'RelatedPerson', 'Device'] },
+    note: { type: 'Annotation', many: true },
+    dosageInstruction: { type: 'Dosage', many: true },
+    dispenseRequest: { type: 'DispenseRequest' }
+  },
+  MedicationStatement: {
+    ...RESOURCE_BASE,
+    basedOn: { type: 'Reference', many: true, targets: ['MedicationRequest', 'CarePlan', 'ServiceRequest'] },
+    status: {
+      type: 'code',
+      min: 1,
+      codes: ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken']
+    },
+    statusReason: { type: 'CodeableConcept', many: true },
+    medicationCodeableConcept: { type: 'CodeableConcept', min: 1 },
+    subject: { type: 'Reference', min: 1, targets: ['Patient', 'Group'] },
+    effectivePeriod: { type: 'Period' },
+    dateAsserted: { type: 'dateTime' },
+    informationSource: { type: 'Reference', targets: ['Patient', 'Practitioner', 'PractitionerRole', 'RelatedPerson', 'Organization'] },
+    dosage: { type: 'Dosage', many: true }
+  },
+  MedicationAdministration: {
+    ...RESOURCE_BASE,
+    status: {
+      type: 'code',
+      min: 1,
+      codes: ['in-progress', 'not-done', 'on-hold', 'completed', 'entered-in-error', 'stopped', 'unknown']
+    },
+    statusReason: { type: 'CodeableConcept', many: true },
+    medicationCodeableConcept: { type: 'CodeableConcept', min: 1 },
+    subject: { type: 'Reference', min: 1, targets: ['Patient', 'Group'] },
+    effectiveDateTime: { type: 'dateTime', min: 1 },
+    request: { type: 'Reference', targets: ['MedicationRequest'] },
+    reasonCode: { type: 'CodeableConcept', many: true },
+    note: { type: 'Annotation', many: true },
+    dosage: { type: 'AdministrationDosage' }
+  },
+  Bundle: {
+    ...RESOURCE_BASE,
+    type: {
+      type: 'code',
+      min: 1,
+      codes: ['document', 'message', 'transaction', 'transaction-response', 'batch', 'batch-response', 'history', 'searchset', 'collection']
+    },
+    timestamp: { type: 'instant' },
+    total: { type: 'positiveInt' },
+    entry: { type: 'BundleEntry', many: true }
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const checkPrimitive = (value: unknown, rule: ElementRule, path: string, errors: string[]): void => {
+  const fail = (expected: string) => errors.push(`${path}: expected ${expected}`);
+
+  switch (rule.type) {
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('a boolean');
+      return;
+    case 'decimal':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail('a decimal');
+      return;
+    case 'positiveInt':
+      if (!Number.isInteger(value) || (value as number) < 1) fail('a positive integer');
+      return;
+  }
+
+  if (typeof value !== 'string' || value.length === 0 || value.trim().length === 0) {
+    fail('a non-empty string');
+    return;
+  }
+
+  if (rule.type === 'id' && !ID_PATTERN.test(value)) fail('a valid id');
+  if (rule.type === 'code' && !CODE_PATTERN.test(value)) fail('a valid code');
+  if (rule.type === 'uri' && /\s/.test(value)) fail('a valid uri');
+  if (rule.type === 'dateTime' && !DATE_TIME_PATTERN.test(value)) fail('a valid dateTime');
+  if (rule.type === 'instant' && !INSTANT_PATTERN.test(value)) fail('a valid instant');
+  if (rule.type === 'time' && !TIME_PATTERN.test(value)) fail('a valid time');
+
+  if (rule.codes && !rule.codes.includes(value)) {
+    errors.push(`${path}: "${value}" is not in the required value set (${rule.codes.join(', ')})`);
+  }
+};
+
+const checkElement = (value: unknown, rule: ElementRule, path: string, errors: string[]): void => {
+  const structure = DATATYPES[rule.type];
+  if (!structure) {
+    checkPrimitive(value, rule, path, errors);
+    return;
+  }
+
+  if (!isPlainObject(value)) {
+    errors.push(`${path}: expected a ${rule.type}`);
+    return;
+  }
+
+  // ele-1: every element has a value or children
+  if (Object.keys(value).length === 0) {
+    errors.push(`${path}: element must not be empty`);
+    return;
+  }
+
+  checkStructure(value, structure, path, errors);
+
+  if (rule.type === 'Reference') {
+    const reference = value.reference as string | undefined;
+    if (typeof reference === 'string' && !reference.startsWith('urn:uuid:')) {
+      if (!RELATIVE_REFERENCE_PATTERN.test(reference)) {
+        errors.push(`${path}.reference: "${reference}" is not a valid relative reference`);
+      } else if (rule.targets && !rule.targets.includes(reference.split('/')[0])) {
+        errors.push(`${path}.reference: must point to ${rule.targets.join(' | ')}`);
+      }
+    }
+  }
+};
+
+function checkStructure(value: Record<string, unknown>, structure: StructureRules, path: string, errors: string[]): void {
+  for (const key of Object.keys(value)) {
+    if (!structure[key]) {
+      errors.push(`${path}.${key}: unknown element`);
+    }
+  }
+
+  for (const [key, rule] of Object.entries(structure)) {
+    const element = value[key];
+    const elementPath = `${path}.${key}`;
+
+    if (element === undefined || element === null) {
+      if (rule.min) errors.push(`${elementPath}: is required`);
+      continue;
+    }
+
+    if (rule.many) {
+      if (!Array.isArray(element)) {
+        errors.push(`${elementPath}: expected an array`);
+        continue;
+      }
+      if (element.length === 0) {
+        errors.push(`${elementPath}: array must not be empty`);
+        continue;
+      }
+      element.forEach((item, index) => checkElement(item, rule, `${elementPath}[${index}]`, errors));
+    } else if (Array.isArray(element)) {
+      errors.push(`${elementPath}: expected a single value`);
+    } else if (key !== 'resource') {
+      checkElement(element, rule, elementPath, errors);
+    }
+  }
+}
+
+/**
+ * Validate a single resource. Returns a list of problems (empty when valid).
+ */
+export const validateFhirResource = (resource: unknown, path?: string): string[] => {
+  const errors: string[] = [];
+
+  if (!isPlainObject(resource) || typeof resource.resourceType !== 'string') {
+    return [`${path || 'resource'}: missing resourceType`];
+  }
+
+  const structure = RESOURCES[resource.resourceType];
+  if (!structure) {
+    return [`${path || resource.resourceType}: unsupported resourceType ${resource.resourceType}`];
+  }
+
+  const resourcePath = path || resource.resourceType;
+  checkStructure(resource, structure, resourcePath, errors);
+
+  if (resource.resourceType === 'Bundle') {
+    const entries = Array.isArray(resource.entry) ? resource.entry : [];
+
+    // bdl-1: total only when a search set or history
+    if (resource.total !== undefined && !['searchset', 'history'].includes(resource.type as string)) {
+      errors.push(`${resourcePath}.total: only allowed for searchset or history bundles`);
+    }
+
+    const fullUrls = new Set<string>();
+    entries.forEach((entry: any, index: number) => {
+      const entryPath = `${resourcePath}.entry[${index}]`;
+      if (!isPlainObject(entry)) return;
+
+      // bdl-7: fullUrl is unique within a bundle
+      if (typeof entry.fullUrl === 'string') {
+        if (fullUrls.has(entry.fullUrl)) {
+          errors.push(`${entryPath}.fullUrl: duplicate fullUrl ${entry.fullUrl}`);
+        }
+        fullUrls.add(entry.fullUrl);
+      }
+
+      if (entry.resource !== undefined) {
+        if (isPlainObject(entry.resource) && entry.resource.resourceType === 'Bundle') {
+          errors.push(`${entryPath}.resource: nested bundles are not supported`);
+        } else {
+          errors.push(...validateFhirResource(entry.resource, `${entryPath}.resource`));
+        }
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Validate a bundle and check that every reference inside it resolves to an entry
+ */
+export const validateFhirBundle = (bundle: unknown): string[] => {
+  const errors = validateFhirResource(bundle);
+  if (!isPlainObject(bundle) || !Array.isArray(bundle.entry)) return errors;
+
+  const present = new Set(
+    bundle.entry
+      .map((entry: any) => entry?.resource)
+      .filter((resource: any) => resource?.resourceType && resource?.id)
+      .map((resource: any) => `${resource.resourceType}/${resource.id}`)
+  );
+
+  const collectReferences = (value: unknown, path: string): void => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => collectReferences(item, `${path}[${index}]`));
+    } else if (isPlainObject(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        if (key === 'reference' && typeof child === 'string' && RELATIVE_REFERENCE_PATTERN.test(child) && !present.has(child)) {
+          errors.push(`${path}.reference: ${child} is not included in the bundle`);
+        } else {
+          collectReferences(child, `${path}.${key}`);
+        }
+      }
+    }
+  };
+  collectReferences(bundle.entry, 'Bundle.entry');
+
+  return errors;
+};
@@ -1,4 +1,8 @@
 // Backend: src/utils/medicationTimingUtils.ts
+import { formatLocalTime, getLocalDateKey, addDaysToDateKey, zonedTimeToUTC, DEFAULT_TIMEZONE } from './timezoneUtils';
+import { DosePlan, resolveDosePhase } from './dosePlanUtils';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
 
 export interface MealTimes {
   breakfast: string; // "08:00"
@@ -7,9 +11,50 @@ export interface MealTimes {
   snack?: string;    // "15:30"
 }
 
+export interface MedicationSchedule {
+  type: 'meal_anchored' | 'fixed_times' | 'interval';
+  meals?: MealType[];       // meal_anchored: which meals (defaults from frequency)
+  times?: string[];         // fixed_times: clock times in HH:MM
+  intervalHours?: number;   // interval: hours between doses
+  startTime?: string;       // interval: first dose of the day (defaults to breakfast)
+  daysOfWeek?: number[];    // optional: 0 (Sunday) - 6 (Saturday)
+  everyNDays?: number;      // optional: dose every N days counted from anchorDate
+  anchorDate?: Date;        // optional: first dosing day (defaults to creation date)
+}
+
+// Limits for as-needed (PRN) medications
+export interface PRNLimits {
+  maxDosesPer24h: number;
+  minIntervalHours: number;
+  requireReason: boolean;
+}
+
+// The parts of a medication the timing engine needs
+export interface TimingMedication {
+  frequency: number;
+  timingRelation: string;
+  schedule?: MedicationSchedule | null;
+  isPRN?: boolean;
+  prn?: PRNLimits | null;
+  dosePlan?: DosePlan | null;
+  startDate?: Date;
+  endDate?: Date | null;
+  createdAt?: Date;
+}
+
+export interface PRNDoseCheck {
+  canTake: boolean;
+  reason: string;
+  dosesLast24h: number;
+  maxDosesPer24h: number;
+  remainingDoses: number;
+  nextDoseTime?: Date;
+  hoursRemaining?: number;
+}
+
 export interface MedicationWindow {
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  mealTime: string;
+  mealType?: MealType;
+  mealTime: string; // Meal time, or the clock time of a fixed/interval dose
   windowStart: string;
   windowEnd: string;
   isCurrentWindow: boolean;
@@ -23,14 +68,47 @@ export interface TimingValidation {
   timeUntilNextWindow: string | null;
 }
 
+// Default meal times used when a patient has not configured their own
+export const DEFAULT_MEAL_TIMES: MealTimes = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  dinner: '19:00',
+  snack: '15:30'
+};
+
 // Convert time string to minutes for easier calculation
-const timeToMinutes = (timeStr: string): number => {
+export const timeToMinutes = (timeStr: string): number => {
   const [hours, minutes] = timeStr.split(':').map(Number);
   return hours * 60 + minutes;
 };
 
+// Minutes either side of a fixed-time or interval dose in which it can be taken
+const CLOCK_DOSE_WINDOW_MINUTES = 60;
+
+// Slack allowed when checking the minimum interval between two doses
+const DOSE_INTERVAL_TOLERANCE_HOURS = 1;
+
+const MEAL_ORDER: MealType[] = ['breakfast', 'lunch', 'snack', 'dinner'];
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Wrap minutes into a single day (0 - 1439)
+const normalizeMinutes = (minutes: number): number => ((minutes % 1440) + 1440) % 1440;
+
+// Smallest gap in minutes between consecutive times of day, wrapping past midnight
+const getSmallestCircularGap = (sortedMinutes: number[]): number => {
+  if (sortedMinutes.length < 2) return 24 * 60;
+
+  let smallest = 24 * 60;
+  sortedMinutes.forEach((minute, index) => {
+    const next = index + 1 < sortedMinutes.length ? sortedMinutes[index + 1] : sortedMinutes[0] + 24 * 60;
+    smallest = Math.min(smallest, next - minute);
+  });
+  return smallest;
+};
+
 // Convert minutes back to time string
-const minutesToTime = (minutes: number): string => {
+export const minutesToTime = (minutes: number): string => {
   const hours = Math.floor(minutes / 60);
   const mins = minutes % 60;
   return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
@@ -88,8 +166,8 @@ const calculateWindow = (
   }
 };
 
-// Get assigned meals based on frequency
-export const getMealsForFrequency = (frequency: number): ('breakfast' | 'lunch' | 'dinner' | 'snack')[] => {
+// Get assigned meals based on frequency (only meaningful for 1-4 doses a day)
+export const getMealsForFrequency = (frequency: number): MealType[] => {
   switch (frequency) {
     case 1: return ['lunch'];
     case 2: return ['breakfast', 'dinner'];
@@ -99,15 +177,70 @@ export const getMealsForFrequency = (frequency: number): ('breakfast' | 'lunch'
   }
 };
 
-// Calculate all medication windows
+/**
+ * Resolve the effective schedule of a medication. Medications without an explicit
+ * schedule are meal-anchored by frequency; 5 or 6 doses a day become evenly spaced intervals.
+ */
+export const resolveSchedule = (frequency: number, schedule?: MedicationSchedule | null): MedicationSchedule => {
+  if (schedule?.type) {
+    return schedule;
+  }
+
+  if (frequency <= 4) {
+    return { type: 'meal_anchored', meals: getMealsForFrequency(frequency) };
+  }
+
+  return { type: 'interval', intervalHours: 24 / frequency };
+};
+
+// Clock times (minutes of day) at which an interval schedule doses
+const getIntervalDoseMinutes = (schedule: MedicationSchedule, mealTimes: MealTimes): number[] => {
+  const intervalMinutes = Math.round((schedule.intervalHours || 24) * 60);
+  const start = timeToMinutes(schedule.startTime || mealTimes.breakfast);
+  const minutes: number[] = [];
+
+  for (let offset = 0; offset < 24 * 60; offset += intervalMinutes) {
+    minutes.push(normalizeMinutes(start + offset));
+  }
+
+  return minutes.sort((a, b) => a - b);
+};
+
+// Window around a clock-time dose; never wider than half the gap to the next dose
+const calculateClockWindow = (minutes: number, halfWidth: number): MedicationWindow => ({
+  mealTime: minutesToTime(minutes),
+  windowStart: minutesToTime(normalizeMinutes(minutes - halfWidth)),
+  windowEnd: minutesToTime(normalizeMinutes(minutes + halfWidth)),
+  isCurrentWindow: false
+});
+
+// Calculate all medication windows for a dosing day
 export const calculateMedicationWindows = (
   frequency: number,
   timingRelation: string,
-  mealTimes: MealTimes
+  mealTimes: MealTimes,
+  schedule?: MedicationSchedule | null
 ): MedicationWindow[] => {
-  const assignedMeals = getMealsForFrequency(frequency);
+  const effectiveSchedule = resolveSchedule(frequency, schedule);
   const windows: MedicationWindow[] = [];
 
+  if (effectiveSchedule.type === 'fixed_times') {
+    const minutes = [...new Set((effectiveSchedule.times || []).map(timeToMinutes))].sort((a, b) => a - b);
+    const smallestGap = getSmallestCircularGap(minutes);
+    const halfWidth = Math.min(CLOCK_DOSE_WINDOW_MINUTES, Math.floor(smallestGap / 2) - 1);
+    return minutes.map(m => calculateClockWindow(m, halfWidth));
+  }
+
+  if (effectiveSchedule.type === 'interval') {
+    const minutes = getIntervalDoseMinutes(effectiveSchedule, mealTimes);
+    const halfWidth = Math.min(CLOCK_DOSE_WINDOW_MINUTES, Math.floor(getSmallestCircularGap(minutes) / 2) - 1);
+    return minutes.map(m => calculateClockWindow(m, halfWidth));
+  }
+
+  const assignedMeals = effectiveSchedule.meals && effectiveSchedule.meals.length > 0
+    ? MEAL_ORDER.filter(meal => effectiveSchedule.meals!.includes(meal))
+    : getMealsForFrequency(frequency);
+
   for (const mealType of assignedMeals) {
     const mealTime = mealTimes[mealType];
     if (!mealTime) continue;
@@ -126,6 +259,191 @@ export const calculateMedicationWindows = (
   return windows;
 };
 
+/**
+ * Number of doses on a dosing day
+ */
+export const getDosesPerDay = (frequency: number, schedule?: MedicationSchedule | null): number => {
+  const effectiveSchedule = resolveSchedule(frequency, schedule);
+
+  switch (effectiveSchedule.type) {
+    case 'fixed_times':
+      return new Set(effectiveSchedule.times || []).size;
+    case 'interval':
+      return Math.ceil(24 / (effectiveSchedule.intervalHours || 24));
+    default:
+      return effectiveSchedule.meals && effectiveSchedule.meals.length > 0
+        ? effectiveSchedule.meals.length
+        : frequency;
+  }
+};
+
+/**
+ * Whether a local day falls inside the medication's course (start and end days inclusive)
+ */
+export const isWithinCourse = (
+  medication: TimingMedication,
+  dateKey: string,
+  timezone: string = DEFAULT_TIMEZONE
+): boolean => {
+  if (medication.startDate && dateKey < getLocalDateKey(new Date(medication.startDate), timezone)) {
+    return false;
+  }
+  if (medication.endDate && dateKey > getLocalDateKey(new Date(medication.endDate), timezone)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Regimen in effect on a local day. A dose plan swaps in the active phase's
+ * frequency and schedule; null outside the course or when the plan has not
+ * started or has finished.
+ */
+export const getRegimenForDay = (
+  medication: TimingMedication,
+  dateKey: string,
+  timezone: string = DEFAULT_TIMEZONE
+): TimingMedication | null => {
+  if (!isWithinCourse(medication, dateKey, timezone)) {
+    return null;
+  }
+
+  if (!medication.dosePlan?.phases?.length) {
+    return medication;
+  }
+
+  const phase = resolveDosePhase(medication.dosePlan, dateKey, timezone);
+  if (!phase) {
+    return null;
+  }
+
+  return {
+    frequency: phase.frequency || medication.frequency,
+    timingRelation: medication.timingRelation,
+    schedule: phase.schedule?.type ? phase.schedule : medication.schedule,
+    isPRN: medication.isPRN,
+    prn: medication.prn,
+    // Every-N-days rules on a phase schedule count from the start of the phase
+    createdAt: phase.schedule?.type ? zonedTimeToUTC(phase.startDateKey, '12:00', timezone) : medication.createdAt
+  };
+};
+
+/**
+ * Whether a local day is a dosing day under the schedule's day rules
+ */
+export const isDosingDay = (
+  medication: TimingMedication,
+  dateKey: string,
+  timezone: string = DEFAULT_TIMEZONE
+): boolean => {
+  const schedule = medication.schedule;
+  if (!schedule?.type) return true;
+
+  if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
+    const weekday = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+    if (!schedule.daysOfWeek.includes(weekday)) return false;
+  }
+
+  if (schedule.everyNDays && schedule.everyNDays > 1) {
+    const anchor = schedule.anchorDate || medication.createdAt;
+    if (anchor) {
+      const anchorKey = getLocalDateKey(new Date(anchor), timezone);
+      const diffDays = Math.round(
+        (Date.parse(`${dateKey}T00:00:00Z`) - Date.parse(`${anchorKey}T00:00:00Z`)) / (24 * 60 * 60 * 1000)
+      );
+      if (diffDays < 0 || diffDays % schedule.everyNDays !== 0) return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Next dosing day on or after a local day (searches up to a year ahead, across dose plan phases)
+ */
+export const getNextDosingDay = (
+  medication: TimingMedication,
+  fromDateKey: string,
+  timezone: string = DEFAULT_TIMEZONE
+): string | null => {
+  for (let i = 0; i <= 366; i++) {
+    const dateKey = addDaysToDateKey(fromDateKey, i);
+    const regimen = getRegimenForDay(medication, dateKey, timezone);
+    if (regimen && isDosingDay(regimen, dateKey, timezone)) return dateKey;
+  }
+  return null;
+};
+
+/**
+ * Minimum number of hours that must pass between two doses
+ */
+export const getMinimumDoseIntervalHours = (
+  medication: TimingMedication,
+  mealTimes: MealTimes = DEFAULT_MEAL_TIMES
+): number => {
+  const schedule = resolveSchedule(medication.frequency, medication.schedule);
+
+  let gapHours: number;
+  if (schedule.type === 'interval') {
+    gapHours = schedule.intervalHours || 24;
+  } else {
+    const windows = calculateMedicationWindows(medication.frequency, medication.timingRelation, mealTimes, schedule);
+    const minutes = [...new Set(windows.map(w => normalizeMinutes(timeToMinutes(w.mealTime))))].sort((a, b) => a - b);
+
+    if (minutes.length >= 2) {
+      gapHours = getSmallestCircularGap(minutes) / 60;
+    } else if (schedule.everyNDays && schedule.everyNDays > 1) {
+      gapHours = 24 * schedule.everyNDays;
+    } else if (schedule.daysOfWeek && schedule.daysOfWeek.length > 0) {
+      const days = [...new Set(schedule.daysOfWeek)].sort((a, b) => a - b);
+      gapHours = days.length > 1
+        ? 24 * Math.min(...days.map((day, i) => (i + 1 < days.length ? days[i + 1] : days[0] + 7) - day))
+        : 24 * 7;
+    } else {
+      gapHours = 24;
+    }
+  }
+
+  return Math.max(0, gapHours - DOSE_INTERVAL_TOLERANCE_HOURS);
+};
+
+/**
+ * Human readable summary of a schedule, e.g. "Mon, Wed, Fri at 08:00"
+ */
+export const describeSchedule = (medication: TimingMedication): string => {
+  if (isPRNMedication(medication)) {
+    return `As needed (max ${medication.prn!.maxDosesPer24h} in 24 hours)`;
+  }
+
+  const { frequency } = medication;
+  const effectiveSchedule = resolveSchedule(frequency, medication.schedule);
+  let description: string;
+
+  switch (effectiveSchedule.type) {
+    case 'fixed_times':
+      description = `at ${(effectiveSchedule.times || []).join(', ')}`;
+      break;
+    case 'interval':
+      description = `every ${effectiveSchedule.intervalHours} hours`;
+      break;
+    default:
+      description = effectiveSchedule.meals && effectiveSchedule.meals.length > 0
+        ? `with ${effectiveSchedule.meals.join(', ')}`
+        : `${frequency}x daily`;
+  }
+
+  if (effectiveSchedule.daysOfWeek && effectiveSchedule.daysOfWeek.length > 0) {
+    const days = [...effectiveSchedule.daysOfWeek].sort((a, b) => a - b).map(day => DAY_NAMES[day]);
+    return `${days.join(', ')} ${description}`;
+  }
+
+  if (effectiveSchedule.everyNDays && effectiveSchedule.everyNDays > 1) {
+    return `Every ${effectiveSchedule.everyNDays} days ${description}`;
+  }
+
+  return description;
+};
+
 // Check if current time is within a window
 const isTimeInWindow = (currentTime: string, windowStart: string, windowEnd: string): boolean => {
   const current = timeToMinutes(currentTime);
@@ -140,21 +458,54 @@ const isTimeInWindow = (currentTime: string, windowStart: string, windowEnd: str
   return current >= start && current <= end;
 };
 
+// Label used when talking about a window to the patient
+const describeWindow = (window: MedicationWindow): string => {
+  return window.mealType || `dose at ${window.mealTime}`;
+};
+
 // Main validation function
 export const validateMedicationTiming = (
-  frequency: number,
-  timingRelation: string,
+  medication: TimingMedication,
   mealTimes: MealTimes,
-  currentTime?: string
+  options: { currentTime?: string; timezone?: string; now?: Date } = {}
 ): TimingValidation => {
-  const now = currentTime || new Date().toLocaleTimeString('en-GB', { 
-    hour12: false, 
-    hour: '2-digit', 
-    minute: '2-digit' 
-  });
+  const timezone = options.timezone || DEFAULT_TIMEZONE;
+  const nowDate = options.now || new Date();
+  const todayKey = getLocalDateKey(nowDate, timezone);
+
+  // Dose plans only dose between their first and last phase
+  const regimen = getRegimenForDay(medication, todayKey, timezone);
+  if (!regimen) {
+    return {
+      canTake: false,
+      reason: 'No dose scheduled today. The course or dose plan is not active',
+      currentWindows: [],
+      nextWindow: null,
+      timeUntilNextWindow: null
+    };
+  }
+
+  const { frequency, timingRelation, schedule } = regimen;
+
+  // Weekly and every-N-days regimens have days without any dose
+  if (!isDosingDay(regimen, todayKey, timezone)) {
+    const nextDosingDay = getNextDosingDay(medication, todayKey, timezone);
+    return {
+      canTake: false,
+      reason: nextDosingDay
+        ? `No dose scheduled today. Next dose day: ${nextDosingDay}`
+        : 'No dose scheduled today',
+      currentWindows: [],
+      nextWindow: null,
+      timeUntilNextWindow: null
+    };
+  }
 
-  // For anytime medications, always allow
-  if (timingRelation === 'anytime') {
+  // Meal times are the patient's wall-clock times, so compare in their timezone
+  const now = options.currentTime || formatLocalTime(nowDate, timezone);
+
+  // For anytime medications on a meal-anchored schedule, always allow
+  if (timingRelation === 'anytime' && resolveSchedule(frequency, schedule).type === 'meal_anchored') {
     return {
       canTake: true,
       reason: 'This medication can be taken at any time',
@@ -164,7 +515,7 @@ export const validateMedicationTiming = (
     };
   }
 
-  const windows = calculateMedicationWindows(frequency, timingRelation, mealTimes);
+  const windows = calculateMedicationWindows(frequency, timingRelation, mealTimes, schedule);
   
   // Mark current windows
   const currentWindows = windows.filter(window => {
@@ -177,7 +528,9 @@ export const validateMedicationTiming = (
   if (currentWindows.length > 0) {
     return {
       canTake: true,
-      reason: `Perfect timing! Take with ${currentWindows[0].mealType}`,
+      reason: currentWindows[0].mealType
+        ? `Perfect timing! Take with ${currentWindows[0].mealType}`
+        : `Perfect timing! Scheduled dose at ${currentWindows[0].mealTime}`,
       currentWindows,
       nextWindow: null,
       timeUntilNextWindow: null
@@ -208,9 +561,67 @@ export const validateMedicationTiming = (
 
   return {
     canTake: false,
-    reason: `Not the right time. Next window: ${nextWindow?.mealType} (${nextWindow?.windowStart} - ${nextWindow?.windowEnd})`,
+    reason: `Not the right time. Next window: ${nextWindow ? describeWindow(nextWindow) : 'none'} (${nextWindow?.windowStart} - ${nextWindow?.windowEnd})`,
     currentWindows: [],
     nextWindow,
     timeUntilNextWindow: timeUntilNext
   };
-};
\ No newline at end of file
+};
+/**
+ * Whether a medication is taken as needed rather than on a schedule
+ */
+export const isPRNMedication = (medication: TimingMedication): boolean => {
+  return Boolean(medication.isPRN && medication.prn);
+};
+
+/**
+ * Check an as-needed dose against the rolling 24 hour cap and the minimum spacing
+ */
+export const evaluatePRNDose = (
+  limits: PRNLimits,
+  recentDoseTimes: Date[],
+  now: Date = new Date()
+): PRNDoseCheck => {
+  const dayAgo = now.getTime() - 24 * 60 * 60 * 1000;
+  const dosesInWindow = recentDoseTimes
+    .map(time => new Date(time))
+    .filter(time => time.getTime() > dayAgo && time.getTime() <= now.getTime())
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const dosesLast24h = dosesInWindow.length;
+  const remainingDoses = Math.max(0, limits.maxDosesPer24h - dosesLast24h);
+  const result = { dosesLast24h, maxDosesPer24h: limits.maxDosesPer24h, remainingDoses };
+
+  if (dosesLast24h >= limits.maxDosesPer24h) {
+    // A slot frees up once the oldest dose in the window is 24 hours old
+    const oldestIndex = dosesLast24h - limits.maxDosesPer24h;
+    const nextDoseTime = new Date(dosesInWindow[oldestIndex].getTime() + 24 * 60 * 60 * 1000);
+    return {
+      ...result,
+      canTake: false,
+      reason: `Maximum of ${limits.maxDosesPer24h} doses in 24 hours reached`,
+      nextDoseTime,
+      hoursRemaining: Math.ceil((nextDoseTime.getTime() - now.getTime()) / (60 * 60 * 1000))
+    };
+  }
+
+  const lastDose = dosesInWindow[dosesLast24h - 1];
+  if (lastDose && limits.minIntervalHours > 0) {
+    const nextDoseTime = new Date(lastDose.getTime() + limits.minIntervalHours * 60 * 60 * 1000);
+    if (nextDoseTime > now) {
+      return {
+        ...result,
+        canTake: false,
+        reason: `Doses must be at least ${limits.minIntervalHours} hours apart`,
+        nextDoseTime,
+        hoursRemaining: Math.ceil((nextDoseTime.getTime() - now.getTime()) / (60 * 60 * 1000))
+      };
+    }
+  }
+
+  return {
+    ...result,
+    canTake: true,
+    reason: `As-needed dose allowed (${remainingDoses} of ${limits.maxDosesPer24h} left in 24 hours)`
+  };
+};
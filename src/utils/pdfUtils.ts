@@ -0,0 +1,155 @@
+export interface PdfSection {
+  heading: string;
+  lines: string[];
+}
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+const BODY_SIZE = 9;
+const BODY_LEADING = 12;
+const HEADING_SIZE = 12;
+const TITLE_SIZE = 16;
+
+// Helvetica averages about half an em per character, so this fits the text width
+const MAX_LINE_CHARS = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (BODY_SIZE * 0.52));
+
+interface PdfLine {
+  text: string;
+  font: 'F1' | 'F2'; // Helvetica, Helvetica-Bold
+  size: number;
+  spaceBefore: number;
+}
+
+// Standard fonts only cover Latin-1, anything else is replaced
+const escapePdfText = (text: string): string => {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+};
+
+const wrapLine = (text: string, maxChars: number): string[] => {
+  if (text.length <= maxChars) return [text];
+
+  const wrapped: string[] = [];
+  let current = '';
+  for (const word of text.split(' ')) {
+    let remaining = word;
+    // Words longer than a line are hard-broken
+    while (remaining.length > maxChars) {
+      if (current) {
+        wrapped.push(current);
+        current = '';
+      }
+      wrapped.push(remaining.slice(0, maxChars));
+      remaining = remaining.slice(maxChars);
+    }
+
+    if (!current) {
+      current = remaining;
+    } else if (current.length + 1 + remaining.length <= maxChars) {
+      current += ` ${remaining}`;
+    } else {
+      wrapped.push(current);
+      current = remaining;
+    }
+  }
+  if (current) wrapped.push(current);
+
+  return wrapped;
+};
+
+// Lay lines out top to bottom, starting a new page when one is full
+const paginate = (lines: PdfLine[]): PdfLine[][] => {
+  const pages: PdfLine[][] = [[]];
+  let used = 0;
+  const available = PAGE_HEIGHT - 2 * MARGIN - BODY_LEADING; // Room for the page footer
+
+  for (const line of lines) {
+    const height = line.spaceBefore + Math.max(line.size + 3, BODY_LEADING);
+    if (used + height > available && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      used = 0;
+    }
+    pages[pages.length - 1].push(line);
+    used += height;
+  }
+
+  return pages;
+};
+
+const renderPage = (lines: PdfLine[], pageNumber: number, pageCount: number): string => {
+  const ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach((line, index) => {
+    y -= (index === 0 ? 0 : line.spaceBefore) + Math.max(line.size + 3, BODY_LEADING);
+    ops.push(`BT /${line.font} ${line.size} Tf ${MARGIN} ${y} Td (${escapePdfText(line.text)}) Tj ET`);
+  });
+
+  ops.push(`BT /F1 8 Tf ${MARGIN} ${MARGIN - 20} Td (Page ${pageNumber} of ${pageCount}) Tj ET`);
+  return ops.join('\n');
+};
+
+/**
+ * Build a printable, text-only PDF document from a title and sections of lines
+ */
+export const createTextPdf = (title: string, sections: PdfSection[], subtitle?: string): Buffer => {
+  const lines: PdfLine[] = [{ text: title, font: 'F2', size: TITLE_SIZE, spaceBefore: 0 }];
+  if (subtitle) {
+    lines.push({ text: subtitle, font: 'F1', size: BODY_SIZE, spaceBefore: 2 });
+  }
+
+  for (const section of sections) {
+    lines.push({ text: section.heading, font: 'F2', size: HEADING_SIZE, spaceBefore: 14 });
+
+    const body = section.lines.length > 0 ? section.lines : ['None recorded'];
+    body.forEach((text, index) => {
+      wrapLine(text, MAX_LINE_CHARS).forEach((part, partIndex) => {
+        lines.push({
+          text: partIndex === 0 ? part : `    ${part}`,
+          font: 'F1',
+          size: BODY_SIZE,
+          spaceBefore: index === 0 && partIndex === 0 ? 4 : 0
+        });
+      });
+    });
+  }
+
+  const pages = paginate(lines);
+
+  // Objects 1-4 are fixed; each page then adds a page object and its content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const content = renderPage(pageLines, i + 1, pages.length);
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+    );
+    objects.push(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
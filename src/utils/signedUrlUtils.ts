@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+
+const computeSignature = (path: string, expires: number, secret: string): string => {
+  return crypto.createHmac('sha256', secret).update(`${path}:${expires}`).digest('hex');
+};
+
+/**
+ * Append an expiry and HMAC signature to a path, e.g. "/x?expires=1700000000&signature=ab12..."
+ */
+export const createSignedPath = (path: string, expiresAt: Date, secret: string): string => {
+  const expires = Math.floor(expiresAt.getTime() / 1000);
+  return `${path}?expires=${expires}&signature=${computeSignature(path, expires, secret)}`;
+};
+
+/**
+ * Check a signed path. Fails when the signature does not match or the link has expired.
+ */
+export const verifySignedPath = (
+  path: string,
+  expires: unknown,
+  signature: unknown,
+  secret: string,
+  now: Date = new Date()
+): { valid: boolean; expired: boolean } => {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || typeof signature !== 'string') {
+    return { valid: false, expired: false };
+  }
+
+  const expected = Buffer.from(computeSignature(path, expiresAt, secret), 'utf8');
+  const provided = Buffer.from(signature, 'utf8');
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return { valid: false, expired: false };
+  }
+
+  if (expiresAt * 1000 <= now.getTime()) {
+    return { valid: false, expired: true };
+  }
+
+  return { valid: true, expired: false };
+};
@@ -0,0 +1,105 @@
+export interface SosStatusView {
+  patientName: string;
+  status: string;
+  message: string;
+  location?: any;
+  raisedAt: Date;
+  acknowledgedBy: string | null;
+  acknowledgedAt?: Date;
+  resolvedAt?: Date;
+  cancelledAt?: Date;
+  timeline: { type: string; at: Date; actorName?: string; note?: string }[];
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  raised: 'Waiting for a response',
+  escalated: 'Waiting for a response',
+  acknowledged: 'Help is on the way',
+  resolved: 'Resolved',
+  cancelled: 'Cancelled (false alarm)'
+};
+
+// How often an open incident's page reloads itself, in seconds
+const REFRESH_SECONDS = 30;
+
+/**
+ * Escape text for use inside HTML
+ */
+export const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const formatDateTime = (date: Date, timezone: string): string => {
+  return date.toLocaleString('en-GB', { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const renderPage = (title: string, body: string, refresh: boolean = false): string => {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+${refresh ? `<meta http-equiv="refresh" content="${REFRESH_SECONDS}">\n` : ''}<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 0 auto; max-width: 560px; padding: 16px; color: #1f2933; }
+h1 { font-size: 1.4em; }
+.status { font-size: 1.2em; font-weight: bold; padding: 12px; border-radius: 8px; background: #fde8e8; }
+.status.closed { background: #e3f8e8; }
+ol { padding-left: 20px; }
+li { margin-bottom: 8px; }
+small { color: #616e7c; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+};
+
+/**
+ * Plain HTML status page for an SOS incident, for emergency contacts without an account
+ */
+export const renderSosStatusPage = (view: SosStatusView, timezone: string): string => {
+  const isOpen = view.status === 'raised' || view.status === 'escalated' || view.status === 'acknowledged';
+  const statusLabel = STATUS_LABELS[view.status] || view.status;
+
+  let location = '';
+  if (view.location?.address) {
+    location = `<p><strong>Location:</strong> ${escapeHtml(String(view.location.address))}</p>`;
+  } else if (view.location?.latitude !== undefined && view.location?.longitude !== undefined) {
+    const query = `${Number(view.location.latitude)},${Number(view.location.longitude)}`;
+    location = `<p><strong>Location:</strong> <a href="https://maps.google.com/?q=${query}">${query}</a></p>`;
+  }
+
+  const timeline = view.timeline.map(entry => {
+    const actor = entry.actorName ? ` by ${escapeHtml(entry.actorName)}` : '';
+    const note = entry.note ? `<br>${escapeHtml(entry.note)}` : '';
+    return `<li><small>${escapeHtml(formatDateTime(entry.at, timezone))}</small><br><strong>${escapeHtml(entry.type)}</strong>${actor}${note}</li>`;
+  }).join('\n');
+
+  const body = `<h1>Emergency alert from ${escapeHtml(view.patientName)}</h1>
+<p class="status${isOpen && view.status !== 'acknowledged' ? '' : ' closed'}">${escapeHtml(statusLabel)}${view.acknowledgedBy ? ` &mdash; ${escapeHtml(view.acknowledgedBy)} is responding` : ''}</p>
+<p><strong>Message:</strong> ${escapeHtml(view.message)}</p>
+<p><strong>Raised:</strong> ${escapeHtml(formatDateTime(view.raisedAt, timezone))}</p>
+${location}
+<h2>Timeline</h2>
+<ol>
+${timeline}
+</ol>
+${isOpen ? `<p><small>This page refreshes every ${REFRESH_SECONDS} seconds. If you cannot reach ${escapeHtml(view.patientName)}, call your local emergency number.</small></p>` : ''}`;
+
+  return renderPage(`Emergency alert: ${statusLabel}`, body, isOpen);
+};
+
+/**
+ * Plain HTML page for a status link that cannot be shown
+ */
+export const renderStatusErrorPage = (message: string): string => {
+  return renderPage('MediTracker', `<h1>MediTracker</h1>\n<p>${escapeHtml(message)}</p>`);
+};
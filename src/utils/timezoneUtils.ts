@@ -1,45 +1,140 @@
 /**
- * Get current time in IST
+ * Timezone used for users who have not set their own (IANA name)
  */
-export const getCurrentIST = (): Date => {
-  const now = new Date();
-  const utc = now.getTime() + (now.getTimezoneOffset() * 60000);
-  const ist = new Date(utc + (5.5 * 60 * 60000)); // IST is UTC+5:30
-  return ist;
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Kolkata';
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
 };
 
 /**
- * Convert UTC date to IST
+ * Wall-clock components of a UTC instant in a timezone
  */
-export const convertUTCToIST = (utcDate: Date): Date => {
-  const utc = utcDate.getTime() + (utcDate.getTimezoneOffset() * 60000);
-  const ist = new Date(utc + (5.5 * 60 * 60000));
-  return ist;
+const getZonedParts = (date: Date, timezone: string) => {
+  const parts: Record<string, number> = {};
+  getFormatter(timezone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
 };
 
 /**
- * Get start of today in IST
+ * Check whether a string is a valid IANA timezone name
  */
-export const getTodayStartIST = (): Date => {
-  const now = getCurrentIST();
-  now.setHours(0, 0, 0, 0);
-  return now;
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
 };
 
 /**
- * Get end of today in IST
+ * Resolve a possibly missing timezone to a usable one
  */
-export const getTodayEndIST = (): Date => {
-  const now = getCurrentIST();
-  now.setHours(23, 59, 59, 999);
-  return now;
+export const resolveTimezone = (timezone?: string | null): string => {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
 };
 
 /**
- * Get date N days ago in IST
+ * Offset of a timezone from UTC in minutes at a given instant (DST aware)
  */
-export const getDaysAgoIST = (days: number): Date => {
-  const now = getCurrentIST();
-  now.setDate(now.getDate() - days);
-  return now;
-};
\ No newline at end of file
+export const getTimezoneOffsetMinutes = (date: Date, timezone: string): number => {
+  const parts = getZonedParts(date, timezone);
+  const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUTC - instant) / 60000);
+};
+
+/**
+ * Get the local calendar day (YYYY-MM-DD) of a UTC instant in a timezone
+ */
+export const getLocalDateKey = (date: Date = new Date(), timezone: string = DEFAULT_TIMEZONE): string => {
+  const parts = getZonedParts(date, timezone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+};
+
+/**
+ * Format a UTC instant as local wall-clock time (HH:MM) in a timezone
+ */
+export const formatLocalTime = (date: Date, timezone: string = DEFAULT_TIMEZONE): string => {
+  const parts = getZonedParts(date, timezone);
+  return `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`;
+};
+
+/**
+ * Shift a YYYY-MM-DD day key by N days
+ */
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+};
+
+/**
+ * Convert local wall-clock minutes-since-midnight on a local day to a true UTC instant.
+ * Minutes outside 0-1439 roll over into neighbouring days.
+ */
+export const zonedMinutesToUTC = (dateKey: string, minutesOfDay: number, timezone: string = DEFAULT_TIMEZONE): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+
+  // Resolve the offset at the guessed instant, then re-check in case a DST change lies in between
+  const firstOffset = getTimezoneOffsetMinutes(new Date(wallClock), timezone);
+  let instant = wallClock - firstOffset * 60000;
+  const secondOffset = getTimezoneOffsetMinutes(new Date(instant), timezone);
+  if (secondOffset !== firstOffset) {
+    instant = wallClock - secondOffset * 60000;
+  }
+
+  return new Date(instant);
+};
+
+/**
+ * Convert a local wall-clock time (HH:MM) on a local day to a true UTC instant
+ */
+export const zonedTimeToUTC = (dateKey: string, time: string, timezone: string = DEFAULT_TIMEZONE): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return zonedMinutesToUTC(dateKey, hours * 60 + minutes, timezone);
+};
+
+/**
+ * Get the UTC instants bounding a local day
+ */
+export const getLocalDayBounds = (dateKey: string, timezone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } => {
+  const start = zonedTimeToUTC(dateKey, '00:00', timezone);
+  const nextStart = zonedTimeToUTC(addDaysToDateKey(dateKey, 1), '00:00', timezone);
+  return { start, end: new Date(nextStart.getTime() - 1) };
+};
+
+/**
+ * Get the UTC instants bounding today in a timezone
+ */
+export const getTodayBounds = (timezone: string = DEFAULT_TIMEZONE): { start: Date; end: Date } => {
+  return getLocalDayBounds(getLocalDateKey(new Date(), timezone), timezone);
+};
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+
+// Record size advertised in the aes128gcm header; payloads are sent as a single record
+const RECORD_SIZE = 4096;
+
+const base64UrlEncode = (data: Buffer): string => data.toString('base64url');
+
+const base64UrlDecode = (value: string): Buffer => Buffer.from(value, 'base64url');
+
+/**
+ * Encrypt a push message payload for a browser subscription (RFC 8291, aes128gcm)
+ */
+export const encryptPushPayload = (
+  payload: Buffer,
+  subscriptionKeys: { p256dh: string; auth: string },
+  salt: Buffer = crypto.randomBytes(16)
+): Buffer => {
+  const userAgentPublicKey = base64UrlDecode(subscriptionKeys.p256dh);
+  const authSecret = base64UrlDecode(subscriptionKeys.auth);
+
+  if (userAgentPublicKey.length !== 65 || authSecret.length !== 16) {
+    throw new Error('Invalid push subscription keys');
+  }
+
+  // A fresh key pair per message, as the spec requires
+  const serverKeys = crypto.createECDH('prime256v1');
+  const serverPublicKey = serverKeys.generateKeys();
+  const sharedSecret = serverKeys.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const inputKey = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  const contentKey = Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  // 0x02 marks the last (only) record
+  const plaintext = Buffer.concat([payload, Buffer.from([0x02])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload is too large');
+  }
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+
+  return Buffer.concat([salt, recordSize, Buffer.from([serverPublicKey.length]), serverPublicKey, ciphertext]);
+};
+
+/**
+ * Whether an endpoint belongs to one of the given push services. Only https on the
+ * default port is accepted, so the dispatcher never posts to an arbitrary host.
+ */
+export const isPushServiceEndpoint = (endpoint: string, hosts: string[]): boolean => {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' || url.port !== '' || url.username || url.password) return false;
+
+  const hostname = url.hostname.toLowerCase();
+  return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+};
+
+/**
+ * Build the VAPID Authorization header for a push service (RFC 8292)
+ */
+export const createVapidAuthorization = (
+  endpoint: string,
+  vapidKeys: { publicKey: string; privateKey: string },
+  subject: string,
+  expiresAt: Date = new Date(Date.now() + 12 * 60 * 60 * 1000)
+): string => {
+  const publicKey = base64UrlDecode(vapidKeys.publicKey);
+  if (publicKey.length !== 65) {
+    throw new Error('Invalid VAPID public key');
+  }
+
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapidKeys.privateKey,
+      x: base64UrlEncode(publicKey.subarray(1, 33)),
+      y: base64UrlEncode(publicKey.subarray(33, 65))
+    },
+    format: 'jwk'
+  });
+
+  const header = base64UrlEncode(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+    sub: subject
+  })));
+
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key: privateKey,
+    dsaEncoding: 'ieee-p1363'
+  });
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapidKeys.publicKey}`;
+};